@@ -0,0 +1,70 @@
+// Minimal collections API for developing against the REST storage backend.
+//
+//   pnpm mock-api                  # in-memory, data is lost on restart
+//   MOCK_API_FILE=data.json pnpm mock-api
+//
+// Then start the app with VITE_STORAGE_BACKEND=rest VITE_API_BASE_URL=http://localhost:4000
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const port = Number(process.env.MOCK_API_PORT || 4000);
+const dataFile = process.env.MOCK_API_FILE;
+
+const collections = dataFile && existsSync(dataFile) ? JSON.parse(readFileSync(dataFile, 'utf8')) : {};
+
+const persist = () => {
+  if (dataFile) {
+    writeFileSync(dataFile, JSON.stringify(collections, null, 2));
+  }
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const match = new URL(req.url, `http://localhost:${port}`).pathname.match(/^\/collections\/([^/]+)$/);
+  if (!match) return send(res, 404, { error: 'Not found' });
+
+  const key = decodeURIComponent(match[1]);
+
+  try {
+    switch (req.method) {
+      case 'GET':
+        return key in collections ? send(res, 200, collections[key]) : send(res, 404, { error: 'Not found' });
+      case 'PUT':
+        collections[key] = JSON.parse(await readBody(req));
+        persist();
+        return send(res, 204);
+      case 'DELETE':
+        delete collections[key];
+        persist();
+        return send(res, 204);
+      default:
+        return send(res, 405, { error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error(`${req.method} ${key} failed:`, error);
+    return send(res, 400, { error: 'Invalid request body' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Mock API listening on http://localhost:${port}${dataFile ? ` (persisting to ${dataFile})` : ''}`);
+});
@@ -1,23 +1,17 @@
 import { Toaster } from '@/components/ui/sonner';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { useEffect } from 'react';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import DashboardLayout from '@/components/layout/DashboardLayout';
-import Dashboard from '@/pages/Dashboard';
-import UserManagement from '@/pages/admin/UserManagement';
-import RoleManagement from '@/pages/admin/RoleManagement';
-import ClientManagement from '@/pages/clients/ClientManagement';
-import FormBuilder from '@/pages/forms/FormBuilder';
-import FormSubmissions from '@/pages/forms/FormSubmissions';
-import DigitalFormManagement from '@/pages/forms/DigitalFormManagement';
 import PublicFormView from '@/pages/forms/PublicFormView';
-import CustomerCareModule from '@/pages/customer-care/CustomerCareModule';
-import ReportsModule from '@/pages/reports/ReportsModule';
-import WhatsAppModule from '@/pages/communication/WhatsAppModule';
-import SIPTrunkModule from '@/pages/communication/SIPTrunkModule';
-import FieldVisitModule from '@/pages/field-visits/FieldVisitModule';
+import AccessDenied from '@/pages/AccessDenied';
+import { appRoutes } from '@/routes';
+import type { AppRoute } from '@/routes';
+import { canAccess, recordAccessDenial } from '@/lib/routeAccess';
 import Login from './pages/Login';
+import ResetPassword from './pages/ResetPassword';
 import NotFound from './pages/NotFound';
 
 const queryClient = new QueryClient();
@@ -25,7 +19,29 @@ const queryClient = new QueryClient();
 // Protected Route Component - Must be inside AuthProvider
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
   const { user } = useAuth();
-  return user ? <>{children}</> : <Navigate to="/login" replace />;
+  const location = useLocation();
+
+  if (!user) return <Navigate to="/login" replace />;
+  // A forced password change has to happen before anything else
+  if (user.mustChangePassword && location.pathname !== '/account/password') {
+    return <Navigate to="/account/password" replace />;
+  }
+  return <>{children}</>;
+};
+
+// Permission Guard - renders the access denied page instead of the route and logs the attempt
+const PermissionRoute = ({ route }: { route: AppRoute }) => {
+  const { user, hasPermission } = useAuth();
+  const location = useLocation();
+  const allowed = canAccess(route, hasPermission);
+
+  useEffect(() => {
+    if (user && !allowed) {
+      recordAccessDenial(user.id, location.pathname, route.permissions || []);
+    }
+  }, [user?.id, allowed, location.pathname]);
+
+  return allowed ? <route.component /> : <AccessDenied requiredPermissions={route.permissions || []} />;
 };
 
 // Public Route Component - Must be inside AuthProvider
@@ -46,6 +62,9 @@ const AppRoutes = () => {
         element={user ? <Navigate to="/dashboard" replace /> : <Login />} 
       />
       
+      {/* Password reset links - No authentication required */}
+      <Route path="/reset-password/:token" element={<ResetPassword />} />
+      
       {/* Public Form Route - No authentication required */}
       <Route path="/form/:formId" element={<PublicFormView />} />
       
@@ -61,33 +80,10 @@ const AppRoutes = () => {
         {/* Default redirect to dashboard */}
         <Route index element={<Navigate to="/dashboard" replace />} />
         
-        {/* Dashboard Routes */}
-        <Route path="dashboard" element={<Dashboard />} />
-        
-        {/* Admin Routes */}
-        <Route path="admin/users" element={<UserManagement />} />
-        <Route path="admin/roles" element={<RoleManagement />} />
-        
-        {/* Client Routes */}
-        <Route path="clients" element={<ClientManagement />} />
-        
-        {/* Field Visits Routes */}
-        <Route path="field-visits" element={<FieldVisitModule />} />
-        
-        {/* Form Routes */}
-        <Route path="forms" element={<DigitalFormManagement />} />
-        <Route path="forms/builder" element={<FormBuilder />} />
-        <Route path="forms/submissions" element={<FormSubmissions />} />
-        
-        {/* Customer Care Routes */}
-        <Route path="customer-care" element={<CustomerCareModule />} />
-        
-        {/* Reports Routes */}
-        <Route path="reports" element={<ReportsModule />} />
-        
-        {/* Communication Routes */}
-        <Route path="communication/whatsapp" element={<WhatsAppModule />} />
-        <Route path="communication/sip-trunk" element={<SIPTrunkModule />} />
+        {/* Page Routes - declared with their permissions in routes.ts */}
+        {appRoutes.map(route => (
+          <Route key={route.path} path={route.path} element={<PermissionRoute route={route} />} />
+        ))}
       </Route>
       
       {/* 404 Route */}
@@ -0,0 +1,315 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowRight, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import type { ReassignableType, ReassignmentBatch, Region, Team, User } from '@/lib/repositories';
+import { rankReassignmentCandidates } from '@/lib/organisation';
+import {
+  REASSIGNABLE_LABELS,
+  UNDO_WINDOW_MS,
+  applyReassignment,
+  distributeRecords,
+  recordKey,
+} from '@/lib/reassignment';
+import type { AssignedRecord, DistributionMode, ReassignmentPlan } from '@/lib/reassignment';
+
+type WizardStep = 'preview' | 'assign' | 'confirm';
+
+const STEPS: { id: WizardStep; title: string }[] = [
+  { id: 'preview', title: 'Preview' },
+  { id: 'assign', title: 'Assign' },
+  { id: 'confirm', title: 'Confirm' },
+];
+
+const MODE_LABELS: Record<DistributionMode, string> = {
+  single: 'Everything to one user',
+  round_robin: 'Round-robin across the selected users',
+  by_area: 'By area (team region), round-robin for the rest',
+};
+
+interface ReassignmentWizardProps {
+  // The departing user; null keeps the wizard closed
+  user: User | null;
+  records: AssignedRecord[];
+  users: User[];
+  teams: Team[];
+  regions: Region[];
+  currentUserId: string;
+  onClose: () => void;
+  onComplete: (batch: ReassignmentBatch) => void;
+}
+
+// Step-by-step replacement for the old all-or-nothing transfer when deleting a user
+const ReassignmentWizard: React.FC<ReassignmentWizardProps> = ({
+  user,
+  records,
+  users,
+  teams,
+  regions,
+  currentUserId,
+  onClose,
+  onComplete,
+}) => {
+  const [step, setStep] = useState<WizardStep>('preview');
+  const [mode, setMode] = useState<DistributionMode>('single');
+  const [targetUserIds, setTargetUserIds] = useState<string[]>([]);
+  const [plan, setPlan] = useState<ReassignmentPlan>({});
+
+  // Start over whenever the wizard opens for another user
+  useEffect(() => {
+    setStep('preview');
+    setMode('single');
+    setTargetUserIds([]);
+    setPlan({});
+  }, [user?.id]);
+
+  // Active users other than the departing one and the admin, same team first
+  const candidates = useMemo(() => {
+    if (!user) return [];
+    const eligible = users.filter(u => u.id !== user.id && u.id !== currentUserId && u.status === 'active');
+    return rankReassignmentCandidates(eligible, { teamId: user.teamId }, teams, regions);
+  }, [user, users, currentUserId, teams, regions]);
+
+  const countsByType = useMemo(() => {
+    const counts: Partial<Record<ReassignableType, number>> = {};
+    records.forEach(record => {
+      counts[record.type] = (counts[record.type] || 0) + 1;
+    });
+    return counts;
+  }, [records]);
+
+  const getUserName = (userId: string) => users.find(u => u.id === userId)?.name || 'Unknown user';
+
+  const handleToggleTarget = (userId: string, checked: boolean) => {
+    const next = mode === 'single'
+      ? (checked ? [userId] : [])
+      : checked ? [...targetUserIds, userId] : targetUserIds.filter(id => id !== userId);
+    setTargetUserIds(next);
+    setPlan(distributeRecords(records, mode, next, { users, teams, regions }));
+  };
+
+  const handleModeChange = (value: DistributionMode) => {
+    const next = value === 'single' ? targetUserIds.slice(0, 1) : targetUserIds;
+    setMode(value);
+    setTargetUserIds(next);
+    setPlan(distributeRecords(records, value, next, { users, teams, regions }));
+  };
+
+  const unassignedCount = records.filter(record => !plan[recordKey(record)]).length;
+
+  const recipientSummary = useMemo(() => {
+    const summary = new Map<string, number>();
+    Object.values(plan).forEach(userId => summary.set(userId, (summary.get(userId) || 0) + 1));
+    return [...summary.entries()];
+  }, [plan]);
+
+  const handleNext = () => {
+    if (step === 'preview') {
+      setStep('assign');
+      return;
+    }
+    if (unassignedCount > 0) {
+      toast.error(`Choose a new owner for the remaining ${unassignedCount} record(s)`);
+      return;
+    }
+    setStep('confirm');
+  };
+
+  const handleBack = () => setStep(step === 'confirm' ? 'assign' : 'preview');
+
+  const handleConfirm = () => {
+    if (!user) return;
+    try {
+      const batch = applyReassignment({ fromUser: user, plan, performedBy: currentUserId, deleteUser: true });
+      onComplete(batch);
+    } catch (error) {
+      console.error('Error reassigning records:', error);
+      toast.error('Failed to reassign records');
+    }
+  };
+
+  const stepIndex = STEPS.findIndex(s => s.id === step);
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5 text-orange-600" />
+            Reassign work from {user?.name}
+          </DialogTitle>
+          <DialogDescription>
+            {records.length} records are assigned to this user. Choose who takes them over before the account is deleted.
+            Creators stay as they were; only the assignee changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          {STEPS.map((s, index) => (
+            <React.Fragment key={s.id}>
+              <Badge variant={index === stepIndex ? 'default' : index < stepIndex ? 'secondary' : 'outline'}>
+                {index + 1}. {s.title}
+              </Badge>
+              {index < STEPS.length - 1 && <ArrowRight className="h-3 w-3 text-gray-400" />}
+            </React.Fragment>
+          ))}
+        </div>
+
+        {step === 'preview' && (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {(Object.keys(REASSIGNABLE_LABELS) as ReassignableType[]).map(type => (
+                <div key={type} className="rounded-lg border p-3">
+                  <div className="text-xs text-gray-500">{REASSIGNABLE_LABELS[type]}</div>
+                  <div className="text-xl font-bold">{countsByType[type] || 0}</div>
+                </div>
+              ))}
+            </div>
+            <div className="max-h-72 overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Area</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {records.map(record => (
+                    <TableRow key={recordKey(record)}>
+                      <TableCell><Badge variant="outline">{REASSIGNABLE_LABELS[record.type]}</Badge></TableCell>
+                      <TableCell className="text-sm">{record.label}</TableCell>
+                      <TableCell className="text-sm capitalize">{record.status.replace('_', ' ')}</TableCell>
+                      <TableCell className="text-sm text-gray-500">{record.area || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {step === 'assign' && (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="reassign-mode">Distribution</Label>
+              <Select value={mode} onValueChange={handleModeChange}>
+                <SelectTrigger id="reassign-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(MODE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{mode === 'single' ? 'Receiving user' : 'Receiving users'}</Label>
+              {candidates.length === 0 ? (
+                <p className="text-sm text-red-600">No active users are available to take over these records.</p>
+              ) : (
+                <div className="max-h-40 overflow-y-auto border rounded-md p-3 space-y-2">
+                  {candidates.map(({ user: candidate, sameTeam }) => (
+                    <div key={candidate.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`target-${candidate.id}`}
+                        checked={targetUserIds.includes(candidate.id)}
+                        onCheckedChange={(checked) => handleToggleTarget(candidate.id, !!checked)}
+                      />
+                      <Label htmlFor={`target-${candidate.id}`} className="text-sm flex items-center gap-2">
+                        {candidate.name}
+                        <span className="text-xs text-gray-500">{candidate.email}</span>
+                        {sameTeam && <Badge variant="secondary" className="text-xs">Same team</Badge>}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Per-record assignment</Label>
+              <div className="max-h-64 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Record</TableHead>
+                      <TableHead>New owner</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {records.map(record => (
+                      <TableRow key={recordKey(record)}>
+                        <TableCell className="text-sm">
+                          <div>{record.label}</div>
+                          <div className="text-xs text-gray-500">
+                            {REASSIGNABLE_LABELS[record.type]}{record.area ? ` · ${record.area}` : ''}
+                          </div>
+                        </TableCell>
+                        <TableCell className="w-56">
+                          <Select
+                            value={plan[recordKey(record)] || ''}
+                            onValueChange={(value) => setPlan({ ...plan, [recordKey(record)]: value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue placeholder="Choose a user" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {candidates.map(({ user: candidate }) => (
+                                <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'confirm' && (
+          <div className="space-y-4 py-2">
+            <div className="rounded-lg border bg-blue-50 border-blue-200 p-4 space-y-2">
+              <h4 className="font-medium text-blue-900">Records will move to:</h4>
+              {recipientSummary.map(([userId, count]) => (
+                <div key={userId} className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">{getUserName(userId)}</span>
+                  <ArrowRight className="h-3 w-3 text-blue-600" />
+                  <span>{count} record(s)</span>
+                </div>
+              ))}
+            </div>
+            <div className="rounded-lg border bg-red-50 border-red-200 p-4 text-sm text-red-800">
+              {user?.name}'s account will then be deleted. You can undo both for the next {UNDO_WINDOW_MS / 60000} minutes
+              from User Management.
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          {step !== 'preview' && (
+            <Button variant="outline" onClick={handleBack}>Back</Button>
+          )}
+          {step === 'confirm' ? (
+            <Button variant="destructive" onClick={handleConfirm}>Reassign & Delete User</Button>
+          ) : (
+            <Button onClick={handleNext} disabled={step === 'assign' && candidates.length === 0}>Next</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReassignmentWizard;
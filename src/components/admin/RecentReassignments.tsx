@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Undo2 } from 'lucide-react';
+import { reassignmentRepository } from '@/lib/repositories';
+import { canUndoReassignment } from '@/lib/reassignment';
+import { useRepository } from '@/hooks/useRepository';
+
+// How often the list re-checks which batches are still inside the undo window
+const REFRESH_INTERVAL = 30000;
+
+interface RecentReassignmentsProps {
+  onUndo: (batchId: string) => void;
+}
+
+// Reassignments that can still be undone; the card disappears once the grace periods run out
+const RecentReassignments: React.FC<RecentReassignmentsProps> = ({ onUndo }) => {
+  const batches = useRepository(reassignmentRepository);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const undoable = batches.filter(batch => canUndoReassignment(batch, now)).reverse();
+  if (undoable.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Undo2 className="h-4 w-4" />
+          Recent Reassignments
+        </CardTitle>
+        <CardDescription>Reassignments and the deletions that came with them can be undone for a short time</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>From</TableHead>
+              <TableHead>Records</TableHead>
+              <TableHead>Undo until</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {undoable.map(batch => (
+              <TableRow key={batch.id}>
+                <TableCell className="text-sm">
+                  {batch.fromUserName}
+                  {batch.deletedUserId && <Badge variant="destructive" className="ml-2 text-xs">Deleted</Badge>}
+                </TableCell>
+                <TableCell className="text-sm">{batch.changes.length}</TableCell>
+                <TableCell className="text-sm text-gray-500">{new Date(batch.undoUntil).toLocaleTimeString()}</TableCell>
+                <TableCell className="text-right">
+                  <Button variant="outline" size="sm" onClick={() => onUndo(batch.id)}>
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Undo
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecentReassignments;
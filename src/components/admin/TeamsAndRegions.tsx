@@ -0,0 +1,361 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Edit, Map, Plus, Trash2, UsersRound } from 'lucide-react';
+import { toast } from 'sonner';
+import { regionRepository, teamRepository } from '@/lib/repositories';
+import type { Region, Team, User } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
+
+// Select items can't have an empty value
+const NO_REGION = 'none';
+
+interface TeamsAndRegionsProps {
+  users: User[];
+  canEdit: boolean;
+}
+
+// Team and region setup shown on the User Management page. Membership itself is set per user.
+const TeamsAndRegions: React.FC<TeamsAndRegionsProps> = ({ users, canEdit }) => {
+  const teams = useRepository(teamRepository);
+  const regions = useRepository(regionRepository);
+
+  const [editingTeam, setEditingTeam] = useState<string | null>(null);
+  const [isTeamModalOpen, setIsTeamModalOpen] = useState(false);
+  const [teamData, setTeamData] = useState({ name: '', description: '', supervisorId: '', regionId: NO_REGION });
+
+  const [editingRegion, setEditingRegion] = useState<string | null>(null);
+  const [isRegionModalOpen, setIsRegionModalOpen] = useState(false);
+  const [regionData, setRegionData] = useState({ name: '', areas: '' });
+
+  const getUserName = (userId: string) => users.find(u => u.id === userId)?.name || 'Unknown user';
+  const getRegionName = (regionId?: string) => regions.find(r => r.id === regionId)?.name;
+
+  const handleAddTeam = () => {
+    setEditingTeam(null);
+    setTeamData({ name: '', description: '', supervisorId: '', regionId: NO_REGION });
+    setIsTeamModalOpen(true);
+  };
+
+  const handleEditTeam = (team: Team) => {
+    setEditingTeam(team.id);
+    setTeamData({
+      name: team.name,
+      description: team.description,
+      supervisorId: team.supervisorId,
+      regionId: team.regionId || NO_REGION,
+    });
+    setIsTeamModalOpen(true);
+  };
+
+  const handleSubmitTeam = () => {
+    if (!teamData.name.trim() || !teamData.supervisorId) {
+      toast.error('Please enter a team name and choose a supervisor');
+      return;
+    }
+    const nameExists = teams.some(team =>
+      team.name.toLowerCase() === teamData.name.trim().toLowerCase() && team.id !== editingTeam
+    );
+    if (nameExists) {
+      toast.error('Team name already exists');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const changes = {
+      name: teamData.name.trim(),
+      description: teamData.description.trim(),
+      supervisorId: teamData.supervisorId,
+      regionId: teamData.regionId === NO_REGION ? undefined : teamData.regionId,
+      updatedAt: now,
+    };
+
+    if (editingTeam) {
+      teamRepository.update(editingTeam, changes);
+      toast.success('Team updated successfully');
+    } else {
+      teamRepository.create({ id: `team_${Date.now()}`, ...changes, createdAt: now });
+      toast.success('Team created successfully');
+    }
+    setIsTeamModalOpen(false);
+  };
+
+  const handleDeleteTeam = (team: Team) => {
+    const members = users.filter(u => u.teamId === team.id);
+    if (members.length > 0) {
+      toast.error(`Move the ${members.length} member(s) of ${team.name} to another team first`);
+      return;
+    }
+    teamRepository.remove(team.id);
+    toast.success('Team deleted successfully');
+  };
+
+  const handleAddRegion = () => {
+    setEditingRegion(null);
+    setRegionData({ name: '', areas: '' });
+    setIsRegionModalOpen(true);
+  };
+
+  const handleEditRegion = (region: Region) => {
+    setEditingRegion(region.id);
+    setRegionData({ name: region.name, areas: region.areas.join(', ') });
+    setIsRegionModalOpen(true);
+  };
+
+  const handleSubmitRegion = () => {
+    const areas = [...new Set(regionData.areas.split(',').map(area => area.trim()).filter(Boolean))];
+    if (!regionData.name.trim() || areas.length === 0) {
+      toast.error('Please enter a region name and at least one area');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    if (editingRegion) {
+      regionRepository.update(editingRegion, { name: regionData.name.trim(), areas, updatedAt: now });
+      toast.success('Region updated successfully');
+    } else {
+      regionRepository.create({ id: `region_${Date.now()}`, name: regionData.name.trim(), areas, createdAt: now, updatedAt: now });
+      toast.success('Region created successfully');
+    }
+    setIsRegionModalOpen(false);
+  };
+
+  const handleDeleteRegion = (region: Region) => {
+    teams
+      .filter(team => team.regionId === region.id)
+      .forEach(team => teamRepository.update(team.id, { regionId: undefined }));
+    regionRepository.remove(region.id);
+    toast.success('Region deleted successfully');
+  };
+
+  const activeUsers = users.filter(u => u.status === 'active');
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base flex items-center gap-2">
+              <UsersRound className="h-4 w-4" />
+              Teams
+            </CardTitle>
+            <CardDescription>Supervisors see the visits, tasks and reports of their team</CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" onClick={handleAddTeam}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Team
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {teams.length === 0 ? (
+            <p className="text-sm text-gray-500">No teams yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Team</TableHead>
+                  <TableHead>Supervisor</TableHead>
+                  <TableHead>Region</TableHead>
+                  <TableHead>Members</TableHead>
+                  {canEdit && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {teams.map(team => (
+                  <TableRow key={team.id}>
+                    <TableCell>
+                      <div className="font-medium text-sm">{team.name}</div>
+                      {team.description && <div className="text-xs text-gray-500">{team.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{getUserName(team.supervisorId)}</TableCell>
+                    <TableCell>
+                      {getRegionName(team.regionId)
+                        ? <Badge variant="outline">{getRegionName(team.regionId)}</Badge>
+                        : <span className="text-xs text-gray-400">-</span>}
+                    </TableCell>
+                    <TableCell className="text-sm">{users.filter(u => u.teamId === team.id).length}</TableCell>
+                    {canEdit && (
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="sm" onClick={() => handleEditTeam(team)} title="Edit Team">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteTeam(team)}
+                          className="text-red-600 hover:text-red-700"
+                          title="Delete Team"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Map className="h-4 w-4" />
+              Regions
+            </CardTitle>
+            <CardDescription>Groups of client areas a team covers</CardDescription>
+          </div>
+          {canEdit && (
+            <Button size="sm" variant="outline" onClick={handleAddRegion}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {regions.length === 0 ? (
+            <p className="text-sm text-gray-500">No regions yet.</p>
+          ) : (
+            regions.map(region => (
+              <div key={region.id} className="flex items-start justify-between gap-2 border rounded-lg p-3">
+                <div>
+                  <div className="font-medium text-sm">{region.name}</div>
+                  <div className="text-xs text-gray-500">{region.areas.join(', ')}</div>
+                </div>
+                {canEdit && (
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => handleEditRegion(region)} title="Edit Region">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteRegion(region)}
+                      className="text-red-600 hover:text-red-700"
+                      title="Delete Region"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Team Modal */}
+      <Dialog open={isTeamModalOpen} onOpenChange={setIsTeamModalOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editingTeam ? 'Edit Team' : 'Add Team'}</DialogTitle>
+            <DialogDescription>Members are added from each user's profile.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="team-name">Name *</Label>
+              <Input
+                id="team-name"
+                value={teamData.name}
+                onChange={(e) => setTeamData({ ...teamData, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-description">Description</Label>
+              <Textarea
+                id="team-description"
+                rows={2}
+                value={teamData.description}
+                onChange={(e) => setTeamData({ ...teamData, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-supervisor">Supervisor *</Label>
+              <Select
+                value={teamData.supervisorId}
+                onValueChange={(value) => setTeamData({ ...teamData, supervisorId: value })}
+              >
+                <SelectTrigger id="team-supervisor">
+                  <SelectValue placeholder="Choose a supervisor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeUsers.map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="team-region">Region</Label>
+              <Select
+                value={teamData.regionId}
+                onValueChange={(value) => setTeamData({ ...teamData, regionId: value })}
+              >
+                <SelectTrigger id="team-region">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_REGION}>No region</SelectItem>
+                  {regions.map(region => (
+                    <SelectItem key={region.id} value={region.id}>{region.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsTeamModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmitTeam}>{editingTeam ? 'Update Team' : 'Create Team'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Region Modal */}
+      <Dialog open={isRegionModalOpen} onOpenChange={setIsRegionModalOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editingRegion ? 'Edit Region' : 'Add Region'}</DialogTitle>
+            <DialogDescription>Areas are matched against the area entered on each client.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="region-name">Name *</Label>
+              <Input
+                id="region-name"
+                value={regionData.name}
+                onChange={(e) => setRegionData({ ...regionData, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="region-areas">Areas *</Label>
+              <Textarea
+                id="region-areas"
+                rows={3}
+                placeholder="Comma separated, e.g. Gulberg, Model Town, DHA"
+                value={regionData.areas}
+                onChange={(e) => setRegionData({ ...regionData, areas: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRegionModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmitRegion}>{editingRegion ? 'Update Region' : 'Create Region'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TeamsAndRegions;
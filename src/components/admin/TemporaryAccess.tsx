@@ -0,0 +1,329 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Ban, Clock, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { permissionGrantRepository } from '@/lib/repositories';
+import type { PermissionGrant, User } from '@/lib/repositories';
+import { PERMISSIONS_BY_CATEGORY, getPermission } from '@/lib/permissions';
+import type { PermissionId } from '@/lib/permissions';
+import { createGrant, getGrantStatus, revokeGrant } from '@/lib/permissionGrants';
+import type { GrantStatus } from '@/lib/permissionGrants';
+import { useRepository } from '@/hooks/useRepository';
+
+const STATUS_VARIANTS: Record<GrantStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  active: 'default',
+  scheduled: 'secondary',
+  expired: 'outline',
+  revoked: 'destructive',
+};
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const emptyGrant = () => ({
+  userId: '',
+  type: 'permission' as PermissionGrant['type'],
+  permissions: [] as PermissionId[],
+  delegatorId: '',
+  startsAt: toLocalInput(new Date()),
+  endsAt: toLocalInput(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)),
+  reason: '',
+});
+
+interface TemporaryAccessProps {
+  users: User[];
+  currentUserId: string;
+}
+
+// Time-boxed permissions and delegations, listed and revoked from User Management
+const TemporaryAccess: React.FC<TemporaryAccessProps> = ({ users, currentUserId }) => {
+  const grants = useRepository(permissionGrantRepository);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isGrantModalOpen, setIsGrantModalOpen] = useState(false);
+  const [grantData, setGrantData] = useState(emptyGrant);
+
+  const getUserName = (userId?: string) => users.find(u => u.id === userId)?.name || 'Unknown user';
+
+  const visibleGrants = useMemo(() => {
+    const sorted = [...grants].sort((a, b) => b.startsAt.localeCompare(a.startsAt));
+    return showHistory
+      ? sorted
+      : sorted.filter(grant => ['active', 'scheduled'].includes(getGrantStatus(grant)));
+  }, [grants, showHistory]);
+
+  const handleOpenGrant = () => {
+    setGrantData(emptyGrant());
+    setIsGrantModalOpen(true);
+  };
+
+  const handleTogglePermission = (permissionId: PermissionId, checked: boolean) => {
+    setGrantData({
+      ...grantData,
+      permissions: checked
+        ? [...grantData.permissions, permissionId]
+        : grantData.permissions.filter(p => p !== permissionId),
+    });
+  };
+
+  const handleSubmitGrant = () => {
+    if (!grantData.userId || !grantData.reason.trim()) {
+      toast.error('Please choose a user and give a reason');
+      return;
+    }
+    if (grantData.type === 'permission' && grantData.permissions.length === 0) {
+      toast.error('Please choose at least one permission');
+      return;
+    }
+    if (grantData.type === 'delegation' && (!grantData.delegatorId || grantData.delegatorId === grantData.userId)) {
+      toast.error('Please choose another user to cover for');
+      return;
+    }
+
+    const startsAt = new Date(grantData.startsAt);
+    const endsAt = new Date(grantData.endsAt);
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+      toast.error('The end date must be after the start date');
+      return;
+    }
+    if (endsAt.getTime() <= Date.now()) {
+      toast.error('The end date must be in the future');
+      return;
+    }
+
+    createGrant({
+      userId: grantData.userId,
+      type: grantData.type,
+      permissions: grantData.type === 'permission' ? grantData.permissions : undefined,
+      delegatorId: grantData.type === 'delegation' ? grantData.delegatorId : undefined,
+      startsAt: startsAt.toISOString(),
+      endsAt: endsAt.toISOString(),
+      reason: grantData.reason.trim(),
+      grantedBy: currentUserId,
+    });
+    toast.success(`Temporary access granted to ${getUserName(grantData.userId)}`);
+    setIsGrantModalOpen(false);
+  };
+
+  const handleRevoke = (grant: PermissionGrant) => {
+    revokeGrant(grant.id, currentUserId);
+    toast.success(`Temporary access for ${getUserName(grant.userId)} revoked`);
+  };
+
+  const activeUsers = users.filter(u => u.status === 'active');
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Clock className="h-4 w-4" />
+            Temporary Access
+          </CardTitle>
+          <CardDescription>Extra permissions and delegations that expire on their own</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)}>
+            {showHistory ? 'Hide history' : 'Show history'}
+          </Button>
+          <Button size="sm" onClick={handleOpenGrant}>
+            <Plus className="h-4 w-4 mr-1" />
+            Grant Access
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {visibleGrants.length === 0 ? (
+          <p className="text-sm text-gray-500">No temporary access {showHistory ? 'recorded' : 'in effect or scheduled'}.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Grant</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleGrants.map(grant => {
+                const status = getGrantStatus(grant);
+                return (
+                  <TableRow key={grant.id}>
+                    <TableCell className="text-sm">
+                      <div className="font-medium">{getUserName(grant.userId)}</div>
+                      <div className="text-xs text-gray-500">{grant.reason}</div>
+                    </TableCell>
+                    <TableCell>
+                      {grant.type === 'delegation' ? (
+                        <Badge variant="outline">Covering for {getUserName(grant.delegatorId)}</Badge>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {(grant.permissions || []).map(p => (
+                            <Badge key={p} variant="outline" className="text-xs">{getPermission(p)?.name || p}</Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-500 whitespace-nowrap">
+                      {new Date(grant.startsAt).toLocaleString()}
+                      <br />
+                      {new Date(grant.endsAt).toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[status]} className="capitalize">{status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {(status === 'active' || status === 'scheduled') && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevoke(grant)}
+                          className="text-red-600 hover:text-red-700"
+                          title="Revoke"
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isGrantModalOpen} onOpenChange={setIsGrantModalOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Grant Temporary Access</DialogTitle>
+            <DialogDescription>The grant stops applying automatically at the end date.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="grant-user">User *</Label>
+              <Select value={grantData.userId} onValueChange={(value) => setGrantData({ ...grantData, userId: value })}>
+                <SelectTrigger id="grant-user">
+                  <SelectValue placeholder="Choose a user" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeUsers.map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="grant-type">Type</Label>
+              <Select
+                value={grantData.type}
+                onValueChange={(value: PermissionGrant['type']) => setGrantData({ ...grantData, type: value })}
+              >
+                <SelectTrigger id="grant-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="permission">Extra permissions</SelectItem>
+                  <SelectItem value="delegation">Cover for another user</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {grantData.type === 'delegation' ? (
+              <div className="space-y-2">
+                <Label htmlFor="grant-delegator">Cover for *</Label>
+                <Select
+                  value={grantData.delegatorId}
+                  onValueChange={(value) => setGrantData({ ...grantData, delegatorId: value })}
+                >
+                  <SelectTrigger id="grant-delegator">
+                    <SelectValue placeholder="Choose the user being covered" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeUsers.filter(u => u.id !== grantData.userId).map(u => (
+                      <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">
+                  The user gets the same permissions and can work on the same records as the person they cover for.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>Permissions *</Label>
+                <div className="max-h-48 overflow-y-auto border rounded-md p-3 space-y-3">
+                  {Object.entries(PERMISSIONS_BY_CATEGORY).map(([category, permissions]) => (
+                    <div key={category} className="space-y-1">
+                      <div className="text-xs font-medium text-gray-700">{category}</div>
+                      {permissions.map(permission => (
+                        <div key={permission.id} className="flex items-center space-x-2 ml-2">
+                          <Checkbox
+                            id={`grant-${permission.id}`}
+                            checked={grantData.permissions.includes(permission.id)}
+                            onCheckedChange={(checked) => handleTogglePermission(permission.id, !!checked)}
+                          />
+                          <Label htmlFor={`grant-${permission.id}`} className="text-sm text-gray-700">
+                            {permission.name}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="grant-start">From *</Label>
+                <Input
+                  id="grant-start"
+                  type="datetime-local"
+                  value={grantData.startsAt}
+                  onChange={(e) => setGrantData({ ...grantData, startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="grant-end">Until *</Label>
+                <Input
+                  id="grant-end"
+                  type="datetime-local"
+                  value={grantData.endsAt}
+                  onChange={(e) => setGrantData({ ...grantData, endsAt: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="grant-reason">Reason *</Label>
+              <Textarea
+                id="grant-reason"
+                rows={2}
+                placeholder="e.g. Covering complaint resolution during annual leave"
+                value={grantData.reason}
+                onChange={(e) => setGrantData({ ...grantData, reason: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsGrantModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmitGrant}>Grant Access</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default TemporaryAccess;
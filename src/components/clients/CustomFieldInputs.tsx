@@ -0,0 +1,107 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CustomFieldDefinition, CustomFieldValue, CustomFieldValues } from '@/lib/repositories';
+
+interface CustomFieldInputsProps {
+  definitions: CustomFieldDefinition[];
+  values: CustomFieldValues;
+  errors: Record<string, string>;
+  onChange: (values: CustomFieldValues) => void;
+}
+
+// The admin-defined fields of a client or farmer dialog, laid out like the built-in rows
+const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ definitions, values, errors, onChange }) => {
+  const setValue = (fieldId: string, value: CustomFieldValue) => onChange({ ...values, [fieldId]: value });
+
+  const toggleOption = (fieldId: string, option: string, checked: boolean) => {
+    const current = Array.isArray(values[fieldId]) ? values[fieldId] as string[] : [];
+    setValue(fieldId, checked ? [...current, option] : current.filter(value => value !== option));
+  };
+
+  const renderInput = (field: CustomFieldDefinition) => {
+    const inputId = `custom-${field.id}`;
+    const text = typeof values[field.id] === 'string' ? values[field.id] as string : '';
+    const className = `col-span-3${errors[field.id] ? ' border-red-500' : ''}`;
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <Textarea
+            id={inputId}
+            value={text}
+            placeholder={field.placeholder}
+            onChange={(e) => setValue(field.id, e.target.value)}
+            className={className}
+            rows={2}
+          />
+        );
+      case 'select':
+        return (
+          <Select value={text} onValueChange={(value) => setValue(field.id, value)}>
+            <SelectTrigger className={className}>
+              <SelectValue placeholder={field.placeholder || 'Select an option'} />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'radio':
+      case 'checkbox':
+        return (
+          <div className="col-span-3 flex flex-wrap gap-x-4 gap-y-2">
+            {field.options?.map((option, index) => (
+              <div key={option} className="flex items-center space-x-2">
+                <input
+                  type={field.type}
+                  id={`${inputId}-${index}`}
+                  name={inputId}
+                  checked={field.type === 'radio'
+                    ? text === option
+                    : Array.isArray(values[field.id]) && (values[field.id] as string[]).includes(option)}
+                  onChange={(e) => field.type === 'radio'
+                    ? setValue(field.id, option)
+                    : toggleOption(field.id, option, e.target.checked)}
+                  className="h-4 w-4 text-blue-600"
+                />
+                <Label htmlFor={`${inputId}-${index}`} className="text-sm font-normal">{option}</Label>
+              </div>
+            ))}
+          </div>
+        );
+      default:
+        return (
+          <Input
+            id={inputId}
+            type={field.type}
+            value={text}
+            placeholder={field.placeholder}
+            onChange={(e) => setValue(field.id, e.target.value)}
+            className={className}
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      {definitions.map(field => (
+        <div key={field.id} className="grid grid-cols-4 items-center gap-4">
+          <Label htmlFor={`custom-${field.id}`} className="text-right">
+            {field.label}{field.required ? ' *' : ''}
+          </Label>
+          {renderInput(field)}
+          {errors[field.id] && (
+            <p className="col-span-3 col-start-2 text-sm text-red-600">{errors[field.id]}</p>
+          )}
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default CustomFieldInputs;
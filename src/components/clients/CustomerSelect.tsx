@@ -0,0 +1,67 @@
+import React from 'react';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { clientRepository, farmerRepository } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
+import { useDataScope } from '@/hooks/useDataScope';
+import type { CustomerType } from '@/lib/customerTimeline';
+
+// Select items can't have an empty value
+const NO_CUSTOMER = 'none';
+
+export interface SelectedCustomer {
+  type: CustomerType;
+  id: string;
+  name: string;
+}
+
+interface CustomerSelectProps {
+  customerType?: CustomerType;
+  customerId?: string;
+  onChange: (customer: SelectedCustomer | null) => void;
+}
+
+// Links a record to one of the clients or farmers the user can see
+const CustomerSelect: React.FC<CustomerSelectProps> = ({ customerType, customerId, onChange }) => {
+  const scope = useDataScope();
+  const clients = scope.filterVisible('client', useRepository(clientRepository));
+  const farmers = scope.filterVisible('farmer', useRepository(farmerRepository));
+
+  const handleChange = (value: string) => {
+    if (value === NO_CUSTOMER) {
+      onChange(null);
+      return;
+    }
+    const [type, id] = value.split(':') as [CustomerType, string];
+    const record = (type === 'client' ? clients : farmers).find(customer => customer.id === id);
+    if (record) onChange({ type, id, name: record.name });
+  };
+
+  return (
+    <Select value={customerType && customerId ? `${customerType}:${customerId}` : NO_CUSTOMER} onValueChange={handleChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="max-h-[250px] overflow-y-auto">
+        <SelectItem value={NO_CUSTOMER}>Not linked to a customer</SelectItem>
+        {clients.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Clients</SelectLabel>
+            {clients.map(client => (
+              <SelectItem key={client.id} value={`client:${client.id}`}>{client.name} ({client.phone})</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {farmers.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Farmers</SelectLabel>
+            {farmers.map(farmer => (
+              <SelectItem key={farmer.id} value={`farmer:${farmer.id}`}>{farmer.name} ({farmer.phone})</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CustomerSelect;
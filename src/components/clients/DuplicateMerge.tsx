@@ -0,0 +1,242 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, GitMerge } from 'lucide-react';
+import { toast } from 'sonner';
+import { middlemanRepository, veterinarianRepository } from '@/lib/repositories';
+import type { User } from '@/lib/repositories';
+import { describeMatch, findDuplicatePairs } from '@/lib/duplicates';
+import type { DuplicatePair } from '@/lib/duplicates';
+import { MERGE_FIELDS, getDefaultMergeChoices, getFieldValue, mergeRecords } from '@/lib/merge';
+import type { MergeChoices, MergeResult, MergeableRecord, MergeableType } from '@/lib/merge';
+
+interface DuplicateMergeProps {
+  // Which collection to review; null keeps the dialog closed
+  type: MergeableType | null;
+  records: MergeableRecord[];
+  users: User[];
+  currentUserId: string;
+  // Merging edits one record and deletes the other, so both must be allowed
+  canMerge: (record: MergeableRecord) => boolean;
+  onClose: () => void;
+  onMerged: (result: MergeResult) => void;
+}
+
+// Lists likely duplicate pairs and merges a chosen pair field by field
+const DuplicateMerge: React.FC<DuplicateMergeProps> = ({
+  type,
+  records,
+  users,
+  currentUserId,
+  canMerge,
+  onClose,
+  onMerged,
+}) => {
+  const [pair, setPair] = useState<DuplicatePair<MergeableRecord> | null>(null);
+  const [survivorId, setSurvivorId] = useState('');
+  const [choices, setChoices] = useState<MergeChoices>({});
+
+  useEffect(() => {
+    setPair(null);
+  }, [type]);
+
+  const pairs = useMemo(() => (type ? findDuplicatePairs(records) : []), [type, records]);
+
+  const survivor = pair && (pair.first.id === survivorId ? pair.first : pair.second);
+  const duplicate = pair && (pair.first.id === survivorId ? pair.second : pair.first);
+
+  const getUserName = (userId: string) => users.find(u => u.id === userId)?.name || 'Unassigned';
+
+  const formatValue = (key: string, value: unknown) => {
+    if (key === 'assignedUserId') return getUserName(String(value || ''));
+    if (key === 'veterinarianId') return veterinarianRepository.get(String(value || ''))?.name || '-';
+    if (key === 'middlemanId') return middlemanRepository.get(String(value || ''))?.name || '-';
+    return value === undefined || value === '' ? '-' : String(value);
+  };
+
+  const handleSelectPair = (selected: DuplicatePair<MergeableRecord>) => {
+    if (!type) return;
+    // The older record survives by default, so its ID stays in links and reports
+    const [older, newer] = selected.first.registrationDate <= selected.second.registrationDate
+      ? [selected.first, selected.second]
+      : [selected.second, selected.first];
+    setPair(selected);
+    setSurvivorId(older.id);
+    setChoices(getDefaultMergeChoices(type, older, newer));
+  };
+
+  const handleSurvivorChange = (id: string) => {
+    if (!type || !pair) return;
+    const [kept, removed] = pair.first.id === id ? [pair.first, pair.second] : [pair.second, pair.first];
+    setSurvivorId(id);
+    setChoices(getDefaultMergeChoices(type, kept, removed));
+  };
+
+  const handleMerge = () => {
+    if (!type || !survivor || !duplicate) return;
+    try {
+      const result = mergeRecords({
+        type,
+        survivorId: survivor.id,
+        duplicateId: duplicate.id,
+        choices,
+        performedBy: currentUserId,
+      });
+      setPair(null);
+      onMerged(result);
+    } catch (error) {
+      console.error('Error merging records:', error);
+      toast.error('Failed to merge records');
+    }
+  };
+
+  const label = type === 'client' ? 'client' : 'farmer';
+
+  return (
+    <Dialog open={!!type} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5 text-orange-600" />
+            {pair ? `Merge ${label}s` : `Possible duplicate ${label}s`}
+          </DialogTitle>
+          <DialogDescription>
+            {pair
+              ? `Pick the record to keep and which value each field takes. Field visits, complaints, tasks${type === 'farmer' ? ', form submissions, animals and fodder purchases' : ' and form submissions'} of the other ${label} move to the kept one, and the other ${label} goes to the recycle bin.`
+              : `Records with the same phone${type === 'client' ? ' or email' : ''}, or a similar name at a similar address.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!pair && (
+          pairs.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No likely duplicates found</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Records</TableHead>
+                    <TableHead>Why</TableHead>
+                    <TableHead className="text-right">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pairs.map(candidate => (
+                    <TableRow key={`${candidate.first.id}:${candidate.second.id}`}>
+                      <TableCell className="text-sm">
+                        <div>{candidate.first.name} <span className="text-xs text-gray-500">{candidate.first.phone}</span></div>
+                        <div>{candidate.second.name} <span className="text-xs text-gray-500">{candidate.second.phone}</span></div>
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-600">{describeMatch(candidate.reasons)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleSelectPair(candidate)}
+                          disabled={!canMerge(candidate.first) || !canMerge(candidate.second)}
+                        >
+                          <GitMerge className="h-4 w-4 mr-1" />
+                          Merge
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )
+        )}
+
+        {pair && type && survivor && duplicate && (
+          <div className="space-y-4 py-2">
+            <div className="flex flex-wrap gap-2">
+              {pair.reasons.map(reason => (
+                <Badge key={reason} variant="secondary" className="capitalize">{reason}</Badge>
+              ))}
+            </div>
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    {[pair.first, pair.second].map(record => (
+                      <TableHead key={record.id}>
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name="merge-survivor"
+                            checked={survivorId === record.id}
+                            onChange={() => handleSurvivorChange(record.id)}
+                          />
+                          <span>
+                            {record.name}
+                            <span className="block text-xs font-normal text-gray-500">
+                              {survivorId === record.id ? 'Kept' : 'Moved to the recycle bin'}
+                            </span>
+                          </span>
+                        </label>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {MERGE_FIELDS[type].map(field => {
+                    const same = getFieldValue(survivor, field.key) === getFieldValue(duplicate, field.key);
+                    return (
+                      <TableRow key={field.key}>
+                        <TableCell className="text-sm font-medium">{field.label}</TableCell>
+                        <TableCell colSpan={2}>
+                          {same ? (
+                            <span className="text-sm text-gray-600">{formatValue(field.key, getFieldValue(survivor, field.key))}</span>
+                          ) : (
+                            <RadioGroup
+                              value={choices[field.key] || 'survivor'}
+                              onValueChange={(value) => setChoices({ ...choices, [field.key]: value as 'survivor' | 'duplicate' })}
+                              className="grid grid-cols-2 gap-4"
+                            >
+                              {[pair.first, pair.second].map(record => {
+                                const side = record.id === survivor.id ? 'survivor' : 'duplicate';
+                                return (
+                                  <div key={record.id} className="flex items-center gap-2">
+                                    <RadioGroupItem value={side} id={`merge-${field.key}-${record.id}`} />
+                                    <Label htmlFor={`merge-${field.key}-${record.id}`} className="text-sm font-normal break-all">
+                                      {formatValue(field.key, getFieldValue(record, field.key))}
+                                    </Label>
+                                  </div>
+                                );
+                              })}
+                            </RadioGroup>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {pair ? (
+            <>
+              <Button variant="outline" onClick={() => setPair(null)}>Back</Button>
+              <Button onClick={handleMerge}>
+                <GitMerge className="h-4 w-4 mr-2" />
+                Merge into {survivor?.name}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={onClose}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateMerge;
@@ -0,0 +1,356 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowRight, Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { readSpreadsheetFile } from '@/lib/spreadsheet';
+import type { SpreadsheetData } from '@/lib/spreadsheet';
+import {
+  IMPORT_TARGET_LABELS,
+  commitImport,
+  getImportFields,
+  getMissingRequiredFields,
+  guessColumnMapping,
+  importReportToCsv,
+  importTemplateCsv,
+  summariseImport,
+  validateImportRows,
+} from '@/lib/bulkImport';
+import type { ColumnMapping, ImportReportRow, ImportRowStatus, ImportTarget } from '@/lib/bulkImport';
+
+type WizardStep = 'upload' | 'map' | 'review' | 'report';
+
+const STEPS: { id: WizardStep; title: string }[] = [
+  { id: 'upload', title: 'Upload' },
+  { id: 'map', title: 'Map Columns' },
+  { id: 'review', title: 'Dry Run' },
+  { id: 'report', title: 'Report' },
+];
+
+// Select items can't have an empty value
+const NO_COLUMN = 'none';
+// The dry run table only lists this many rows; the summary counts cover all of them
+const PREVIEW_ROWS = 200;
+
+const STATUS_VARIANTS: Record<ImportRowStatus, 'default' | 'secondary' | 'destructive'> = {
+  valid: 'default',
+  duplicate: 'secondary',
+  invalid: 'destructive',
+};
+
+const downloadCsv = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface ImportWizardProps {
+  // What to import; null keeps the wizard closed
+  target: ImportTarget | null;
+  currentUserId: string;
+  onClose: () => void;
+  onComplete: (report: ImportReportRow[]) => void;
+}
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ target, currentUserId, onClose, onComplete }) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [report, setReport] = useState<ImportReportRow[]>([]);
+  const [isReading, setIsReading] = useState(false);
+
+  // Start over whenever the wizard opens
+  useEffect(() => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+    setIncludeDuplicates(false);
+    setReport([]);
+  }, [target]);
+
+  const handleDrop = async (files: File[]) => {
+    const file = files[0];
+    if (!file || !target) return;
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheetFile(file);
+      if (data.rows.length === 0) {
+        toast.error('The file has no data rows below the header');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(guessColumnMapping(target, data.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: handleDrop,
+    multiple: false,
+    accept: {
+      'text/csv': ['.csv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    },
+  });
+
+  const missingFields = target ? getMissingRequiredFields(target, mapping) : [];
+
+  // The dry run: nothing is written until the import is confirmed
+  const results = useMemo(
+    () => (target && sheet && step === 'review' ? validateImportRows(target, sheet.rows, mapping) : []),
+    [target, sheet, mapping, step]
+  );
+  const summary = summariseImport(results);
+  const importCount = summary.valid + (includeDuplicates ? summary.duplicate : 0);
+
+  const handleMappingChange = (fieldKey: string, value: string) => {
+    const next = { ...mapping };
+    if (value === NO_COLUMN) {
+      delete next[fieldKey];
+    } else {
+      next[fieldKey] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  const handleNext = () => {
+    if (step === 'map' && missingFields.length > 0) {
+      toast.error(`Map a column to ${missingFields.map(field => field.label).join(', ')}`);
+      return;
+    }
+    setStep('review');
+  };
+
+  const handleImport = () => {
+    if (!target || !sheet) return;
+    try {
+      const rows = commitImport(target, sheet.rows, mapping, { userId: currentUserId, includeDuplicates });
+      setReport(rows);
+      setStep('report');
+      onComplete(rows);
+    } catch (error) {
+      console.error('Error importing records:', error);
+      toast.error('Failed to import records');
+    }
+  };
+
+  const handleDownloadReport = () => {
+    downloadCsv(importReportToCsv(report), `${target}-import-report-${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const handleDownloadTemplate = () => {
+    if (!target) return;
+    downloadCsv(importTemplateCsv(target), `${target}-import-template.csv`);
+  };
+
+  const stepIndex = STEPS.findIndex(s => s.id === step);
+  const reportCounts = {
+    imported: report.filter(row => row.outcome === 'imported').length,
+    skipped: report.filter(row => row.outcome === 'skipped').length,
+    failed: report.filter(row => row.outcome === 'failed').length,
+  };
+  const label = target ? IMPORT_TARGET_LABELS[target] : '';
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-green-600" />
+            Import {label}
+          </DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel (.xlsx) sheet with one {target} per row. Nothing is saved until you confirm the dry run.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-sm">
+          {STEPS.map((s, index) => (
+            <React.Fragment key={s.id}>
+              <Badge variant={index === stepIndex ? 'default' : index < stepIndex ? 'secondary' : 'outline'}>
+                {index + 1}. {s.title}
+              </Badge>
+              {index < STEPS.length - 1 && <ArrowRight className="h-3 w-3 text-gray-400" />}
+            </React.Fragment>
+          ))}
+        </div>
+
+        {step === 'upload' && (
+          <div className="space-y-4 py-2">
+            <div
+              {...getRootProps()}
+              className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer ${
+                isDragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+              }`}
+            >
+              <input {...getInputProps()} />
+              <Upload className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+              <p className="font-medium">{isReading ? 'Reading file...' : 'Drop a .csv or .xlsx file here, or click to choose one'}</p>
+              <p className="text-sm text-gray-500 mt-1">The first row must hold the column headers. Only the first sheet is read.</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleDownloadTemplate}>
+              <Download className="h-4 w-4 mr-2" />
+              Download Template
+            </Button>
+          </div>
+        )}
+
+        {step === 'map' && target && sheet && (
+          <div className="space-y-3 py-2">
+            <p className="text-sm text-gray-600">
+              {fileName}: {sheet.rows.length} rows. Choose which column fills each field; fields marked * are required.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {getImportFields(target).map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`map-${field.key}`}>
+                    {field.label}{field.required ? ' *' : ''}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] === undefined ? NO_COLUMN : String(mapping[field.key])}
+                    onValueChange={(value) => handleMappingChange(field.key, value)}
+                  >
+                    <SelectTrigger id={`map-${field.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Don't import</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-3 gap-2">
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-gray-500">Ready to import</div>
+                <div className="text-xl font-bold text-green-700">{summary.valid}</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-gray-500">Possible duplicates</div>
+                <div className="text-xl font-bold text-orange-600">{summary.duplicate}</div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-gray-500">Errors</div>
+                <div className="text-xl font-bold text-red-600">{summary.invalid}</div>
+              </div>
+            </div>
+            {summary.duplicate > 0 && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="include-duplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(!!checked)}
+                />
+                <Label htmlFor="include-duplicates" className="text-sm">
+                  Import possible duplicates as well
+                </Label>
+              </div>
+            )}
+            <div className="max-h-72 overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.slice(0, PREVIEW_ROWS).map(result => (
+                    <TableRow key={result.rowNumber}>
+                      <TableCell className="text-sm">{result.rowNumber}</TableCell>
+                      <TableCell className="text-sm">{result.values.name || '-'}</TableCell>
+                      <TableCell className="text-sm">{result.values.phone || '-'}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[result.status]} className="capitalize">{result.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-600">
+                        {result.errors.length > 0 ? result.errors.join('; ') : result.duplicateOf || ''}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {results.length > PREVIEW_ROWS && (
+              <p className="text-xs text-gray-500">
+                Showing the first {PREVIEW_ROWS} of {results.length} rows. The report after import lists every row.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'report' && (
+          <div className="space-y-4 py-2">
+            <div className="rounded-lg border bg-green-50 border-green-200 p-4 text-sm space-y-1">
+              <div><span className="font-medium">{reportCounts.imported}</span> {target}(s) imported</div>
+              <div><span className="font-medium">{reportCounts.skipped}</span> duplicate row(s) skipped</div>
+              <div><span className="font-medium">{reportCounts.failed}</span> row(s) failed validation</div>
+            </div>
+            <Button variant="outline" onClick={handleDownloadReport}>
+              <Download className="h-4 w-4 mr-2" />
+              Download Row Report
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'report' ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>Cancel</Button>
+              {step === 'map' && (
+                <Button variant="outline" onClick={() => setStep('upload')}>Back</Button>
+              )}
+              {step === 'review' && (
+                <Button variant="outline" onClick={() => setStep('map')}>Back</Button>
+              )}
+              {step === 'map' && (
+                <Button onClick={handleNext}>Run Dry Run</Button>
+              )}
+              {step === 'review' && (
+                <Button onClick={handleImport} disabled={importCount === 0}>
+                  Import {importCount} {label}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportWizard;
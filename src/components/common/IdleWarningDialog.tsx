@@ -0,0 +1,54 @@
+import React, { useState, useEffect } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Clock } from 'lucide-react';
+
+interface IdleWarningDialogProps {
+  // Epoch ms at which the idle logout happens; null hides the dialog
+  deadline: number | null;
+  onStaySignedIn: () => void;
+  onLogout: () => void;
+}
+
+const IdleWarningDialog: React.FC<IdleWarningDialogProps> = ({ deadline, onStaySignedIn, onLogout }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const secondsLeft = deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : 0;
+
+  return (
+    <AlertDialog open={deadline !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-amber-600" />
+            Are you still there?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            You will be signed out in {secondsLeft} second{secondsLeft === 1 ? '' : 's'} because of inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onLogout}>Log out</AlertDialogCancel>
+          <AlertDialogAction onClick={onStaySignedIn}>Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default IdleWarningDialog;
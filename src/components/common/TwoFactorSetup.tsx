@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Copy, KeyRound } from 'lucide-react';
+import { toast } from 'sonner';
+import type { TwoFactorEnrollment } from '@/lib/twoFactor';
+import { TOTP_DIGITS } from '@/lib/totp';
+
+interface TwoFactorSetupProps {
+  enrollment: TwoFactorEnrollment;
+  // Resolves to the recovery codes when the code was accepted, otherwise null
+  onVerify: (code: string) => Promise<string[] | null>;
+  // Called once the user has seen their recovery codes
+  onDone: () => void;
+}
+
+// Shared by the login enrollment step and the account settings page
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ enrollment, onVerify, onDone }) => {
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length !== TOTP_DIGITS) {
+      toast.error(`Enter the ${TOTP_DIGITS}-digit code from your authenticator app`);
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const codes = await onVerify(code);
+      if (codes) {
+        setRecoveryCodes(codes);
+      } else {
+        setCode('');
+      }
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const copyToClipboard = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label} copied to clipboard`);
+    } catch (error) {
+      console.error('Error copying to clipboard:', error);
+      toast.error('Could not copy - please copy it manually');
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <Alert className="bg-amber-50 border-amber-200">
+          <KeyRound className="h-4 w-4 text-amber-600" />
+          <AlertDescription className="text-amber-800 text-sm">
+            Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+            access to your authenticator app. They will not be shown again.
+          </AlertDescription>
+        </Alert>
+        <div className="grid grid-cols-2 gap-2 rounded-lg border bg-gray-50 p-3 font-mono text-sm">
+          {recoveryCodes.map(recoveryCode => (
+            <div key={recoveryCode}>{recoveryCode}</div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="flex-1"
+            onClick={() => copyToClipboard(recoveryCodes.join('\n'), 'Recovery codes')}
+          >
+            <Copy className="h-4 w-4 mr-2" />
+            Copy Codes
+          </Button>
+          <Button type="button" className="flex-1" onClick={onDone}>
+            I've Saved Them
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator
+        or 1Password, then enter the code it shows.
+      </p>
+      <div className="flex justify-center rounded-lg border bg-white p-4">
+        <QRCodeSVG value={enrollment.otpauthUri} size={176} />
+      </div>
+      <div className="space-y-2">
+        <Label>Can't scan it? Enter this key instead</Label>
+        <div className="flex items-center gap-2">
+          <code className="flex-1 break-all rounded bg-gray-100 px-2 py-1 text-xs">{enrollment.secret}</code>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => copyToClipboard(enrollment.secret, 'Setup key')}
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Verification Code</Label>
+        <InputOTP maxLength={TOTP_DIGITS} value={code} onChange={setCode} disabled={isVerifying}>
+          <InputOTPGroup>
+            {Array.from({ length: TOTP_DIGITS }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+      <Button type="submit" className="w-full" disabled={isVerifying}>
+        {isVerifying ? 'Verifying...' : 'Verify and Enable'}
+      </Button>
+    </form>
+  );
+};
+
+export default TwoFactorSetup;
@@ -4,118 +4,20 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { 
-  LayoutDashboard, 
-  Users, 
-  Shield, 
-  Building,
-  MapPin,
-  ClipboardList,
-  PieChart,
-  HeadphonesIcon,
-  MessageCircle,
-  Phone,
   Menu,
   X,
   LogOut,
+  KeyRound,
+  Smartphone,
   ChevronDown,
   ChevronRight
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { canAccess } from '@/lib/routeAccess';
+import { navigationItems } from '@/routes';
+import type { NavigationItem } from '@/routes';
 import { toast } from 'sonner';
 
-interface NavigationItem {
-  name: string;
-  href: string;
-  icon: React.ComponentType<{ className?: string }>;
-  permission?: string;
-  children?: NavigationItem[];
-}
-
-const navigationItems: NavigationItem[] = [
-  {
-    name: 'Dashboard',
-    href: '/dashboard',
-    icon: LayoutDashboard,
-  },
-  {
-    name: 'Administration',
-    href: '/admin',
-    icon: Shield,
-    permission: 'user_read',
-    children: [
-      {
-        name: 'User Management',
-        href: '/admin/users',
-        icon: Users,
-        permission: 'user_read',
-      },
-      {
-        name: 'Role Management',
-        href: '/admin/roles',
-        icon: Shield,
-        permission: 'role_read',
-      },
-    ],
-  },
-  {
-    name: 'Clients',
-    href: '/clients',
-    icon: Building,
-    permission: 'client_read',
-  },
-  {
-    name: 'Field Visits',
-    href: '/field-visits',
-    icon: MapPin,
-  },
-  {
-    name: 'Forms',
-    href: '/forms',
-    icon: ClipboardList,
-    permission: 'form_view',
-    children: [
-      {
-        name: 'Form Management',
-        href: '/forms',
-        icon: ClipboardList,
-        permission: 'form_view',
-      },
-    ],
-  },
-  {
-    name: 'Reports',
-    href: '/reports',
-    icon: PieChart,
-    permission: 'reports_view',
-  },
-  {
-    name: 'Customer Care',
-    href: '/customer-care',
-    icon: HeadphonesIcon,
-    permission: 'customer_care_access',
-  },
-  {
-    name: 'Communication',
-    href: '/communication',
-    icon: MessageCircle,
-    permission: 'communication_access',
-    children: [
-      {
-        name: 'WhatsApp',
-        href: '/communication/whatsapp',
-        icon: MessageCircle,
-        permission: 'communication_access',
-      },
-      {
-        name: 'SIP Call',
-        href: '/communication/sip-trunk',
-        icon: Phone,
-        permission: 'communication_access',
-      },
-    ],
-  },
-];
-
 const DashboardLayout: React.FC = () => {
   const { user, logout, hasPermission } = useAuth();
   const location = useLocation();
@@ -141,13 +43,14 @@ const DashboardLayout: React.FC = () => {
     return location.pathname === href || location.pathname.startsWith(href + '/');
   };
 
-  const hasAccessToItem = (item: NavigationItem) => {
-    if (item.permission && !hasPermission(item.permission)) {
+  // Same rules as the route guard; a group shows when any of its pages is reachable
+  const hasAccessToItem = (item: NavigationItem): boolean => {
+    if (!canAccess(item, hasPermission)) {
       return false;
     }
     
     if (item.children) {
-      return item.children.some(child => !child.permission || hasPermission(child.permission));
+      return item.children.some(hasAccessToItem);
     }
     
     return true;
@@ -267,14 +170,39 @@ const DashboardLayout: React.FC = () => {
                 </p>
               </div>
             </div>
-            <Button 
-              variant="ghost" 
-              size="sm" 
-              onClick={handleLogout}
-              className="text-gray-500 hover:text-gray-700 shrink-0"
-            >
-              <LogOut className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center shrink-0">
+              <Button
+                asChild
+                variant="ghost"
+                size="sm"
+                className="text-gray-500 hover:text-gray-700"
+                title="Change password"
+              >
+                <Link to="/account/password" onClick={() => setSidebarOpen(false)}>
+                  <KeyRound className="h-4 w-4" />
+                </Link>
+              </Button>
+              <Button
+                asChild
+                variant="ghost"
+                size="sm"
+                className="text-gray-500 hover:text-gray-700"
+                title="Two-factor authentication"
+              >
+                <Link to="/account/two-factor" onClick={() => setSidebarOpen(false)}>
+                  <Smartphone className="h-4 w-4" />
+                </Link>
+              </Button>
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                onClick={handleLogout}
+                className="text-gray-500 hover:text-gray-700"
+                title="Log out"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </div>
       </div>
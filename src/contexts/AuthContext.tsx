@@ -1,26 +1,43 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode, useRef, useMemo, useCallback } from 'react';
 import { toast } from 'sonner';
-
-interface User {
-  id: string;
-  name: string;
+import { userRepository, roleRepository, permissionGrantRepository } from '@/lib/repositories';
+import type { User, Role, PermissionGrant } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
+import { DUMMY_PASSWORD_HASH, getPasswordError, hashPassword, needsRehash, verifyPassword } from '@/lib/password';
+import { consumeResetToken } from '@/lib/passwordReset';
+import {
+  SESSION_KEY,
+  clearSession,
+  createSession,
+  getIdleDeadline,
+  getSessionState,
+  readSession,
+  touchSession,
+} from '@/lib/session';
+import { getLocationPolicy, isLoginAllowedByLocation, startLocationMonitor } from '@/lib/locationPolicy';
+import { clearLockout, formatRetryTime, getLoginBlock, recordLoginAttempt, registerFailedLogin } from '@/lib/loginThrottle';
+import {
+  completeTwoFactorEnrollment,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  startTwoFactorEnrollment,
+  verifySecondFactor,
+} from '@/lib/twoFactor';
+import type { TwoFactorEnrollment } from '@/lib/twoFactor';
+import type { PermissionId } from '@/lib/permissions';
+import { resolveRolePermissions } from '@/lib/roleInheritance';
+import { getActiveGrants, getGrantedPermissions, getNextGrantChange } from '@/lib/permissionGrants';
+import IdleWarningDialog from '@/components/common/IdleWarningDialog';
+
+// Set after the password has been accepted for an account that needs a second factor
+export interface PendingTwoFactor {
+  userId: string;
   email: string;
-  password: string;
-  roleId: string;
-  status: 'active' | 'inactive';
-  createdAt: string;
-  updatedAt: string;
-  lastLogin?: string;
-}
-
-interface Role {
-  id: string;
-  name: string;
-  description: string;
-  permissions: string[];
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
+  // 'enroll' when the role requires 2FA and the user hasn't set it up yet
+  mode: 'verify' | 'enroll';
+  enrollment?: TwoFactorEnrollment;
+  // Enrollment succeeded; the session starts once the recovery codes have been shown
+  enrolled?: boolean;
 }
 
 interface AuthContextType {
@@ -29,367 +46,209 @@ interface AuthContextType {
   roles: Role[];
   login: (email: string, password: string) => Promise<boolean>;
   logout: () => void;
-  hasPermission: (permission: string) => boolean;
+  hasPermission: (permission: PermissionId) => boolean;
+  // Temporary and delegated grants currently in effect for the signed-in user
+  activeGrants: PermissionGrant[];
   currentUser: User | null;
+  // Resets the idle timer, e.g. from the idle warning dialog
+  extendSession: () => void;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<boolean>;
+  resetPassword: (token: string, newPassword: string) => Promise<boolean>;
+  pendingTwoFactor: PendingTwoFactor | null;
+  verifyTwoFactor: (code: string) => Promise<boolean>;
+  // Resolves to the new recovery codes, or null when the code is wrong
+  enrollTwoFactor: (code: string) => Promise<string[] | null>;
+  finishTwoFactorEnrollment: () => void;
+  cancelTwoFactor: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Default users with passwords including Customer Care users
-const defaultUsers: User[] = [
-  {
-    id: 'admin-001',
-    name: 'System Administrator',
-    email: 'admin@hdf.com',
-    password: 'admin123',
-    roleId: 'admin',
-    status: 'active',
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'cc-manager-001',
-    name: 'Customer Care Manager',
-    email: 'ccmanager@hdf.com',
-    password: 'ccmanager123',
-    roleId: 'customer_care_manager',
-    status: 'active',
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'cc-agent-001',
-    name: 'Customer Care Agent',
-    email: 'ccagent@hdf.com',
-    password: 'ccagent123',
-    roleId: 'customer_care_agent',
-    status: 'active',
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'cc-supervisor-001',
-    name: 'Customer Care Supervisor',
-    email: 'ccsupervisor@hdf.com',
-    password: 'ccsupervisor123',
-    roleId: 'customer_care_supervisor',
-    status: 'active',
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'field-supervisor-001',
-    name: 'Field Supervisor',
-    email: 'fieldsupervisor@hdf.com',
-    password: 'field123',
-    roleId: 'field_supervisor',
-    status: 'active',
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'field-agent-001',
-    name: 'Field Agent',
-    email: 'fieldagent@hdf.com',
-    password: 'agent123',
-    roleId: 'field_agent',
-    status: 'active',
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-];
-
-// Enhanced default roles with specific Customer Care permissions
-const defaultRoles: Role[] = [
-  {
-    id: 'admin',
-    name: 'System Administrator',
-    description: 'Full system access with all permissions',
-    permissions: [
-      // User Management
-      'user_read', 'user_create', 'user_update', 'user_delete',
-      // Role Management
-      'role_read', 'role_create', 'role_update', 'role_delete',
-      // Client Management
-      'client_read', 'client_create', 'client_update', 'client_delete', 'client_view_all',
-      // Farmer Management
-      'farmer_read', 'farmer_create', 'farmer_update', 'farmer_delete', 'farmer_view_all',
-      // Field Visit Management
-      'visit_read', 'visit_create', 'visit_update', 'visit_delete', 'visit_track',
-      // Form Management
-      'form_view', 'form_create', 'form_update', 'form_delete',
-      // Reports
-      'reports_view', 'reports_create', 'reports_update', 'reports_delete',
-      // Customer Care - Main Access
-      'customer_care_access',
-      // Customer Care - Task Management
-      'task_view_all', 'task_view', 'task_create', 'task_update', 'task_delete',
-      // Customer Care - Complaint Management
-      'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update', 'complaint_delete', 'complaint_resolve', 'complaint_escalate',
-      // Communication
-      'communication_access', 'whatsapp_send', 'sip_calls'
-    ],
-    isActive: true,
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'customer_care_manager',
-    name: 'Customer Care Manager',
-    description: 'Full customer care management with complete task and complaint access',
-    permissions: [
-      'customer_care_access',
-      'task_view_all', 'task_view', 'task_create', 'task_update', 'task_delete',
-      'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update', 'complaint_delete', 'complaint_resolve', 'complaint_escalate',
-      'client_read', 'farmer_read', 'reports_view', 'communication_access', 'whatsapp_send'
-    ],
-    isActive: true,
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'customer_care_agent',
-    name: 'Customer Care Agent',
-    description: 'Basic customer care operations with task and complaint handling',
-    permissions: [
-      'customer_care_access',
-      'task_view_all', 'task_view', 'task_update',
-      'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update',
-      'client_read', 'farmer_read', 'communication_access', 'whatsapp_send'
-    ],
-    isActive: true,
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'customer_care_supervisor',
-    name: 'Customer Care Supervisor',
-    description: 'Customer care supervision with advanced task and complaint management',
-    permissions: [
-      'customer_care_access',
-      'task_view_all', 'task_view', 'task_create', 'task_update', 'task_delete',
-      'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update', 'complaint_delete', 'complaint_resolve',
-      'client_read', 'farmer_read', 'reports_view', 'communication_access', 'whatsapp_send'
-    ],
-    isActive: true,
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'field_supervisor',
-    name: 'Field Supervisor',
-    description: 'Field operations management',
-    permissions: [
-      'visit_read', 'visit_create', 'visit_update', 'visit_delete', 'visit_track',
-      'client_read', 'farmer_read', 'form_view', 'reports_view', 'communication_access'
-    ],
-    isActive: true,
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-  {
-    id: 'field_agent',
-    name: 'Field Agent',
-    description: 'Basic field operations',
-    permissions: [
-      'visit_read', 'visit_create', 'visit_update', 'visit_track',
-      'client_read', 'farmer_read', 'form_view', 'communication_access'
-    ],
-    isActive: true,
-    createdAt: '2024-01-01T00:00:00.000Z',
-    updatedAt: '2024-01-01T00:00:00.000Z',
-  },
-];
-
-// Location monitoring function
-const checkLocationStatus = (): Promise<boolean> => {
-  return new Promise((resolve) => {
-    if (!navigator.geolocation) {
-      resolve(false);
-      return;
-    }
-
-    navigator.geolocation.getCurrentPosition(
-      () => resolve(true),
-      () => resolve(false),
-      {
-        enableHighAccuracy: false,
-        timeout: 10000,
-        maximumAge: 30000
-      }
-    );
-  });
+// How often the session is checked for expiry and idle timeout
+const SESSION_CHECK_INTERVAL = 5000;
+// Activity is written to the session at most this often
+const ACTIVITY_THROTTLE = 30000;
+// setTimeout overflows past ~24.8 days; later grant changes are picked up by re-arming
+const MAX_TIMER_DELAY = 2147483647;
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart'];
+
+// Restores the signed-in user from a still-valid session on boot
+const restoreSessionUser = (): User | null => {
+  const session = readSession();
+  if (!session) return null;
+
+  const state = getSessionState(session);
+  const sessionUser = userRepository.get(session.userId);
+  if (state === 'expired' || state === 'idle-expired' || !sessionUser || sessionUser.status !== 'active') {
+    clearSession();
+    return null;
+  }
+  return sessionUser;
 };
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [users, setUsers] = useState<User[]>([]);
-  const [roles, setRoles] = useState<Role[]>([]);
-  const locationCheckInterval = useRef<NodeJS.Timeout | undefined>(undefined);
-
-  // Initialize data
+  const [user, setUser] = useState<User | null>(restoreSessionUser);
+  const [idleDeadline, setIdleDeadline] = useState<number | null>(null);
+  const [pendingTwoFactor, setPendingTwoFactor] = useState<PendingTwoFactor | null>(null);
+  const users = useRepository(userRepository);
+  const roles = useRepository(roleRepository);
+  const grants = useRepository(permissionGrantRepository);
+  const [grantClock, setGrantClock] = useState(() => Date.now());
+  const lastActivityWrite = useRef(0);
+
+  // Re-evaluate grants when the next one starts or expires, so access changes without a reload
   useEffect(() => {
-    console.log('AuthProvider initializing...');
-
-    // Initialize with fresh default data
-    try {
-      // Always use fresh default data for consistency
-      localStorage.setItem('hdf_users', JSON.stringify(defaultUsers));
-      localStorage.setItem('hdf_roles', JSON.stringify(defaultRoles));
-
-      setUsers(defaultUsers);
-      setRoles(defaultRoles);
-
-      console.log('Enhanced Customer Care users loaded:', defaultUsers.length, 'users');
-      console.log('Enhanced Customer Care roles loaded:', defaultRoles.length, 'roles');
-      console.log('Available login credentials:');
-      defaultUsers.forEach(u => {
-        console.log(`- ${u.email} / ${u.password} (${u.name})`);
-      });
-    } catch (error) {
-      console.error('Error initializing data:', error);
-    }
-  }, []);
-
-  // Location monitoring effect - checks location every 10 seconds when user is logged in
+    const next = getNextGrantChange(grants);
+    if (next === null) return;
+    const timer = setTimeout(() => setGrantClock(Date.now()), Math.min(next - Date.now(), MAX_TIMER_DELAY));
+    return () => clearTimeout(timer);
+  }, [grants, grantClock]);
+
+  // grantClock only triggers the recount; new grants are checked against the current time
+  const activeGrants = useMemo(
+    () => (user ? getActiveGrants(user.id, grants) : []),
+    [user, grants, grantClock]
+  );
+  const grantedPermissions = useMemo(
+    () => getGrantedPermissions(activeGrants, users, roles),
+    [activeGrants, users, roles]
+  );
+
+  // Session effect - expiry, idle timeout and activity tracking while logged in
   useEffect(() => {
-    let failureCount = 0;
-    const MAX_FAILURES = 3;
-
-    const monitorLocation = async () => {
-      if (user) {
-        const isLocationEnabled = await checkLocationStatus();
-
-        if (isLocationEnabled) {
-          // Reset failure count on success
-          failureCount = 0;
-        } else {
-          // Increment failure count
-          failureCount++;
-          console.warn(`Location check failed (${failureCount}/${MAX_FAILURES})`);
-
-          if (failureCount >= MAX_FAILURES) {
-            console.log('Location services persistently disabled - auto logout triggered');
-            logout();
-            toast.error('Location services disabled. You have been logged out for security reasons.');
-          }
-        }
+    if (!user) return;
+
+    const checkSession = () => {
+      const session = readSession();
+      if (!session || session.userId !== user.id) return;
+
+      const state = getSessionState(session);
+      if (state === 'expired') {
+        endSession();
+        toast.warning('Your session has expired. Please sign in again.');
+      } else if (state === 'idle-expired') {
+        endSession();
+        toast.warning('You were signed out after a period of inactivity.');
+      } else if (state === 'idle-warning') {
+        setIdleDeadline(getIdleDeadline(session));
+      } else {
+        setIdleDeadline(null);
       }
     };
 
-    if (user) {
-      // Check location immediately when user logs in
-      monitorLocation();
+    // While the warning is showing only "Stay signed in" counts as activity
+    const handleActivity = () => {
+      const now = Date.now();
+      if (now - lastActivityWrite.current < ACTIVITY_THROTTLE) return;
+      const session = readSession();
+      if (!session || getSessionState(session, now) !== 'active') return;
+      lastActivityWrite.current = now;
+      touchSession();
+    };
 
-      // Then check every 10 seconds for logout on persistent location loss
-      locationCheckInterval.current = setInterval(monitorLocation, 10000);
-    } else {
-      // Clear interval when user logs out
-      if (locationCheckInterval.current) {
-        clearInterval(locationCheckInterval.current);
-      }
-    }
+    checkSession();
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL);
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
 
     return () => {
-      if (locationCheckInterval.current) {
-        clearInterval(locationCheckInterval.current);
-      }
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
     };
   }, [user]);
 
-  // Listen for user updates
+  // Keep tabs in sync: logging in or out in one tab applies to all of them
   useEffect(() => {
-    const handleUsersUpdate = (event: CustomEvent) => {
-      setUsers(event.detail);
-    };
-
     const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'hdf_users' && e.newValue) {
-        try {
-          const updatedUsers = JSON.parse(e.newValue);
-          setUsers(Array.isArray(updatedUsers) ? updatedUsers : defaultUsers);
-        } catch (error) {
-          console.error('Error parsing updated users:', error);
-          setUsers(defaultUsers);
-        }
+      if (e.key !== SESSION_KEY) return;
+
+      const session = readSession();
+      if (!session) {
+        setUser(null);
+        setIdleDeadline(null);
+        return;
       }
-      if (e.key === 'hdf_roles' && e.newValue) {
-        try {
-          const updatedRoles = JSON.parse(e.newValue);
-          setRoles(Array.isArray(updatedRoles) ? updatedRoles : defaultRoles);
-        } catch (error) {
-          console.error('Error parsing updated roles:', error);
-          setRoles(defaultRoles);
-        }
+
+      setUser(current => {
+        if (current?.id === session.userId) return current;
+        return userRepository.get(session.userId) || null;
+      });
+      if (getSessionState(session) === 'active') {
+        setIdleDeadline(null);
       }
     };
 
-    window.addEventListener('usersUpdated', handleUsersUpdate as EventListener);
     window.addEventListener('storage', handleStorageChange);
-
-    return () => {
-      window.removeEventListener('usersUpdated', handleUsersUpdate as EventListener);
-      window.removeEventListener('storage', handleStorageChange);
-    };
+    return () => window.removeEventListener('storage', handleStorageChange);
   }, []);
 
+  // Location enforcement follows the signed-in user's role policy
+  const locationPolicy = getLocationPolicy(user ? roles.find(role => role.id === user.roleId) : undefined);
+  useEffect(() => {
+    if (!user) return;
+
+    return startLocationMonitor(locationPolicy, () => {
+      console.log('Location services persistently disabled - auto logout triggered');
+      logout();
+      toast.error('Location services disabled. You have been logged out for security reasons.');
+    });
+  }, [user, locationPolicy.mode, locationPolicy.failureThreshold, locationPolicy.checkIntervalSeconds]);
+
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
-      console.log('Login attempt:', { email, password });
-
-      // First check if location is available
-      const locationAvailable = await checkLocationStatus();
-      if (!locationAvailable) {
-        toast.error('Location access is required to login. Please enable location services.');
+      // Throttling and lockout are checked before the password is even looked at
+      const block = getLoginBlock(email);
+      if (block) {
+        recordLoginAttempt(email, false, { reason: block.reason });
+        toast.error(block.reason === 'locked'
+          ? `Too many failed attempts. This account is locked - try again in ${formatRetryTime(block.retryAt)}.`
+          : `Please wait ${formatRetryTime(block.retryAt)} before trying again.`);
         return false;
       }
 
-      // Get the latest users from localStorage or use default
-      const savedUsers = localStorage.getItem('hdf_users');
-      const currentUsers = savedUsers ? JSON.parse(savedUsers) : defaultUsers;
-
-      console.log('Current users for login check:', currentUsers.length, 'users available');
+      // Users are seeded at boot, so the repository is always the source of truth
+      const currentUsers = userRepository.list();
 
-      const foundUser = currentUsers.find((u: User) => {
-        const emailMatch = u.email.toLowerCase() === email.toLowerCase();
-        const passwordMatch = u.password === password;
-        const isActive = u.status === 'active';
-
-        console.log(`Checking user ${u.email}:`, {
-          emailMatch,
-          passwordMatch,
-          isActive,
-          userPassword: u.password,
-          inputPassword: password
-        });
-
-        return emailMatch && passwordMatch && isActive;
-      });
-
-      console.log('Found user:', foundUser ? foundUser.name : 'None');
+      const candidate = currentUsers.find((u: User) =>
+        u.email.toLowerCase() === email.toLowerCase() && u.status === 'active'
+      );
+      const passwordMatches = await verifyPassword(password, candidate?.password || DUMMY_PASSWORD_HASH);
+      const foundUser = candidate && passwordMatches ? candidate : undefined;
 
       if (foundUser) {
-        // Update last login
-        const updatedUsers = currentUsers.map((u: User) =>
-          u.id === foundUser.id
-            ? { ...u, lastLogin: new Date().toISOString() }
-            : u
-        );
-
-        localStorage.setItem('hdf_users', JSON.stringify(updatedUsers));
-        localStorage.setItem('hdf_current_user', JSON.stringify(foundUser));
+        // Location is only enforced for roles whose policy requires it
+        const role = roleRepository.get(foundUser.roleId);
+        if (!await isLoginAllowedByLocation(getLocationPolicy(role))) {
+          recordLoginAttempt(email, false, { userId: foundUser.id, reason: 'location_required' });
+          toast.error('Location access is required to login. Please enable location services.');
+          return false;
+        }
 
-        setUser(foundUser);
-        setUsers(updatedUsers);
+        // Upgrade plaintext or outdated hashes while we have the password
+        if (needsRehash(foundUser.password)) {
+          userRepository.update(foundUser.id, { password: await hashPassword(password) });
+        }
 
-        console.log('✅ Login successful for user:', foundUser.name);
-        console.log('📍 Location tracking enabled for user');
-        toast.success(`Welcome back, ${foundUser.name}!`);
+        // The session only starts once the second factor is through
+        if (isTwoFactorEnabled(foundUser)) {
+          setPendingTwoFactor({ userId: foundUser.id, email, mode: 'verify' });
+          return false;
+        }
+        if (isTwoFactorRequired(role)) {
+          setPendingTwoFactor({
+            userId: foundUser.id,
+            email,
+            mode: 'enroll',
+            enrollment: startTwoFactorEnrollment(foundUser),
+          });
+          return false;
+        }
 
-        return true;
+        return startSession(foundUser.id, email);
       }
 
       console.log('❌ Login failed - invalid credentials or inactive user');
+      registerFailedLogin(email);
+      recordLoginAttempt(email, false, { userId: candidate?.id, reason: 'invalid_credentials' });
       toast.error('Invalid email or password');
       return false;
     } catch (error) {
@@ -399,29 +258,155 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem('hdf_current_user');
+  // Fails when the account was deleted or deactivated while the second factor was pending
+  const startSession = (userId: string, email: string): boolean => {
+    const signedInUser = userRepository.get(userId)?.status === 'active'
+      ? userRepository.update(userId, { lastLogin: new Date().toISOString() })
+      : undefined;
+    if (!signedInUser) {
+      setPendingTwoFactor(null);
+      recordLoginAttempt(email, false, { userId, reason: 'invalid_credentials' });
+      toast.error('This account is no longer available. Please contact your administrator.');
+      return false;
+    }
+
+    createSession(userId);
+    clearLockout(email);
+    recordLoginAttempt(email, true, { userId });
+    setPendingTwoFactor(null);
+    setUser(signedInUser);
+    toast.success(`Welcome back, ${signedInUser.name}!`);
+    return true;
+  };
+
+  // Wrong codes count towards the same lockout as wrong passwords
+  const rejectSecondFactor = (pending: PendingTwoFactor) => {
+    registerFailedLogin(pending.email);
+    recordLoginAttempt(pending.email, false, { userId: pending.userId, reason: 'invalid_two_factor' });
+
+    const block = getLoginBlock(pending.email);
+    if (block?.reason === 'locked') {
+      setPendingTwoFactor(null);
+      toast.error(`Too many failed attempts. This account is locked - try again in ${formatRetryTime(block.retryAt)}.`);
+    } else {
+      toast.error('Invalid verification code');
+    }
+  };
+
+  const verifyTwoFactor = async (code: string): Promise<boolean> => {
+    const pending = pendingTwoFactor;
+    if (!pending || pending.mode !== 'verify') return false;
+
+    const block = getLoginBlock(pending.email);
+    if (block) {
+      toast.error(`Please wait ${formatRetryTime(block.retryAt)} before trying again.`);
+      return false;
+    }
 
-    // Clear location monitoring interval
-    if (locationCheckInterval.current) {
-      clearInterval(locationCheckInterval.current);
+    if (!await verifySecondFactor(pending.userId, code)) {
+      rejectSecondFactor(pending);
+      return false;
+    }
+    return startSession(pending.userId, pending.email);
+  };
+
+  const enrollTwoFactor = async (code: string): Promise<string[] | null> => {
+    const pending = pendingTwoFactor;
+    if (!pending || pending.mode !== 'enroll' || !pending.enrollment) return null;
+
+    const recoveryCodes = await completeTwoFactorEnrollment(pending.userId, pending.enrollment.secret, code);
+    if (!recoveryCodes) {
+      rejectSecondFactor(pending);
+      return null;
+    }
+    setPendingTwoFactor({ ...pending, enrolled: true });
+    return recoveryCodes;
+  };
+
+  const finishTwoFactorEnrollment = () => {
+    if (pendingTwoFactor?.mode === 'enroll' && pendingTwoFactor.enrolled) {
+      startSession(pendingTwoFactor.userId, pendingTwoFactor.email);
     }
+  };
+
+  const cancelTwoFactor = () => {
+    setPendingTwoFactor(null);
+  };
+
+  // Ends the session in this and every other tab
+  const endSession = () => {
+    setUser(null);
+    setIdleDeadline(null);
+    clearSession();
+  };
 
-    console.log('📍 Location tracking stopped');
+  const logout = () => {
+    endSession();
     toast.success('Logged out successfully');
   };
 
-  const hasPermission = (permission: string): boolean => {
+  const changePassword = async (currentPassword: string, newPassword: string): Promise<boolean> => {
     if (!user) return false;
 
-    const userRole = roles.find(role => role.id === user.roleId);
-    const hasAccess = userRole ? userRole.permissions.includes(permission) : false;
+    const stored = userRepository.get(user.id);
+    if (!stored || !await verifyPassword(currentPassword, stored.password)) {
+      toast.error('Current password is incorrect');
+      return false;
+    }
+
+    const passwordError = getPasswordError(newPassword);
+    if (passwordError) {
+      toast.error(passwordError);
+      return false;
+    }
+    if (currentPassword === newPassword) {
+      toast.error('New password must be different from the current one');
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    const updated = userRepository.update(user.id, {
+      password: await hashPassword(newPassword),
+      mustChangePassword: false,
+      passwordChangedAt: now,
+      updatedAt: now,
+    });
+    setUser(updated);
+    toast.success('Password changed successfully');
+    return true;
+  };
+
+  const resetPassword = async (token: string, newPassword: string): Promise<boolean> => {
+    const passwordError = getPasswordError(newPassword);
+    if (passwordError) {
+      toast.error(passwordError);
+      return false;
+    }
+
+    if (!await consumeResetToken(token, newPassword)) {
+      toast.error('This reset link is invalid or has expired');
+      return false;
+    }
+    toast.success('Password reset. You can now sign in with your new password.');
+    return true;
+  };
 
-    console.log(`Permission check: ${permission} = ${hasAccess} (Role: ${userRole?.name})`);
-    return hasAccess;
+  const extendSession = () => {
+    lastActivityWrite.current = Date.now();
+    touchSession();
+    setIdleDeadline(null);
   };
 
+  // Stable between renders so pages can list it as a memo dependency
+  const hasPermission = useCallback((permission: PermissionId): boolean => {
+    if (!user) return false;
+
+    const userRole = roles.find(role => role.id === user.roleId);
+    // Derived roles resolve through their parents, so base-role changes apply straight away
+    const fromRole = userRole ? resolveRolePermissions(userRole, roles).includes(permission) : false;
+    return fromRole || grantedPermissions.includes(permission);
+  }, [user, roles, grantedPermissions]);
+
   const value: AuthContextType = {
     user,
     users,
@@ -429,10 +414,24 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     login,
     logout,
     hasPermission,
+    activeGrants,
     currentUser: user,
+    extendSession,
+    changePassword,
+    resetPassword,
+    pendingTwoFactor,
+    verifyTwoFactor,
+    enrollTwoFactor,
+    finishTwoFactorEnrollment,
+    cancelTwoFactor,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <IdleWarningDialog deadline={user ? idleDeadline : null} onStaySignedIn={extendSession} onLogout={logout} />
+    </AuthContext.Provider>
+  );
 };
 
 export const useAuth = (): AuthContextType => {
@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { teamRepository } from '@/lib/repositories';
+import { createScopePolicy } from '@/lib/dataScope';
+import { getDelegatorIds } from '@/lib/permissionGrants';
+import { useRepository } from '@/hooks/useRepository';
+
+// Record-level access for the signed-in user, rebuilt when users, teams, roles or grants change
+export const useDataScope = () => {
+  const { user, users, activeGrants, hasPermission } = useAuth();
+  const teams = useRepository(teamRepository);
+  return useMemo(
+    () => createScopePolicy(user, users, teams, hasPermission, getDelegatorIds(activeGrants)),
+    [user, users, teams, hasPermission, activeGrants]
+  );
+};
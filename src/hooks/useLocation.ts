@@ -1,91 +0,0 @@
-import { useState, useEffect, useCallback } from 'react';
-
-interface LocationState {
-  latitude: number | null;
-  longitude: number | null;
-  error: string | null;
-  isAvailable: boolean;
-}
-
-export const useLocation = () => {
-  const [location, setLocation] = useState<LocationState>({
-    latitude: null,
-    longitude: null,
-    error: null,
-    isAvailable: false
-  });
-
-  const requestLocation = useCallback((): Promise<boolean> => {
-    return new Promise((resolve) => {
-      if (!navigator.geolocation) {
-        setLocation(prev => ({
-          ...prev,
-          error: 'Geolocation is not supported by this browser',
-          isAvailable: false
-        }));
-        resolve(false);
-        return;
-      }
-
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          setLocation({
-            latitude: position.coords.latitude,
-            longitude: position.coords.longitude,
-            error: null,
-            isAvailable: true
-          });
-          resolve(true);
-        },
-        (error) => {
-          let errorMessage = 'Unknown error occurred';
-          
-          switch (error.code) {
-            case error.PERMISSION_DENIED:
-              errorMessage = 'Location access denied. Please enable location services to login.';
-              break;
-            case error.POSITION_UNAVAILABLE:
-              errorMessage = 'Location information unavailable.';
-              break;
-            case error.TIMEOUT:
-              errorMessage = 'Location request timed out.';
-              break;
-          }
-
-          setLocation(prev => ({
-            ...prev,
-            error: errorMessage,
-            isAvailable: false
-          }));
-          resolve(false);
-        },
-        {
-          enableHighAccuracy: true,
-          timeout: 10000,
-          maximumAge: 0
-        }
-      );
-    });
-  }, []);
-
-  const checkLocationStatus = useCallback((): Promise<boolean> => {
-    return new Promise((resolve) => {
-      if (!navigator.geolocation) {
-        resolve(false);
-        return;
-      }
-
-      navigator.geolocation.getCurrentPosition(
-        () => resolve(true),
-        () => resolve(false),
-        { timeout: 5000 }
-      );
-    });
-  }, []);
-
-  return {
-    location,
-    requestLocation,
-    checkLocationStatus
-  };
-};
\ No newline at end of file
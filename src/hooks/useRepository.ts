@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import type { Entity, Repository } from '@/lib/repositories';
+
+// Subscribes a component to a repository and re-renders on every change
+export const useRepository = <T extends Entity>(repository: Repository<T>): T[] => {
+  return useSyncExternalStore(repository.subscribe, repository.list);
+};
+
+// The records of a soft-delete collection that are in the recycle bin
+export const useDeletedRecords = <T extends Entity>(repository: Repository<T>): T[] => {
+  return useSyncExternalStore(repository.subscribe, repository.listDeleted);
+};
@@ -0,0 +1,228 @@
+// Append-only audit trail. Every write to an audited collection is compared with what was
+// there before and recorded as create / update / delete entries, so pages don't log by hand.
+// Actions that span many records (like reassignment) add a summary entry with recordAuditEvent().
+
+import {
+  animalRepository,
+  auditLogRepository,
+  clientRepository,
+  complaintRepository,
+  customFieldRepository,
+  farmerRepository,
+  fieldVisitRepository,
+  fodderPurchaseRepository,
+  formRepository,
+  formSubmissionRepository,
+  middlemanRepository,
+  onRepositoryChange,
+  permissionGrantRepository,
+  regionRepository,
+  roleRepository,
+  taskRepository,
+  teamRepository,
+  userRepository,
+  veterinarianRepository,
+} from '@/lib/repositories';
+import type { AuditAction, AuditChange, AuditEntityType, AuditEntry, Entity, SoftDeletable } from '@/lib/repositories';
+import { readSession } from '@/lib/session';
+import { toCsv } from '@/lib/spreadsheet';
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  client: 'Client',
+  farmer: 'Farmer',
+  animal: 'Animal',
+  veterinarian: 'Veterinarian',
+  middleman: 'Middleman',
+  fodder_purchase: 'Fodder Purchase',
+  visit: 'Field Visit',
+  task: 'Task',
+  complaint: 'Complaint',
+  form: 'Form',
+  form_submission: 'Form Submission',
+  user: 'User',
+  role: 'Role',
+  team: 'Team',
+  region: 'Region',
+  permission_grant: 'Temporary Access',
+  custom_field: 'Custom Field',
+};
+
+const auditedCollections: Record<string, AuditEntityType> = {
+  [clientRepository.key]: 'client',
+  [farmerRepository.key]: 'farmer',
+  [animalRepository.key]: 'animal',
+  [veterinarianRepository.key]: 'veterinarian',
+  [middlemanRepository.key]: 'middleman',
+  [fodderPurchaseRepository.key]: 'fodder_purchase',
+  [fieldVisitRepository.key]: 'visit',
+  [taskRepository.key]: 'task',
+  [complaintRepository.key]: 'complaint',
+  [formRepository.key]: 'form',
+  [formSubmissionRepository.key]: 'form_submission',
+  [userRepository.key]: 'user',
+  [roleRepository.key]: 'role',
+  [teamRepository.key]: 'team',
+  [regionRepository.key]: 'region',
+  [permissionGrantRepository.key]: 'permission_grant',
+  [customFieldRepository.key]: 'custom_field',
+};
+
+// Bookkeeping fields that change on their own (timestamps, live GPS) would drown out real edits
+const IGNORED_FIELDS = new Set(['id', 'updatedAt', 'lastLogin', 'liveLocation']);
+// Long values such as photos are summarised rather than copied into the log
+const MAX_VALUE_LENGTH = 500;
+
+// Secrets never reach the log. A password change is still recorded, and two-factor
+// shows only whether it is on, so recovery-code use and replay counters aren't logged.
+const toAuditValue = (field: string, value: unknown): unknown => {
+  if (value === undefined || value === null) return value;
+  if (field === 'password') return '[redacted]';
+  if (field === 'twoFactor') return (value as { enabled?: boolean }).enabled ? 'enabled' : 'disabled';
+  if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) return `[${value.length} characters]`;
+  return value;
+};
+
+const isSameValue = (field: string, before: unknown, after: unknown) =>
+  field === 'password'
+    ? before === after
+    : JSON.stringify(toAuditValue(field, before)) === JSON.stringify(toAuditValue(field, after));
+
+export const diffRecords = (before: Entity | undefined, after: Entity | undefined): AuditChange[] => {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(previous), ...Object.keys(next)])];
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.has(field) && !isSameValue(field, previous[field], next[field]))
+    .map(field => ({
+      field,
+      ...(before ? { before: toAuditValue(field, previous[field]) } : {}),
+      ...(after ? { after: toAuditValue(field, next[field]) } : {}),
+    }));
+};
+
+const getEntityLabel = (record: Entity): string => {
+  const fields = record as unknown as Record<string, unknown>;
+  const label = fields.name || fields.title || fields.targetName || fields.formTitle || fields.tag || fields.fodderType || fields.label;
+  return typeof label === 'string' && label ? label : record.id;
+};
+
+// Changes made before anyone signs in (seeding, login bookkeeping) belong to the system
+export const SYSTEM_ACTOR = 'system';
+const getActorId = () => readSession()?.userId || SYSTEM_ACTOR;
+
+let entrySequence = 0;
+
+const buildEntry = (
+  action: AuditAction,
+  entityType: AuditEntityType,
+  entityId: string,
+  entityLabel: string,
+  changes: AuditChange[],
+  summary?: string
+): AuditEntry => {
+  const timestamp = new Date().toISOString();
+  entrySequence += 1;
+  return {
+    id: `audit_${Date.now()}_${entrySequence}`,
+    actorId: getActorId(),
+    action,
+    entityType,
+    entityId,
+    entityLabel,
+    changes,
+    summary,
+    timestamp,
+  };
+};
+
+let pendingEntries: AuditEntry[] = [];
+
+// Entries are collected and written once per tick, so a page that saves many records
+// in one go rewrites the log once rather than once per save
+const flushEntries = () => {
+  const entries = pendingEntries;
+  pendingEntries = [];
+  auditLogRepository.saveAll([...auditLogRepository.list(), ...entries]);
+};
+
+const appendEntries = (entries: AuditEntry[]) => {
+  if (entries.length === 0) return;
+  if (pendingEntries.length === 0) queueMicrotask(flushEntries);
+  pendingEntries.push(...entries);
+};
+
+// Compares a collection before and after a save, record by record
+const entriesForChange = (entityType: AuditEntityType, previous: Entity[], next: Entity[]): AuditEntry[] => {
+  const before = new Map(previous.map(record => [record.id, record]));
+  const after = new Map(next.map(record => [record.id, record]));
+  const entries: AuditEntry[] = [];
+
+  next.forEach(record => {
+    const old = before.get(record.id);
+    if (old === record) return;
+    const changes = diffRecords(old, record);
+    const wasDeleted = !!(old as SoftDeletable | undefined)?.deletedAt;
+    const isDeleted = !!(record as SoftDeletable).deletedAt;
+    if (!old) {
+      entries.push(buildEntry('create', entityType, record.id, getEntityLabel(record), changes));
+    } else if (!wasDeleted && isDeleted) {
+      entries.push(buildEntry('delete', entityType, record.id, getEntityLabel(record), changes, 'Moved to recycle bin'));
+    } else if (wasDeleted && !isDeleted) {
+      entries.push(buildEntry('restore', entityType, record.id, getEntityLabel(record), changes, 'Restored from recycle bin'));
+    } else if (changes.length > 0) {
+      entries.push(buildEntry('update', entityType, record.id, getEntityLabel(record), changes));
+    }
+  });
+
+  previous.forEach(record => {
+    if (!after.has(record.id)) {
+      const summary = (record as SoftDeletable).deletedAt ? 'Purged from recycle bin' : undefined;
+      entries.push(buildEntry('delete', entityType, record.id, getEntityLabel(record), diffRecords(record, undefined), summary));
+    }
+  });
+
+  return entries;
+};
+
+// Records an action that isn't a single field change, e.g. a bulk reassignment
+export const recordAuditEvent = (event: {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityLabel: string;
+  summary: string;
+  changes?: AuditChange[];
+}) => {
+  appendEntries([
+    buildEntry(event.action, event.entityType, event.entityId, event.entityLabel, event.changes || [], event.summary),
+  ]);
+};
+
+// Starts recording writes to the audited collections. Called once at startup, after seeding.
+export const startAuditTrail = () =>
+  onRepositoryChange((key, previous, next) => {
+    const entityType = auditedCollections[key];
+    if (!entityType) return;
+    try {
+      appendEntries(entriesForChange(entityType, previous, next));
+    } catch (error) {
+      console.error(`Error writing audit entries for ${key}:`, error);
+    }
+  });
+
+// Flattens entries for CSV export, one row per entry
+export const auditEntriesToCsv = (entries: AuditEntry[], getActorName: (actorId: string) => string): string =>
+  toCsv([
+    ['Timestamp', 'Actor', 'Action', 'Entity Type', 'Entity ID', 'Entity', 'Summary', 'Changes'],
+    ...entries.map(entry => [
+      entry.timestamp,
+      getActorName(entry.actorId),
+      entry.action,
+      AUDIT_ENTITY_LABELS[entry.entityType],
+      entry.entityId,
+      entry.entityLabel,
+      entry.summary || '',
+      JSON.stringify(entry.changes),
+    ]),
+  ]);
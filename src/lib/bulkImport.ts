@@ -0,0 +1,381 @@
+// Bulk import of clients and farmers from a spreadsheet. The same validation runs for the
+// dry run and the commit, so the commit re-checks against records added in the meantime.
+
+import {
+  animalRepository,
+  clientRepository,
+  customFieldRepository,
+  farmerRepository,
+  middlemanRepository,
+  veterinarianRepository,
+} from '@/lib/repositories';
+import type { Animal, Client, CustomFieldDefinition, CustomFieldValues, Farmer } from '@/lib/repositories';
+import { isValidPhone, normalisePhone } from '@/lib/phone';
+import { createDuplicateIndex, describeMatch } from '@/lib/duplicates';
+import type { DuplicateCandidate } from '@/lib/duplicates';
+import { toCsv } from '@/lib/spreadsheet';
+import type { SpreadsheetRow } from '@/lib/spreadsheet';
+import { findOrCreateMiddleman, findOrCreateVeterinarian, parseAnimalList, summariseAnimals } from '@/lib/farmerProfile';
+import {
+  cleanCustomFieldValues,
+  getFieldsFor,
+  parseCustomFieldValue,
+  validateCustomFieldValue,
+} from '@/lib/customFields';
+
+export type ImportTarget = 'client' | 'farmer';
+
+type FieldKind = 'text' | 'email' | 'phone' | 'number' | 'choice';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  kind: FieldKind;
+  required?: boolean;
+  options?: string[];
+  // Header spellings recognised when guessing the column mapping
+  aliases?: string[];
+  // Set on admin-defined fields, which validate and parse themselves
+  customField?: CustomFieldDefinition;
+}
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+  client: [
+    { key: 'name', label: 'Name', kind: 'text', required: true, aliases: ['client name', 'full name', 'client'] },
+    { key: 'email', label: 'Email', kind: 'email', required: true, aliases: ['email address', 'e-mail'] },
+    { key: 'phone', label: 'Phone', kind: 'phone', required: true, aliases: ['phone number', 'mobile', 'contact'] },
+    { key: 'address', label: 'Address', kind: 'text' },
+    { key: 'area', label: 'Area', kind: 'text', aliases: ['region', 'location', 'district'] },
+    { key: 'type', label: 'Type', kind: 'choice', options: ['individual', 'corporate'], aliases: ['client type'] },
+    { key: 'status', label: 'Status', kind: 'choice', options: ['active', 'inactive'] },
+    { key: 'notes', label: 'Notes', kind: 'text', aliases: ['comments', 'remarks'] },
+  ],
+  farmer: [
+    { key: 'name', label: 'Name', kind: 'text', required: true, aliases: ['farmer name', 'full name', 'farmer'] },
+    { key: 'phone', label: 'Phone', kind: 'phone', required: true, aliases: ['phone number', 'mobile', 'contact'] },
+    { key: 'address', label: 'Address', kind: 'text', aliases: ['village', 'location'] },
+    // Free text such as "2 cows, goat"; each animal becomes its own record
+    { key: 'animals', label: 'Animals', kind: 'text', aliases: ['animal', 'animal name', 'livestock'] },
+    // Vets and middlemen are matched to existing records by phone, or added
+    { key: 'veterinarian', label: 'Vet', kind: 'text', aliases: ['veterinarian', 'doctor', 'consult dr', 'consulting doctor'] },
+    { key: 'veterinarianPhone', label: 'Vet Phone', kind: 'phone', aliases: ['veterinarian phone', 'dr phone', 'doctor phone'] },
+    { key: 'middleman', label: 'Middleman', kind: 'text', aliases: ['middle man', 'agent'] },
+    { key: 'middlemanPhone', label: 'Middleman Phone', kind: 'phone', aliases: ['middle man phone', 'agent phone'] },
+    { key: 'status', label: 'Status', kind: 'choice', options: ['active', 'inactive'] },
+    { key: 'notes', label: 'Notes', kind: 'text', aliases: ['comments', 'remarks'] },
+  ],
+};
+
+const CUSTOM_FIELD_KEY_PREFIX = 'custom:';
+
+// The built-in fields followed by the target's current custom fields
+export const getImportFields = (target: ImportTarget): ImportField[] => [
+  ...IMPORT_FIELDS[target],
+  ...getFieldsFor(customFieldRepository.list(), target).map(definition => ({
+    key: `${CUSTOM_FIELD_KEY_PREFIX}${definition.id}`,
+    label: definition.label,
+    kind: 'text' as const,
+    required: definition.required,
+    options: definition.options,
+    customField: definition,
+  })),
+];
+
+export const IMPORT_TARGET_LABELS: Record<ImportTarget, string> = {
+  client: 'Clients',
+  farmer: 'Farmers',
+};
+
+// Field key -> column index in the sheet
+export type ColumnMapping = Record<string, number>;
+
+export type ImportRowStatus = 'valid' | 'duplicate' | 'invalid';
+
+export interface ImportRowResult {
+  rowNumber: number;
+  status: ImportRowStatus;
+  values: Record<string, string | number>;
+  errors: string[];
+  // Why the row looks like a duplicate, e.g. "Same phone, similar name (90%) as Rahim Uddin"
+  duplicateOf?: string;
+}
+
+export type ImportOutcome = 'imported' | 'skipped' | 'failed';
+
+export interface ImportReportRow {
+  rowNumber: number;
+  name: string;
+  outcome: ImportOutcome;
+  message: string;
+  recordId?: string;
+}
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Matches headers to fields by key, label or alias, ignoring case and punctuation
+export const guessColumnMapping = (target: ImportTarget, headers: string[]): ColumnMapping => {
+  const normalised = headers.map(normaliseHeader);
+  const mapping: ColumnMapping = {};
+  getImportFields(target).forEach(field => {
+    const names = [field.key, field.label, ...(field.aliases || [])].map(normaliseHeader);
+    const index = normalised.findIndex((header, i) =>
+      names.includes(header) && !Object.values(mapping).includes(i));
+    if (index !== -1) mapping[field.key] = index;
+  });
+  return mapping;
+};
+
+export const getMissingRequiredFields = (target: ImportTarget, mapping: ColumnMapping) =>
+  getImportFields(target).filter(field => field.required && mapping[field.key] === undefined);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const parseValue = (field: ImportField, raw: string): { value?: string | number; error?: string } => {
+  if (field.customField) {
+    // Kept as text until the record is built; checkbox options are listed with commas
+    const value = parseCustomFieldValue(field.customField, raw);
+    const error = validateCustomFieldValue(field.customField, value);
+    if (error) return { error };
+    return raw ? { value: Array.isArray(value) ? value.join(', ') : value } : {};
+  }
+  if (!raw) {
+    return field.required ? { error: `${field.label} is required` } : {};
+  }
+  switch (field.kind) {
+    case 'email':
+      return EMAIL_PATTERN.test(raw) ? { value: raw.toLowerCase() } : { error: `${field.label} "${raw}" is not a valid email address` };
+    case 'phone':
+      return isValidPhone(raw) ? { value: normalisePhone(raw) } : { error: `${field.label} "${raw}" is not a valid phone number` };
+    case 'number': {
+      const value = Number(raw.replace(/,/g, ''));
+      return Number.isFinite(value) && value >= 0 ? { value } : { error: `${field.label} "${raw}" is not a valid number` };
+    }
+    case 'choice': {
+      const value = raw.toLowerCase();
+      return field.options?.includes(value)
+        ? { value }
+        : { error: `${field.label} must be one of ${field.options?.join(', ')}` };
+    }
+    default:
+      return { value: raw };
+  }
+};
+
+interface ImportMatchRecord extends DuplicateCandidate {
+  // How the match is named in the dry run, e.g. "Rahim Uddin" or "row 12"
+  label: string;
+}
+
+const toCandidate = (values: Record<string, string | number>, id: string, label: string): ImportMatchRecord => ({
+  id,
+  label,
+  name: String(values.name || ''),
+  phone: values.phone === undefined ? undefined : String(values.phone),
+  email: values.email === undefined ? undefined : String(values.email),
+  address: values.address === undefined ? undefined : String(values.address),
+});
+
+// Existing records, including the recycle bin, that imported rows are matched against
+const indexExistingRecords = (target: ImportTarget) => {
+  const repository = target === 'client' ? clientRepository : farmerRepository;
+  const toMatchRecord = (record: Client | Farmer, suffix: string): ImportMatchRecord => ({
+    id: record.id,
+    label: `${record.name}${suffix}`,
+    name: record.name,
+    phone: record.phone,
+    email: 'email' in record ? record.email : undefined,
+    address: record.address,
+  });
+  return createDuplicateIndex<ImportMatchRecord>([
+    ...repository.list().map(record => toMatchRecord(record, '')),
+    ...repository.listDeleted().map(record => toMatchRecord(record, ' (in the recycle bin)')),
+  ]);
+};
+
+export const validateImportRows = (
+  target: ImportTarget,
+  rows: SpreadsheetRow[],
+  mapping: ColumnMapping
+): ImportRowResult[] => {
+  // Earlier rows of the file are added as they pass, so repeats within the file are caught too
+  const index = indexExistingRecords(target);
+  const fields = getImportFields(target);
+
+  return rows.map(row => {
+    const values: Record<string, string | number> = {};
+    const errors: string[] = [];
+    fields.forEach(field => {
+      const column = mapping[field.key];
+      const parsed = parseValue(field, column === undefined ? '' : row.values[column] || '');
+      if (parsed.error) errors.push(parsed.error);
+      if (parsed.value !== undefined) values[field.key] = parsed.value;
+    });
+
+    let duplicateOf: string | undefined;
+    if (errors.length === 0) {
+      const candidate = toCandidate(values, `row:${row.rowNumber}`, `row ${row.rowNumber}`);
+      const [match] = index.findMatches(candidate);
+      if (match) duplicateOf = `${describeMatch(match.reasons)} as ${match.record.label}`;
+      index.add(candidate);
+    }
+
+    return {
+      rowNumber: row.rowNumber,
+      status: errors.length > 0 ? 'invalid' : duplicateOf ? 'duplicate' : 'valid',
+      values,
+      errors,
+      duplicateOf,
+    };
+  });
+};
+
+export const summariseImport = (results: ImportRowResult[]) => ({
+  valid: results.filter(result => result.status === 'valid').length,
+  duplicate: results.filter(result => result.status === 'duplicate').length,
+  invalid: results.filter(result => result.status === 'invalid').length,
+});
+
+const buildCustomFieldValues = (target: ImportTarget, values: Record<string, string | number>) => {
+  const definitions = getFieldsFor(customFieldRepository.list(), target);
+  const parsed = definitions.reduce<CustomFieldValues>((result, definition) => {
+    const value = values[`${CUSTOM_FIELD_KEY_PREFIX}${definition.id}`];
+    if (value !== undefined) result[definition.id] = parseCustomFieldValue(definition, String(value));
+    return result;
+  }, {});
+  const cleaned = cleanCustomFieldValues(definitions, parsed);
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined;
+};
+
+const buildRecord = (target: ImportTarget, values: Record<string, string | number>, id: string, userId: string, now: string) => {
+  const common = {
+    id,
+    name: String(values.name),
+    phone: String(values.phone),
+    address: String(values.address || ''),
+    status: (values.status || 'active') as 'active' | 'inactive',
+    notes: String(values.notes || ''),
+    registrationDate: now,
+    createdBy: userId,
+    assignedUserId: userId,
+    customFields: buildCustomFieldValues(target, values),
+  };
+  if (target === 'client') {
+    const client: Client = {
+      ...common,
+      email: String(values.email),
+      area: String(values.area || ''),
+      type: (values.type || 'individual') as Client['type'],
+      lastContact: now,
+    };
+    return client;
+  }
+  const vet = { name: String(values.veterinarian || ''), phone: String(values.veterinarianPhone || '') };
+  const middleman = { name: String(values.middleman || ''), phone: String(values.middlemanPhone || '') };
+  const farmer: Farmer = {
+    ...common,
+    veterinarianId: vet.name || vet.phone ? findOrCreateVeterinarian(vet).id : undefined,
+    middlemanId: middleman.name || middleman.phone ? findOrCreateMiddleman(middleman).id : undefined,
+  };
+  return farmer;
+};
+
+// Validates again and writes every importable row in one save. Imported records are
+// created by and assigned to the importing user, the same as a record added by hand.
+export const commitImport = (
+  target: ImportTarget,
+  rows: SpreadsheetRow[],
+  mapping: ColumnMapping,
+  options: { userId: string; includeDuplicates: boolean }
+): ImportReportRow[] => {
+  const results = validateImportRows(target, rows, mapping);
+  const now = new Date().toISOString();
+  const batchId = Date.now();
+  const created: (Client | Farmer)[] = [];
+  const animals: Animal[] = [];
+
+  const report = results.map((result, index): ImportReportRow => {
+    const name = String(result.values.name || '');
+    if (result.status === 'invalid') {
+      return { rowNumber: result.rowNumber, name, outcome: 'failed', message: result.errors.join('; ') };
+    }
+    if (result.status === 'duplicate' && !options.includeDuplicates) {
+      return { rowNumber: result.rowNumber, name, outcome: 'skipped', message: `Duplicate - ${result.duplicateOf}` };
+    }
+    const id = `${target}-${batchId}-${index}`;
+    created.push(buildRecord(target, result.values, id, options.userId, now));
+    if (target === 'farmer' && result.values.animals) {
+      parseAnimalList(String(result.values.animals)).forEach((animal, animalIndex) => {
+        animals.push({
+          ...animal,
+          id: `animal-${batchId}-${index}-${animalIndex}`,
+          farmerId: id,
+          tag: '',
+          healthStatus: 'healthy',
+          notes: '',
+          createdAt: now,
+        });
+      });
+    }
+    return {
+      rowNumber: result.rowNumber,
+      name,
+      outcome: 'imported',
+      message: result.duplicateOf ? `Imported despite duplicate - ${result.duplicateOf}` : 'Imported',
+      recordId: id,
+    };
+  });
+
+  if (created.length > 0) {
+    if (target === 'client') {
+      clientRepository.saveAll([...clientRepository.list(), ...(created as Client[])]);
+    } else {
+      farmerRepository.saveAll([...farmerRepository.list(), ...(created as Farmer[])]);
+      if (animals.length > 0) animalRepository.saveAll([...animalRepository.list(), ...animals]);
+    }
+  }
+  return report;
+};
+
+export const importReportToCsv = (report: ImportReportRow[]) =>
+  toCsv([
+    ['Row', 'Name', 'Outcome', 'Message', 'Record ID'],
+    ...report.map(row => [row.rowNumber, row.name, row.outcome, row.message, row.recordId || '']),
+  ]);
+
+// An empty sheet with the expected headers, for people starting from scratch
+export const importTemplateCsv = (target: ImportTarget) =>
+  toCsv([getImportFields(target).map(field => field.label)]);
+
+// The cell an existing record would have had in an import sheet
+const getExportValue = (field: ImportField, record: Client | Farmer): unknown => {
+  if (field.customField) {
+    const value = record.customFields?.[field.customField.id];
+    return Array.isArray(value) ? value.join(', ') : value || '';
+  }
+  const farmer = record as Farmer;
+  switch (field.key) {
+    case 'animals':
+      return summariseAnimals(animalRepository.find(animal => animal.farmerId === record.id));
+    case 'veterinarian':
+    case 'veterinarianPhone': {
+      const vet = farmer.veterinarianId ? veterinarianRepository.get(farmer.veterinarianId) : undefined;
+      return (field.key === 'veterinarian' ? vet?.name : vet?.phone) || '';
+    }
+    case 'middleman':
+    case 'middlemanPhone': {
+      const middleman = farmer.middlemanId ? middlemanRepository.get(farmer.middlemanId) : undefined;
+      return (field.key === 'middleman' ? middleman?.name : middleman?.phone) || '';
+    }
+    default:
+      return (record as unknown as Record<string, unknown>)[field.key] ?? '';
+  }
+};
+
+// Exports use the import columns, custom fields included, so a sheet can be edited and imported again
+export const exportRecordsCsv = (target: ImportTarget, records: (Client | Farmer)[]) => {
+  const fields = getImportFields(target);
+  return toCsv([
+    fields.map(field => field.label),
+    ...records.map(record => fields.map(field => getExportValue(field, record))),
+  ]);
+};
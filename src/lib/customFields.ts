@@ -0,0 +1,163 @@
+// Admin-defined extra fields on clients and farmers. The definitions live in their own
+// collection and the values sit on each record under `customFields`, keyed by definition ID,
+// so removing a definition hides its values without rewriting every record.
+
+import type {
+  CustomFieldDefinition,
+  CustomFieldEntity,
+  CustomFieldType,
+  CustomFieldValue,
+  CustomFieldValues,
+} from '@/lib/repositories';
+import { excelSerialToDate } from '@/lib/spreadsheet';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  textarea: 'Long Text',
+  email: 'Email',
+  number: 'Number',
+  date: 'Date',
+  select: 'Dropdown',
+  radio: 'Radio Buttons',
+  checkbox: 'Checkboxes',
+};
+
+export const CUSTOM_FIELD_ENTITY_LABELS: Record<CustomFieldEntity, string> = {
+  client: 'Clients',
+  farmer: 'Farmers',
+};
+
+export const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'radio' || type === 'checkbox';
+
+// Patterns only make sense on the free-text types
+export const supportsValidation = (type: CustomFieldType) =>
+  type === 'text' || type === 'textarea' || type === 'email' || type === 'number';
+
+export const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getFieldsFor = (definitions: CustomFieldDefinition[], entity: CustomFieldEntity) =>
+  definitions
+    .filter(definition => definition.entity === entity)
+    .sort((a, b) => a.order - b.order);
+
+const isEmpty = (value?: CustomFieldValue) =>
+  value === undefined || (Array.isArray(value) ? value.length === 0 : value.trim() === '');
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Date values are stored as yyyy-mm-dd, like the date input gives them. They are read and
+// written as local calendar days: going through UTC would shift them a day in most timezones.
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+// Plain numbers in a date column are Excel serial dates
+const SERIAL_DATE_PATTERN = /^\d+(\.\d+)?$/;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIsoDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Undefined unless the text is a yyyy-mm-dd day that exists (no February 30th)
+const parseIsoDate = (text: string) => {
+  const match = text.match(ISO_DATE_PATTERN);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toIsoDate(date) === text ? date : undefined;
+};
+
+// The first problem with the value, or undefined when it is fine
+export const validateCustomFieldValue = (definition: CustomFieldDefinition, value?: CustomFieldValue) => {
+  if (isEmpty(value)) {
+    return definition.required ? `${definition.label} is required` : undefined;
+  }
+  const values = Array.isArray(value) ? value : [value as string];
+  if (hasOptions(definition.type)) {
+    const unknown = values.find(item => !(definition.options || []).includes(item));
+    return unknown === undefined ? undefined : `${definition.label} must be one of ${(definition.options || []).join(', ')}`;
+  }
+  const text = values.join(', ').trim();
+  if (definition.type === 'email' && !EMAIL_PATTERN.test(text)) {
+    return `${definition.label} "${text}" is not a valid email address`;
+  }
+  if (definition.type === 'number' && !Number.isFinite(Number(text))) {
+    return `${definition.label} "${text}" is not a valid number`;
+  }
+  if (definition.type === 'date' && !parseIsoDate(text)) {
+    return `${definition.label} "${text}" is not a valid date`;
+  }
+  if (definition.validation && supportsValidation(definition.type) && isValidPattern(definition.validation)
+    && !new RegExp(`^(?:${definition.validation})$`).test(text)) {
+    return `${definition.label} "${text}" is not in the expected format`;
+  }
+  return undefined;
+};
+
+// Field ID -> message, for every field with a problem
+export const validateCustomFields = (definitions: CustomFieldDefinition[], values: CustomFieldValues = {}) =>
+  definitions.reduce<Record<string, string>>((errors, definition) => {
+    const error = validateCustomFieldValue(definition, values[definition.id]);
+    if (error) errors[definition.id] = error;
+    return errors;
+  }, {});
+
+// Blank values of the given fields are dropped so records don't fill up with blanks.
+// Values of fields that have since been removed are left alone.
+export const cleanCustomFieldValues = (definitions: CustomFieldDefinition[], values: CustomFieldValues = {}) =>
+  definitions.reduce<CustomFieldValues>((cleaned, definition) => {
+    const value = values[definition.id];
+    if (isEmpty(value)) {
+      delete cleaned[definition.id];
+    } else {
+      cleaned[definition.id] = Array.isArray(value) ? value : (value as string).trim();
+    }
+    return cleaned;
+  }, { ...values });
+
+export const formatCustomFieldValue = (definition: CustomFieldDefinition, value?: CustomFieldValue) => {
+  if (isEmpty(value)) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  const date = definition.type === 'date' ? parseIsoDate(value as string) : undefined;
+  return date ? date.toLocaleDateString() : value as string;
+};
+
+// Spreadsheet cells are plain text: options are matched ignoring case, checkbox cells list
+// them separated by commas or semicolons, and dates are stored as yyyy-mm-dd like the date input
+export const parseCustomFieldValue = (definition: CustomFieldDefinition, raw: string): CustomFieldValue => {
+  const text = raw.trim();
+  const matchOption = (item: string) =>
+    (definition.options || []).find(option => option.toLowerCase() === item.toLowerCase()) || item;
+  switch (definition.type) {
+    case 'checkbox':
+      return text.split(/[,;]/).map(item => item.trim()).filter(Boolean).map(matchOption);
+    case 'select':
+    case 'radio':
+      return text ? matchOption(text) : '';
+    case 'number':
+      return text.replace(/,/g, '');
+    case 'date': {
+      // yyyy-mm-dd is kept as typed, so an impossible day is reported rather than rolled over
+      if (!text || ISO_DATE_PATTERN.test(text)) return text;
+      if (SERIAL_DATE_PATTERN.test(text)) return excelSerialToDate(Number(text));
+      // Anything else Date can read ("05/01/2024", "1 May 2024"); what it can't is left for validation to report
+      const date = new Date(text);
+      return Number.isNaN(date.getTime()) ? text : toIsoDate(date);
+    }
+    default:
+      return text;
+  }
+};
+
+export const matchesCustomFields = (
+  definitions: CustomFieldDefinition[],
+  values: CustomFieldValues | undefined,
+  term: string
+) => {
+  const search = term.toLowerCase();
+  return !!values && definitions.some(definition =>
+    formatCustomFieldValue(definition, values[definition.id]).toLowerCase().includes(search));
+};
@@ -0,0 +1,199 @@
+// Everything that happened with one client or farmer, gathered from the collections that
+// refer to it: visits, complaints and tasks, form submissions, fodder purchases, and WhatsApp
+// messages and calls to its phone number. The page decides which sources the viewer may see.
+
+import type {
+  AuditEntry,
+  Client,
+  Complaint,
+  Farmer,
+  FieldVisit,
+  FodderPurchase,
+  FormSubmission,
+  SIPCall,
+  Task,
+  WhatsAppMessage,
+} from '@/lib/repositories';
+import { phoneMatchKey } from '@/lib/phone';
+import { PAYMENT_STATUS_LABELS, getOutstanding, getPaymentStatus, getPurchaseTotal } from '@/lib/farmerProfile';
+
+export type CustomerType = 'client' | 'farmer';
+
+export type TimelineKind = 'visit' | 'complaint' | 'task' | 'form_submission' | 'fodder' | 'whatsapp' | 'call';
+
+export interface TimelineEvent {
+  id: string;
+  kind: TimelineKind;
+  timestamp: string;
+  title: string;
+  detail?: string;
+  status?: string;
+  // The user who made the visit, handles the complaint or task, delivered the fodder or sent the message
+  userId?: string;
+  photo?: string;
+}
+
+export interface TimelineSources {
+  visits?: FieldVisit[];
+  complaints?: Complaint[];
+  tasks?: Task[];
+  submissions?: FormSubmission[];
+  purchases?: FodderPurchase[];
+  messages?: WhatsAppMessage[];
+  calls?: SIPCall[];
+}
+
+export const TIMELINE_KIND_LABELS: Record<TimelineKind, string> = {
+  visit: 'Field Visit',
+  complaint: 'Complaint',
+  task: 'Task',
+  form_submission: 'Form Submission',
+  fodder: 'Fodder Purchase',
+  whatsapp: 'WhatsApp',
+  call: 'Call',
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Older complaints only carry the customer's name, so an exact name match counts as a link
+export const isComplaintFor = (complaint: Complaint, type: CustomerType, customer: Client | Farmer) =>
+  complaint.customerId
+    ? complaint.customerType === type && complaint.customerId === customer.id
+    : !!complaint.customer && sameName(complaint.customer, customer.name);
+
+// Numbers are compared by their last digits, so "+880 1712-345678" matches "01712345678"
+const isSamePhone = (phone: string, key: string) => !!key && phoneMatchKey(phone) === key;
+
+export const buildCustomerTimeline = (
+  type: CustomerType,
+  customer: Client | Farmer,
+  sources: TimelineSources
+): TimelineEvent[] => {
+  const phoneKey = customer.phone ? phoneMatchKey(customer.phone) : '';
+  const events: TimelineEvent[] = [];
+
+  (sources.visits || [])
+    .filter(visit => visit.visitType === type && visit.targetId === customer.id)
+    .forEach(visit => events.push({
+      id: `visit:${visit.id}`,
+      kind: 'visit',
+      timestamp: visit.completedAt || visit.scheduledDate,
+      title: visit.purpose || 'Field visit',
+      detail: visit.notes,
+      status: visit.status,
+      userId: visit.assignedUserId,
+      photo: visit.startPhoto,
+    }));
+
+  (sources.complaints || [])
+    .filter(complaint => isComplaintFor(complaint, type, customer))
+    .forEach(complaint => events.push({
+      id: `complaint:${complaint.id}`,
+      kind: 'complaint',
+      timestamp: complaint.createdAt,
+      title: complaint.title,
+      detail: complaint.description,
+      status: complaint.status,
+      userId: complaint.assignedTo,
+    }));
+
+  (sources.tasks || [])
+    .filter(task => task.customerType === type && task.customerId === customer.id)
+    .forEach(task => events.push({
+      id: `task:${task.id}`,
+      kind: 'task',
+      timestamp: task.createdAt,
+      title: task.title,
+      detail: task.description,
+      status: task.status,
+      userId: task.assignedTo,
+    }));
+
+  (sources.submissions || [])
+    .filter(submission => submission.subjectType === type && submission.subjectId === customer.id)
+    .forEach(submission => events.push({
+      id: `submission:${submission.id}`,
+      kind: 'form_submission',
+      timestamp: submission.submittedAt,
+      title: submission.formTitle,
+      status: submission.status,
+      userId: submission.submittedBy,
+    }));
+
+  // Only farmers buy fodder
+  (type === 'farmer' ? sources.purchases || [] : [])
+    .filter(purchase => purchase.farmerId === customer.id)
+    .forEach(purchase => events.push({
+      id: `fodder:${purchase.id}`,
+      kind: 'fodder',
+      timestamp: purchase.purchasedAt,
+      title: `${purchase.fodderType} - ${purchase.quantity} ${purchase.unit}`,
+      detail: getOutstanding(purchase) > 0
+        ? `$${getPurchaseTotal(purchase).toLocaleString()}, $${getOutstanding(purchase).toLocaleString()} still owed`
+        : `$${getPurchaseTotal(purchase).toLocaleString()}`,
+      status: PAYMENT_STATUS_LABELS[getPaymentStatus(purchase)],
+      userId: purchase.deliveredBy,
+    }));
+
+  (sources.messages || [])
+    .filter(message => isSamePhone(message.to, phoneKey))
+    .forEach(message => events.push({
+      id: `whatsapp:${message.id}`,
+      kind: 'whatsapp',
+      timestamp: message.timestamp,
+      title: 'WhatsApp message sent',
+      detail: message.message,
+      status: message.status,
+      userId: message.sentBy,
+    }));
+
+  (sources.calls || [])
+    .filter(call => isSamePhone(call.to, phoneKey) || isSamePhone(call.from, phoneKey))
+    .forEach(call => events.push({
+      id: `call:${call.id}`,
+      kind: 'call',
+      timestamp: call.timestamp,
+      title: call.direction === 'inbound' ? 'Incoming call' : 'Outgoing call',
+      detail: call.duration > 0 ? `${Math.floor(call.duration / 60)}m ${call.duration % 60}s` : undefined,
+      status: call.status,
+      userId: call.placedBy,
+    }));
+
+  return events.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+export interface AssignmentChange {
+  id: string;
+  timestamp: string;
+  actorId: string;
+  fromUserId?: string;
+  toUserId?: string;
+  summary?: string;
+}
+
+// Who the record was assigned to over time, read back from the audit trail
+export const getAssignmentHistory = (
+  type: CustomerType,
+  customerId: string,
+  entries: AuditEntry[]
+): AssignmentChange[] =>
+  entries
+    .filter(entry => entry.entityType === type && entry.entityId === customerId)
+    .flatMap((entry): AssignmentChange[] => {
+      const change = entry.changes.find(c => c.field === 'assignedUserId');
+      if (change) {
+        return [{
+          id: entry.id,
+          timestamp: entry.timestamp,
+          actorId: entry.actorId,
+          fromUserId: change.before as string | undefined,
+          toUserId: change.after as string | undefined,
+        }];
+      }
+      // Reassignments and merges are summary entries without field changes
+      if (entry.action === 'reassign' || entry.action === 'merge') {
+        return [{ id: entry.id, timestamp: entry.timestamp, actorId: entry.actorId, summary: entry.summary }];
+      }
+      return [];
+    })
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
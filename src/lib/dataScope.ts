@@ -0,0 +1,147 @@
+// Record-level access: which clients, farmers, visits, tasks and complaints a user can see and change.
+// Pages ask this module instead of comparing createdBy / assignedTo themselves.
+
+import type { Client, Complaint, Farmer, FieldVisit, Task, Team, User } from '@/lib/repositories';
+import type { PermissionId } from '@/lib/permissions';
+import { getTeamMemberIds } from '@/lib/organisation';
+
+// 'own' - records the user created or is assigned to, plus those of anyone they are delegated to cover
+// 'team' - also records of everyone who reports to them, directly, through a team they supervise, or further down
+// 'all' - every record
+export type DataScope = 'none' | 'own' | 'team' | 'all';
+
+interface ScopedRecordTypes {
+  client: Client;
+  farmer: Farmer;
+  visit: FieldVisit;
+  task: Task;
+  complaint: Complaint;
+}
+
+export type ScopedResource = keyof ScopedRecordTypes;
+
+interface ResourcePolicy<T> {
+  // The users a record belongs to
+  owners: (record: T) => (string | undefined)[];
+  view: PermissionId;
+  viewTeam: PermissionId;
+  viewAll: PermissionId;
+  update: PermissionId;
+  delete: PermissionId;
+}
+
+const policies: { [R in ScopedResource]: ResourcePolicy<ScopedRecordTypes[R]> } = {
+  client: {
+    owners: client => [client.createdBy, client.assignedUserId],
+    view: 'client_read',
+    viewTeam: 'client_view_team',
+    viewAll: 'client_view_all',
+    update: 'client_update',
+    delete: 'client_delete',
+  },
+  farmer: {
+    owners: farmer => [farmer.createdBy, farmer.assignedUserId],
+    view: 'farmer_read',
+    viewTeam: 'farmer_view_team',
+    viewAll: 'farmer_view_all',
+    update: 'farmer_update',
+    delete: 'farmer_delete',
+  },
+  visit: {
+    owners: visit => [visit.assignedUserId],
+    view: 'visit_read',
+    viewTeam: 'visit_view_team',
+    viewAll: 'visit_view_all',
+    update: 'visit_update',
+    delete: 'visit_delete',
+  },
+  task: {
+    owners: task => [task.assignedTo, task.createdBy],
+    view: 'task_view',
+    viewTeam: 'task_view_team',
+    viewAll: 'task_view_all',
+    update: 'task_update',
+    delete: 'task_delete',
+  },
+  complaint: {
+    owners: complaint => [complaint.assignedTo],
+    view: 'complaint_view',
+    viewTeam: 'complaint_view_team',
+    viewAll: 'complaint_view_all',
+    update: 'complaint_update',
+    delete: 'complaint_delete',
+  },
+};
+
+export interface ScopePolicy {
+  scopeOf: (resource: ScopedResource) => DataScope;
+  // The user ids whose records fall inside the scope; null means everyone
+  userIdsInScope: (resource: ScopedResource) => Set<string> | null;
+  canView: <R extends ScopedResource>(resource: R, record: ScopedRecordTypes[R]) => boolean;
+  canUpdate: <R extends ScopedResource>(resource: R, record: ScopedRecordTypes[R]) => boolean;
+  canDelete: <R extends ScopedResource>(resource: R, record: ScopedRecordTypes[R]) => boolean;
+  filterVisible: <R extends ScopedResource>(resource: R, records: ScopedRecordTypes[R][]) => ScopedRecordTypes[R][];
+}
+
+// Update and delete stay within what the user can see, so a broader view scope also widens editing
+export const createScopePolicy = (
+  user: User | null,
+  users: User[],
+  teams: Team[],
+  hasPermission: (permission: PermissionId) => boolean,
+  delegatorIds: string[] = []
+): ScopePolicy => {
+  // The user acts for their delegators as well as for themselves
+  const actingIds = user ? [user.id, ...delegatorIds] : [];
+
+  let teamIds: Set<string> | null = null;
+  const getTeam = () => {
+    teamIds ||= new Set(actingIds.flatMap(id => [...getTeamMemberIds(id, users, teams)]));
+    return teamIds;
+  };
+
+  const scopeOf = (resource: ScopedResource): DataScope => {
+    const policy = policies[resource];
+    if (!user) return 'none';
+    if (hasPermission(policy.viewAll)) return 'all';
+    if (hasPermission(policy.viewTeam)) return 'team';
+    if (hasPermission(policy.view)) return 'own';
+    return 'none';
+  };
+
+  const userIdsInScope = (resource: ScopedResource): Set<string> | null => {
+    switch (scopeOf(resource)) {
+      case 'all':
+        return null;
+      case 'team':
+        return getTeam();
+      case 'own':
+        return new Set(actingIds);
+      default:
+        return new Set<string>();
+    }
+  };
+
+  const isOwnedBy = <R extends ScopedResource>(resource: R, record: ScopedRecordTypes[R], allowed: Set<string> | null) => {
+    if (allowed === null) return true;
+    const policy = policies[resource] as ResourcePolicy<ScopedRecordTypes[R]>;
+    return policy.owners(record).some(owner => !!owner && allowed.has(owner));
+  };
+
+  const canView = <R extends ScopedResource>(resource: R, record: ScopedRecordTypes[R]) =>
+    isOwnedBy(resource, record, userIdsInScope(resource));
+
+  const canUpdate = <R extends ScopedResource>(resource: R, record: ScopedRecordTypes[R]) =>
+    hasPermission(policies[resource].update) && canView(resource, record);
+
+  const canDelete = <R extends ScopedResource>(resource: R, record: ScopedRecordTypes[R]) =>
+    hasPermission(policies[resource].delete) && canView(resource, record);
+
+  // The scope is worked out once for the whole list rather than once per record
+  const filterVisible = <R extends ScopedResource>(resource: R, records: ScopedRecordTypes[R][]) => {
+    const allowed = userIdsInScope(resource);
+    return allowed === null ? records : records.filter(record => isOwnedBy(resource, record, allowed));
+  };
+
+  return { scopeOf, userIdsInScope, canView, canUpdate, canDelete, filterVisible };
+};
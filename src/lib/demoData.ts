@@ -0,0 +1,269 @@
+import { roleRepository, teamRepository, userRepository } from '@/lib/repositories';
+import type { Role, Team, User } from '@/lib/repositories';
+import { hashPassword } from '@/lib/password';
+
+// Seed data for a fresh install and the fixtures behind the Login page's demo-account buttons.
+// Nothing here overwrites records an admin has created unless resetDemoData() is called explicitly.
+
+// Default users with passwords including Customer Care users
+export const defaultUsers: User[] = [
+  {
+    id: 'admin-001',
+    name: 'System Administrator',
+    email: 'admin@hdf.com',
+    password: 'admin123',
+    roleId: 'admin',
+    status: 'active',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'cc-manager-001',
+    name: 'Customer Care Manager',
+    email: 'ccmanager@hdf.com',
+    password: 'ccmanager123',
+    roleId: 'customer_care_manager',
+    status: 'active',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'cc-agent-001',
+    name: 'Customer Care Agent',
+    email: 'ccagent@hdf.com',
+    password: 'ccagent123',
+    roleId: 'customer_care_agent',
+    status: 'active',
+    supervisorId: 'cc-supervisor-001',
+    teamId: 'team-customer-care',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'cc-supervisor-001',
+    name: 'Customer Care Supervisor',
+    email: 'ccsupervisor@hdf.com',
+    password: 'ccsupervisor123',
+    roleId: 'customer_care_supervisor',
+    status: 'active',
+    supervisorId: 'cc-manager-001',
+    teamId: 'team-customer-care',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'field-supervisor-001',
+    name: 'Field Supervisor',
+    email: 'fieldsupervisor@hdf.com',
+    password: 'field123',
+    roleId: 'field_supervisor',
+    status: 'active',
+    teamId: 'team-field',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'field-agent-001',
+    name: 'Field Agent',
+    email: 'fieldagent@hdf.com',
+    password: 'agent123',
+    roleId: 'field_agent',
+    status: 'active',
+    supervisorId: 'field-supervisor-001',
+    teamId: 'team-field',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+// Enhanced default roles with specific Customer Care permissions
+export const defaultRoles: Role[] = [
+  {
+    id: 'admin',
+    name: 'System Administrator',
+    description: 'Full system access with all permissions',
+    permissions: [
+      // User Management
+      'user_read', 'user_create', 'user_update', 'user_delete',
+      // Role Management
+      'role_read', 'role_create', 'role_update', 'role_delete',
+      // Audit
+      'audit_view',
+      // Recycle Bin
+      'recycle_bin_restore', 'recycle_bin_purge',
+      // Custom Fields
+      'custom_field_manage',
+      // Client Management
+      'client_read', 'client_create', 'client_update', 'client_delete', 'client_view_all',
+      // Farmer Management
+      'farmer_read', 'farmer_create', 'farmer_update', 'farmer_delete', 'farmer_view_all',
+      // Field Visit Management
+      'visit_read', 'visit_view_all', 'visit_create', 'visit_update', 'visit_delete', 'visit_track',
+      // Form Management
+      'form_view', 'form_create', 'form_update', 'form_delete', 'form_view_all', 'form_fill_all', 'form_manage',
+      // Reports
+      'reports_view', 'reports_create', 'reports_update', 'reports_delete',
+      // Customer Care - Main Access
+      'customer_care_access',
+      // Customer Care - Task Management
+      'task_view_all', 'task_view', 'task_create', 'task_update', 'task_delete',
+      // Customer Care - Complaint Management
+      'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update', 'complaint_delete', 'complaint_resolve', 'complaint_escalate',
+      // Communication
+      'communication_access', 'whatsapp_send', 'sip_calls'
+    ],
+    isActive: true,
+    locationPolicy: { mode: 'optional', failureThreshold: 3, checkIntervalSeconds: 10 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'customer_care_manager',
+    name: 'Customer Care Manager',
+    description: 'Full customer care management with complete task and complaint access',
+    permissions: [
+      'customer_care_access',
+      'task_view_all', 'task_view', 'task_create', 'task_update', 'task_delete',
+      'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update', 'complaint_delete', 'complaint_resolve', 'complaint_escalate',
+      'client_read', 'farmer_read', 'reports_view', 'communication_access', 'whatsapp_send'
+    ],
+    isActive: true,
+    locationPolicy: { mode: 'off', failureThreshold: 3, checkIntervalSeconds: 10 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'customer_care_agent',
+    name: 'Customer Care Agent',
+    description: 'Basic customer care operations with task and complaint handling',
+    permissions: [
+      'customer_care_access',
+      'task_view_all', 'task_view', 'task_update',
+      'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update',
+      'client_read', 'farmer_read', 'communication_access', 'whatsapp_send'
+    ],
+    isActive: true,
+    locationPolicy: { mode: 'off', failureThreshold: 3, checkIntervalSeconds: 10 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'customer_care_supervisor',
+    name: 'Customer Care Supervisor',
+    description: 'Customer care supervision with advanced task and complaint management',
+    permissions: [
+      'customer_care_access',
+      'task_view_all', 'task_view', 'task_create', 'task_update', 'task_delete',
+      'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update', 'complaint_delete', 'complaint_resolve',
+      'client_read', 'farmer_read', 'reports_view', 'communication_access', 'whatsapp_send'
+    ],
+    isActive: true,
+    locationPolicy: { mode: 'off', failureThreshold: 3, checkIntervalSeconds: 10 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'field_supervisor',
+    name: 'Field Supervisor',
+    description: 'Field operations management',
+    permissions: [
+      'visit_read', 'visit_view_team', 'visit_create', 'visit_update', 'visit_delete', 'visit_track',
+      'client_read', 'client_view_team', 'farmer_read', 'farmer_view_team', 'form_view', 'reports_view', 'communication_access'
+    ],
+    isActive: true,
+    locationPolicy: { mode: 'required', failureThreshold: 3, checkIntervalSeconds: 10 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'field_agent',
+    name: 'Field Agent',
+    description: 'Basic field operations',
+    permissions: [
+      'visit_read', 'visit_create', 'visit_update', 'visit_track',
+      'client_read', 'farmer_read', 'form_view', 'communication_access'
+    ],
+    isActive: true,
+    locationPolicy: { mode: 'required', failureThreshold: 3, checkIntervalSeconds: 10 },
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+export const defaultTeams: Team[] = [
+  {
+    id: 'team-field',
+    name: 'Field Operations',
+    description: 'Field agents and their supervisor',
+    supervisorId: 'field-supervisor-001',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'team-customer-care',
+    name: 'Customer Care',
+    description: 'Customer care agents and supervisors',
+    supervisorId: 'cc-supervisor-001',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+  },
+];
+
+// Demo fixtures show the default accounts as one-click buttons on the Login page.
+// Opt-in with VITE_DEMO_FIXTURES=true, so real deployments never advertise the published passwords.
+export const isDemoFixturesEnabled = () => import.meta.env.VITE_DEMO_FIXTURES === 'true';
+
+export interface DemoAccount {
+  role: string;
+  email: string;
+  password: string;
+  description: string;
+}
+
+export const demoAccounts: DemoAccount[] = defaultUsers.map(user => {
+  const role = defaultRoles.find(r => r.id === user.roleId);
+  return {
+    role: role?.name || user.name,
+    email: user.email,
+    password: user.password,
+    description: role?.description || '',
+  };
+});
+
+// The passwords above stay plaintext for the demo buttons; stored copies are always hashed
+const withHashedPasswords = (users: User[]) =>
+  Promise.all(users.map(async user => ({ ...user, password: await hashPassword(user.password) })));
+
+// Runs once per boot. Seeds users, roles and teams only on first run - accounts an admin has
+// deleted are never brought back, not even from the recycle bin. resetDemoData() is the only
+// other way the defaults are written.
+export const seedDefaultData = async () => {
+  if (!roleRepository.isInitialized()) {
+    roleRepository.saveAll(defaultRoles);
+    console.log('Seeded default roles:', defaultRoles.length);
+  }
+  if (userRepository.list().length === 0) {
+    const deletedIds = new Set(userRepository.listDeleted().map(user => user.id));
+    const users = defaultUsers.filter(user => !deletedIds.has(user.id));
+    if (users.length > 0) {
+      userRepository.saveAll(await withHashedPasswords(users));
+      console.log('Seeded default users:', users.length);
+    }
+  }
+  if (!teamRepository.isInitialized()) {
+    teamRepository.saveAll(defaultTeams);
+    console.log('Seeded default teams:', defaultTeams.length);
+  }
+};
+
+// Admin "reset demo data" action: puts users, roles and teams back to the shipped defaults.
+// Admin-created accounts, custom roles and teams are removed.
+export const resetDemoData = async () => {
+  const users = await withHashedPasswords(defaultUsers);
+  roleRepository.saveAll(defaultRoles);
+  userRepository.saveAll(users);
+  // saveAll keeps the recycle bin, but deleted admin-created accounts are discarded as well
+  userRepository.listDeleted().forEach(user => userRepository.remove(user.id));
+  teamRepository.saveAll(defaultTeams);
+  console.log('Demo users, roles and teams restored');
+};
@@ -0,0 +1,180 @@
+// Fuzzy duplicate detection for clients and farmers. Two records match on the same
+// normalised phone (or email), or on a similar name at a similar address, so
+// "Abdul Karim, 01712345678" and "Abdul Kareem, +880 1712-345678" are caught.
+
+import { phoneMatchKey } from '@/lib/phone';
+
+export interface DuplicateCandidate {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+}
+
+export interface DuplicateMatch<T extends DuplicateCandidate> {
+  record: T;
+  // 0..1, used to order the matches
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicatePair<T extends DuplicateCandidate> {
+  first: T;
+  second: T;
+  score: number;
+  reasons: string[];
+}
+
+const NAME_THRESHOLD = 0.85;
+const ADDRESS_THRESHOLD = 0.6;
+// Shorter keys are too common to mean anything ("0", "123")
+const MIN_PHONE_DIGITS = 7;
+
+const normaliseText = (value = '') =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Edit-distance ratio on the words in sorted order, so word order doesn't matter
+export const textSimilarity = (a = '', b = '') => {
+  const left = normaliseText(a).split(' ').sort().join(' ');
+  const right = normaliseText(b).split(' ').sort().join(' ');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+};
+
+// Folds common transliteration variants (Kareem / Karim, Rahmaan / Rahman) together
+const foldSpelling = (value: string) =>
+  normaliseText(value)
+    .replace(/ee|ea|ie/g, 'i')
+    .replace(/oo|ou/g, 'u')
+    .replace(/([a-z])\1+/g, '$1');
+
+const nameSimilarity = (a: string, b: string) =>
+  Math.max(textSimilarity(a, b), textSimilarity(foldSpelling(a), foldSpelling(b)));
+
+const phoneKey = (phone?: string) => {
+  const key = phone ? phoneMatchKey(phone) : '';
+  return key.length >= MIN_PHONE_DIGITS ? key : '';
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const compareRecords = (a: DuplicateCandidate, b: DuplicateCandidate): { score: number; reasons: string[] } | null => {
+  const reasons: string[] = [];
+  const samePhone = !!phoneKey(a.phone) && phoneKey(a.phone) === phoneKey(b.phone);
+  const sameEmail = !!a.email && !!b.email && a.email.trim().toLowerCase() === b.email.trim().toLowerCase();
+  const nameScore = nameSimilarity(a.name, b.name);
+  const exactName = textSimilarity(a.name, b.name) === 1;
+  const hasAddresses = !!normaliseText(a.address) && !!normaliseText(b.address);
+  const addressSimilarity = hasAddresses ? textSimilarity(a.address, b.address) : 0;
+
+  if (samePhone) reasons.push('same phone');
+  if (sameEmail) reasons.push('same email');
+  if (exactName) {
+    reasons.push('same name');
+  } else if (nameScore === 1) {
+    reasons.push('same name, spelled differently');
+  } else if (nameScore >= NAME_THRESHOLD) {
+    reasons.push(`similar name (${percent(nameScore)})`);
+  }
+  if (addressSimilarity >= ADDRESS_THRESHOLD) reasons.push(`similar address (${percent(addressSimilarity)})`);
+
+  // A shared name alone isn't enough when both addresses are known and differ
+  const similarPerson = nameScore >= NAME_THRESHOLD && (!hasAddresses || addressSimilarity >= ADDRESS_THRESHOLD);
+  if (!samePhone && !sameEmail && !similarPerson) return null;
+
+  return {
+    score: (samePhone || sameEmail ? 0.5 : 0) + nameScore * 0.35 + addressSimilarity * 0.15,
+    reasons,
+  };
+};
+
+// Records are only compared when they share a phone, an email or the start of a name word,
+// which keeps checks against thousands of records fast without missing spelling variants
+const blockingKeys = (record: DuplicateCandidate) => {
+  const keys = foldSpelling(record.name)
+    .split(' ')
+    .filter(word => word.length >= 2)
+    .map(word => `name:${word.slice(0, 3)}`);
+  const phone = phoneKey(record.phone);
+  if (phone) keys.push(`phone:${phone}`);
+  if (record.email) keys.push(`email:${record.email.trim().toLowerCase()}`);
+  return keys;
+};
+
+export const createDuplicateIndex = <T extends DuplicateCandidate>(records: T[] = []) => {
+  const buckets = new Map<string, T[]>();
+
+  const add = (record: T) => {
+    blockingKeys(record).forEach(key => {
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(record);
+      } else {
+        buckets.set(key, [record]);
+      }
+    });
+  };
+
+  // Best match first; the candidate itself (same id) is never reported
+  const findMatches = (candidate: DuplicateCandidate): DuplicateMatch<T>[] => {
+    const seen = new Set<string>([candidate.id]);
+    const matches: DuplicateMatch<T>[] = [];
+    blockingKeys(candidate).forEach(key => {
+      (buckets.get(key) || []).forEach(record => {
+        if (seen.has(record.id)) return;
+        seen.add(record.id);
+        const result = compareRecords(candidate, record);
+        if (result) matches.push({ record, ...result });
+      });
+    });
+    return matches.sort((a, b) => b.score - a.score);
+  };
+
+  records.forEach(add);
+  return { add, findMatches };
+};
+
+export const findDuplicateMatches = <T extends DuplicateCandidate>(candidate: DuplicateCandidate, records: T[]) =>
+  createDuplicateIndex(records).findMatches(candidate);
+
+// Every likely duplicate pair in a collection, most certain first
+export const findDuplicatePairs = <T extends DuplicateCandidate>(records: T[]): DuplicatePair<T>[] => {
+  const index = createDuplicateIndex<T>();
+  const pairs: DuplicatePair<T>[] = [];
+  records.forEach(record => {
+    index.findMatches(record).forEach(match => {
+      pairs.push({ first: match.record, second: record, score: match.score, reasons: match.reasons });
+    });
+    index.add(record);
+  });
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+export const describeMatch = (reasons: string[]) => {
+  const text = reasons.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
@@ -0,0 +1,203 @@
+// A farmer's profile is spread over several collections: their animals, the vet they
+// consult, the middleman they trade through and their fodder purchases. These helpers
+// label, summarise and link those records.
+
+import {
+  animalRepository,
+  farmerRepository,
+  fodderPurchaseRepository,
+  middlemanRepository,
+  veterinarianRepository,
+} from '@/lib/repositories';
+import type { Animal, AnimalHealthStatus, AnimalSpecies, FodderPurchase, Middleman, Veterinarian } from '@/lib/repositories';
+import { phoneMatchKey } from '@/lib/phone';
+
+export const SPECIES_LABELS: Record<AnimalSpecies, string> = {
+  cow: 'Cow',
+  buffalo: 'Buffalo',
+  goat: 'Goat',
+  sheep: 'Sheep',
+  poultry: 'Poultry',
+  other: 'Other',
+};
+
+export const HEALTH_STATUS_LABELS: Record<AnimalHealthStatus, string> = {
+  healthy: 'Healthy',
+  sick: 'Sick',
+  under_treatment: 'Under Treatment',
+  deceased: 'Deceased',
+};
+
+export const HEALTH_STATUS_STYLES: Record<AnimalHealthStatus, string> = {
+  healthy: 'bg-green-100 text-green-800',
+  sick: 'bg-red-100 text-red-800',
+  under_treatment: 'bg-yellow-100 text-yellow-800',
+  deceased: 'bg-gray-100 text-gray-800',
+};
+
+export const FODDER_UNITS = ['kg', 'sack', 'bundle', 'ton', 'lot'];
+
+// "Cow #A12", "Lali (Cow)" or just "Goat" when nothing else identifies it
+export const getAnimalLabel = (animal: Animal) => {
+  const species = SPECIES_LABELS[animal.species];
+  if (animal.name) return `${animal.name} (${species})`;
+  return animal.tag ? `${species} #${animal.tag}` : species;
+};
+
+// Whole years once the animal is two, months before that
+export const formatAnimalAge = (birthDate?: string, now = new Date()) => {
+  if (!birthDate) return '';
+  const born = new Date(birthDate);
+  if (Number.isNaN(born.getTime()) || born > now) return '';
+  const months = (now.getFullYear() - born.getFullYear()) * 12 + now.getMonth() - born.getMonth()
+    - (now.getDate() < born.getDate() ? 1 : 0);
+  if (months < 24) return `${months} month${months === 1 ? '' : 's'}`;
+  return `${Math.floor(months / 12)} years`;
+};
+
+// "2 cows, 1 goat"; deceased animals aren't counted
+export const summariseAnimals = (animals: Animal[]) => {
+  const counts = new Map<AnimalSpecies, number>();
+  animals
+    .filter(animal => animal.healthStatus !== 'deceased')
+    .forEach(animal => counts.set(animal.species, (counts.get(animal.species) || 0) + 1));
+  return [...counts.entries()]
+    .map(([species, count]) => `${count} ${SPECIES_LABELS[species].toLowerCase()}${count === 1 || species === 'poultry' || species === 'sheep' ? '' : 's'}`)
+    .join(', ');
+};
+
+export const getPurchaseTotal = (purchase: FodderPurchase) => purchase.quantity * purchase.unitPrice;
+
+export const getLatestPurchase = (purchases: FodderPurchase[], farmerId: string) =>
+  purchases
+    .filter(purchase => purchase.farmerId === farmerId)
+    .sort((a, b) => b.purchasedAt.localeCompare(a.purchasedAt))[0];
+
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  partial: 'Partly Paid',
+  paid: 'Paid',
+};
+
+export const PAYMENT_STATUS_STYLES: Record<PaymentStatus, string> = {
+  unpaid: 'bg-red-100 text-red-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+};
+
+// Overpayments aren't carried over to other purchases, so the balance never goes below zero
+export const getOutstanding = (purchase: FodderPurchase) => Math.max(getPurchaseTotal(purchase) - purchase.amountPaid, 0);
+
+export const getPaymentStatus = (purchase: FodderPurchase): PaymentStatus => {
+  if (getOutstanding(purchase) === 0) return 'paid';
+  return purchase.amountPaid > 0 ? 'partial' : 'unpaid';
+};
+
+export interface Balance {
+  orders: number;
+  total: number;
+  paid: number;
+  outstanding: number;
+}
+
+// Totals per farmer, middleman or whatever `keyOf` groups by; purchases without a key are skipped
+export const summariseBalances = (
+  purchases: FodderPurchase[],
+  keyOf: (purchase: FodderPurchase) => string | undefined
+) => {
+  const balances = new Map<string, Balance>();
+  purchases.forEach(purchase => {
+    const key = keyOf(purchase);
+    if (!key) return;
+    const balance = balances.get(key) || { orders: 0, total: 0, paid: 0, outstanding: 0 };
+    balances.set(key, {
+      orders: balance.orders + 1,
+      total: balance.total + getPurchaseTotal(purchase),
+      paid: balance.paid + Math.min(purchase.amountPaid, getPurchaseTotal(purchase)),
+      outstanding: balance.outstanding + getOutstanding(purchase),
+    });
+  });
+  return balances;
+};
+
+export const guessAnimalSpecies = (text: string): AnimalSpecies => {
+  const value = text.toLowerCase();
+  // Whole words only, so "box feed" isn't an ox and "then" isn't a hen
+  if (/\bbuffalo(es)?\b/.test(value)) return 'buffalo';
+  if (/\b(cows?|cattle|bulls?|calf|calves|heifers?|ox|oxen)\b/.test(value)) return 'cow';
+  if (/\bgoats?\b/.test(value)) return 'goat';
+  if (/\b(sheep|lambs?)\b/.test(value)) return 'sheep';
+  if (/\b(chickens?|hens?|ducks?|poultry|birds?)\b/.test(value)) return 'poultry';
+  return 'other';
+};
+
+// Turns free text such as "2 cows, goat" into animal drafts, one per animal
+export const parseAnimalList = (text: string): { species: AnimalSpecies; name?: string }[] =>
+  text
+    .split(/,|;|\/|&|\band\b/i)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .flatMap(part => {
+      const counted = part.match(/^(\d+)\s*x?\s+(.+)$/i);
+      const count = counted ? Math.min(Number(counted[1]), 100) : 1;
+      const text = counted ? counted[2] : part;
+      const species = guessAnimalSpecies(text);
+      // A bare species ("Cow") isn't a name worth keeping
+      const name = species !== 'other' && text.split(/\s+/).length === 1 ? undefined : text;
+      return Array.from({ length: count }, () => ({ species, name }));
+    });
+
+interface ContactDetails {
+  name: string;
+  phone: string;
+}
+
+// Matches on the phone when there is one, otherwise on the name
+const findContact = <T extends ContactDetails>(contacts: T[], details: ContactDetails) => {
+  const phone = details.phone ? phoneMatchKey(details.phone) : '';
+  const name = details.name.trim().toLowerCase();
+  return contacts.find(contact =>
+    phone ? phoneMatchKey(contact.phone) === phone : contact.name.trim().toLowerCase() === name);
+};
+
+// Vets and middlemen typed in free-form (e.g. on import) are linked to an existing
+// record where possible, so the same person isn't added once per farmer
+export const findOrCreateVeterinarian = (details: ContactDetails): Veterinarian => {
+  const existing = findContact(veterinarianRepository.list(), details);
+  if (existing) return existing;
+  return veterinarianRepository.create({
+    id: `vet-${Date.now()}-${veterinarianRepository.list().length + 1}`,
+    name: details.name || details.phone,
+    phone: details.phone,
+    clinic: '',
+    area: '',
+    notes: '',
+    createdAt: new Date().toISOString(),
+  });
+};
+
+export const findOrCreateMiddleman = (details: ContactDetails): Middleman => {
+  const existing = findContact(middlemanRepository.list(), details);
+  if (existing) return existing;
+  return middlemanRepository.create({
+    id: `middleman-${Date.now()}-${middlemanRepository.list().length + 1}`,
+    name: details.name || details.phone,
+    phone: details.phone,
+    area: '',
+    notes: '',
+    createdAt: new Date().toISOString(),
+  });
+};
+
+// What still points at a vet or middleman; a linked one can't be deleted
+export const getVeterinarianUsage = (veterinarianId: string) => ({
+  farmers: farmerRepository.find(farmer => farmer.veterinarianId === veterinarianId).length,
+  animals: animalRepository.find(animal => animal.veterinarianId === veterinarianId).length,
+});
+
+export const getMiddlemanUsage = (middlemanId: string) => ({
+  farmers: farmerRepository.find(farmer => farmer.middlemanId === middlemanId).length,
+  purchases: fodderPurchaseRepository.find(purchase => purchase.middlemanId === middlemanId).length,
+});
@@ -0,0 +1,84 @@
+import type { LocationPolicy, Role } from '@/lib/repositories';
+
+// Single home for location enforcement: the login gate and the signed-in monitor
+// both read the user's role policy from here.
+
+export const DEFAULT_LOCATION_POLICY: LocationPolicy = {
+  mode: 'required',
+  failureThreshold: 3,
+  checkIntervalSeconds: 10,
+};
+
+export const LOCATION_MODE_LABELS: Record<LocationPolicy['mode'], string> = {
+  required: 'Required - block login and log out when location is lost',
+  optional: 'Optional - request location but never block',
+  off: 'Off - never request location',
+};
+
+export const getLocationPolicy = (role: Role | undefined): LocationPolicy => ({
+  ...DEFAULT_LOCATION_POLICY,
+  ...role?.locationPolicy,
+});
+
+export const checkLocationStatus = (): Promise<boolean> => {
+  return new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(false);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      () => resolve(true),
+      () => resolve(false),
+      {
+        enableHighAccuracy: false,
+        timeout: 10000,
+        maximumAge: 30000
+      }
+    );
+  });
+};
+
+// Returns false only when the policy requires location and it is unavailable
+export const isLoginAllowedByLocation = async (policy: LocationPolicy): Promise<boolean> => {
+  if (policy.mode === 'off') return true;
+
+  const locationAvailable = await checkLocationStatus();
+  return locationAvailable || policy.mode === 'optional';
+};
+
+// Periodically re-checks location for 'required' roles and calls onViolation once the
+// failure threshold is reached. Returns a cleanup function.
+export const startLocationMonitor = (policy: LocationPolicy, onViolation: () => void): (() => void) => {
+  if (policy.mode !== 'required') return () => {};
+
+  let failureCount = 0;
+  let stopped = false;
+
+  const monitorLocation = async () => {
+    const isLocationEnabled = await checkLocationStatus();
+    if (stopped) return;
+
+    if (isLocationEnabled) {
+      failureCount = 0;
+      return;
+    }
+
+    failureCount++;
+    console.warn(`Location check failed (${failureCount}/${policy.failureThreshold})`);
+
+    if (failureCount >= policy.failureThreshold) {
+      stopped = true;
+      onViolation();
+    }
+  };
+
+  // Check immediately, then on the role's interval
+  monitorLocation();
+  const interval = setInterval(monitorLocation, policy.checkIntervalSeconds * 1000);
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+  };
+};
@@ -0,0 +1,86 @@
+import { accountLockoutRepository, loginAttemptRepository } from '@/lib/repositories';
+import type { LoginAttempt } from '@/lib/repositories';
+
+// Per-email brute-force protection: each failure adds a growing delay before the next
+// attempt is accepted, and MAX_FAILED_ATTEMPTS failures lock the account for a while.
+
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+// Delay after the nth failure: 1s, 2s, 4s, 8s... capped
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+// Only the most recent attempts are kept
+const MAX_ATTEMPT_LOG = 500;
+
+export interface LoginBlock {
+  reason: 'locked' | 'throttled';
+  retryAt: number;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const getDelay = (failedCount: number) =>
+  failedCount > 0 ? Math.min(BASE_DELAY_MS * 2 ** (failedCount - 1), MAX_DELAY_MS) : 0;
+
+// Returns why this email may not attempt a login right now, or null if it may
+export const getLoginBlock = (email: string, now = Date.now()): LoginBlock | null => {
+  const lockout = accountLockoutRepository.get(normalizeEmail(email));
+  if (!lockout) return null;
+
+  if (lockout.lockedUntil && new Date(lockout.lockedUntil).getTime() > now) {
+    return { reason: 'locked', retryAt: new Date(lockout.lockedUntil).getTime() };
+  }
+
+  const retryAt = new Date(lockout.lastFailedAt).getTime() + getDelay(lockout.failedCount);
+  return retryAt > now ? { reason: 'throttled', retryAt } : null;
+};
+
+export const recordLoginAttempt = (
+  email: string,
+  success: boolean,
+  details: Pick<LoginAttempt, 'userId' | 'reason'> = {}
+) => {
+  const attempt: LoginAttempt = {
+    id: `attempt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    email: normalizeEmail(email),
+    success,
+    ...details,
+    timestamp: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+  };
+  loginAttemptRepository.saveAll([...loginAttemptRepository.list(), attempt].slice(-MAX_ATTEMPT_LOG));
+};
+
+export const registerFailedLogin = (email: string) => {
+  const id = normalizeEmail(email);
+  const existing = accountLockoutRepository.get(id);
+  const now = new Date();
+
+  // A lockout that has run out starts the count again
+  const expired = existing?.lockedUntil && new Date(existing.lockedUntil) <= now;
+  const failedCount = existing && !expired ? existing.failedCount + 1 : 1;
+  const lockout = {
+    id,
+    failedCount,
+    lastFailedAt: now.toISOString(),
+    lockedUntil: failedCount >= MAX_FAILED_ATTEMPTS
+      ? new Date(now.getTime() + LOCKOUT_DURATION_MS).toISOString()
+      : undefined,
+  };
+
+  if (existing) {
+    accountLockoutRepository.update(id, lockout);
+  } else {
+    accountLockoutRepository.create(lockout);
+  }
+};
+
+// Successful login or an admin clearing the lockout
+export const clearLockout = (email: string) => {
+  accountLockoutRepository.remove(normalizeEmail(email));
+};
+
+export const formatRetryTime = (retryAt: number, now = Date.now()) => {
+  const seconds = Math.max(1, Math.ceil((retryAt - now) / 1000));
+  return seconds >= 60 ? `${Math.ceil(seconds / 60)} minute(s)` : `${seconds} second(s)`;
+};
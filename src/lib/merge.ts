@@ -0,0 +1,178 @@
+// Merging two records of the same client or farmer. The survivor keeps its ID and takes the
+// chosen value of each field; everything that pointed at the duplicate is moved over to it,
+// and the duplicate goes to the recycle bin.
+
+import {
+  animalRepository,
+  clientRepository,
+  complaintRepository,
+  farmerRepository,
+  fieldVisitRepository,
+  fodderPurchaseRepository,
+  formSubmissionRepository,
+  taskRepository,
+} from '@/lib/repositories';
+import type { Client, Farmer } from '@/lib/repositories';
+import { moveToRecycleBin } from '@/lib/recycleBin';
+import { recordAuditEvent } from '@/lib/audit';
+import { isComplaintFor } from '@/lib/customerTimeline';
+
+export type MergeableType = 'client' | 'farmer';
+
+export type MergeableRecord = Client | Farmer;
+
+export interface MergeField {
+  key: string;
+  label: string;
+}
+
+export const MERGE_FIELDS: Record<MergeableType, MergeField[]> = {
+  client: [
+    { key: 'name', label: 'Name' },
+    { key: 'email', label: 'Email' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'address', label: 'Address' },
+    { key: 'area', label: 'Area' },
+    { key: 'type', label: 'Type' },
+    { key: 'status', label: 'Status' },
+    { key: 'notes', label: 'Notes' },
+    { key: 'assignedUserId', label: 'Assigned To' },
+  ],
+  farmer: [
+    { key: 'name', label: 'Name' },
+    { key: 'phone', label: 'Phone' },
+    { key: 'address', label: 'Address' },
+    { key: 'veterinarianId', label: 'Vet' },
+    { key: 'middlemanId', label: 'Middleman' },
+    { key: 'status', label: 'Status' },
+    { key: 'notes', label: 'Notes' },
+    { key: 'assignedUserId', label: 'Assigned To' },
+  ],
+};
+
+// Which record's value each field takes; fields left out keep the survivor's value
+export type MergeChoices = Record<string, 'survivor' | 'duplicate'>;
+
+export interface MergeResult {
+  visits: number;
+  complaints: number;
+  tasks: number;
+  submissions: number;
+  // Farmers only; both farmers' animals and purchases end up on the kept one
+  animals: number;
+  fodderPurchases: number;
+}
+
+const getRepository = (type: MergeableType) => (type === 'client' ? clientRepository : farmerRepository);
+
+export const getFieldValue = (record: MergeableRecord, key: string) =>
+  (record as unknown as Record<string, unknown>)[key];
+
+// Empty survivor fields take the duplicate's value, so nothing filled in is lost by default
+export const getDefaultMergeChoices = (type: MergeableType, survivor: MergeableRecord, duplicate: MergeableRecord): MergeChoices =>
+  Object.fromEntries(
+    MERGE_FIELDS[type].map(field => {
+      const survivorValue = getFieldValue(survivor, field.key);
+      const duplicateValue = getFieldValue(duplicate, field.key);
+      const survivorEmpty = survivorValue === undefined || survivorValue === '' || survivorValue === 0;
+      const duplicateEmpty = duplicateValue === undefined || duplicateValue === '' || duplicateValue === 0;
+      return [field.key, survivorEmpty && !duplicateEmpty ? 'duplicate' : 'survivor'];
+    })
+  );
+
+export const mergeRecords = (options: {
+  type: MergeableType;
+  survivorId: string;
+  duplicateId: string;
+  choices: MergeChoices;
+  performedBy: string;
+}): MergeResult => {
+  const { type, survivorId, duplicateId, choices, performedBy } = options;
+  const repository = getRepository(type);
+  const survivor = repository.get(survivorId);
+  const duplicate = repository.get(duplicateId);
+  if (!survivor || !duplicate || survivorId === duplicateId) {
+    throw new Error('Both records must exist and be different to merge them');
+  }
+
+  const changes: Record<string, unknown> = {};
+  MERGE_FIELDS[type].forEach(field => {
+    if (choices[field.key] === 'duplicate') changes[field.key] = getFieldValue(duplicate, field.key);
+  });
+  // The merged record has been known since the earlier of the two registrations
+  if (duplicate.registrationDate && duplicate.registrationDate < survivor.registrationDate) {
+    changes.registrationDate = duplicate.registrationDate;
+  }
+  // Custom fields aren't offered as choices: the survivor's values win and the duplicate fills the gaps
+  if (duplicate.customFields) {
+    changes.customFields = { ...duplicate.customFields, ...survivor.customFields };
+  }
+  if (type === 'client' && (duplicate as Client).lastContact > (survivor as Client).lastContact) {
+    changes.lastContact = (duplicate as Client).lastContact;
+  }
+  const merged: MergeableRecord = type === 'client'
+    ? clientRepository.update(survivorId, changes as Partial<Client>)
+    : farmerRepository.update(survivorId, changes as Partial<Farmer>);
+
+  let visits = 0;
+  const updatedVisits = fieldVisitRepository.list().map(visit => {
+    if (visit.visitType !== type || visit.targetId !== duplicateId) return visit;
+    visits += 1;
+    return { ...visit, targetId: survivorId, targetName: merged.name, targetPhone: merged.phone, targetAddress: merged.address };
+  });
+  if (visits > 0) fieldVisitRepository.saveAll(updatedVisits);
+
+  let complaints = 0;
+  const updatedComplaints = complaintRepository.list().map(complaint => {
+    if (!isComplaintFor(complaint, type, duplicate)) return complaint;
+    complaints += 1;
+    return { ...complaint, customer: merged.name, customerType: type, customerId: survivorId };
+  });
+  if (complaints > 0) complaintRepository.saveAll(updatedComplaints);
+
+  let tasks = 0;
+  const updatedTasks = taskRepository.list().map(task => {
+    if (task.customerType !== type || task.customerId !== duplicateId) return task;
+    tasks += 1;
+    return { ...task, customerId: survivorId };
+  });
+  if (tasks > 0) taskRepository.saveAll(updatedTasks);
+
+  let submissions = 0;
+  const updatedSubmissions = formSubmissionRepository.list().map(submission => {
+    if (submission.subjectType !== type || submission.subjectId !== duplicateId) return submission;
+    submissions += 1;
+    return { ...submission, subjectId: survivorId };
+  });
+  if (submissions > 0) formSubmissionRepository.saveAll(updatedSubmissions);
+
+  let animals = 0;
+  let fodderPurchases = 0;
+  if (type === 'farmer') {
+    const updatedAnimals = animalRepository.list().map(animal => {
+      if (animal.farmerId !== duplicateId) return animal;
+      animals += 1;
+      return { ...animal, farmerId: survivorId };
+    });
+    if (animals > 0) animalRepository.saveAll(updatedAnimals);
+
+    const updatedPurchases = fodderPurchaseRepository.list().map(purchase => {
+      if (purchase.farmerId !== duplicateId) return purchase;
+      fodderPurchases += 1;
+      return { ...purchase, farmerId: survivorId };
+    });
+    if (fodderPurchases > 0) fodderPurchaseRepository.saveAll(updatedPurchases);
+  }
+
+  moveToRecycleBin(type, duplicateId, performedBy);
+
+  recordAuditEvent({
+    action: 'merge',
+    entityType: type,
+    entityId: survivorId,
+    entityLabel: merged.name,
+    summary: `Merged ${duplicate.name} (${duplicateId}) into this ${type}: ${visits} visit(s), ${complaints} complaint(s), ${tasks} task(s) and ${submissions} form submission(s)${type === 'farmer' ? `, ${animals} animal(s) and ${fodderPurchases} fodder purchase(s)` : ''} moved over`,
+  });
+
+  return { visits, complaints, tasks, submissions, animals, fodderPurchases };
+};
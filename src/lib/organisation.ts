@@ -0,0 +1,67 @@
+// Teams, regions and reporting lines. dataScope.ts uses these for team-scoped access,
+// and the admin and client pages use them to suggest who should take over records.
+
+import type { Region, Team, User } from '@/lib/repositories';
+
+// An explicit supervisor wins; otherwise members report to their team's supervisor
+export const getSupervisorId = (user: User, teams: Team[]): string | undefined => {
+  if (user.supervisorId) return user.supervisorId;
+  const team = teams.find(t => t.id === user.teamId);
+  return team && team.supervisorId !== user.id ? team.supervisorId : undefined;
+};
+
+// The user plus everyone below them in the reporting hierarchy
+export const getTeamMemberIds = (userId: string, users: User[], teams: Team[] = []): Set<string> => {
+  const members = new Set([userId]);
+  let added = true;
+  // Walks down level by level; the set also guards against reporting cycles
+  while (added) {
+    added = false;
+    users.forEach(user => {
+      const supervisorId = getSupervisorId(user, teams);
+      if (supervisorId && members.has(supervisorId) && !members.has(user.id)) {
+        members.add(user.id);
+        added = true;
+      }
+    });
+  }
+  return members;
+};
+
+export const findRegionForArea = (area: string | undefined, regions: Region[]): Region | undefined => {
+  const normalized = area?.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return regions.find(region => region.areas.some(a => a.trim().toLowerCase() === normalized));
+};
+
+export interface ReassignmentCandidate {
+  user: User;
+  sameTeam: boolean;
+  // The candidate's team covers the record's area
+  coversArea: boolean;
+}
+
+// Orders possible new owners so people from the same team, then the same region, come first
+export const rankReassignmentCandidates = (
+  candidates: User[],
+  context: { teamId?: string; area?: string },
+  teams: Team[],
+  regions: Region[]
+): ReassignmentCandidate[] => {
+  const region = findRegionForArea(context.area, regions);
+
+  return candidates
+    .map(user => {
+      const team = teams.find(t => t.id === user.teamId);
+      return {
+        user,
+        sameTeam: !!context.teamId && user.teamId === context.teamId,
+        coversArea: !!region && team?.regionId === region.id,
+      };
+    })
+    .sort((a, b) =>
+      Number(b.sameTeam) - Number(a.sameTeam) ||
+      Number(b.coversArea) - Number(a.coversArea) ||
+      a.user.name.localeCompare(b.user.name)
+    );
+};
@@ -0,0 +1,83 @@
+// Password hashing with PBKDF2 from WebCrypto.
+// Stored format: pbkdf2$<iterations>$<salt base64>$<hash base64>
+// Seeded accounts are hashed when written; records that still hold a plaintext password
+// are upgraded by AuthContext on the next successful login.
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+const HASH_PREFIX = 'pbkdf2';
+const ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    KEY_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+// Compares every byte so the time taken doesn't reveal where the first mismatch is
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+// Checked when no account matches the email, so an unknown address takes as long to
+// reject as a wrong password and response times don't reveal which accounts exist
+export const DUMMY_PASSWORD_HASH = [HASH_PREFIX, ITERATIONS, 'A'.repeat(22) + '==', 'A'.repeat(43) + '='].join('$');
+
+export const isPasswordHashed = (stored: string) => stored.startsWith(`${HASH_PREFIX}$`);
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveKey(password, salt, ITERATIONS);
+  return [HASH_PREFIX, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  if (!stored) return false;
+
+  if (!isPasswordHashed(stored)) {
+    // Legacy plaintext record
+    const encoder = new TextEncoder();
+    return constantTimeEqual(encoder.encode(password), encoder.encode(stored));
+  }
+
+  const [, iterations, salt, hash] = stored.split('$');
+  try {
+    const derived = await deriveKey(password, fromBase64(salt), Number(iterations));
+    return constantTimeEqual(derived, fromBase64(hash));
+  } catch (error) {
+    console.error('Error verifying password hash:', error);
+    return false;
+  }
+};
+
+// True for plaintext records and hashes made with fewer iterations than today's setting
+export const needsRehash = (stored: string) =>
+  !isPasswordHashed(stored) || Number(stored.split('$')[1]) < ITERATIONS;
+
+// Returns a message describing why a new password is unacceptable, or null
+export const getPasswordError = (password: string): string | null => {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+  return null;
+};
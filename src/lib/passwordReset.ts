@@ -0,0 +1,100 @@
+import { passwordResetTokenRepository, userRepository } from '@/lib/repositories';
+import type { PasswordResetToken, User } from '@/lib/repositories';
+import { hashPassword } from '@/lib/password';
+import { clearLockout } from '@/lib/loginThrottle';
+
+// One-time password reset links. The admin generates a token; a notifier may deliver the
+// link (email, SMS, WhatsApp...). Without one the link is shown to the admin to pass on.
+
+export const RESET_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface PasswordResetNotifier {
+  name: string;
+  // Resolves true when the link reached the user; false means the admin must share it
+  deliver: (user: User, resetLink: string) => Promise<boolean>;
+}
+
+const manualNotifier: PasswordResetNotifier = {
+  name: 'manual',
+  deliver: async () => false,
+};
+
+let activeNotifier: PasswordResetNotifier = manualNotifier;
+
+export const setPasswordResetNotifier = (notifier: PasswordResetNotifier) => {
+  activeNotifier = notifier;
+};
+
+export interface IssuedResetToken {
+  resetLink: string;
+  expiresAt: string;
+  delivered: boolean;
+  notifier: string;
+}
+
+const digestToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const generateToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const getResetLink = (token: string) => `${window.location.origin}/reset-password/${token}`;
+
+// Issues a new token for the user; any earlier unused tokens stop working
+export const issueResetToken = async (user: User, createdBy: string): Promise<IssuedResetToken> => {
+  const token = generateToken();
+  const now = Date.now();
+  const record: PasswordResetToken = {
+    id: await digestToken(token),
+    userId: user.id,
+    createdBy,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + RESET_TOKEN_TTL_MS).toISOString(),
+  };
+
+  passwordResetTokenRepository.saveAll([
+    ...passwordResetTokenRepository.list().filter(t => t.userId !== user.id || t.usedAt),
+    record,
+  ]);
+
+  const resetLink = getResetLink(token);
+  let delivered = false;
+  try {
+    delivered = await activeNotifier.deliver(user, resetLink);
+  } catch (error) {
+    console.error(`Password reset notifier ${activeNotifier.name} failed:`, error);
+  }
+
+  return { resetLink, expiresAt: record.expiresAt, delivered, notifier: activeNotifier.name };
+};
+
+// Looks up a still-usable token and the account it belongs to
+export const findResetToken = async (token: string): Promise<{ record: PasswordResetToken; user: User } | null> => {
+  if (!token) return null;
+
+  const record = passwordResetTokenRepository.get(await digestToken(token));
+  if (!record || record.usedAt || new Date(record.expiresAt).getTime() <= Date.now()) return null;
+
+  const user = userRepository.get(record.userId);
+  return user && user.status === 'active' ? { record, user } : null;
+};
+
+// Sets the new password and burns the token; returns false when the token is not usable
+export const consumeResetToken = async (token: string, newPassword: string): Promise<boolean> => {
+  const match = await findResetToken(token);
+  if (!match) return false;
+
+  const now = new Date().toISOString();
+  userRepository.update(match.user.id, {
+    password: await hashPassword(newPassword),
+    mustChangePassword: false,
+    passwordChangedAt: now,
+    updatedAt: now,
+  });
+  passwordResetTokenRepository.update(match.record.id, { usedAt: now });
+  // A successful reset proves ownership, so earlier failed logins no longer count
+  clearLockout(match.user.email);
+  return true;
+};
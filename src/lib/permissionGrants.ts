@@ -0,0 +1,66 @@
+// Temporary and delegated permissions. Grants are checked against the clock on every
+// permission check, so they take effect and expire without anyone editing a role.
+
+import { permissionGrantRepository } from '@/lib/repositories';
+import type { PermissionGrant, Role, User } from '@/lib/repositories';
+import type { PermissionId } from '@/lib/permissions';
+import { resolveRolePermissions } from '@/lib/roleInheritance';
+
+export type GrantStatus = 'scheduled' | 'active' | 'expired' | 'revoked';
+
+export const getGrantStatus = (grant: PermissionGrant, now = Date.now()): GrantStatus => {
+  if (grant.revokedAt) return 'revoked';
+  if (now < new Date(grant.startsAt).getTime()) return 'scheduled';
+  if (now >= new Date(grant.endsAt).getTime()) return 'expired';
+  return 'active';
+};
+
+export const getActiveGrants = (userId: string, grants: PermissionGrant[], now = Date.now()): PermissionGrant[] =>
+  grants.filter(grant => grant.userId === userId && getGrantStatus(grant, now) === 'active');
+
+// Extra permissions from active grants. A delegate gets the delegator's role permissions,
+// but delegation doesn't chain - grants held by the delegator are not passed on.
+export const getGrantedPermissions = (
+  activeGrants: PermissionGrant[],
+  users: User[],
+  roles: Role[]
+): PermissionId[] => {
+  const granted = new Set<PermissionId>();
+  activeGrants.forEach(grant => {
+    if (grant.type === 'permission') {
+      (grant.permissions || []).forEach(p => granted.add(p));
+      return;
+    }
+    const delegator = users.find(u => u.id === grant.delegatorId);
+    const role = roles.find(r => r.id === delegator?.roleId);
+    if (delegator?.status === 'active' && role) {
+      resolveRolePermissions(role, roles).forEach(p => granted.add(p));
+    }
+  });
+  return [...granted];
+};
+
+// Users whose records a delegate may work on as if they were their own
+export const getDelegatorIds = (activeGrants: PermissionGrant[]): string[] =>
+  activeGrants
+    .filter(grant => grant.type === 'delegation' && grant.delegatorId)
+    .map(grant => grant.delegatorId);
+
+// When the next grant starts or ends, so the UI can re-check permissions at that moment
+export const getNextGrantChange = (grants: PermissionGrant[], now = Date.now()): number | null => {
+  const upcoming = grants
+    .filter(grant => !grant.revokedAt)
+    .flatMap(grant => [new Date(grant.startsAt).getTime(), new Date(grant.endsAt).getTime()])
+    .filter(time => time > now);
+  return upcoming.length > 0 ? Math.min(...upcoming) : null;
+};
+
+export const createGrant = (grant: Omit<PermissionGrant, 'id' | 'createdAt'>): PermissionGrant =>
+  permissionGrantRepository.create({
+    ...grant,
+    id: `grant_${Date.now()}`,
+    createdAt: new Date().toISOString(),
+  });
+
+export const revokeGrant = (grantId: string, revokedBy: string) =>
+  permissionGrantRepository.update(grantId, { revokedAt: new Date().toISOString(), revokedBy });
@@ -0,0 +1,114 @@
+// The one list of permissions the app knows about. Roles, route guards and
+// hasPermission() all take PermissionId, so a misspelt permission is a compile error.
+
+interface PermissionDefinition {
+  id: string;
+  name: string;
+  category: string;
+  description: string;
+}
+
+export const PERMISSIONS = [
+  // User Management
+  { id: 'user_read', name: 'View Users', category: 'User Management', description: 'Open User Management and see all accounts' },
+  { id: 'user_create', name: 'Create Users', category: 'User Management', description: 'Add new user accounts' },
+  { id: 'user_update', name: 'Update Users', category: 'User Management', description: 'Edit accounts, reset passwords and two-factor, and review login security' },
+  { id: 'user_delete', name: 'Delete Users', category: 'User Management', description: 'Delete user accounts and reassign their records' },
+
+  // Role Management
+  { id: 'role_read', name: 'View Roles', category: 'Role Management', description: 'Open Role Management and see role permissions' },
+  { id: 'role_create', name: 'Create Roles', category: 'Role Management', description: 'Add new roles' },
+  { id: 'role_update', name: 'Update Roles', category: 'Role Management', description: 'Change role permissions and sign-in policies' },
+  { id: 'role_delete', name: 'Delete Roles', category: 'Role Management', description: 'Delete roles that no user holds' },
+
+  // Audit
+  { id: 'audit_view', name: 'View Audit Log', category: 'Audit', description: 'See and export who changed what across the system' },
+
+  // Recycle Bin
+  { id: 'recycle_bin_restore', name: 'Restore Deleted Records', category: 'Recycle Bin', description: 'Open the recycle bin and restore deleted clients, farmers, users and forms' },
+  { id: 'recycle_bin_purge', name: 'Purge Deleted Records', category: 'Recycle Bin', description: 'Permanently delete records from the recycle bin' },
+
+  // Custom Fields
+  { id: 'custom_field_manage', name: 'Manage Custom Fields', category: 'Custom Fields', description: 'Add, change and remove the extra fields captured on clients and farmers' },
+
+  // Client Management
+  { id: 'client_read', name: 'View Clients', category: 'Client Management', description: 'See the clients assigned to you' },
+  { id: 'client_create', name: 'Create Clients', category: 'Client Management', description: 'Register new clients' },
+  { id: 'client_update', name: 'Update Clients', category: 'Client Management', description: 'Edit client details' },
+  { id: 'client_delete', name: 'Delete Clients', category: 'Client Management', description: 'Remove clients' },
+  { id: 'client_view_team', name: 'View Team Clients', category: 'Client Management', description: 'Also see clients of the people who report to you' },
+  { id: 'client_view_all', name: 'View All Clients (Admin)', category: 'Client Management', description: 'See every client regardless of assignment' },
+
+  // Farmer Management
+  { id: 'farmer_read', name: 'View Farmers', category: 'Farmer Management', description: 'See the farmers assigned to you' },
+  { id: 'farmer_create', name: 'Create Farmers', category: 'Farmer Management', description: 'Register new farmers' },
+  { id: 'farmer_update', name: 'Update Farmers', category: 'Farmer Management', description: 'Edit farmer details' },
+  { id: 'farmer_delete', name: 'Delete Farmers', category: 'Farmer Management', description: 'Remove farmers' },
+  { id: 'farmer_view_team', name: 'View Team Farmers', category: 'Farmer Management', description: 'Also see farmers of the people who report to you' },
+  { id: 'farmer_view_all', name: 'View All Farmers (Admin)', category: 'Farmer Management', description: 'See every farmer regardless of assignment' },
+
+  // Field Visit Management
+  { id: 'visit_read', name: 'View Field Visits', category: 'Field Visit Management', description: 'Open Field Visits and see your own visits' },
+  { id: 'visit_view_team', name: 'View Team Field Visits', category: 'Field Visit Management', description: 'Also see visits of the people who report to you' },
+  { id: 'visit_view_all', name: 'View All Field Visits', category: 'Field Visit Management', description: 'See every field visit' },
+  { id: 'visit_create', name: 'Create Field Visits', category: 'Field Visit Management', description: 'Schedule field visits' },
+  { id: 'visit_update', name: 'Update Field Visits', category: 'Field Visit Management', description: 'Edit and complete field visits' },
+  { id: 'visit_delete', name: 'Delete Field Visits', category: 'Field Visit Management', description: 'Remove field visits' },
+  { id: 'visit_track', name: 'Track Live Location', category: 'Field Visit Management', description: 'See the live location of field staff' },
+
+  // Form Management
+  { id: 'form_view', name: 'View Forms', category: 'Form Management', description: 'Open Forms and see forms assigned to you' },
+  { id: 'form_create', name: 'Create Forms', category: 'Form Management', description: 'Build new forms' },
+  { id: 'form_update', name: 'Update Forms', category: 'Form Management', description: 'Edit forms you can manage' },
+  { id: 'form_delete', name: 'Delete Forms', category: 'Form Management', description: 'Remove forms you can manage' },
+  { id: 'form_view_all', name: 'View All Forms', category: 'Form Management', description: 'See every form and all submissions, not just your own' },
+  { id: 'form_fill_all', name: 'Fill Any Form', category: 'Form Management', description: 'Submit forms that are not assigned to you' },
+  { id: 'form_manage', name: 'Manage All Forms', category: 'Form Management', description: 'Edit, publish and delete forms created by others' },
+
+  // Reports
+  { id: 'reports_view', name: 'View Reports', category: 'Reports', description: 'Open Reports' },
+  { id: 'reports_create', name: 'Create Reports', category: 'Reports', description: 'Create reports' },
+  { id: 'reports_update', name: 'Update Reports', category: 'Reports', description: 'Edit reports' },
+  { id: 'reports_delete', name: 'Delete Reports', category: 'Reports', description: 'Remove reports' },
+
+  // Customer Care - Main Access
+  { id: 'customer_care_access', name: 'Access Customer Care (Sidebar Menu)', category: 'Customer Care', description: 'Open the Customer Care module' },
+
+  // Customer Care - Task Management
+  { id: 'task_view_all', name: 'View All Tasks', category: 'Customer Care', description: 'See every customer care task' },
+  { id: 'task_view_team', name: 'View Team Tasks', category: 'Customer Care', description: 'Also see tasks of the people who report to you' },
+  { id: 'task_view', name: 'View Tasks', category: 'Customer Care', description: 'See tasks assigned to you' },
+  { id: 'task_create', name: 'Create Tasks', category: 'Customer Care', description: 'Create customer care tasks' },
+  { id: 'task_update', name: 'Update Tasks', category: 'Customer Care', description: 'Edit and progress tasks' },
+  { id: 'task_delete', name: 'Delete Tasks', category: 'Customer Care', description: 'Remove tasks' },
+
+  // Customer Care - Complaint Management
+  { id: 'complaint_view_all', name: 'View All Complaints', category: 'Customer Care', description: 'See every complaint' },
+  { id: 'complaint_view_team', name: 'View Team Complaints', category: 'Customer Care', description: 'Also see complaints of the people who report to you' },
+  { id: 'complaint_view', name: 'View Complaints', category: 'Customer Care', description: 'See complaints assigned to you' },
+  { id: 'complaint_create', name: 'Create Complaints', category: 'Customer Care', description: 'Log new complaints' },
+  { id: 'complaint_update', name: 'Update Complaints', category: 'Customer Care', description: 'Edit complaints' },
+  { id: 'complaint_delete', name: 'Delete Complaints', category: 'Customer Care', description: 'Remove complaints' },
+  { id: 'complaint_resolve', name: 'Resolve Complaints', category: 'Customer Care', description: 'Mark complaints as resolved' },
+  { id: 'complaint_escalate', name: 'Escalate Complaints', category: 'Customer Care', description: 'Escalate complaints to a higher priority' },
+
+  // Communication
+  { id: 'communication_access', name: 'Access Communication Tools', category: 'Communication', description: 'Open WhatsApp and SIP calling' },
+  { id: 'whatsapp_send', name: 'Send WhatsApp Messages', category: 'Communication', description: 'Send WhatsApp messages to clients and farmers' },
+  { id: 'sip_calls', name: 'Make SIP Calls', category: 'Communication', description: 'Place calls through the SIP trunk' },
+] as const satisfies readonly PermissionDefinition[];
+
+export type Permission = typeof PERMISSIONS[number];
+export type PermissionId = Permission['id'];
+
+const permissionIds = new Set<string>(PERMISSIONS.map(permission => permission.id));
+
+// Stored roles may carry ids from older builds
+export const isPermissionId = (value: string): value is PermissionId => permissionIds.has(value);
+
+export const getPermission = (id: PermissionId) => PERMISSIONS.find(permission => permission.id === id);
+
+export const PERMISSIONS_BY_CATEGORY = PERMISSIONS.reduce<Record<string, Permission[]>>((groups, permission) => {
+  (groups[permission.category] ||= []).push(permission);
+  return groups;
+}, {});
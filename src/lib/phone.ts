@@ -0,0 +1,10 @@
+// Phone numbers are typed in many shapes ("+880 1712-345678", "01712345678");
+// these helpers validate them and compare them by the digits that matter.
+
+// Spaces, dashes, dots and brackets are dropped; a leading + is kept
+export const normalisePhone = (phone: string) => phone.trim().replace(/(?!^\+)[^\d]/g, '');
+
+export const isValidPhone = (phone: string) => /^\+?\d{7,15}$/.test(normalisePhone(phone));
+
+// The last ten digits, so a number with and without the country code counts as the same
+export const phoneMatchKey = (phone: string) => normalisePhone(phone).replace(/\D/g, '').slice(-10);
@@ -0,0 +1,292 @@
+// Moving a departing user's work to other people. Only the assignee changes - createdBy is
+// authorship history and stays as it was. Each run is stored as a batch so it can be undone.
+
+import {
+  clientRepository,
+  complaintRepository,
+  farmerRepository,
+  fieldVisitRepository,
+  reassignmentRepository,
+  taskRepository,
+  userRepository,
+} from '@/lib/repositories';
+import { moveToRecycleBin, restoreFromRecycleBin } from '@/lib/recycleBin';
+import type {
+  Client,
+  Complaint,
+  Entity,
+  Farmer,
+  FieldVisit,
+  ReassignableType,
+  ReassignmentBatch,
+  ReassignmentChange,
+  Region,
+  Repository,
+  Task,
+  Team,
+  User,
+} from '@/lib/repositories';
+import { rankReassignmentCandidates } from '@/lib/organisation';
+import { recordAuditEvent } from '@/lib/audit';
+
+// How long a reassignment (and the deletion that came with it) can be undone
+export const UNDO_WINDOW_MS = 15 * 60 * 1000;
+
+export const REASSIGNABLE_LABELS: Record<ReassignableType, string> = {
+  client: 'Clients',
+  farmer: 'Farmers',
+  visit: 'Field Visits',
+  task: 'Tasks',
+  complaint: 'Complaints',
+};
+
+interface ReassignableRecordTypes {
+  client: Client;
+  farmer: Farmer;
+  visit: FieldVisit;
+  task: Task;
+  complaint: Complaint;
+}
+
+interface AssigneeAdapter<T extends Entity> {
+  repository: Repository<T>;
+  getAssignee: (record: T) => string | undefined;
+  setAssignee: (record: T, user: User | undefined, userId: string) => T;
+  label: (record: T) => string;
+  status: (record: T) => string;
+  area: (record: T) => string | undefined;
+}
+
+const adapters: { [K in ReassignableType]: AssigneeAdapter<ReassignableRecordTypes[K]> } = {
+  client: {
+    repository: clientRepository,
+    // Records from before assignment existed belong to their creator
+    getAssignee: client => client.assignedUserId || client.createdBy,
+    setAssignee: (client, _, userId) => ({ ...client, assignedUserId: userId, updatedAt: new Date().toISOString() }),
+    label: client => client.name,
+    status: client => client.status,
+    area: client => client.area,
+  },
+  farmer: {
+    repository: farmerRepository,
+    getAssignee: farmer => farmer.assignedUserId || farmer.createdBy,
+    setAssignee: (farmer, _, userId) => ({ ...farmer, assignedUserId: userId, updatedAt: new Date().toISOString() }),
+    label: farmer => farmer.name,
+    status: farmer => farmer.status,
+    area: () => undefined,
+  },
+  visit: {
+    repository: fieldVisitRepository,
+    getAssignee: visit => visit.assignedUserId,
+    setAssignee: (visit, user, userId) => ({ ...visit, assignedUserId: userId, assignedUserName: user?.name || visit.assignedUserName }),
+    label: visit => `${visit.targetName} (${new Date(visit.scheduledDate).toLocaleDateString()})`,
+    status: visit => visit.status,
+    // A client visit takes the area of the client being visited
+    area: visit => (visit.visitType === 'client' ? clientRepository.get(visit.targetId)?.area : undefined),
+  },
+  task: {
+    repository: taskRepository,
+    getAssignee: task => task.assignedTo,
+    setAssignee: (task, _, userId) => ({ ...task, assignedTo: userId }),
+    label: task => task.title,
+    status: task => task.status,
+    area: () => undefined,
+  },
+  complaint: {
+    repository: complaintRepository,
+    getAssignee: complaint => complaint.assignedTo,
+    setAssignee: (complaint, _, userId) => ({ ...complaint, assignedTo: userId }),
+    label: complaint => complaint.title,
+    status: complaint => complaint.status,
+    area: () => undefined,
+  },
+};
+
+const REASSIGNABLE_TYPES = Object.keys(adapters) as ReassignableType[];
+
+export interface AssignedRecord {
+  type: ReassignableType;
+  id: string;
+  label: string;
+  status: string;
+  area?: string;
+}
+
+// Target user id per record, keyed by recordKey()
+export type ReassignmentPlan = Record<string, string>;
+
+export type DistributionMode = 'single' | 'round_robin' | 'by_area';
+
+export const recordKey = (record: { type: ReassignableType; id: string }) => `${record.type}:${record.id}`;
+
+const collectForType = <K extends ReassignableType>(type: K, userId: string): AssignedRecord[] => {
+  const adapter = adapters[type] as AssigneeAdapter<ReassignableRecordTypes[K]>;
+  return adapter.repository
+    .find(record => adapter.getAssignee(record) === userId)
+    .map(record => ({
+      type,
+      id: record.id,
+      label: adapter.label(record),
+      status: adapter.status(record),
+      area: adapter.area(record),
+    }));
+};
+
+// Everything currently assigned to the user, across every entity type
+export const collectAssignedRecords = (userId: string): AssignedRecord[] =>
+  REASSIGNABLE_TYPES.flatMap(type => collectForType(type, userId));
+
+// Builds a starting plan; the wizard lets the admin change individual records afterwards
+export const distributeRecords = (
+  records: AssignedRecord[],
+  mode: DistributionMode,
+  targetUserIds: string[],
+  organisation: { users: User[]; teams: Team[]; regions: Region[] }
+): ReassignmentPlan => {
+  const plan: ReassignmentPlan = {};
+  if (targetUserIds.length === 0) return plan;
+
+  const targets = organisation.users.filter(u => targetUserIds.includes(u.id));
+  let next = 0;
+  const nextInTurn = () => {
+    const userId = targetUserIds[next % targetUserIds.length];
+    next += 1;
+    return userId;
+  };
+
+  records.forEach(record => {
+    if (mode === 'single') {
+      plan[recordKey(record)] = targetUserIds[0];
+      return;
+    }
+    if (mode === 'by_area' && record.area) {
+      const [best] = rankReassignmentCandidates(targets, { area: record.area }, organisation.teams, organisation.regions);
+      if (best?.coversArea) {
+        plan[recordKey(record)] = best.user.id;
+        return;
+      }
+    }
+    // Round robin, and the fallback for records no selected user's region covers
+    plan[recordKey(record)] = nextInTurn();
+  });
+
+  return plan;
+};
+
+const applyForType = <K extends ReassignableType>(
+  type: K,
+  fromUserId: string,
+  plan: ReassignmentPlan,
+  users: User[]
+): ReassignmentChange[] => {
+  const adapter = adapters[type] as AssigneeAdapter<ReassignableRecordTypes[K]>;
+  const changes: ReassignmentChange[] = [];
+
+  const updated = adapter.repository.list().map(record => {
+    const toUserId = plan[recordKey({ type, id: record.id })];
+    if (!toUserId || adapter.getAssignee(record) !== fromUserId) return record;
+    changes.push({ type, id: record.id, label: adapter.label(record), fromUserId, toUserId });
+    return adapter.setAssignee(record, users.find(u => u.id === toUserId), toUserId);
+  });
+
+  if (changes.length > 0) {
+    adapter.repository.saveAll(updated);
+  }
+  return changes;
+};
+
+// Applies the plan, optionally deletes the departing account, and stores the batch for undo
+export const applyReassignment = (options: {
+  fromUser: User;
+  plan: ReassignmentPlan;
+  performedBy: string;
+  deleteUser: boolean;
+}): ReassignmentBatch => {
+  const { fromUser, plan, performedBy, deleteUser } = options;
+  const users = userRepository.list();
+  const changes = REASSIGNABLE_TYPES.flatMap(type => applyForType(type, fromUser.id, plan, users));
+
+  if (deleteUser) {
+    moveToRecycleBin('user', fromUser.id, performedBy);
+  }
+
+  const now = Date.now();
+  const batch = reassignmentRepository.create({
+    id: `reassignment_${now}`,
+    fromUserId: fromUser.id,
+    fromUserName: fromUser.name,
+    changes,
+    deletedUserId: deleteUser ? fromUser.id : undefined,
+    performedBy,
+    performedAt: new Date(now).toISOString(),
+    undoUntil: new Date(now + UNDO_WINDOW_MS).toISOString(),
+  });
+
+  const recipients = new Set(changes.map(change => change.toUserId)).size;
+  recordAuditEvent({
+    action: 'reassign',
+    entityType: 'user',
+    entityId: fromUser.id,
+    entityLabel: fromUser.name,
+    summary: `Reassigned ${changes.length} records to ${recipients} user(s)${deleteUser ? ' and deleted the account' : ''}`,
+  });
+
+  return batch;
+};
+
+// Not once the deleted account has been purged from the recycle bin, as there is nothing to return the records to
+export const canUndoReassignment = (batch: ReassignmentBatch, now = Date.now()) =>
+  !batch.undoneAt && now < new Date(batch.undoUntil).getTime()
+  && (!batch.deletedUserId || [...userRepository.list(), ...userRepository.listDeleted()].some(u => u.id === batch.deletedUserId));
+
+const undoForType = <K extends ReassignableType>(type: K, changes: ReassignmentChange[], fromUser: User | undefined) => {
+  const adapter = adapters[type] as AssigneeAdapter<ReassignableRecordTypes[K]>;
+  const byId = new Map(changes.filter(change => change.type === type).map(change => [change.id, change]));
+  let restored = 0;
+  let skipped = 0;
+
+  const updated = adapter.repository.list().map(record => {
+    const change = byId.get(record.id);
+    if (!change) return record;
+    // Leave records someone has moved on again since the reassignment
+    if (adapter.getAssignee(record) !== change.toUserId) {
+      skipped += 1;
+      return record;
+    }
+    restored += 1;
+    return adapter.setAssignee(record, fromUser, change.fromUserId);
+  });
+
+  if (restored > 0) {
+    adapter.repository.saveAll(updated);
+  }
+  // Records deleted since the reassignment can't be restored
+  skipped += byId.size - restored - skipped;
+  return { restored, skipped };
+};
+
+// Restores the deleted account (if any) and moves records back to it
+export const undoReassignment = (batchId: string, undoneBy: string): { restored: number; skipped: number } | null => {
+  const batch = reassignmentRepository.get(batchId);
+  if (!batch || !canUndoReassignment(batch)) return null;
+
+  if (batch.deletedUserId && !userRepository.get(batch.deletedUserId)) {
+    restoreFromRecycleBin('user', batch.deletedUserId);
+  }
+  const fromUser = userRepository.get(batch.fromUserId);
+
+  const totals = REASSIGNABLE_TYPES
+    .map(type => undoForType(type, batch.changes, fromUser))
+    .reduce((sum, result) => ({ restored: sum.restored + result.restored, skipped: sum.skipped + result.skipped }), { restored: 0, skipped: 0 });
+
+  reassignmentRepository.update(batchId, { undoneAt: new Date().toISOString(), undoneBy });
+  recordAuditEvent({
+    action: 'reassign',
+    entityType: 'user',
+    entityId: batch.fromUserId,
+    entityLabel: batch.fromUserName,
+    summary: `Undid reassignment: ${totals.restored} records returned${batch.deletedUserId ? ' and the account restored' : ''}`,
+  });
+
+  return totals;
+};
@@ -0,0 +1,92 @@
+// Soft delete for clients, farmers, users and forms. Deleting sets deletedAt / deletedBy and the
+// repositories leave the record out of normal lists; the Recycle Bin page restores or purges it.
+// Records that stay in the bin longer than the retention period are purged at startup.
+
+import {
+  animalRepository,
+  clientRepository,
+  farmerRepository,
+  fodderPurchaseRepository,
+  formRepository,
+  userRepository,
+} from '@/lib/repositories';
+import type { Entity, Repository, SoftDeletable } from '@/lib/repositories';
+
+export const RECYCLE_BIN_RETENTION_DAYS = 30;
+const RETENTION_MS = RECYCLE_BIN_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+export type RecyclableType = 'client' | 'farmer' | 'user' | 'form';
+
+type RecyclableRecord = Entity & SoftDeletable;
+
+export const recyclableRepositories: Record<RecyclableType, Repository<RecyclableRecord>> = {
+  client: clientRepository,
+  farmer: farmerRepository,
+  user: userRepository,
+  form: formRepository,
+};
+
+export const RECYCLABLE_LABELS: Record<RecyclableType, string> = {
+  client: 'Client',
+  farmer: 'Farmer',
+  user: 'User',
+  form: 'Form',
+};
+
+// Forms have a title, everything else a name
+export const getRecycledRecordLabel = (record: RecyclableRecord): string => {
+  const fields = record as unknown as Record<string, unknown>;
+  const label = fields.name || fields.title;
+  return typeof label === 'string' && label ? label : record.id;
+};
+
+export const moveToRecycleBin = (type: RecyclableType, id: string, deletedBy: string) =>
+  recyclableRepositories[type].update(id, { deletedAt: new Date().toISOString(), deletedBy });
+
+export const restoreFromRecycleBin = (type: RecyclableType, id: string) =>
+  recyclableRepositories[type].update(id, { deletedAt: undefined, deletedBy: undefined });
+
+// Only records already in the bin can be purged
+// A farmer's animals and fodder purchases only make sense with the farmer, so they go too
+const removeRecord = (type: RecyclableType, id: string): boolean => {
+  if (!recyclableRepositories[type].remove(id)) return false;
+  if (type === 'farmer') {
+    animalRepository.find(animal => animal.farmerId === id).forEach(animal => animalRepository.remove(animal.id));
+    fodderPurchaseRepository.find(purchase => purchase.farmerId === id)
+      .forEach(purchase => fodderPurchaseRepository.remove(purchase.id));
+  }
+  return true;
+};
+
+export const purgeFromRecycleBin = (type: RecyclableType, id: string): boolean => {
+  const repository = recyclableRepositories[type];
+  if (!repository.listDeleted().some(record => record.id === id)) return false;
+  return removeRecord(type, id);
+};
+
+export const getPurgeDate = (record: SoftDeletable): Date | null =>
+  record.deletedAt ? new Date(new Date(record.deletedAt).getTime() + RETENTION_MS) : null;
+
+// A restored user would clash with an account created since with the same email
+export const getRestoreConflict = (type: RecyclableType, id: string): string | null => {
+  if (type !== 'user') return null;
+  const user = userRepository.listDeleted().find(u => u.id === id);
+  const clash = user && userRepository.list().find(u => u.email.toLowerCase() === user.email.toLowerCase());
+  return clash ? `${clash.name} already uses ${user.email}` : null;
+};
+
+// Runs once per boot; returns how many records were purged
+export const purgeExpiredRecords = (now = Date.now()): number => {
+  let purged = 0;
+  (Object.keys(recyclableRepositories) as RecyclableType[]).forEach(type => {
+    recyclableRepositories[type].listDeleted()
+      .filter(record => getPurgeDate(record).getTime() <= now)
+      .forEach(record => {
+        if (removeRecord(type, record.id)) purged += 1;
+      });
+  });
+  if (purged > 0) {
+    console.log(`Purged ${purged} records older than ${RECYCLE_BIN_RETENTION_DAYS} days from the recycle bin`);
+  }
+  return purged;
+};
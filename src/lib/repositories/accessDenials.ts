@@ -0,0 +1,12 @@
+import { createRepository } from './repository';
+
+// A signed-in user opened a route their role doesn't grant
+export interface AccessDenial {
+  id: string;
+  userId: string;
+  path: string;
+  requiredPermissions: string[];
+  timestamp: string;
+}
+
+export const accessDenialRepository = createRepository<AccessDenial>('hdf_access_denials');
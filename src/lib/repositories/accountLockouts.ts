@@ -0,0 +1,11 @@
+import { createRepository } from './repository';
+
+// Failed-login state per email; id is the lower-cased email
+export interface AccountLockout {
+  id: string;
+  failedCount: number;
+  lastFailedAt: string;
+  lockedUntil?: string;
+}
+
+export const accountLockoutRepository = createRepository<AccountLockout>('hdf_account_lockouts');
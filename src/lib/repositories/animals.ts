@@ -0,0 +1,24 @@
+import { createRepository } from './repository';
+
+export type AnimalSpecies = 'cow' | 'buffalo' | 'goat' | 'sheep' | 'poultry' | 'other';
+
+export type AnimalHealthStatus = 'healthy' | 'sick' | 'under_treatment' | 'deceased';
+
+export interface Animal {
+  id: string;
+  farmerId: string;
+  species: AnimalSpecies;
+  // Ear tag or other identifier the farmer uses
+  tag: string;
+  name?: string;
+  // Often approximate; the age shown is worked out from it
+  birthDate?: string;
+  healthStatus: AnimalHealthStatus;
+  // Set when the animal is treated by someone other than the farmer's usual vet
+  veterinarianId?: string;
+  notes: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export const animalRepository = createRepository<Animal>('hdf_animals');
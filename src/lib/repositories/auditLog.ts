@@ -0,0 +1,45 @@
+import { createRepository } from './repository';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'reassign' | 'merge';
+
+export type AuditEntityType =
+  | 'client'
+  | 'farmer'
+  | 'animal'
+  | 'veterinarian'
+  | 'middleman'
+  | 'fodder_purchase'
+  | 'visit'
+  | 'task'
+  | 'complaint'
+  | 'form'
+  | 'form_submission'
+  | 'user'
+  | 'role'
+  | 'team'
+  | 'region'
+  | 'permission_grant'
+  | 'custom_field';
+
+export interface AuditChange {
+  field: string;
+  // Missing before a create and after a delete
+  before?: unknown;
+  after?: unknown;
+}
+
+// Append-only: entries are written through lib/audit.ts and never updated or removed
+export interface AuditEntry {
+  id: string;
+  actorId: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  // Name or title at the time of the change, so the entry still reads well after a delete
+  entityLabel: string;
+  changes: AuditChange[];
+  summary?: string;
+  timestamp: string;
+}
+
+export const auditLogRepository = createRepository<AuditEntry>('hdf_audit_log');
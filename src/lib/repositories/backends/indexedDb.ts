@@ -0,0 +1,94 @@
+import type { StorageBackend } from '../storage';
+import { readLocalStorageKey } from './localStorage';
+
+const DB_NAME = 'hdf';
+const DB_VERSION = 1;
+const STORE_NAME = 'collections';
+const CHANNEL_NAME = 'hdf_storage';
+
+// One object store, one entry per hdf_* collection. IndexedDB has no practical 5 MB cap,
+// so large records such as FieldVisit.startPhoto data URLs fit comfortably.
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runRequest = <T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createIndexedDbBackend = (): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase();
+    }
+    return dbPromise;
+  };
+
+  // IndexedDB has no storage event, so tabs tell each other about writes
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  return {
+    name: 'indexedDB',
+
+    read: async (key: string) => {
+      const db = await getDatabase();
+      const stored = await runRequest<unknown>(db, 'readonly', store => store.get(key));
+      if (stored !== undefined) return stored;
+
+      // First run on IndexedDB: carry over whatever the localStorage build saved
+      const legacy = readLocalStorageKey(key);
+      if (legacy !== null) {
+        await runRequest(db, 'readwrite', store => store.put(legacy, key));
+        localStorage.removeItem(key);
+      }
+      return legacy;
+    },
+
+    write: async (key: string, value: unknown) => {
+      const db = await getDatabase();
+      await runRequest(db, 'readwrite', store => store.put(value, key));
+      channel?.postMessage(key);
+    },
+
+    remove: async (key: string) => {
+      const db = await getDatabase();
+      await runRequest(db, 'readwrite', store => store.delete(key));
+      channel?.postMessage(key);
+    },
+
+    subscribe: (listener: (key: string) => void) => {
+      if (!channel) return () => {};
+
+      const handleMessage = (event: MessageEvent) => {
+        if (typeof event.data === 'string') {
+          listener(event.data);
+        }
+      };
+
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import type { StorageBackend } from '../storage';
+
+// Reads and writes are synchronous underneath; they are wrapped in promises
+// so localStorage satisfies the same contract as the async backends.
+export const readLocalStorageKey = (key: string): unknown => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error(`Error parsing ${key}:`, error);
+    return null;
+  }
+};
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localStorage',
+
+  read: async (key: string) => readLocalStorageKey(key),
+
+  write: async (key: string, value: unknown) => {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+
+  remove: async (key: string) => {
+    localStorage.removeItem(key);
+  },
+
+  subscribe: (listener: (key: string) => void) => {
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key && e.storageArea === localStorage) {
+        listener(e.key);
+      }
+    };
+
+    window.addEventListener('storage', handleStorageChange);
+    return () => window.removeEventListener('storage', handleStorageChange);
+  },
+});
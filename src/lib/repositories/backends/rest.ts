@@ -0,0 +1,73 @@
+import type { StorageBackend } from '../storage';
+
+interface RestBackendOptions {
+  // How often to poll the server for changes made by other clients (ms, 0 disables)
+  pollInterval?: number;
+}
+
+// Talks to a collection-per-resource API:
+//   GET    {baseUrl}/collections/{key}  -> JSON array, 404 when never written
+//   PUT    {baseUrl}/collections/{key}  <- JSON array
+//   DELETE {baseUrl}/collections/{key}
+// scripts/mock-api.js implements the same contract for local development.
+export const createRestBackend = (baseUrl: string, options: RestBackendOptions = {}): StorageBackend => {
+  const collectionUrl = (key: string) => `${baseUrl.replace(/\/$/, '')}/collections/${encodeURIComponent(key)}`;
+  const lastSeen = new Map<string, string>();
+
+  const request = async (key: string, init: RequestInit = {}) => {
+    const response = await fetch(collectionUrl(key), {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`${init.method || 'GET'} ${key} failed with status ${response.status}`);
+    }
+    return response;
+  };
+
+  const read = async (key: string) => {
+    const response = await request(key);
+    if (response.status === 404) return null;
+    const body = await response.text();
+    lastSeen.set(key, body);
+    return body ? JSON.parse(body) : null;
+  };
+
+  return {
+    name: 'rest',
+
+    read,
+
+    write: async (key: string, value: unknown) => {
+      const body = JSON.stringify(value);
+      await request(key, { method: 'PUT', body });
+      lastSeen.set(key, body);
+    },
+
+    remove: async (key: string) => {
+      await request(key, { method: 'DELETE' });
+      lastSeen.delete(key);
+    },
+
+    subscribe: (listener: (key: string) => void) => {
+      if (!options.pollInterval) return () => {};
+
+      const interval = setInterval(async () => {
+        for (const [key, previous] of lastSeen) {
+          try {
+            const response = await request(key);
+            const body = response.status === 404 ? '' : await response.text();
+            if (body !== previous) {
+              lastSeen.set(key, body);
+              listener(key);
+            }
+          } catch (error) {
+            console.warn(`Polling ${key} failed:`, error);
+          }
+        }
+      }, options.pollInterval);
+
+      return () => clearInterval(interval);
+    },
+  };
+};
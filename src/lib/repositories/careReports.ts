@@ -0,0 +1,17 @@
+import { createRepository } from './repository';
+
+// Customer care work reports (not to be confused with the analytics in ReportsModule)
+export interface CareReport {
+  id: string;
+  title: string;
+  description: string;
+  type: 'daily' | 'weekly' | 'monthly' | 'custom';
+  status: 'draft' | 'submitted' | 'approved' | 'rejected';
+  assignedTo: string;
+  createdBy: string;
+  createdAt: string;
+  dueDate: string;
+  content?: string;
+}
+
+export const careReportRepository = createRepository<CareReport>('hdf_reports');
@@ -0,0 +1,23 @@
+import { createRepository } from './repository';
+import type { SoftDeletable } from './repository';
+import type { CustomFieldValues } from './customFields';
+
+export interface Client extends SoftDeletable {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  address: string;
+  area: string;
+  type: 'individual' | 'corporate';
+  status: 'active' | 'inactive';
+  registrationDate: string;
+  lastContact: string;
+  notes: string;
+  createdBy?: string; // User ID who created this client
+  assignedUserId?: string; // User ID assigned to this client
+  customFields?: CustomFieldValues; // Keyed by custom field definition ID
+  updatedAt?: string;
+}
+
+export const clientRepository = createRepository<Client>('hdf_clients', { softDelete: true });
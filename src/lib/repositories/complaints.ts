@@ -0,0 +1,19 @@
+import { createRepository } from './repository';
+
+export interface Complaint {
+  id: string;
+  title: string;
+  description: string;
+  status: 'open' | 'in_progress' | 'resolved' | 'closed';
+  priority: 'low' | 'medium' | 'high';
+  customer: string;
+  // The client or farmer the complaint is about, when it was linked to one
+  customerType?: 'client' | 'farmer';
+  customerId?: string;
+  reportedBy: string;
+  assignedTo: string;
+  createdAt: string;
+  resolvedAt?: string;
+}
+
+export const complaintRepository = createRepository<Complaint>('hdf_complaints');
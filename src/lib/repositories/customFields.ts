@@ -0,0 +1,26 @@
+import { createRepository } from './repository';
+import type { FormField } from './forms';
+
+export type CustomFieldEntity = 'client' | 'farmer';
+
+// Files have nowhere to live on a client or farmer record, so that form field type is left out
+export type CustomFieldType = Exclude<FormField['type'], 'file'>;
+
+// An extra field admins add to clients or farmers, modelled on the form builder's fields.
+// `validation` is a regular expression the whole value has to match.
+export interface CustomFieldDefinition extends Omit<FormField, 'type'> {
+  entity: CustomFieldEntity;
+  type: CustomFieldType;
+  // Whether the field gets its own column in the table view
+  showInTable: boolean;
+  order: number;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// Checkbox fields hold every ticked option; the other types hold one string
+export type CustomFieldValue = string | string[];
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export const customFieldRepository = createRepository<CustomFieldDefinition>('hdf_custom_fields');
@@ -0,0 +1,22 @@
+import { createRepository } from './repository';
+import type { SoftDeletable } from './repository';
+import type { CustomFieldValues } from './customFields';
+
+export interface Farmer extends SoftDeletable {
+  id: string;
+  name: string;
+  phone: string;
+  address: string;
+  // Animals and fodder purchases point back at the farmer; vets and middlemen are shared lookups
+  veterinarianId?: string;
+  middlemanId?: string;
+  registrationDate: string;
+  status: 'active' | 'inactive';
+  notes: string;
+  createdBy?: string; // User ID who created this farmer
+  assignedUserId?: string; // User ID assigned to this farmer
+  customFields?: CustomFieldValues; // Keyed by custom field definition ID
+  updatedAt?: string;
+}
+
+export const farmerRepository = createRepository<Farmer>('hdf_farmers', { softDelete: true });
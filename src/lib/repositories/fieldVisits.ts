@@ -0,0 +1,34 @@
+import { createRepository } from './repository';
+
+export interface FieldVisit {
+  id: string;
+  visitType: 'client' | 'farmer';
+  targetId: string;
+  targetName: string;
+  targetPhone?: string;
+  targetAddress?: string;
+  assignedUserId: string;
+  assignedUserName: string;
+  scheduledDate: string;
+  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  location?: {
+    latitude: number;
+    longitude: number;
+    address: string;
+    timestamp: string;
+  };
+  liveLocation?: {
+    latitude: number;
+    longitude: number;
+    timestamp: string;
+    isTracking: boolean;
+  };
+  startPhoto?: string;
+  notes: string;
+  purpose: string;
+  duration?: number;
+  createdAt: string;
+  completedAt?: string;
+}
+
+export const fieldVisitRepository = createRepository<FieldVisit>('hdf_field_visits');
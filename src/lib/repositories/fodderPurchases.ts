@@ -0,0 +1,23 @@
+import { createRepository } from './repository';
+
+export interface FodderPurchase {
+  id: string;
+  farmerId: string;
+  fodderType: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  purchasedAt: string;
+  // The middleman the fodder was bought through, if any
+  middlemanId?: string;
+  // The staff member who delivered the order; empty until it is delivered
+  deliveredBy?: string;
+  // Whatever the farmer has paid so far; the payment status is derived from it
+  amountPaid: number;
+  notes: string;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export const fodderPurchaseRepository = createRepository<FodderPurchase>('hdf_fodder_purchases');
@@ -0,0 +1,27 @@
+import { createRepository } from './repository';
+
+export type FormResponseValue = string | number | boolean | string[];
+
+// Internal submissions carry `responses` and a review status;
+// public link submissions carry `submissionData` and submitter details
+export interface FormSubmission {
+  id: string;
+  formId: string;
+  formTitle: string;
+  submittedBy: string;
+  submittedAt: string;
+  responses?: Record<string, FormResponseValue>;
+  status?: 'submitted' | 'reviewed' | 'approved' | 'rejected';
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+  submitterEmail?: string;
+  submissionData?: Record<string, string | string[]>;
+  // The client or farmer the submission was filled in for, if any
+  subjectType?: 'client' | 'farmer';
+  subjectId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export const formSubmissionRepository = createRepository<FormSubmission>('hdf_form_submissions');
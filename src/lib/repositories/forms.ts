@@ -0,0 +1,31 @@
+import { createRepository } from './repository';
+import type { SoftDeletable } from './repository';
+
+export interface FormField {
+  id: string;
+  type: 'text' | 'email' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date' | 'file';
+  label: string;
+  placeholder?: string;
+  required: boolean;
+  options?: string[]; // For select, radio, checkbox
+  validation?: string;
+}
+
+// hdf_forms is shared by the form builder (published/archived, public links)
+// and the digital form manager (active/inactive, assigned users)
+export interface DigitalForm extends SoftDeletable {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  status: 'draft' | 'active' | 'inactive' | 'published' | 'archived';
+  fields: FormField[];
+  assignedUserIds: string[];
+  isPublic?: boolean;
+  submissionCount?: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const formRepository = createRepository<DigitalForm>('hdf_forms', { softDelete: true });
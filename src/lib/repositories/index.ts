@@ -0,0 +1,63 @@
+export { createRepository, hydrateRepositories, onRepositoryChange } from './repository';
+export type { Entity, Repository, RepositoryChangeListener, RepositoryOptions, SoftDeletable } from './repository';
+export { createStorageBackend, getStorageBackend, setStorageBackend } from './storage';
+export type { StorageBackend, StorageBackendType, StorageConfig } from './storage';
+export { createLocalStorageBackend } from './backends/localStorage';
+export { createIndexedDbBackend } from './backends/indexedDb';
+export { createRestBackend } from './backends/rest';
+export { initializeStorage } from './initialize';
+export { CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY, runMigrations } from './migrations';
+export type { MigrationChange, MigrationReport } from './migrations';
+
+export { userRepository } from './users';
+export type { TwoFactorSettings, User } from './users';
+export { roleRepository } from './roles';
+export type { LocationPolicy, Role } from './roles';
+export { teamRepository } from './teams';
+export type { Team } from './teams';
+export { regionRepository } from './regions';
+export type { Region } from './regions';
+export { clientRepository } from './clients';
+export type { Client } from './clients';
+export { farmerRepository } from './farmers';
+export type { Farmer } from './farmers';
+export { animalRepository } from './animals';
+export type { Animal, AnimalHealthStatus, AnimalSpecies } from './animals';
+export { veterinarianRepository } from './veterinarians';
+export type { Veterinarian } from './veterinarians';
+export { middlemanRepository } from './middlemen';
+export type { Middleman } from './middlemen';
+export { fodderPurchaseRepository } from './fodderPurchases';
+export type { FodderPurchase } from './fodderPurchases';
+export { customFieldRepository } from './customFields';
+export type { CustomFieldDefinition, CustomFieldEntity, CustomFieldType, CustomFieldValue, CustomFieldValues } from './customFields';
+export { whatsAppMessageRepository } from './whatsappMessages';
+export type { WhatsAppMessage } from './whatsappMessages';
+export { sipCallRepository } from './sipCalls';
+export type { SIPCall } from './sipCalls';
+export { fieldVisitRepository } from './fieldVisits';
+export type { FieldVisit } from './fieldVisits';
+export { taskRepository } from './tasks';
+export type { Task } from './tasks';
+export { complaintRepository } from './complaints';
+export type { Complaint } from './complaints';
+export { careReportRepository } from './careReports';
+export type { CareReport } from './careReports';
+export { formRepository } from './forms';
+export type { DigitalForm, FormField } from './forms';
+export { formSubmissionRepository } from './formSubmissions';
+export type { FormSubmission, FormResponseValue } from './formSubmissions';
+export { loginAttemptRepository } from './loginAttempts';
+export type { LoginAttempt } from './loginAttempts';
+export { accountLockoutRepository } from './accountLockouts';
+export type { AccountLockout } from './accountLockouts';
+export { passwordResetTokenRepository } from './passwordResetTokens';
+export type { PasswordResetToken } from './passwordResetTokens';
+export { accessDenialRepository } from './accessDenials';
+export type { AccessDenial } from './accessDenials';
+export { permissionGrantRepository } from './permissionGrants';
+export type { PermissionGrant } from './permissionGrants';
+export { auditLogRepository } from './auditLog';
+export type { AuditAction, AuditChange, AuditEntityType, AuditEntry } from './auditLog';
+export { reassignmentRepository } from './reassignments';
+export type { ReassignableType, ReassignmentBatch, ReassignmentChange } from './reassignments';
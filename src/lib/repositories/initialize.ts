@@ -0,0 +1,25 @@
+import { hydrateRepositories } from './repository';
+import { logMigrationReport, runMigrations } from './migrations';
+import { createStorageBackend, getStorageConfigFromEnv, setStorageBackend } from './storage';
+
+// Picks the backend configured for this build, upgrades stored data to the current
+// schema and loads every registered collection.
+// Must be awaited before the first render so pages see hydrated data.
+export const initializeStorage = async () => {
+  const backend = createStorageBackend(getStorageConfigFromEnv());
+  // Only hydrateRepositories below loads data, after the migrations have run
+  setStorageBackend(backend, { reload: false });
+
+  try {
+    const dryRun = import.meta.env.VITE_MIGRATIONS_DRY_RUN === 'true';
+    logMigrationReport(await runMigrations({ dryRun }));
+  } catch (error) {
+    console.error('Error migrating stored data:', error);
+  }
+
+  try {
+    await hydrateRepositories();
+  } catch (error) {
+    console.error(`Error loading data from ${backend.name}:`, error);
+  }
+};
@@ -0,0 +1,13 @@
+import { createRepository } from './repository';
+
+export interface LoginAttempt {
+  id: string;
+  email: string;
+  userId?: string; // Set when the email matched an account
+  success: boolean;
+  reason?: 'invalid_credentials' | 'invalid_two_factor' | 'locked' | 'throttled' | 'location_required';
+  timestamp: string;
+  userAgent: string;
+}
+
+export const loginAttemptRepository = createRepository<LoginAttempt>('hdf_login_attempts');
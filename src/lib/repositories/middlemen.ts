@@ -0,0 +1,14 @@
+import { createRepository } from './repository';
+
+// Middlemen are shared between the farmers who buy or sell through them
+export interface Middleman {
+  id: string;
+  name: string;
+  phone: string;
+  area: string;
+  notes: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export const middlemanRepository = createRepository<Middleman>('hdf_middlemen');
@@ -0,0 +1,472 @@
+import { getStorageBackend } from './storage';
+
+// Persisted records are upgraded once at boot instead of being patched defensively in every page.
+// Add new migrations to the end of the list with the next version number - never edit a shipped one.
+
+export const SCHEMA_VERSION_KEY = 'hdf_schema_version';
+
+type StoredRecord = Record<string, unknown>;
+
+interface Migration {
+  version: number;
+  description: string;
+  // Per-collection record upgrades, keyed by hdf_* storage key
+  collections?: Record<string, (record: StoredRecord) => StoredRecord>;
+  // Upgrades that move data between collections. Runs after `collections` with the listed
+  // collections (empty when never written) and returns only the ones it changed.
+  restructure?: {
+    keys: string[];
+    run: (collections: Record<string, StoredRecord[]>) => Record<string, StoredRecord[]>;
+  };
+}
+
+export interface MigrationChange {
+  key: string;
+  total: number;
+  updated: number;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  dryRun: boolean;
+  migrations: {
+    version: number;
+    description: string;
+    changes: MigrationChange[];
+  }[];
+}
+
+const withDefault = (record: StoredRecord, field: string, value: unknown) =>
+  record[field] === undefined || record[field] === null || record[field] === '' ? value : record[field];
+
+const upgradeOwnedRecord = (record: StoredRecord): StoredRecord => ({
+  ...record,
+  status: withDefault(record, 'status', 'active'),
+  notes: withDefault(record, 'notes', ''),
+  registrationDate: withDefault(record, 'registrationDate', new Date().toISOString()),
+  createdBy: withDefault(record, 'createdBy', record.assignedUserId),
+  assignedUserId: withDefault(record, 'assignedUserId', record.createdBy),
+});
+
+// v5: the permission catalog as it was when v5 shipped. Frozen here so later catalog changes
+// can't alter which stored permissions this migration keeps.
+const V5_PERMISSION_IDS = new Set([
+  'user_read', 'user_create', 'user_update', 'user_delete',
+  'role_read', 'role_create', 'role_update', 'role_delete',
+  'client_read', 'client_create', 'client_update', 'client_delete', 'client_view_all',
+  'farmer_read', 'farmer_create', 'farmer_update', 'farmer_delete', 'farmer_view_all',
+  'visit_read', 'visit_create', 'visit_update', 'visit_delete', 'visit_track',
+  'form_view', 'form_create', 'form_update', 'form_delete', 'form_view_all', 'form_fill_all', 'form_manage',
+  'reports_view', 'reports_create', 'reports_update', 'reports_delete',
+  'customer_care_access',
+  'task_view_all', 'task_view', 'task_create', 'task_update', 'task_delete',
+  'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update', 'complaint_delete', 'complaint_resolve', 'complaint_escalate',
+  'communication_access', 'whatsapp_send', 'sip_calls',
+]);
+
+// Reporting lines and teams for the seeded demo accounts
+const demoSupervisors: Record<string, string | undefined> = {
+  'cc-agent-001': 'cc-supervisor-001',
+  'cc-supervisor-001': 'cc-manager-001',
+  'field-agent-001': 'field-supervisor-001',
+};
+
+const demoTeams: Record<string, string | undefined> = {
+  'cc-agent-001': 'team-customer-care',
+  'cc-supervisor-001': 'team-customer-care',
+  'field-supervisor-001': 'team-field',
+  'field-agent-001': 'team-field',
+};
+
+// v10: the flat farmer fields become animals, shared vets and middlemen, and a fodder purchase.
+// Kept self-contained so later changes to the app's helpers can't alter what this migration did.
+const LEGACY_FARMER_FIELDS = ['animalName', 'consultDr', 'drPhone', 'middleMan', 'middleManPhone', 'fodder', 'price'];
+
+const legacyText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const guessLegacySpecies = (text: string) => {
+  const value = text.toLowerCase();
+  if (/buffalo/.test(value)) return 'buffalo';
+  if (/cow|cattle|bull|calf|heifer|ox/.test(value)) return 'cow';
+  if (/goat/.test(value)) return 'goat';
+  if (/sheep|lamb/.test(value)) return 'sheep';
+  if (/chicken|hen|duck|poultry|bird/.test(value)) return 'poultry';
+  return 'other';
+};
+
+// v14: v10 matched species on substrings, so "box feed" became a cow and "then" a hen.
+// Whole words only this time; kept separate from the app's helper like v10 is.
+const guessSpeciesByWord = (text: string) => {
+  const value = text.toLowerCase();
+  if (/\bbuffalo(es)?\b/.test(value)) return 'buffalo';
+  if (/\b(cows?|cattle|bulls?|calf|calves|heifers?|ox|oxen)\b/.test(value)) return 'cow';
+  if (/\bgoats?\b/.test(value)) return 'goat';
+  if (/\b(sheep|lambs?)\b/.test(value)) return 'sheep';
+  if (/\b(chickens?|hens?|ducks?|poultry|birds?)\b/.test(value)) return 'poultry';
+  return 'other';
+};
+
+// Only animals v10 created and nobody has re-classified since. v10 dropped the name of
+// single-word entries it recognised, so those can't be checked again and are left alone.
+const reclassifyLegacyAnimal = (record: StoredRecord): StoredRecord => {
+  const name = legacyText(record.name);
+  if (record.notes !== 'Moved from the farmer profile' || !name || guessLegacySpecies(name) !== record.species) return record;
+  const species = guessSpeciesByWord(name);
+  return species === record.species ? record : { ...record, species };
+};
+
+const splitFarmerProfile = (collections: Record<string, StoredRecord[]>): Record<string, StoredRecord[]> => {
+  const farmers = collections.hdf_farmers;
+  const legacyFarmers = farmers.filter(farmer => LEGACY_FARMER_FIELDS.some(field => field in farmer));
+  if (legacyFarmers.length === 0) return {};
+
+  const animals = [...collections.hdf_animals];
+  const veterinarians = [...collections.hdf_veterinarians];
+  const middlemen = [...collections.hdf_middlemen];
+  const purchases = [...collections.hdf_fodder_purchases];
+  const now = new Date().toISOString();
+
+  // The same vet or middleman typed on several farmers becomes one shared record
+  const findOrAddContact = (list: StoredRecord[], prefix: string, name: string, phone: string, extra: StoredRecord = {}) => {
+    const digits = phone.replace(/\D/g, '').slice(-10);
+    const existing = list.find(contact =>
+      (digits && String(contact.phone || '').replace(/\D/g, '').slice(-10) === digits) ||
+      (!digits && String(contact.name || '').trim().toLowerCase() === name.toLowerCase()));
+    if (existing) return String(existing.id);
+    const id = `${prefix}-${list.length + 1}-${Date.now()}`;
+    list.push({ id, name: name || phone, phone, ...extra, area: '', notes: 'Created from farmer profiles', createdAt: now });
+    return id;
+  };
+
+  const upgraded = farmers.map(farmer => {
+    if (!LEGACY_FARMER_FIELDS.some(field => field in farmer)) return farmer;
+    const farmerId = String(farmer.id);
+    const next: StoredRecord = { ...farmer };
+    LEGACY_FARMER_FIELDS.forEach(field => delete next[field]);
+
+    // "2 goats" becomes two goats; a bare species ("Cow") isn't a name worth keeping
+    legacyText(farmer.animalName)
+      .split(/,|;|\/|&|\band\b/i)
+      .map(part => part.trim())
+      .filter(Boolean)
+      .flatMap(part => {
+        const counted = part.match(/^(\d+)\s+(.+)$/);
+        const text = counted ? counted[2] : part;
+        return Array.from({ length: counted ? Math.min(Number(counted[1]), 100) : 1 }, () => text);
+      })
+      .forEach((text, index) => {
+        const species = guessLegacySpecies(text);
+        animals.push({
+          id: `animal-${farmerId}-${index + 1}`,
+          farmerId,
+          species,
+          tag: '',
+          name: species !== 'other' && text.split(/\s+/).length === 1 ? undefined : text,
+          healthStatus: 'healthy',
+          notes: 'Moved from the farmer profile',
+          createdAt: now,
+        });
+      });
+
+    const drName = legacyText(farmer.consultDr);
+    const drPhone = legacyText(farmer.drPhone);
+    if (drName || drPhone) {
+      next.veterinarianId = findOrAddContact(veterinarians, 'vet', drName, drPhone, { clinic: '' });
+    }
+
+    const middleManName = legacyText(farmer.middleMan);
+    const middleManPhone = legacyText(farmer.middleManPhone);
+    if (middleManName || middleManPhone) {
+      next.middlemanId = findOrAddContact(middlemen, 'middleman', middleManName, middleManPhone);
+    }
+
+    // The old single price had no quantity, so it becomes one purchase of one lot
+    const fodder = legacyText(farmer.fodder);
+    const price = Number(farmer.price) || 0;
+    if (fodder || price > 0) {
+      purchases.push({
+        id: `fodder-${farmerId}-1`,
+        farmerId,
+        fodderType: fodder || 'Unspecified',
+        quantity: 1,
+        unit: 'lot',
+        unitPrice: price,
+        purchasedAt: String(farmer.registrationDate || now),
+        middlemanId: next.middlemanId,
+        notes: 'Moved from the farmer profile',
+        createdBy: farmer.createdBy,
+        createdAt: now,
+      });
+    }
+    return next;
+  });
+
+  return {
+    hdf_farmers: upgraded,
+    hdf_animals: animals,
+    hdf_veterinarians: veterinarians,
+    hdf_middlemen: middlemen,
+    hdf_fodder_purchases: purchases,
+  };
+};
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Backfill status, ownership and dates on clients, farmers and users',
+    collections: {
+      hdf_clients: upgradeOwnedRecord,
+      hdf_farmers: upgradeOwnedRecord,
+      hdf_users: record => ({
+        ...record,
+        status: withDefault(record, 'status', 'active'),
+      }),
+    },
+  },
+  {
+    version: 2,
+    description: 'Backfill status, notes and timestamps on field visits',
+    collections: {
+      hdf_field_visits: record => ({
+        ...record,
+        status: withDefault(record, 'status', 'scheduled'),
+        notes: withDefault(record, 'notes', ''),
+        purpose: withDefault(record, 'purpose', ''),
+        assignedUserName: withDefault(record, 'assignedUserName', ''),
+        createdAt: withDefault(record, 'createdAt', record.scheduledDate || new Date().toISOString()),
+      }),
+    },
+  },
+  {
+    version: 3,
+    description: 'Ensure forms always carry fields and assigned user lists',
+    collections: {
+      hdf_forms: record => ({
+        ...record,
+        status: withDefault(record, 'status', 'draft'),
+        fields: Array.isArray(record.fields) ? record.fields : [],
+        assignedUserIds: Array.isArray(record.assignedUserIds) ? record.assignedUserIds : [],
+      }),
+    },
+  },
+  {
+    version: 4,
+    description: 'Give every role a location policy (office-based customer care roles default to off)',
+    collections: {
+      hdf_roles: record => {
+        if (record.locationPolicy) return record;
+        const id = String(record.id);
+        const mode = id.startsWith('customer_care') ? 'off' : id === 'admin' ? 'optional' : 'required';
+        return { ...record, locationPolicy: { mode, failureThreshold: 3, checkIntervalSeconds: 10 } };
+      },
+    },
+  },
+  {
+    version: 5,
+    description: 'Align role permissions with the permission catalog',
+    collections: {
+      hdf_roles: record => {
+        const stored = Array.isArray(record.permissions) ? record.permissions.map(String) : [];
+        // form_read was checked by some pages but never assignable - it meant form_view
+        const renamed = stored.map(id => (id === 'form_read' ? 'form_view' : id));
+        // The form-wide permissions were checked by pages but missing from the admin role
+        const granted = record.id === 'admin' ? [...renamed, 'form_view_all', 'form_fill_all', 'form_manage'] : renamed;
+        return { ...record, permissions: [...new Set(granted.filter(id => V5_PERMISSION_IDS.has(id)))] };
+      },
+    },
+  },
+  {
+    version: 6,
+    description: 'Grant visit and team scopes now that field visits are scoped per user',
+    collections: {
+      hdf_roles: record => {
+        const permissions = Array.isArray(record.permissions) ? record.permissions : [];
+        const added = record.id === 'admin'
+          ? ['visit_view_all']
+          : record.id === 'field_supervisor'
+            ? ['visit_view_team', 'client_view_team', 'farmer_view_team']
+            : [];
+        return { ...record, permissions: [...new Set([...permissions, ...added])] };
+      },
+      hdf_users: record => ({
+        ...record,
+        supervisorId: withDefault(record, 'supervisorId', demoSupervisors[String(record.id)]),
+      }),
+    },
+  },
+  {
+    version: 7,
+    description: 'Put the demo accounts into the default teams',
+    collections: {
+      hdf_users: record => ({
+        ...record,
+        teamId: withDefault(record, 'teamId', demoTeams[String(record.id)]),
+      }),
+    },
+  },
+  {
+    version: 8,
+    description: 'Let the admin role read the new audit log',
+    collections: {
+      hdf_roles: record => {
+        if (record.id !== 'admin') return record;
+        const permissions = Array.isArray(record.permissions) ? record.permissions : [];
+        return { ...record, permissions: [...new Set([...permissions, 'audit_view'])] };
+      },
+    },
+  },
+  {
+    version: 9,
+    description: 'Let the admin role restore and purge records in the new recycle bin',
+    collections: {
+      hdf_roles: record => {
+        if (record.id !== 'admin') return record;
+        const permissions = Array.isArray(record.permissions) ? record.permissions : [];
+        return { ...record, permissions: [...new Set([...permissions, 'recycle_bin_restore', 'recycle_bin_purge'])] };
+      },
+    },
+  },
+  {
+    version: 10,
+    description: 'Split flat farmer fields into animals, veterinarians, middlemen and fodder purchases',
+    restructure: {
+      keys: ['hdf_farmers', 'hdf_animals', 'hdf_veterinarians', 'hdf_middlemen', 'hdf_fodder_purchases'],
+      run: splitFarmerProfile,
+    },
+  },
+  {
+    version: 11,
+    description: 'Track payments on fodder purchases; earlier purchases count as paid',
+    collections: {
+      hdf_fodder_purchases: record => ({
+        ...record,
+        amountPaid: withDefault(record, 'amountPaid', (Number(record.quantity) || 0) * (Number(record.unitPrice) || 0)),
+      }),
+    },
+  },
+  {
+    version: 12,
+    description: 'Let the admin role manage the new client and farmer custom fields',
+    collections: {
+      hdf_roles: record => {
+        if (record.id !== 'admin') return record;
+        const permissions = Array.isArray(record.permissions) ? record.permissions : [];
+        return { ...record, permissions: [...new Set([...permissions, 'custom_field_manage'])] };
+      },
+    },
+  },
+  {
+    version: 13,
+    description: 'Keep only the ID of accounts deleted by a reassignment, not a copy of the account with its credentials',
+    collections: {
+      hdf_reassignments: record => {
+        if (!record.deletedUser) return record;
+        const next: StoredRecord = { ...record, deletedUserId: (record.deletedUser as StoredRecord).id };
+        delete next.deletedUser;
+        return next;
+      },
+    },
+  },
+  {
+    version: 14,
+    description: 'Re-classify animals that v10 matched on part of a word, such as "box feed" as a cow',
+    collections: {
+      hdf_animals: reclassifyLegacyAnimal,
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+const readSchemaVersion = async (): Promise<number> => {
+  const stored = await getStorageBackend().read(SCHEMA_VERSION_KEY);
+  return typeof stored === 'number' ? stored : 0;
+};
+
+// Applies every pending migration in order. With dryRun the report is produced
+// but nothing is written, so the upgrade can be checked against real data first.
+export const runMigrations = async ({ dryRun = false } = {}): Promise<MigrationReport> => {
+  const backend = getStorageBackend();
+  const fromVersion = await readSchemaVersion();
+  const pending = migrations.filter(migration => migration.version > fromVersion);
+  const report: MigrationReport = { fromVersion, toVersion: fromVersion, dryRun, migrations: [] };
+
+  // Collections are read once and carried through the chain so a dry run sees cumulative results
+  const working = new Map<string, StoredRecord[] | null>();
+  const dirty = new Set<string>();
+
+  for (const migration of pending) {
+    const changes: MigrationChange[] = [];
+
+    const load = async (key: string) => {
+      if (!working.has(key)) {
+        const stored = await backend.read(key);
+        working.set(key, Array.isArray(stored) ? (stored as StoredRecord[]) : null);
+      }
+    };
+
+    for (const [key, upgrade] of Object.entries(migration.collections || {})) {
+      await load(key);
+
+      const records = working.get(key);
+      if (!records) continue;
+
+      let updated = 0;
+      const upgraded = records.map(record => {
+        const next = upgrade(record);
+        if (JSON.stringify(next) !== JSON.stringify(record)) updated++;
+        return next;
+      });
+
+      if (updated > 0) {
+        working.set(key, upgraded);
+        dirty.add(key);
+      }
+      changes.push({ key, total: records.length, updated });
+    }
+
+    if (migration.restructure) {
+      const { keys, run } = migration.restructure;
+      const input: Record<string, StoredRecord[]> = {};
+      for (const key of keys) {
+        await load(key);
+        input[key] = working.get(key) || [];
+      }
+      Object.entries(run(input)).forEach(([key, records]) => {
+        const before = new Map(input[key].map(record => [record.id, JSON.stringify(record)]));
+        const updated = records.filter(record => before.get(record.id) !== JSON.stringify(record)).length;
+        if (updated > 0) {
+          working.set(key, records);
+          dirty.add(key);
+        }
+        changes.push({ key, total: records.length, updated });
+      });
+    }
+
+    report.migrations.push({ version: migration.version, description: migration.description, changes });
+    report.toVersion = migration.version;
+  }
+
+  if (dryRun || pending.length === 0) return report;
+
+  for (const key of dirty) {
+    await backend.write(key, working.get(key));
+  }
+  await backend.write(SCHEMA_VERSION_KEY, report.toVersion);
+
+  return report;
+};
+
+export const logMigrationReport = (report: MigrationReport) => {
+  if (report.migrations.length === 0) return;
+
+  const prefix = report.dryRun ? '[dry run] ' : '';
+  console.info(`${prefix}Schema migration v${report.fromVersion} -> v${report.toVersion}`);
+  report.migrations.forEach(migration => {
+    console.info(`${prefix}v${migration.version}: ${migration.description}`);
+    migration.changes.forEach(change => {
+      console.info(`${prefix}  ${change.key}: ${change.updated}/${change.total} records updated`);
+    });
+  });
+};
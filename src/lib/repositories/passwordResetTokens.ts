@@ -0,0 +1,13 @@
+import { createRepository } from './repository';
+
+// Only a SHA-256 digest of the token is stored (as the id); the raw token lives in the reset link
+export interface PasswordResetToken {
+  id: string;
+  userId: string;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+}
+
+export const passwordResetTokenRepository = createRepository<PasswordResetToken>('hdf_password_reset_tokens');
@@ -0,0 +1,23 @@
+import type { PermissionId } from '@/lib/permissions';
+import { createRepository } from './repository';
+
+// A time-boxed addition to a user's role: extra permissions, or acting as a delegate for
+// another user (their permissions and their records). Expired and revoked grants are kept as history.
+export interface PermissionGrant {
+  id: string;
+  userId: string;
+  type: 'permission' | 'delegation';
+  // Set for 'permission' grants
+  permissions?: PermissionId[];
+  // Set for 'delegation' grants - the user being covered for
+  delegatorId?: string;
+  startsAt: string;
+  endsAt: string;
+  reason: string;
+  grantedBy: string;
+  createdAt: string;
+  revokedAt?: string;
+  revokedBy?: string;
+}
+
+export const permissionGrantRepository = createRepository<PermissionGrant>('hdf_permission_grants');
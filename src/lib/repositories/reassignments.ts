@@ -0,0 +1,29 @@
+import { createRepository } from './repository';
+
+export type ReassignableType = 'client' | 'farmer' | 'visit' | 'task' | 'complaint';
+
+export interface ReassignmentChange {
+  type: ReassignableType;
+  id: string;
+  label: string;
+  fromUserId: string;
+  toUserId: string;
+}
+
+// One run of the reassignment wizard, kept so it can be undone within the grace period
+export interface ReassignmentBatch {
+  id: string;
+  fromUserId: string;
+  fromUserName: string;
+  changes: ReassignmentChange[];
+  // Set when the wizard also deleted the account. Only the ID is kept - undo restores the
+  // account from the recycle bin, and a copy here would outlive it along with its credentials
+  deletedUserId?: string;
+  performedBy: string;
+  performedAt: string;
+  undoUntil: string;
+  undoneAt?: string;
+  undoneBy?: string;
+}
+
+export const reassignmentRepository = createRepository<ReassignmentBatch>('hdf_reassignments');
@@ -0,0 +1,12 @@
+import { createRepository } from './repository';
+
+export interface Region {
+  id: string;
+  name: string;
+  // Matched case-insensitively against Client.area
+  areas: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const regionRepository = createRepository<Region>('hdf_regions');
@@ -0,0 +1,187 @@
+import { getStorageBackend, onStorageBackendChange } from './storage';
+
+export interface Entity {
+  id: string;
+}
+
+// Records of soft-delete collections carry these while they sit in the recycle bin
+export interface SoftDeletable {
+  deletedAt?: string;
+  deletedBy?: string;
+}
+
+export interface RepositoryOptions {
+  // Deleted records stay stored with deletedAt set and are left out of list(), get() and find()
+  softDelete?: boolean;
+}
+
+export interface Repository<T extends Entity> {
+  key: string;
+  list: () => T[];
+  get: (id: string) => T | undefined;
+  find: (predicate: (record: T) => boolean) => T[];
+  create: (record: T) => T;
+  update: (id: string, changes: Partial<T>) => T | undefined;
+  remove: (id: string) => boolean;
+  // Soft-delete collections keep the deleted records that aren't in the given list
+  saveAll: (records: T[]) => void;
+  // Records in the recycle bin; always empty for collections without soft delete
+  listDeleted: () => T[];
+  // Re-reads the collection from the active backend and refreshes the cache
+  reload: () => Promise<T[]>;
+  // Loads the cache before first render; list() stays synchronous afterwards
+  hydrate: () => Promise<void>;
+  // Resolves once every queued write has reached the backend
+  flush: () => Promise<void>;
+  // False until the collection has been written at least once
+  isInitialized: () => boolean;
+  subscribe: (listener: (records: T[]) => void) => () => void;
+}
+
+const registeredHydrators = new Set<() => Promise<void>>();
+
+export type RepositoryChangeListener = (key: string, previous: Entity[], next: Entity[]) => void;
+const changeListeners = new Set<RepositoryChangeListener>();
+
+// Reports every local write with the records before and after it (used by the audit trail).
+// Reloads from the backend and writes from other tabs are not reported - that tab reports its own.
+export const onRepositoryChange = (listener: RepositoryChangeListener): (() => void) => {
+  changeListeners.add(listener);
+  return () => changeListeners.delete(listener);
+};
+
+// Loads every collection from the active backend. Called once at startup before the app renders.
+export const hydrateRepositories = async () => {
+  await Promise.all([...registeredHydrators].map(hydrate => hydrate()));
+};
+
+// Records are read as stored - shape upgrades belong in migrations.ts, not in loaders
+export const createRepository = <T extends Entity>(key: string, options: RepositoryOptions = {}): Repository<T> => {
+  // Everything stored, including deleted records; list() and listDeleted() are views over it
+  let cache: T[] = [];
+  let live: T[] = [];
+  let deleted: T[] = [];
+  let initialized = false;
+  let pendingWrite: Promise<void> = Promise.resolve();
+  const listeners = new Set<(records: T[]) => void>();
+
+  const readFromBackend = async (): Promise<T[] | null> => {
+    const stored = await getStorageBackend().read(key);
+    if (stored === null || stored === undefined) return null;
+    return Array.isArray(stored) ? (stored as T[]) : [];
+  };
+
+  const notify = () => {
+    listeners.forEach(listener => listener(live));
+  };
+
+  const isDeleted = (record: T) => !!options.softDelete && !!(record as SoftDeletable).deletedAt;
+
+  // The views keep their identity between writes so useSyncExternalStore sees stable snapshots
+  const setCache = (records: T[]) => {
+    cache = records;
+    live = options.softDelete ? records.filter(record => !isDeleted(record)) : records;
+    deleted = options.softDelete ? records.filter(isDeleted) : [];
+  };
+
+  const list = (): T[] => live;
+
+  const listDeleted = (): T[] => deleted;
+
+  // The cache is updated immediately so pages stay synchronous; the backend write
+  // is queued behind earlier ones so a slow request can't overwrite a newer save.
+  const writeAll = (records: T[]) => {
+    const previous = cache;
+    setCache(records);
+    initialized = true;
+    const backend = getStorageBackend();
+    pendingWrite = pendingWrite
+      .then(() => backend.write(key, records))
+      .catch(error => {
+        console.error(`Error saving ${key}:`, error);
+      });
+    changeListeners.forEach(listener => listener(key, previous, records));
+    notify();
+  };
+
+  // Pages save what they got from list(), so records in the recycle bin are carried over
+  const saveAll = (records: T[]) => {
+    const ids = new Set(records.map(record => record.id));
+    writeAll([...records, ...deleted.filter(record => !ids.has(record.id))]);
+  };
+
+  const reload = async (): Promise<T[]> => {
+    try {
+      const stored = await readFromBackend();
+      setCache(stored || []);
+      initialized = stored !== null;
+    } catch (error) {
+      console.error(`Error loading ${key}:`, error);
+    }
+    notify();
+    return live;
+  };
+
+  const hydrate = async () => {
+    await reload();
+  };
+
+  const flush = () => pendingWrite;
+
+  const isInitialized = () => initialized;
+
+  const get = (id: string) => list().find(record => record.id === id);
+
+  const find = (predicate: (record: T) => boolean) => list().filter(predicate);
+
+  const create = (record: T): T => {
+    writeAll([...cache, record]);
+    return record;
+  };
+
+  // Works on deleted records too, which is how they are moved to and from the recycle bin
+  const update = (id: string, changes: Partial<T>): T | undefined => {
+    let updated: T | undefined;
+    const records = cache.map(record => {
+      if (record.id !== id) return record;
+      updated = { ...record, ...changes, id };
+      return updated;
+    });
+    if (updated) {
+      writeAll(records);
+    }
+    return updated;
+  };
+
+  // Permanent, also for records in the recycle bin
+  const remove = (id: string): boolean => {
+    const remaining = cache.filter(record => record.id !== id);
+    if (remaining.length === cache.length) return false;
+    writeAll(remaining);
+    return true;
+  };
+
+  const subscribe = (listener: (records: T[]) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  // Keep the cache in sync with writes from other tabs and backend swaps
+  const handleExternalChange = (changedKey: string) => {
+    if (changedKey === key) {
+      pendingWrite.then(reload);
+    }
+  };
+  let unsubscribeBackend = getStorageBackend().subscribe(handleExternalChange);
+  onStorageBackendChange(({ reload: shouldReload }) => {
+    unsubscribeBackend();
+    unsubscribeBackend = getStorageBackend().subscribe(handleExternalChange);
+    if (shouldReload) reload();
+  });
+
+  registeredHydrators.add(hydrate);
+
+  return { key, list, listDeleted, get, find, create, update, remove, saveAll, reload, hydrate, flush, isInitialized, subscribe };
+};
@@ -0,0 +1,30 @@
+import type { PermissionId } from '@/lib/permissions';
+import { createRepository } from './repository';
+
+// How strictly a role's users must share their location (see lib/locationPolicy.ts)
+export interface LocationPolicy {
+  mode: 'required' | 'optional' | 'off';
+  // Consecutive failed checks before a 'required' user is logged out
+  failureThreshold: number;
+  checkIntervalSeconds: number;
+}
+
+export interface Role {
+  id: string;
+  name: string;
+  description: string;
+  // For a derived role these are the permissions granted on top of the parent's
+  permissions: PermissionId[];
+  // Inherit the parent's effective permissions (see lib/roleInheritance.ts)
+  parentRoleId?: string;
+  // Parent permissions this role takes away
+  revokedPermissions?: PermissionId[];
+  isActive: boolean;
+  locationPolicy: LocationPolicy;
+  // Users with this role must enrol in two-factor authentication before signing in
+  requireTwoFactor?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const roleRepository = createRepository<Role>('hdf_roles');
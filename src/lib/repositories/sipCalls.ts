@@ -0,0 +1,17 @@
+import { createRepository } from './repository';
+
+export interface SIPCall {
+  id: string;
+  // Phone numbers or extensions, as dialled
+  from: string;
+  to: string;
+  direction: 'inbound' | 'outbound';
+  status: 'ringing' | 'connected' | 'ended' | 'failed' | 'busy';
+  // Seconds
+  duration: number;
+  timestamp: string;
+  recording?: string;
+  placedBy?: string;
+}
+
+export const sipCallRepository = createRepository<SIPCall>('hdf_sip_calls');
@@ -0,0 +1,80 @@
+// Storage backends persist whole hdf_* collections by key.
+// Repositories never talk to a store directly - they go through the active backend,
+// so the app can move from localStorage to IndexedDB or a server without touching the pages.
+
+import { createLocalStorageBackend } from './backends/localStorage';
+import { createIndexedDbBackend } from './backends/indexedDb';
+import { createRestBackend } from './backends/rest';
+
+export interface StorageBackend {
+  name: string;
+  // Resolves to null when the key has never been written
+  read: (key: string) => Promise<unknown>;
+  write: (key: string, value: unknown) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+  // Notifies about changes made outside this window (other tabs, another client)
+  subscribe: (listener: (key: string) => void) => () => void;
+}
+
+export type StorageBackendType = 'localStorage' | 'indexedDB' | 'rest';
+
+export interface StorageConfig {
+  type: StorageBackendType;
+  apiBaseUrl?: string;
+  pollInterval?: number;
+}
+
+export interface SetStorageBackendOptions {
+  // Startup passes false: the data is migrated and hydrated explicitly afterwards, and an
+  // early reload could finish after hydration and put unmigrated records back in the cache
+  reload?: boolean;
+}
+
+type BackendChangeListener = (options: { reload: boolean }) => void;
+
+let activeBackend: StorageBackend = createLocalStorageBackend();
+const backendListeners = new Set<BackendChangeListener>();
+
+export const getStorageBackend = (): StorageBackend => activeBackend;
+
+export const setStorageBackend = (backend: StorageBackend, { reload = true }: SetStorageBackendOptions = {}) => {
+  activeBackend = backend;
+  backendListeners.forEach(listener => listener({ reload }));
+};
+
+// Repositories use this to re-subscribe and re-hydrate when the backend is swapped
+export const onStorageBackendChange = (listener: BackendChangeListener): (() => void) => {
+  backendListeners.add(listener);
+  return () => backendListeners.delete(listener);
+};
+
+export const createStorageBackend = (config: StorageConfig): StorageBackend => {
+  switch (config.type) {
+    case 'indexedDB':
+      if (typeof indexedDB === 'undefined') {
+        console.warn('IndexedDB is not available - falling back to localStorage');
+        return createLocalStorageBackend();
+      }
+      return createIndexedDbBackend();
+    case 'rest':
+      if (!config.apiBaseUrl) {
+        console.warn('No API base URL configured - falling back to localStorage');
+        return createLocalStorageBackend();
+      }
+      return createRestBackend(config.apiBaseUrl, { pollInterval: config.pollInterval });
+    default:
+      return createLocalStorageBackend();
+  }
+};
+
+// Backend selection at startup comes from the Vite environment (.env / .env.local)
+export const getStorageConfigFromEnv = (): StorageConfig => {
+  const type = import.meta.env.VITE_STORAGE_BACKEND;
+  const pollInterval = Number(import.meta.env.VITE_STORAGE_POLL_INTERVAL);
+
+  return {
+    type: type === 'indexedDB' || type === 'rest' ? type : 'localStorage',
+    apiBaseUrl: import.meta.env.VITE_API_BASE_URL,
+    pollInterval: Number.isFinite(pollInterval) ? pollInterval : undefined,
+  };
+};
@@ -0,0 +1,21 @@
+import { createRepository } from './repository';
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string;
+  status: 'pending' | 'in_progress' | 'completed';
+  priority: 'low' | 'medium' | 'high';
+  assignedTo: string;
+  createdBy: string;
+  createdAt: string;
+  dueDate: string;
+  category?: string;
+  estimatedHours?: string;
+  notes?: string;
+  // The client or farmer the task is about, when it was linked to one
+  customerType?: 'client' | 'farmer';
+  customerId?: string;
+}
+
+export const taskRepository = createRepository<Task>('hdf_tasks');
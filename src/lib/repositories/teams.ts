@@ -0,0 +1,14 @@
+import { createRepository } from './repository';
+
+export interface Team {
+  id: string;
+  name: string;
+  description: string;
+  // Members without their own supervisorId report to this user
+  supervisorId: string;
+  regionId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const teamRepository = createRepository<Team>('hdf_teams');
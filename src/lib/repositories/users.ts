@@ -0,0 +1,32 @@
+import { createRepository } from './repository';
+import type { SoftDeletable } from './repository';
+
+export interface TwoFactorSettings {
+  enabled: boolean;
+  secret: string; // Base32 TOTP secret
+  recoveryCodes: string[]; // SHA-256 digests of the unused recovery codes
+  enrolledAt: string;
+  lastUsedStep?: number; // Rejects replay of a code within its time window
+}
+
+export interface User extends SoftDeletable {
+  id: string;
+  name: string;
+  email: string;
+  password: string;
+  roleId: string;
+  status: 'active' | 'inactive';
+  createdAt: string;
+  updatedAt: string;
+  lastLogin?: string;
+  // Set by an admin (or for reset-issued accounts); cleared when the user picks a new password
+  mustChangePassword?: boolean;
+  passwordChangedAt?: string;
+  twoFactor?: TwoFactorSettings;
+  // Who this user reports to; team-scoped permissions follow this chain.
+  // Falls back to the supervisor of the user's team when not set.
+  supervisorId?: string;
+  teamId?: string;
+}
+
+export const userRepository = createRepository<User>('hdf_users', { softDelete: true });
@@ -0,0 +1,15 @@
+import { createRepository } from './repository';
+
+// Vets are shared: many farmers (and their animals) can point at the same one
+export interface Veterinarian {
+  id: string;
+  name: string;
+  phone: string;
+  clinic: string;
+  area: string;
+  notes: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export const veterinarianRepository = createRepository<Veterinarian>('hdf_veterinarians');
@@ -0,0 +1,14 @@
+import { createRepository } from './repository';
+
+export interface WhatsAppMessage {
+  id: string;
+  // The recipient's phone number, as typed
+  to: string;
+  message: string;
+  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+  timestamp: string;
+  type: 'text' | 'template' | 'media';
+  sentBy?: string;
+}
+
+export const whatsAppMessageRepository = createRepository<WhatsAppMessage>('hdf_whatsapp_messages');
@@ -0,0 +1,81 @@
+// Role inheritance: a derived role starts from its parent's effective permissions, adds its own
+// and drops the revoked ones. Permissions are resolved on every check, so editing a base role
+// flows down to every role derived from it.
+
+import type { Role } from '@/lib/repositories';
+import type { PermissionId } from '@/lib/permissions';
+
+export interface PermissionDiff {
+  added: PermissionId[];
+  removed: PermissionId[];
+}
+
+// The role's ancestors, nearest first; stops at a missing parent or a cycle
+export const getAncestorRoles = (role: Role, roles: Role[]): Role[] => {
+  const ancestors: Role[] = [];
+  const seen = new Set([role.id]);
+  let parent = roles.find(r => r.id === role.parentRoleId);
+  while (parent && !seen.has(parent.id)) {
+    ancestors.push(parent);
+    seen.add(parent.id);
+    parent = roles.find(r => r.id === parent.parentRoleId);
+  }
+  return ancestors;
+};
+
+// Every role that inherits from roleId, directly or further down
+export const getDerivedRoleIds = (roleId: string, roles: Role[]): Set<string> => {
+  const derived = new Set<string>();
+  let added = true;
+  while (added) {
+    added = false;
+    roles.forEach(role => {
+      if (role.parentRoleId && (role.parentRoleId === roleId || derived.has(role.parentRoleId)) &&
+          role.id !== roleId && !derived.has(role.id)) {
+        derived.add(role.id);
+        added = true;
+      }
+    });
+  }
+  return derived;
+};
+
+// Resolves from the root down: each level adds its own permissions, then removes its revoked ones
+export const resolveRolePermissions = (role: Role, roles: Role[]): PermissionId[] => {
+  const chain = [...getAncestorRoles(role, roles).reverse(), role];
+  const effective = new Set<PermissionId>();
+  chain.forEach(level => {
+    level.permissions.forEach(p => effective.add(p));
+    (level.revokedPermissions || []).forEach(p => effective.delete(p));
+  });
+  return [...effective];
+};
+
+export const getParentPermissions = (parentRoleId: string | undefined, roles: Role[]): PermissionId[] => {
+  const parent = roles.find(r => r.id === parentRoleId);
+  return parent ? resolveRolePermissions(parent, roles) : [];
+};
+
+export const diffPermissions = (base: PermissionId[], target: PermissionId[]): PermissionDiff => ({
+  added: target.filter(p => !base.includes(p)),
+  removed: base.filter(p => !target.includes(p)),
+});
+
+// How a role differs from its parent; everything counts as added for a base role
+export const diffFromParent = (role: Role, roles: Role[]): PermissionDiff =>
+  diffPermissions(getParentPermissions(role.parentRoleId, roles), resolveRolePermissions(role, roles));
+
+// Turns the effective permissions picked in the editor into what a derived role stores
+export const toRoleOverrides = (
+  parentRoleId: string | undefined,
+  effective: PermissionId[],
+  roles: Role[]
+): Pick<Role, 'permissions' | 'revokedPermissions'> => {
+  if (!parentRoleId) return { permissions: effective, revokedPermissions: undefined };
+  const { added, removed } = diffPermissions(getParentPermissions(parentRoleId, roles), effective);
+  return { permissions: added, revokedPermissions: removed.length > 0 ? removed : undefined };
+};
+
+// A role can't inherit from itself or from a role derived from it
+export const canInheritFrom = (roleId: string | null, parentRoleId: string, roles: Role[]): boolean =>
+  !roleId || (parentRoleId !== roleId && !getDerivedRoleIds(roleId, roles).has(parentRoleId));
@@ -0,0 +1,34 @@
+// Route permission rules shared by the router guard and the sidebar
+
+import { accessDenialRepository } from '@/lib/repositories';
+import type { PermissionId } from '@/lib/permissions';
+
+// Only the most recent denials are kept so the log can't grow without bound
+const MAX_DENIAL_LOG = 500;
+
+export interface RouteAccess {
+  // No permissions means any signed-in user may open the route
+  permissions?: PermissionId[];
+  // 'all' (default) needs every permission, 'any' needs at least one
+  match?: 'all' | 'any';
+}
+
+export const canAccess = (access: RouteAccess, hasPermission: (permission: PermissionId) => boolean) => {
+  const { permissions = [], match = 'all' } = access;
+  if (permissions.length === 0) return true;
+  return match === 'any' ? permissions.some(hasPermission) : permissions.every(hasPermission);
+};
+
+export const recordAccessDenial = (userId: string, path: string, requiredPermissions: PermissionId[]) => {
+  console.warn(`Access denied to ${path} for user ${userId} - requires ${requiredPermissions.join(', ')}`);
+  accessDenialRepository.saveAll([
+    ...accessDenialRepository.list(),
+    {
+      id: `denial_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      userId,
+      path,
+      requiredPermissions,
+      timestamp: new Date().toISOString(),
+    },
+  ].slice(-MAX_DENIAL_LOG));
+};
@@ -0,0 +1,75 @@
+// Browser session for the signed-in user. Kept in localStorage (not the storage backend)
+// because a session belongs to this device, and so every tab sees it through the storage event.
+
+export const SESSION_KEY = 'hdf_session';
+// Written by builds before sessions existed; cleared on boot
+const LEGACY_SESSION_KEY = 'hdf_current_user';
+
+export const SESSION_DURATION_MS = 12 * 60 * 60 * 1000;
+export const IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// How long before idle logout the warning dialog appears
+export const IDLE_WARNING_MS = 60 * 1000;
+
+export interface Session {
+  userId: string;
+  issuedAt: string;
+  expiresAt: string;
+  lastActivityAt: string;
+}
+
+export type SessionState = 'active' | 'idle-warning' | 'idle-expired' | 'expired';
+
+export const readSession = (): Session | null => {
+  localStorage.removeItem(LEGACY_SESSION_KEY);
+
+  const saved = localStorage.getItem(SESSION_KEY);
+  if (!saved) return null;
+  try {
+    const session = JSON.parse(saved) as Session;
+    return session && session.userId ? session : null;
+  } catch (error) {
+    console.error('Error parsing session:', error);
+    return null;
+  }
+};
+
+const writeSession = (session: Session) => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+export const createSession = (userId: string): Session => {
+  const now = Date.now();
+  const session: Session = {
+    userId,
+    issuedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_DURATION_MS).toISOString(),
+    lastActivityAt: new Date(now).toISOString(),
+  };
+  writeSession(session);
+  return session;
+};
+
+// Records user activity; the absolute expiry is never extended
+export const touchSession = (): Session | null => {
+  const session = readSession();
+  if (!session) return null;
+  const updated = { ...session, lastActivityAt: new Date().toISOString() };
+  writeSession(updated);
+  return updated;
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+};
+
+export const getIdleDeadline = (session: Session) =>
+  new Date(session.lastActivityAt).getTime() + IDLE_TIMEOUT_MS;
+
+export const getSessionState = (session: Session, now = Date.now()): SessionState => {
+  if (now >= new Date(session.expiresAt).getTime()) return 'expired';
+
+  const idleDeadline = getIdleDeadline(session);
+  if (now >= idleDeadline) return 'idle-expired';
+  if (now >= idleDeadline - IDLE_WARNING_MS) return 'idle-warning';
+  return 'active';
+};
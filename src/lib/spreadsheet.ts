@@ -0,0 +1,257 @@
+// Reads the first sheet of a CSV or XLSX file into rows of strings.
+// XLSX is a zip of XML parts; it is unpacked with the browser's DecompressionStream
+// and DOMParser, so no spreadsheet library is needed for the import wizard.
+
+export interface SpreadsheetRow {
+  // 1-based, as the spreadsheet shows it, so error reports point at the right line
+  rowNumber: number;
+  values: string[];
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: SpreadsheetRow[];
+}
+
+// Picks whichever of comma, semicolon or tab splits the header line into the most columns
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  return [',', ';', '\t']
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+// RFC 4180: quoted fields may contain delimiters, line breaks and doubled quotes
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Spreadsheet apps run cells starting with these as formulas, so a client named
+// "=HYPERLINK(...)" would execute when an export is opened. Plain numbers and phone
+// numbers such as "+92 300 1234567" or "-15" are left as they are.
+const FORMULA_PREFIX = /^[=@\t\r]/;
+const SIGN_PREFIX = /^[+-]/;
+const PLAIN_NUMBER = /^[+-]?[\d\s().-]+$/;
+
+const needsFormulaGuard = (text: string) =>
+  FORMULA_PREFIX.test(text) || (SIGN_PREFIX.test(text) && !PLAIN_NUMBER.test(text));
+
+const escapeCsvValue = (value: unknown) => {
+  const text = String(value ?? '');
+  return `"${(needsFormulaGuard(text) ? `'${text}` : text).replace(/"/g, '""')}"`;
+};
+
+// Undoes the formula guard above so an exported sheet imports with the original values
+const unescapeFormulaGuard = (value: string) =>
+  value.startsWith("'") && needsFormulaGuard(value.slice(1)) ? value.slice(1) : value;
+
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map(row => row.map(escapeCsvValue).join(',')).join('\n');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Excel stores dates as days since 1899-12-30, or since 1904-01-01 in workbooks using the
+// 1904 date system. Gives yyyy-mm-dd, plus HH:MM when asked for and the serial has a time of day.
+export const excelSerialToDate = (serial: number, { date1904 = false, withTime = false } = {}) => {
+  const days = serial + (date1904 ? 1462 : 0);
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(days * DAY_MS / 60000) * 60000);
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  return withTime && days % 1 !== 0 ? `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}` : day;
+};
+
+// Reads the file names and contents of a zip archive from its central directory
+const unzip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end -= 1;
+  if (end < 0) throw new Error('The file is not a valid XLSX workbook');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i += 1) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      files.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+const parseXml = (files: Map<string, Uint8Array>, path: string): Document | null => {
+  const data = files.get(path);
+  return data ? new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml') : null;
+};
+
+// Namespace-agnostic, since some writers prefix the spreadsheet elements
+const elements = (parent: Document | Element, tag: string) => Array.from(parent.getElementsByTagNameNS('*', tag));
+
+const textOf = (element: Element) => elements(element, 't').map(t => t.textContent || '').join('');
+
+// "BC12" -> 54
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// The first sheet in workbook order, falling back to the usual part name
+const firstSheetPath = (files: Map<string, Uint8Array>) => {
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  const rels = parseXml(files, 'xl/_rels/workbook.xml.rels');
+  const sheet = workbook && elements(workbook, 'sheet')[0];
+  const relId = sheet && (sheet.getAttribute('r:id') || sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id'));
+  const target = rels && relId && elements(rels, 'Relationship').find(rel => rel.getAttribute('Id') === relId)?.getAttribute('Target');
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+// Built-in number formats that show a date or time (ECMA-376 part 1, 18.8.30)
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+interface CellFormat {
+  date: boolean;
+  time: boolean;
+  // Digits of a zero-padded format such as "00000000000", used for phone numbers typed as numbers
+  zeroPad: number;
+}
+
+// The number format of each cell style, indexed like the cells' s attribute
+const readCellFormats = (files: Map<string, Uint8Array>): CellFormat[] => {
+  const styles = parseXml(files, 'xl/styles.xml');
+  const cellXfs = styles && elements(styles, 'cellXfs')[0];
+  if (!styles || !cellXfs) return [];
+  const customFormats = new Map(elements(styles, 'numFmt')
+    .map(format => [Number(format.getAttribute('numFmtId')), format.getAttribute('formatCode') || '']));
+  return elements(cellXfs, 'xf').map(xf => {
+    const id = Number(xf.getAttribute('numFmtId')) || 0;
+    // Quoted text, escaped characters and [colour] / [condition] sections don't affect the kind of value
+    const pattern = (customFormats.get(id) || '').split(';')[0].replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+    const date = BUILT_IN_DATE_FORMATS.has(id) || /[dmyhs]/i.test(pattern);
+    return {
+      date,
+      time: date && (id >= 18 && id <= 22 || id >= 45 || /[hs]/i.test(pattern)),
+      zeroPad: /^0+$/.test(pattern) ? pattern.length : 0,
+    };
+  });
+};
+
+// Numeric cells hold the raw number; dates and zero-padded numbers are shown as the sheet shows them
+const formatNumber = (value: string, format: CellFormat | undefined, date1904: boolean) => {
+  const number = Number(value);
+  if (!format || value === '' || !Number.isFinite(number)) return value;
+  if (format.date) return excelSerialToDate(number, { date1904, withTime: format.time });
+  return format.zeroPad ? value.padStart(format.zeroPad, '0') : value;
+};
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SpreadsheetRow[]> => {
+  const files = await unzip(buffer);
+  const workbook = parseXml(files, 'xl/workbook.xml');
+  const workbookPr = workbook && elements(workbook, 'workbookPr')[0];
+  const date1904 = ['1', 'true'].includes(workbookPr?.getAttribute('date1904') || '');
+  const cellFormats = readCellFormats(files);
+  const sharedStringsDoc = parseXml(files, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc ? elements(sharedStringsDoc, 'si').map(textOf) : [];
+  const sheet = parseXml(files, firstSheetPath(files));
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  // Rows keep the number from their r attribute so error reports match the sheet even when
+  // rows are skipped; they stay in document order, so a huge r doesn't make a huge array
+  return elements(sheet, 'row').map((rowElement, rowPosition) => {
+    const row: string[] = [];
+    elements(rowElement, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent || '';
+      if (type === 's') {
+        row[index] = sharedStrings[Number(value)] || '';
+      } else if (type === 'inlineStr') {
+        row[index] = textOf(cell);
+      } else if (type === 'b') {
+        row[index] = value === '1' ? 'TRUE' : 'FALSE';
+      } else if (!type || type === 'n') {
+        row[index] = formatNumber(value, cellFormats[Number(cell.getAttribute('s')) || 0], date1904);
+      } else {
+        row[index] = value;
+      }
+    });
+    return {
+      rowNumber: Number(rowElement.getAttribute('r')) || rowPosition + 1,
+      values: Array.from(row, value => value ?? ''),
+    };
+  });
+};
+
+// Blank rows are dropped; the first remaining row is the header
+export const readSpreadsheetFile = async (file: File): Promise<SpreadsheetData> => {
+  const name = file.name.toLowerCase();
+  let rows: SpreadsheetRow[];
+  if (name.endsWith('.xlsx')) {
+    rows = await parseXlsx(await file.arrayBuffer());
+  } else if (name.endsWith('.csv') || name.endsWith('.txt')) {
+    rows = parseCsv(await file.text())
+      .map((values, index) => ({ rowNumber: index + 1, values: values.map(unescapeFormulaGuard) }));
+  } else {
+    throw new Error('Only .csv and .xlsx files can be imported - save older .xls sheets as .xlsx first');
+  }
+
+  const nonEmpty = rows
+    .map(row => ({ rowNumber: row.rowNumber, values: row.values.map(value => value.trim()) }))
+    .filter(row => row.values.some(value => value !== ''));
+  const [header, ...dataRows] = nonEmpty;
+  return { headers: header?.values || [], rows: dataRows };
+};
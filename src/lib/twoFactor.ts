@@ -0,0 +1,85 @@
+import { userRepository } from '@/lib/repositories';
+import type { Role, User } from '@/lib/repositories';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotp } from '@/lib/totp';
+
+// Two-factor enrolment and verification on top of lib/totp.ts. Recovery codes are shown
+// once at enrolment and only their digests are stored.
+
+export const TOTP_ISSUER = 'HDF System';
+const RECOVERY_CODE_COUNT = 8;
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const digest = async (value: string) => {
+  const bytes = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase().replace(/[\s-]/g, '');
+
+const generateRecoveryCode = () => {
+  const hex = Array.from(crypto.getRandomValues(new Uint8Array(5)), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+};
+
+export const isTwoFactorEnabled = (user: User) => !!user.twoFactor?.enabled;
+
+export const isTwoFactorRequired = (role: Role | undefined) => !!role?.requireTwoFactor;
+
+export const startTwoFactorEnrollment = (user: User): TwoFactorEnrollment => {
+  const secret = generateTotpSecret();
+  return { secret, otpauthUri: buildOtpAuthUri(secret, user.email, TOTP_ISSUER) };
+};
+
+// Confirms the authenticator app works and turns 2FA on.
+// Resolves to the plaintext recovery codes, or null when the code is wrong.
+export const completeTwoFactorEnrollment = async (
+  userId: string,
+  secret: string,
+  code: string
+): Promise<string[] | null> => {
+  const step = await verifyTotp(secret, code);
+  if (step === null) return null;
+
+  const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  userRepository.update(userId, {
+    twoFactor: {
+      enabled: true,
+      secret,
+      recoveryCodes: await Promise.all(recoveryCodes.map(c => digest(normalizeRecoveryCode(c)))),
+      enrolledAt: new Date().toISOString(),
+      lastUsedStep: step,
+    },
+  });
+  return recoveryCodes;
+};
+
+// Accepts a current authenticator code or an unused recovery code (which is then burned)
+export const verifySecondFactor = async (userId: string, code: string): Promise<boolean> => {
+  const user = userRepository.get(userId);
+  const settings = user?.twoFactor;
+  if (!settings?.enabled) return false;
+
+  const step = await verifyTotp(settings.secret, code.trim());
+  if (step !== null) {
+    if (settings.lastUsedStep !== undefined && step <= settings.lastUsedStep) return false;
+    userRepository.update(userId, { twoFactor: { ...settings, lastUsedStep: step } });
+    return true;
+  }
+
+  const codeDigest = await digest(normalizeRecoveryCode(code));
+  if (!settings.recoveryCodes.includes(codeDigest)) return false;
+
+  userRepository.update(userId, {
+    twoFactor: { ...settings, recoveryCodes: settings.recoveryCodes.filter(c => c !== codeDigest) },
+  });
+  return true;
+};
+
+// Used by the user from their settings, or by an admin when a device is lost
+export const disableTwoFactor = (userId: string) => {
+  userRepository.update(userId, { twoFactor: undefined });
+};
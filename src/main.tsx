@@ -1,5 +1,14 @@
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { initializeStorage } from './lib/repositories';
+import { seedDefaultData } from './lib/demoData';
+import { startAuditTrail } from './lib/audit';
+import { purgeExpiredRecords } from './lib/recycleBin';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(<App />);
+initializeStorage().then(async () => {
+  await seedDefaultData();
+  startAuditTrail();
+  purgeExpiredRecords();
+  createRoot(document.getElementById('root')!).render(<App />);
+});
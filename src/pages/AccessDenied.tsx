@@ -0,0 +1,46 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { ShieldX } from 'lucide-react';
+import { getPermission } from '@/lib/permissions';
+import type { PermissionId } from '@/lib/permissions';
+
+interface AccessDeniedProps {
+  requiredPermissions: PermissionId[];
+}
+
+const AccessDenied: React.FC<AccessDeniedProps> = ({ requiredPermissions }) => {
+  return (
+    <div className="flex flex-col items-center justify-center p-6 py-24 text-center">
+      <div className="space-y-6 max-w-md">
+        <div className="space-y-3">
+          <div className="flex justify-center">
+            <div className="p-3 bg-red-100 rounded-full">
+              <ShieldX className="h-8 w-8 text-red-600" />
+            </div>
+          </div>
+          <h1 className="text-2xl font-semibold text-gray-800">Access Denied</h1>
+          <p className="text-muted-foreground">
+            Your role doesn't have permission to open this page. Ask an administrator if you think you should have access.
+          </p>
+          {requiredPermissions.length > 0 && (
+            <p className="text-xs text-gray-500">
+              Requires: {requiredPermissions.map(id => getPermission(id)?.name || id).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <Button asChild>
+            <Link to="/dashboard">Go to Dashboard</Link>
+          </Button>
+          <Button variant="outline" onClick={() => window.history.back()}>
+            Go Back
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccessDenied;
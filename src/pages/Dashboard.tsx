@@ -19,6 +19,7 @@ import {
   BarChart3,
   PieChart
 } from 'lucide-react';
+import { clientRepository, complaintRepository, farmerRepository, taskRepository, userRepository } from '@/lib/repositories';
 
 interface DashboardStats {
   totalUsers: number;
@@ -63,7 +64,7 @@ const Dashboard: React.FC = () => {
   const [activities, setActivities] = useState<Activity[]>([]);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
-  // Real-time chart data based on actual localStorage data
+  // Real-time chart data based on actual repository data
   const [chartData, setChartData] = useState({
     tasks: 0,
     clients: 0,
@@ -79,12 +80,12 @@ const Dashboard: React.FC = () => {
 
   const loadDashboardData = () => {
     try {
-      // Load data from localStorage
-      const tasks = JSON.parse(localStorage.getItem('hdf_tasks') || '[]');
-      const complaints = JSON.parse(localStorage.getItem('hdf_complaints') || '[]');
-      const clients = JSON.parse(localStorage.getItem('hdf_clients') || '[]');
-      const farmers = JSON.parse(localStorage.getItem('hdf_farmers') || '[]');
-      const users = JSON.parse(localStorage.getItem('hdf_users') || '[]');
+      // Load data from the repositories
+      const tasks = taskRepository.list();
+      const complaints = complaintRepository.list();
+      const clients = clientRepository.list();
+      const farmers = farmerRepository.list();
+      const users = userRepository.list();
 
       // Calculate stats
       const completedTasks = tasks.filter((task: any) => task.status === 'completed').length;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { MIN_PASSWORD_LENGTH } from '@/lib/password';
+import { findResetToken } from '@/lib/passwordReset';
+
+const ResetPassword: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { resetPassword } = useAuth();
+  const navigate = useNavigate();
+  const [accountEmail, setAccountEmail] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState({ newPassword: '', confirmPassword: '' });
+
+  useEffect(() => {
+    findResetToken(token || '').then(match => {
+      setAccountEmail(match ? match.user.email : null);
+      setIsChecking(false);
+    });
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.newPassword !== formData.confirmPassword) {
+      toast.error('Passwords do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (await resetPassword(token || '', formData.newPassword)) {
+        navigate('/login', { replace: true });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Reset Password
+          </CardTitle>
+          <CardDescription>
+            {accountEmail ? `Choose a new password for ${accountEmail}` : 'Set a new password for your account'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isChecking ? (
+            <p className="text-sm text-gray-500">Checking reset link...</p>
+          ) : !accountEmail ? (
+            <>
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  This reset link is invalid, has already been used or has expired. Ask your administrator for a new one.
+                </AlertDescription>
+              </Alert>
+              <Button asChild variant="outline" className="w-full">
+                <Link to="/login">Back to sign in</Link>
+              </Button>
+            </>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New Password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder={`At least ${MIN_PASSWORD_LENGTH} characters`}
+                  value={formData.newPassword}
+                  onChange={(e) => setFormData({ ...formData, newPassword: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm New Password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={formData.confirmPassword}
+                  onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Reset Password'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
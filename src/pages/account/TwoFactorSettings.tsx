@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Smartphone, ShieldCheck, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  completeTwoFactorEnrollment,
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  startTwoFactorEnrollment,
+  verifySecondFactor,
+} from '@/lib/twoFactor';
+import type { TwoFactorEnrollment } from '@/lib/twoFactor';
+import { TOTP_DIGITS } from '@/lib/totp';
+import { formatRetryTime, getLoginBlock, recordLoginAttempt, registerFailedLogin } from '@/lib/loginThrottle';
+import TwoFactorSetup from '@/components/common/TwoFactorSetup';
+
+const TwoFactorSettings: React.FC = () => {
+  const { user, users, roles, logout } = useAuth();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [disableCode, setDisableCode] = useState('');
+  const [isDisabling, setIsDisabling] = useState(false);
+
+  // The session user is a snapshot - read the live record so enrolment shows up straight away
+  const account = users.find(u => u.id === user?.id) || user;
+  if (!account) return null;
+
+  const enabled = isTwoFactorEnabled(account);
+  const required = isTwoFactorRequired(roles.find(role => role.id === account.roleId));
+
+  const handleVerify = async (code: string) => {
+    const recoveryCodes = await completeTwoFactorEnrollment(account.id, enrollment.secret, code);
+    if (!recoveryCodes) {
+      toast.error('Invalid verification code');
+    }
+    return recoveryCodes;
+  };
+
+  const handleDone = () => {
+    setEnrollment(null);
+    toast.success('Two-factor authentication enabled');
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!disableCode.trim()) {
+      toast.error('Enter a code from your authenticator app to confirm');
+      return;
+    }
+
+    // Codes are throttled and count towards the lockout like the login's second step,
+    // so a hijacked session can't brute-force its way to turning two-factor off
+    const block = getLoginBlock(account.email);
+    if (block) {
+      toast.error(`Please wait ${formatRetryTime(block.retryAt)} before trying again.`);
+      return;
+    }
+
+    setIsDisabling(true);
+    try {
+      if (!await verifySecondFactor(account.id, disableCode)) {
+        registerFailedLogin(account.email);
+        recordLoginAttempt(account.email, false, { userId: account.id, reason: 'invalid_two_factor' });
+        if (getLoginBlock(account.email)?.reason === 'locked') {
+          logout();
+          toast.error('Too many failed attempts. This account is locked and you have been signed out.');
+        } else {
+          toast.error('Invalid verification code');
+        }
+        return;
+      }
+      disableTwoFactor(account.id);
+      toast.success('Two-factor authentication disabled');
+    } finally {
+      setDisableCode('');
+      setIsDisabling(false);
+    }
+  };
+
+  return (
+    <div className="p-6 flex justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Smartphone className="h-5 w-5" />
+            Two-Factor Authentication
+            <Badge variant={enabled ? 'default' : 'secondary'} className="ml-auto">
+              {enabled ? 'On' : 'Off'}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            {enabled
+              ? `Enabled ${new Date(account.twoFactor.enrolledAt).toLocaleDateString()}`
+              : 'Protect your account with a code from an authenticator app'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {enrollment ? (
+            <TwoFactorSetup enrollment={enrollment} onVerify={handleVerify} onDone={handleDone} />
+          ) : enabled ? (
+            <>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <ShieldCheck className="h-4 w-4 text-green-600" />
+                {account.twoFactor.recoveryCodes.length} unused recovery code
+                {account.twoFactor.recoveryCodes.length === 1 ? '' : 's'} left
+              </div>
+              {required ? (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription className="text-sm">
+                    Your role requires two-factor authentication, so it can't be turned off. Ask an
+                    administrator to reset it if you lose your device.
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <form onSubmit={handleDisable} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Enter a current code to turn it off</Label>
+                    <InputOTP maxLength={TOTP_DIGITS} value={disableCode} onChange={setDisableCode} disabled={isDisabling}>
+                      <InputOTPGroup>
+                        {Array.from({ length: TOTP_DIGITS }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                  <Button type="submit" variant="destructive" className="w-full" disabled={isDisabling}>
+                    {isDisabling ? 'Disabling...' : 'Disable Two-Factor Authentication'}
+                  </Button>
+                </form>
+              )}
+            </>
+          ) : (
+            <>
+              {required && (
+                <Alert className="bg-amber-50 border-amber-200">
+                  <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-amber-800 text-sm">
+                    Your role requires two-factor authentication. You will be asked to set it up at your next sign-in.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <Button className="w-full" onClick={() => setEnrollment(startTwoFactorEnrollment(account))}>
+                Set Up Two-Factor Authentication
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
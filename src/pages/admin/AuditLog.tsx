@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChevronDown, ChevronRight, Download, History } from 'lucide-react';
+import { toast } from 'sonner';
+import { auditLogRepository } from '@/lib/repositories';
+import type { AuditAction, AuditEntityType, AuditEntry } from '@/lib/repositories';
+import { AUDIT_ENTITY_LABELS, SYSTEM_ACTOR, auditEntriesToCsv } from '@/lib/audit';
+import { useRepository } from '@/hooks/useRepository';
+
+// Select items can't have an empty value
+const ALL = 'all';
+const PAGE_SIZE = 100;
+
+const ACTION_VARIANTS: Record<AuditAction, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  create: 'default',
+  update: 'secondary',
+  delete: 'destructive',
+  restore: 'secondary',
+  reassign: 'outline',
+  merge: 'outline',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '-';
+  if (typeof value === 'string') return value || '""';
+  return JSON.stringify(value);
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const AuditLog: React.FC = () => {
+  const { users } = useAuth();
+  const entries = useRepository(auditLogRepository);
+
+  const [actorFilter, setActorFilter] = useState(ALL);
+  const [entityFilter, setEntityFilter] = useState(ALL);
+  const [actionFilter, setActionFilter] = useState(ALL);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const getActorName = (actorId: string) =>
+    actorId === SYSTEM_ACTOR ? 'System' : users.find(u => u.id === actorId)?.name || actorId;
+
+  // Actors that appear in the log, including deleted users
+  const actorIds = useMemo(() => [...new Set(entries.map(entry => entry.actorId))], [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    // Date inputs are local days; the end date includes the whole day
+    const from = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : null;
+    const to = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : null;
+
+    return [...entries]
+      .reverse()
+      .filter(entry =>
+        (actorFilter === ALL || entry.actorId === actorFilter) &&
+        (entityFilter === ALL || entry.entityType === entityFilter) &&
+        (actionFilter === ALL || entry.action === actionFilter) &&
+        (!term || entry.entityId.toLowerCase().includes(term) || entry.entityLabel.toLowerCase().includes(term)) &&
+        (from === null || new Date(entry.timestamp).getTime() >= from) &&
+        (to === null || new Date(entry.timestamp).getTime() <= to)
+      );
+  }, [entries, actorFilter, entityFilter, actionFilter, searchTerm, dateFrom, dateTo]);
+
+  const handleClearFilters = () => {
+    setActorFilter(ALL);
+    setEntityFilter(ALL);
+    setActionFilter(ALL);
+    setSearchTerm('');
+    setDateFrom('');
+    setDateTo('');
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const handleExportCsv = () => {
+    if (filteredEntries.length === 0) {
+      toast.error('No audit entries to export');
+      return;
+    }
+    downloadFile(auditEntriesToCsv(filteredEntries, getActorName), `audit-log-${new Date().toISOString().split('T')[0]}.csv`, 'text/csv');
+    toast.success(`Exported ${filteredEntries.length} audit entries`);
+  };
+
+  const handleExportJson = () => {
+    if (filteredEntries.length === 0) {
+      toast.error('No audit entries to export');
+      return;
+    }
+    downloadFile(JSON.stringify(filteredEntries, null, 2), `audit-log-${new Date().toISOString().split('T')[0]}.json`, 'application/json');
+    toast.success(`Exported ${filteredEntries.length} audit entries`);
+  };
+
+  const describeEntry = (entry: AuditEntry) => {
+    if (entry.summary) return entry.summary;
+    if (entry.action === 'update') return `Changed ${entry.changes.map(change => change.field).join(', ')}`;
+    return `${entry.action === 'create' ? 'Created' : 'Deleted'} ${AUDIT_ENTITY_LABELS[entry.entityType].toLowerCase()}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600">Who created, changed, deleted, reassigned or merged records</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExportCsv}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={handleExportJson}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Filters</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Actor</Label>
+            <Select value={actorFilter} onValueChange={setActorFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actors</SelectItem>
+                {actorIds.map(actorId => (
+                  <SelectItem key={actorId} value={actorId}>{getActorName(actorId)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Entity</Label>
+            <Select value={entityFilter} onValueChange={setEntityFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All entities</SelectItem>
+                {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => (
+                  <SelectItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Action</Label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                <SelectItem value="create">Create</SelectItem>
+                <SelectItem value="update">Update</SelectItem>
+                <SelectItem value="delete">Delete</SelectItem>
+                <SelectItem value="restore">Restore</SelectItem>
+                <SelectItem value="reassign">Reassign</SelectItem>
+                <SelectItem value="merge">Merge</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-search" className="text-xs">Entity name or ID</Label>
+            <Input id="audit-search" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs">From</Label>
+            <Input id="audit-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs">To</Label>
+            <Input id="audit-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Entries
+            </CardTitle>
+            <CardDescription>
+              {filteredEntries.length} of {entries.length} entries. The log is append-only.
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={handleClearFilters}>Clear filters</Button>
+        </CardHeader>
+        <CardContent>
+          {filteredEntries.length === 0 ? (
+            <p className="text-sm text-gray-500">No audit entries match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead>When</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredEntries.slice(0, visibleCount).map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <TableRow>
+                        <TableCell className="w-8">
+                          {entry.changes.length > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                              title={isExpanded ? 'Hide changes' : 'Show changes'}
+                            >
+                              {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            </Button>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                        <TableCell className="text-sm">{getActorName(entry.actorId)}</TableCell>
+                        <TableCell>
+                          <Badge variant={ACTION_VARIANTS[entry.action]} className="capitalize">{entry.action}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div className="font-medium">{entry.entityLabel}</div>
+                          <div className="text-xs text-gray-500">{AUDIT_ENTITY_LABELS[entry.entityType]} · {entry.entityId}</div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">{describeEntry(entry)}</TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={5}>
+                            <div className="rounded-md border bg-gray-50 p-3 space-y-1 text-xs font-mono">
+                              {entry.changes.map(change => (
+                                <div key={change.field} className="grid grid-cols-[10rem_1fr_1fr] gap-2">
+                                  <span className="font-semibold">{change.field}</span>
+                                  <span className="text-red-700 break-all">{formatValue(change.before)}</span>
+                                  <span className="text-green-700 break-all">{formatValue(change.after)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          {filteredEntries.length > visibleCount && (
+            <div className="flex justify-center pt-4">
+              <Button variant="outline" size="sm" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+                Show more
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,407 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import DataTable from '@/components/common/DataTable';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, ArrowDown, ArrowUp, Edit, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { customFieldRepository } from '@/lib/repositories';
+import type { CustomFieldDefinition, CustomFieldEntity, CustomFieldType } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
+import {
+  CUSTOM_FIELD_ENTITY_LABELS,
+  CUSTOM_FIELD_TYPE_LABELS,
+  getFieldsFor,
+  hasOptions,
+  isValidPattern,
+  supportsValidation,
+} from '@/lib/customFields';
+
+type FieldForm = Omit<CustomFieldDefinition, 'id' | 'entity' | 'order' | 'createdAt' | 'updatedAt'>;
+
+const emptyForm = (): FieldForm => ({
+  label: '',
+  type: 'text',
+  placeholder: '',
+  required: false,
+  options: [],
+  validation: '',
+  showInTable: false,
+});
+
+// Extra fields captured on clients and farmers. Removing a field only removes the definition;
+// the values already entered stay on the records and are simply no longer shown.
+const CustomFields: React.FC = () => {
+  const { hasPermission } = useAuth();
+  const definitions = useRepository(customFieldRepository);
+  const [entity, setEntity] = useState<CustomFieldEntity>('client');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FieldForm>(emptyForm);
+  const [deleteTarget, setDeleteTarget] = useState<CustomFieldDefinition | null>(null);
+
+  const fields = getFieldsFor(definitions, entity);
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (field: CustomFieldDefinition) => {
+    setEditingId(field.id);
+    setForm({
+      label: field.label,
+      type: field.type,
+      placeholder: field.placeholder || '',
+      required: field.required,
+      options: field.options || [],
+      validation: field.validation || '',
+      showInTable: field.showInTable,
+    });
+    setIsModalOpen(true);
+  };
+
+  // Swaps the order numbers of neighbouring fields
+  const handleMove = (field: CustomFieldDefinition, direction: -1 | 1) => {
+    const index = fields.findIndex(f => f.id === field.id);
+    const other = fields[index + direction];
+    if (!other) return;
+    customFieldRepository.update(field.id, { order: other.order });
+    customFieldRepository.update(other.id, { order: field.order });
+  };
+
+  const handleDelete = () => {
+    if (!deleteTarget) return;
+    customFieldRepository.remove(deleteTarget.id);
+    toast.success(`Removed the "${deleteTarget.label}" field`);
+    setDeleteTarget(null);
+  };
+
+  const handleSubmit = () => {
+    const label = form.label.trim();
+    if (!label) {
+      toast.error('Please enter a field label');
+      return;
+    }
+    if (fields.some(field => field.id !== editingId && field.label.toLowerCase() === label.toLowerCase())) {
+      toast.error(`${CUSTOM_FIELD_ENTITY_LABELS[entity]} already have a field called "${label}"`);
+      return;
+    }
+    const options = (form.options || []).map(option => option.trim()).filter(Boolean);
+    if (hasOptions(form.type) && options.length === 0) {
+      toast.error('Please add at least one option for this field type');
+      return;
+    }
+    if (form.validation && !isValidPattern(form.validation)) {
+      toast.error('The validation pattern is not a valid regular expression');
+      return;
+    }
+
+    const values: FieldForm = {
+      ...form,
+      label,
+      placeholder: form.placeholder?.trim() || undefined,
+      options: hasOptions(form.type) ? [...new Set(options)] : undefined,
+      validation: supportsValidation(form.type) && form.validation ? form.validation : undefined,
+    };
+    const now = new Date().toISOString();
+    try {
+      if (editingId) {
+        customFieldRepository.update(editingId, { ...values, updatedAt: now });
+        toast.success('Custom field updated');
+      } else {
+        customFieldRepository.create({
+          ...values,
+          id: `custom-field-${Date.now()}`,
+          entity,
+          order: Math.max(0, ...fields.map(field => field.order)) + 1,
+          createdAt: now,
+        });
+        toast.success('Custom field added');
+      }
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      toast.error('Failed to save custom field');
+    }
+  };
+
+  const setOption = (index: number, value: string) => {
+    const options = [...(form.options || [])];
+    options[index] = value;
+    setForm({ ...form, options });
+  };
+
+  if (!hasPermission('custom_field_manage')) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-gray-500">You don't have permission to manage custom fields.</p>
+      </div>
+    );
+  }
+
+  const columns = [
+    {
+      key: 'order',
+      title: 'Order',
+      width: '10%',
+      render: (_: unknown, record: CustomFieldDefinition) => (
+        <div className="flex items-center">
+          <Button variant="ghost" size="sm" onClick={() => handleMove(record, -1)} disabled={record.id === fields[0]?.id} title="Move Up">
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => handleMove(record, 1)} disabled={record.id === fields[fields.length - 1]?.id} title="Move Down">
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
+    { key: 'label', title: 'Label', width: '22%' },
+    {
+      key: 'type',
+      title: 'Type',
+      width: '14%',
+      render: (value: CustomFieldType) => CUSTOM_FIELD_TYPE_LABELS[value],
+    },
+    {
+      key: 'options',
+      title: 'Options / Pattern',
+      width: '22%',
+      sortable: false,
+      render: (_: unknown, record: CustomFieldDefinition) => (
+        <span className="text-sm text-gray-600">
+          {record.options?.join(', ') || (record.validation ? <code>{record.validation}</code> : '-')}
+        </span>
+      ),
+    },
+    {
+      key: 'required',
+      title: 'Flags',
+      width: '17%',
+      sortable: false,
+      render: (_: unknown, record: CustomFieldDefinition) => (
+        <div className="flex flex-wrap gap-1">
+          {record.required && <Badge variant="secondary">Required</Badge>}
+          {record.showInTable && <Badge variant="outline">Table column</Badge>}
+        </div>
+      ),
+    },
+    {
+      key: 'actions',
+      title: 'Actions',
+      width: '15%',
+      sortable: false,
+      render: (_: unknown, record: CustomFieldDefinition) => (
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" onClick={() => handleEdit(record)} title="Edit Field">
+            <Edit className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDeleteTarget(record)}
+            className="text-red-600 hover:text-red-700"
+            title="Remove Field"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  const search = searchTerm.toLowerCase();
+  const filteredFields = fields.filter(field =>
+    field.label.toLowerCase().includes(search) ||
+    CUSTOM_FIELD_TYPE_LABELS[field.type].toLowerCase().includes(search)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <SlidersHorizontal className="h-6 w-6" />
+          Custom Fields
+        </h1>
+        <p className="text-gray-600">Extra details captured when adding or editing clients and farmers</p>
+      </div>
+
+      <Tabs
+        value={entity}
+        onValueChange={(value) => {
+          setEntity(value as CustomFieldEntity);
+          setSearchTerm('');
+        }}
+        className="space-y-4"
+      >
+        <TabsList>
+          {(Object.keys(CUSTOM_FIELD_ENTITY_LABELS) as CustomFieldEntity[]).map(key => (
+            <TabsTrigger key={key} value={key}>
+              {CUSTOM_FIELD_ENTITY_LABELS[key]} ({getFieldsFor(definitions, key).length})
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        {(Object.keys(CUSTOM_FIELD_ENTITY_LABELS) as CustomFieldEntity[]).map(key => (
+          <TabsContent key={key} value={key}>
+            <DataTable
+              data={filteredFields}
+              columns={columns}
+              searchPlaceholder="Search fields..."
+              onSearch={setSearchTerm}
+              onAdd={handleAdd}
+              addButtonText="Add Field"
+              showAddButton
+              emptyMessage={`No custom fields for ${CUSTOM_FIELD_ENTITY_LABELS[key].toLowerCase()} yet`}
+            />
+          </TabsContent>
+        ))}
+      </Tabs>
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="sm:max-w-[500px] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Field' : 'Add New Field'}</DialogTitle>
+            <DialogDescription>
+              {editingId
+                ? 'Changes apply to every record; values already saved are kept as they are.'
+                : `A new field on ${CUSTOM_FIELD_ENTITY_LABELS[entity].toLowerCase()}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="customFieldLabel">Field Label *</Label>
+              <Input
+                id="customFieldLabel"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="e.g. Herd Size, Cooperative ID"
+              />
+            </div>
+            <div>
+              <Label>Field Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value: CustomFieldType) => setForm({ ...form, type: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+                    <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {!hasOptions(form.type) && form.type !== 'date' && (
+              <div>
+                <Label htmlFor="customFieldPlaceholder">Placeholder Text</Label>
+                <Input
+                  id="customFieldPlaceholder"
+                  value={form.placeholder || ''}
+                  onChange={(e) => setForm({ ...form, placeholder: e.target.value })}
+                />
+              </div>
+            )}
+            {supportsValidation(form.type) && (
+              <div>
+                <Label htmlFor="customFieldValidation">Validation Pattern</Label>
+                <Input
+                  id="customFieldValidation"
+                  value={form.validation || ''}
+                  onChange={(e) => setForm({ ...form, validation: e.target.value })}
+                  placeholder="e.g. COOP-[0-9]{4}"
+                  className="font-mono"
+                />
+                <p className="text-xs text-gray-500 mt-1">A regular expression the whole value has to match. Leave empty to accept anything.</p>
+              </div>
+            )}
+            {hasOptions(form.type) && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Options</Label>
+                  <Button onClick={() => setForm({ ...form, options: [...(form.options || []), ''] })} size="sm" variant="outline">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Option
+                  </Button>
+                </div>
+                {(form.options || []).map((option, index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <Input value={option} onChange={(e) => setOption(index, e.target.value)} placeholder={`Option ${index + 1}`} />
+                    <Button
+                      onClick={() => setForm({ ...form, options: (form.options || []).filter((_, i) => i !== index) })}
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {(form.options || []).length === 0 && (
+                  <p className="text-sm text-gray-500">No options added yet. Click "Add Option" to get started.</p>
+                )}
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="customFieldRequired"
+                checked={form.required}
+                onCheckedChange={(checked) => setForm({ ...form, required: checked })}
+              />
+              <Label htmlFor="customFieldRequired">Required field</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="customFieldShowInTable"
+                checked={form.showInTable}
+                onCheckedChange={(checked) => setForm({ ...form, showInTable: checked })}
+              />
+              <Label htmlFor="customFieldShowInTable">Show as a column in the table view</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit}>{editingId ? 'Update Field' : 'Add Field'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+              Remove Field
+            </DialogTitle>
+            <DialogDescription>
+              Remove "{deleteTarget?.label}" from {deleteTarget ? CUSTOM_FIELD_ENTITY_LABELS[deleteTarget.entity].toLowerCase() : ''}?
+              It disappears from the dialogs, table, search, import and export. Values already entered stay on the records.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleDelete}>Remove Field</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CustomFields;
@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, RotateCcw, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { clientRepository, farmerRepository, formRepository, userRepository } from '@/lib/repositories';
+import type { Entity, SoftDeletable } from '@/lib/repositories';
+import {
+  RECYCLABLE_LABELS,
+  RECYCLE_BIN_RETENTION_DAYS,
+  getPurgeDate,
+  getRecycledRecordLabel,
+  getRestoreConflict,
+  purgeFromRecycleBin,
+  restoreFromRecycleBin,
+} from '@/lib/recycleBin';
+import type { RecyclableType } from '@/lib/recycleBin';
+import { useDeletedRecords } from '@/hooks/useRepository';
+
+// Select items can't have an empty value
+const ALL = 'all';
+
+interface RecycledItem {
+  type: RecyclableType;
+  id: string;
+  label: string;
+  deletedAt: string;
+  deletedBy?: string;
+  purgeDate: Date;
+}
+
+const toItems = (type: RecyclableType, records: (Entity & SoftDeletable)[]): RecycledItem[] =>
+  records.map(record => ({
+    type,
+    id: record.id,
+    label: getRecycledRecordLabel(record),
+    deletedAt: record.deletedAt,
+    deletedBy: record.deletedBy,
+    purgeDate: getPurgeDate(record),
+  }));
+
+const RecycleBin: React.FC = () => {
+  const { users, hasPermission } = useAuth();
+  const deletedClients = useDeletedRecords(clientRepository);
+  const deletedFarmers = useDeletedRecords(farmerRepository);
+  const deletedUsers = useDeletedRecords(userRepository);
+  const deletedForms = useDeletedRecords(formRepository);
+
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [purgeTarget, setPurgeTarget] = useState<RecycledItem | null>(null);
+
+  const canRestore = hasPermission('recycle_bin_restore');
+  const canPurge = hasPermission('recycle_bin_purge');
+
+  const items = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return [
+      ...toItems('client', deletedClients),
+      ...toItems('farmer', deletedFarmers),
+      ...toItems('user', deletedUsers),
+      ...toItems('form', deletedForms),
+    ]
+      .filter(item =>
+        (typeFilter === ALL || item.type === typeFilter) &&
+        (!term || item.label.toLowerCase().includes(term) || item.id.toLowerCase().includes(term))
+      )
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }, [deletedClients, deletedFarmers, deletedUsers, deletedForms, typeFilter, searchTerm]);
+
+  // Whoever deleted the record may be in the bin themselves
+  const getUserName = (userId?: string) => {
+    if (!userId) return 'Unknown User';
+    return users.find(u => u.id === userId)?.name
+      || deletedUsers.find(u => u.id === userId)?.name
+      || userId;
+  };
+
+  const handleRestore = (item: RecycledItem) => {
+    const conflict = getRestoreConflict(item.type, item.id);
+    if (conflict) {
+      toast.error(`Cannot restore "${item.label}": ${conflict}`);
+      return;
+    }
+    restoreFromRecycleBin(item.type, item.id);
+    toast.success(`${RECYCLABLE_LABELS[item.type]} "${item.label}" restored`);
+  };
+
+  const handleConfirmPurge = () => {
+    if (!purgeTarget) return;
+    if (purgeFromRecycleBin(purgeTarget.type, purgeTarget.id)) {
+      toast.success(`${RECYCLABLE_LABELS[purgeTarget.type]} "${purgeTarget.label}" permanently deleted`);
+    } else {
+      toast.error('This record is no longer in the recycle bin');
+    }
+    setPurgeTarget(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Recycle Bin</h1>
+        <p className="text-gray-600">
+          Deleted clients, farmers, users and forms. Records are purged automatically {RECYCLE_BIN_RETENTION_DAYS} days after deletion.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5" />
+            Deleted Records ({items.length})
+          </CardTitle>
+          <CardDescription>Restore a record to bring it back everywhere, or purge it to delete it for good</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search by name or ID..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {(Object.keys(RECYCLABLE_LABELS) as RecyclableType[]).map(type => (
+                  <SelectItem key={type} value={type}>{RECYCLABLE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {items.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">The recycle bin is empty</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Deleted By</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Purged On</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={`${item.type}:${item.id}`}>
+                    <TableCell>
+                      <Badge variant="outline">{RECYCLABLE_LABELS[item.type]}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{item.label}</TableCell>
+                    <TableCell>{getUserName(item.deletedBy)}</TableCell>
+                    <TableCell>{new Date(item.deletedAt).toLocaleString()}</TableCell>
+                    <TableCell>{item.purgeDate.toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRestore(item)}
+                          disabled={!canRestore}
+                          title="Restore"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setPurgeTarget(item)}
+                          disabled={!canPurge}
+                          className="text-red-600 hover:text-red-700"
+                          title="Purge"
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Purge
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+              Purge {purgeTarget ? RECYCLABLE_LABELS[purgeTarget.type].toLowerCase() : 'record'}
+            </DialogTitle>
+            <DialogDescription>
+              "{purgeTarget?.label}" will be permanently deleted. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPurgeTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmPurge}>
+              Purge Permanently
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RecycleBin;
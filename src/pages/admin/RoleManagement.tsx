@@ -15,6 +15,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { 
   Plus, 
@@ -23,91 +24,30 @@ import {
   AlertTriangle, 
   Shield, 
   ShieldCheck, 
-  ShieldX 
+  ShieldX,
+  MapPin,
+  Copy,
+  GitBranch
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { roleRepository, userRepository } from '@/lib/repositories';
+import type { LocationPolicy, Role } from '@/lib/repositories';
+import { DEFAULT_LOCATION_POLICY, LOCATION_MODE_LABELS, getLocationPolicy } from '@/lib/locationPolicy';
+import { PERMISSIONS, PERMISSIONS_BY_CATEGORY, getPermission } from '@/lib/permissions';
+import type { PermissionId } from '@/lib/permissions';
+import {
+  canInheritFrom,
+  diffFromParent,
+  diffPermissions,
+  getDerivedRoleIds,
+  getParentPermissions,
+  resolveRolePermissions,
+  toRoleOverrides,
+} from '@/lib/roleInheritance';
+
+// Select items can't have an empty value
+const NO_PARENT = 'none';
 
-interface Role {
-  id: string;
-  name: string;
-  description: string;
-  permissions: string[];
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-// Enhanced permissions with specific Customer Care permissions
-const availablePermissions = [
-  // User Management
-  { id: 'user_read', name: 'View Users', category: 'User Management' },
-  { id: 'user_create', name: 'Create Users', category: 'User Management' },
-  { id: 'user_update', name: 'Update Users', category: 'User Management' },
-  { id: 'user_delete', name: 'Delete Users', category: 'User Management' },
-  
-  // Role Management
-  { id: 'role_read', name: 'View Roles', category: 'Role Management' },
-  { id: 'role_create', name: 'Create Roles', category: 'Role Management' },
-  { id: 'role_update', name: 'Update Roles', category: 'Role Management' },
-  { id: 'role_delete', name: 'Delete Roles', category: 'Role Management' },
-  
-  // Client Management
-  { id: 'client_read', name: 'View Clients', category: 'Client Management' },
-  { id: 'client_create', name: 'Create Clients', category: 'Client Management' },
-  { id: 'client_update', name: 'Update Clients', category: 'Client Management' },
-  { id: 'client_delete', name: 'Delete Clients', category: 'Client Management' },
-  { id: 'client_view_all', name: 'View All Clients (Admin)', category: 'Client Management' },
-  
-  // Farmer Management
-  { id: 'farmer_read', name: 'View Farmers', category: 'Farmer Management' },
-  { id: 'farmer_create', name: 'Create Farmers', category: 'Farmer Management' },
-  { id: 'farmer_update', name: 'Update Farmers', category: 'Farmer Management' },
-  { id: 'farmer_delete', name: 'Delete Farmers', category: 'Farmer Management' },
-  { id: 'farmer_view_all', name: 'View All Farmers (Admin)', category: 'Farmer Management' },
-  
-  // Field Visit Management
-  { id: 'visit_read', name: 'View Field Visits', category: 'Field Visit Management' },
-  { id: 'visit_create', name: 'Create Field Visits', category: 'Field Visit Management' },
-  { id: 'visit_update', name: 'Update Field Visits', category: 'Field Visit Management' },
-  { id: 'visit_delete', name: 'Delete Field Visits', category: 'Field Visit Management' },
-  { id: 'visit_track', name: 'Track Live Location', category: 'Field Visit Management' },
-  
-  // Form Management
-  { id: 'form_view', name: 'View Forms', category: 'Form Management' },
-  { id: 'form_create', name: 'Create Forms', category: 'Form Management' },
-  { id: 'form_update', name: 'Update Forms', category: 'Form Management' },
-  { id: 'form_delete', name: 'Delete Forms', category: 'Form Management' },
-  
-  // Reports
-  { id: 'reports_view', name: 'View Reports', category: 'Reports' },
-  { id: 'reports_create', name: 'Create Reports', category: 'Reports' },
-  { id: 'reports_update', name: 'Update Reports', category: 'Reports' },
-  { id: 'reports_delete', name: 'Delete Reports', category: 'Reports' },
-  
-  // Customer Care - Main Access
-  { id: 'customer_care_access', name: 'Access Customer Care (Sidebar Menu)', category: 'Customer Care' },
-  
-  // Customer Care - Task Management
-  { id: 'task_view_all', name: 'View All Tasks', category: 'Customer Care' },
-  { id: 'task_view', name: 'View Tasks', category: 'Customer Care' },
-  { id: 'task_create', name: 'Create Tasks', category: 'Customer Care' },
-  { id: 'task_update', name: 'Update Tasks', category: 'Customer Care' },
-  { id: 'task_delete', name: 'Delete Tasks', category: 'Customer Care' },
-  
-  // Customer Care - Complaint Management
-  { id: 'complaint_view_all', name: 'View All Complaints', category: 'Customer Care' },
-  { id: 'complaint_view', name: 'View Complaints', category: 'Customer Care' },
-  { id: 'complaint_create', name: 'Create Complaints', category: 'Customer Care' },
-  { id: 'complaint_update', name: 'Update Complaints', category: 'Customer Care' },
-  { id: 'complaint_delete', name: 'Delete Complaints', category: 'Customer Care' },
-  { id: 'complaint_resolve', name: 'Resolve Complaints', category: 'Customer Care' },
-  { id: 'complaint_escalate', name: 'Escalate Complaints', category: 'Customer Care' },
-  
-  // Communication
-  { id: 'communication_access', name: 'Access Communication Tools', category: 'Communication' },
-  { id: 'whatsapp_send', name: 'Send WhatsApp Messages', category: 'Communication' },
-  { id: 'sip_calls', name: 'Make SIP Calls', category: 'Communication' },
-];
 
 const RoleManagement: React.FC = () => {
   const { hasPermission } = useAuth();
@@ -123,155 +63,31 @@ const RoleManagement: React.FC = () => {
   const [editingRole, setEditingRole] = useState<string | null>(null);
   const [roleToDelete, setRoleToDelete] = useState<string | null>(null);
   
-  // Form data
+  // Form data - permissions holds the effective set; overrides are worked out on save
   const [roleData, setRoleData] = useState({
     name: '',
     description: '',
-    permissions: [] as string[],
+    parentRoleId: NO_PARENT,
+    permissions: [] as PermissionId[],
     isActive: true,
+    locationPolicy: DEFAULT_LOCATION_POLICY,
+    requireTwoFactor: false,
   });
 
-  // Load roles from localStorage and initialize default roles if needed
+  // Load roles from the repository (defaults are seeded at boot)
   useEffect(() => {
     loadRoles();
-    initializeDefaultRoles();
+    return roleRepository.subscribe(setRoles);
   }, []);
 
   const loadRoles = () => {
-    try {
-      const savedRoles = localStorage.getItem('hdf_roles');
-      if (savedRoles) {
-        const parsedRoles = JSON.parse(savedRoles);
-        setRoles(Array.isArray(parsedRoles) ? parsedRoles : []);
-      }
-    } catch (error) {
-      console.error('Error loading roles:', error);
-      setRoles([]);
-    }
+    setRoles(roleRepository.list());
   };
 
-  // Initialize default roles with enhanced Customer Care permissions
-  const initializeDefaultRoles = () => {
-    const savedRoles = localStorage.getItem('hdf_roles');
-    if (!savedRoles) {
-      const defaultRoles: Role[] = [
-        {
-          id: 'admin',
-          name: 'System Administrator',
-          description: 'Full system access with all permissions',
-          permissions: availablePermissions.map(p => p.id),
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: 'customer_care_manager',
-          name: 'Customer Care Manager',
-          description: 'Full customer care management with complete task and complaint access',
-          permissions: [
-            'customer_care_access',
-            'task_view_all', 'task_view', 'task_create', 'task_update', 'task_delete',
-            'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update', 'complaint_delete', 'complaint_resolve', 'complaint_escalate',
-            'client_read', 'farmer_read', 'reports_view', 'communication_access', 'whatsapp_send'
-          ],
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: 'customer_care_agent',
-          name: 'Customer Care Agent',
-          description: 'Basic customer care operations with task and complaint handling',
-          permissions: [
-            'customer_care_access',
-            'task_view_all', 'task_view', 'task_update',
-            'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update',
-            'client_read', 'farmer_read', 'communication_access', 'whatsapp_send'
-          ],
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: 'customer_care_supervisor',
-          name: 'Customer Care Supervisor',
-          description: 'Customer care supervision with advanced task and complaint management',
-          permissions: [
-            'customer_care_access',
-            'task_view_all', 'task_view', 'task_create', 'task_update', 'task_delete',
-            'complaint_view_all', 'complaint_view', 'complaint_create', 'complaint_update', 'complaint_delete', 'complaint_resolve',
-            'client_read', 'farmer_read', 'reports_view', 'communication_access', 'whatsapp_send'
-          ],
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: 'field_supervisor',
-          name: 'Field Supervisor',
-          description: 'Field operations management',
-          permissions: [
-            'visit_read', 'visit_create', 'visit_update', 'visit_delete', 'visit_track',
-            'client_read', 'farmer_read', 'form_view', 'reports_view', 'communication_access'
-          ],
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        },
-        {
-          id: 'field_agent',
-          name: 'Field Agent',
-          description: 'Basic field operations',
-          permissions: [
-            'visit_read', 'visit_create', 'visit_update', 'visit_track',
-            'client_read', 'farmer_read', 'form_view', 'communication_access'
-          ],
-          isActive: true,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
-        }
-      ];
-
-      localStorage.setItem('hdf_roles', JSON.stringify(defaultRoles));
-      setRoles(defaultRoles);
-      console.log('Enhanced Customer Care roles initialized with specific permissions');
-    }
-  };
-
-  // Enhanced save roles function with multiple notification methods
+  // Subscribers (AuthContext, UserManagement, other tabs) pick the change up from the repository
   const saveRoles = (updatedRoles: Role[]) => {
-    try {
-      localStorage.setItem('hdf_roles', JSON.stringify(updatedRoles));
-      setRoles(updatedRoles);
-      
-      console.log('Roles saved, triggering notifications...');
-      
-      // Method 1: Custom event
-      window.dispatchEvent(new CustomEvent('rolesUpdated', { 
-        detail: updatedRoles 
-      }));
-      
-      // Method 2: Storage event (for cross-tab)
-      window.dispatchEvent(new StorageEvent('storage', {
-        key: 'hdf_roles',
-        newValue: JSON.stringify(updatedRoles),
-        oldValue: localStorage.getItem('hdf_roles'),
-        storageArea: localStorage
-      }));
-      
-      // Method 3: Direct localStorage trigger
-      setTimeout(() => {
-        window.dispatchEvent(new Event('rolesChanged'));
-      }, 100);
-      
-      // Method 4: Force update with timestamp
-      localStorage.setItem('hdf_roles_timestamp', Date.now().toString());
-      
-      console.log('All role update notifications sent');
-      
-    } catch (error) {
-      console.error('Error saving roles:', error);
-    }
+    roleRepository.saveAll(updatedRoles);
+    setRoles(updatedRoles);
   };
 
   // Filter roles
@@ -288,26 +104,17 @@ const RoleManagement: React.FC = () => {
     return filtered;
   }, [roles, searchTerm]);
 
-  // Group permissions by category
-  const permissionsByCategory = useMemo(() => {
-    const grouped: { [key: string]: typeof availablePermissions } = {};
-    availablePermissions.forEach(permission => {
-      if (!grouped[permission.category]) {
-        grouped[permission.category] = [];
-      }
-      grouped[permission.category].push(permission);
-    });
-    return grouped;
-  }, []);
-
   // Role handlers
   const handleAddRole = () => {
     setEditingRole(null);
     setRoleData({
       name: '',
       description: '',
+      parentRoleId: NO_PARENT,
       permissions: [],
       isActive: true,
+      locationPolicy: DEFAULT_LOCATION_POLICY,
+      requireTwoFactor: false,
     });
     setIsRoleModalOpen(true);
   };
@@ -319,13 +126,47 @@ const RoleManagement: React.FC = () => {
       setRoleData({
         name: role.name,
         description: role.description,
-        permissions: [...role.permissions],
+        parentRoleId: role.parentRoleId || NO_PARENT,
+        permissions: resolveRolePermissions(role, roles),
         isActive: role.isActive,
+        locationPolicy: getLocationPolicy(role),
+        requireTwoFactor: !!role.requireTwoFactor,
       });
       setIsRoleModalOpen(true);
     }
   };
 
+  // Opens the add form prefilled from an existing role, keeping its parent
+  const handleCloneRole = (roleId: string) => {
+    const role = roles.find(r => r.id === roleId);
+    if (!role) return;
+
+    setEditingRole(null);
+    setRoleData({
+      name: `Copy of ${role.name}`,
+      description: role.description,
+      parentRoleId: role.parentRoleId || NO_PARENT,
+      permissions: resolveRolePermissions(role, roles),
+      isActive: role.isActive,
+      locationPolicy: getLocationPolicy(role),
+      requireTwoFactor: !!role.requireTwoFactor,
+    });
+    setIsRoleModalOpen(true);
+  };
+
+  // Keeps the additions and removals made so far and reapplies them on top of the new parent
+  const handleParentChange = (parentRoleId: string) => {
+    const oldParent = roleData.parentRoleId === NO_PARENT ? undefined : roleData.parentRoleId;
+    const newParent = parentRoleId === NO_PARENT ? undefined : parentRoleId;
+    const { added, removed } = diffPermissions(getParentPermissions(oldParent, roles), roleData.permissions);
+    const inherited = getParentPermissions(newParent, roles).filter(p => !removed.includes(p));
+    setRoleData({
+      ...roleData,
+      parentRoleId,
+      permissions: [...new Set([...inherited, ...added])],
+    });
+  };
+
   const handleSubmitRole = () => {
     if (!roleData.name || !roleData.description) {
       toast.error('Please fill in all required fields');
@@ -343,24 +184,44 @@ const RoleManagement: React.FC = () => {
       return;
     }
 
+    const { failureThreshold, checkIntervalSeconds } = roleData.locationPolicy;
+    if (failureThreshold < 1 || checkIntervalSeconds < 5) {
+      toast.error('Location checks need a threshold of at least 1 and an interval of at least 5 seconds');
+      return;
+    }
+
+    const parentRoleId = roleData.parentRoleId === NO_PARENT ? undefined : roleData.parentRoleId;
+    if (parentRoleId && !canInheritFrom(editingRole, parentRoleId, roles)) {
+      toast.error('A role cannot inherit from itself or from a role derived from it');
+      return;
+    }
+
     const now = new Date().toISOString();
+    const fields = {
+      ...roleData,
+      parentRoleId,
+      ...toRoleOverrides(parentRoleId, roleData.permissions, roles),
+    };
     
     if (editingRole) {
       const updatedRoles = roles.map(role =>
         role.id === editingRole
           ? {
               ...role,
-              ...roleData,
+              ...fields,
               updatedAt: now
             }
           : role
       );
       saveRoles(updatedRoles);
-      toast.success('Role updated successfully');
+      const derivedCount = getDerivedRoleIds(editingRole, roles).size;
+      toast.success(derivedCount > 0
+        ? `Role updated successfully - changes also apply to ${derivedCount} derived role(s)`
+        : 'Role updated successfully');
     } else {
       const newRole: Role = {
         id: `role_${Date.now()}`,
-        ...roleData,
+        ...fields,
         createdAt: now,
         updatedAt: now,
       };
@@ -374,19 +235,15 @@ const RoleManagement: React.FC = () => {
 
   const handleDeleteRole = (roleId: string) => {
     // Check if role is being used by any users
-    const savedUsers = localStorage.getItem('hdf_users');
-    if (savedUsers) {
-      try {
-        const users = JSON.parse(savedUsers);
-        const isRoleInUse = users.some((user: any) => user.roleId === roleId);
-        
-        if (isRoleInUse) {
-          toast.error('Cannot delete role that is assigned to users');
-          return;
-        }
-      } catch (error) {
-        console.error('Error checking role usage:', error);
-      }
+    const isRoleInUse = userRepository.list().some(user => user.roleId === roleId);
+    if (isRoleInUse) {
+      toast.error('Cannot delete role that is assigned to users');
+      return;
+    }
+
+    if (getDerivedRoleIds(roleId, roles).size > 0) {
+      toast.error('Cannot delete a role that other roles inherit from');
+      return;
     }
     
     setRoleToDelete(roleId);
@@ -417,7 +274,7 @@ const RoleManagement: React.FC = () => {
     toast.success('Role status updated successfully');
   };
 
-  const handlePermissionChange = (permissionId: string, checked: boolean) => {
+  const handlePermissionChange = (permissionId: PermissionId, checked: boolean) => {
     if (checked) {
       setRoleData({
         ...roleData,
@@ -431,8 +288,15 @@ const RoleManagement: React.FC = () => {
     }
   };
 
+  const handleLocationPolicyChange = (changes: Partial<LocationPolicy>) => {
+    setRoleData({
+      ...roleData,
+      locationPolicy: { ...roleData.locationPolicy, ...changes }
+    });
+  };
+
   const handleSelectAllPermissions = (category: string, checked: boolean) => {
-    const categoryPermissions = permissionsByCategory[category].map(p => p.id);
+    const categoryPermissions = PERMISSIONS_BY_CATEGORY[category].map(p => p.id);
     
     if (checked) {
       const newPermissions = [...new Set([...roleData.permissions, ...categoryPermissions])];
@@ -445,11 +309,11 @@ const RoleManagement: React.FC = () => {
 
   // Test Customer Care roles function
   const testCustomerCareRoles = () => {
-    const customerCarePermissions = availablePermissions.filter(p => p.category === 'Customer Care');
+    const customerCarePermissions = PERMISSIONS.filter(p => p.category === 'Customer Care');
     console.log('Customer Care Permissions:', customerCarePermissions);
     
     const customerCareRoles = roles.filter(role => 
-      role.permissions.some(p => customerCarePermissions.map(cp => cp.id).includes(p))
+      resolveRolePermissions(role, roles).some(p => getPermission(p)?.category === 'Customer Care')
     );
     console.log('Roles with Customer Care permissions:', customerCareRoles);
     
@@ -466,27 +330,54 @@ const RoleManagement: React.FC = () => {
     {
       key: 'description',
       title: 'Description',
-      width: '30%',
+      width: '20%',
     },
     {
       key: 'permissions',
       title: 'Permissions',
       width: '20%',
-      render: (permissions: unknown, record: Role) => {
-        const customerCarePerms = Array.isArray(permissions) 
-          ? permissions.filter(p => availablePermissions.find(ap => ap.id === p && ap.category === 'Customer Care')).length
-          : 0;
+      render: (_: unknown, record: Role) => {
+        const effective = resolveRolePermissions(record, roles);
+        const customerCarePerms = effective.filter(p => getPermission(p)?.category === 'Customer Care').length;
+        const parent = roles.find(r => r.id === record.parentRoleId);
+        const diff = parent ? diffFromParent(record, roles) : null;
         
         return (
           <div className="space-y-1">
             <Badge variant="outline">
-              {Array.isArray(permissions) ? permissions.length : 0} total
+              {effective.length} total
             </Badge>
             {customerCarePerms > 0 && (
               <Badge variant="secondary" className="text-xs">
                 {customerCarePerms} Customer Care
               </Badge>
             )}
+            {parent && diff && (
+              <div className="flex items-center gap-1 text-xs text-gray-500">
+                <GitBranch className="h-3 w-3" />
+                <span>{parent.name}</span>
+                <span className="text-green-600">+{diff.added.length}</span>
+                <span className="text-red-600">-{diff.removed.length}</span>
+              </div>
+            )}
+          </div>
+        );
+      },
+    },
+    {
+      key: 'locationPolicy',
+      title: 'Sign-in Policy',
+      width: '10%',
+      render: (_: unknown, record: Role) => {
+        const policy = getLocationPolicy(record);
+        return (
+          <div className="flex flex-wrap gap-1">
+            <Badge variant={policy.mode === 'required' ? 'default' : 'outline'} className="capitalize">
+              {policy.mode}
+            </Badge>
+            {record.requireTwoFactor && (
+              <Badge variant="secondary" className="text-xs">2FA</Badge>
+            )}
           </div>
         );
       },
@@ -526,6 +417,16 @@ const RoleManagement: React.FC = () => {
           >
             <Edit className="h-4 w-4" />
           </Button>
+          {hasPermission('role_create') && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleCloneRole(record.id)}
+              title="Clone Role"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -546,10 +447,15 @@ const RoleManagement: React.FC = () => {
     active: filteredRoles.filter(r => r.isActive).length,
     inactive: filteredRoles.filter(r => !r.isActive).length,
     customerCare: filteredRoles.filter(r => 
-      r.permissions.some(p => availablePermissions.find(ap => ap.id === p && ap.category === 'Customer Care'))
+      resolveRolePermissions(r, roles).some(p => getPermission(p)?.category === 'Customer Care')
     ).length,
   };
 
+  // Editor view of what the role inherits and how it differs from the parent
+  const formParentId = roleData.parentRoleId === NO_PARENT ? undefined : roleData.parentRoleId;
+  const inheritedPermissions = getParentPermissions(formParentId, roles);
+  const parentDiff = diffPermissions(inheritedPermissions, roleData.permissions);
+
   if (!hasPermission('role_read')) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -655,12 +561,119 @@ const RoleManagement: React.FC = () => {
                 rows={2}
               />
             </div>
+
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="role-parent" className="text-right">Inherits From</Label>
+              <Select value={roleData.parentRoleId} onValueChange={handleParentChange}>
+                <SelectTrigger id="role-parent" className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>No parent (base role)</SelectItem>
+                  {roles
+                    .filter(role => canInheritFrom(editingRole, role.id, roles))
+                    .map(role => (
+                      <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Location Policy Section */}
+            <div className="col-span-4 space-y-3 border rounded-md p-4">
+              <Label className="text-sm font-medium flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                Location Policy
+              </Label>
+              <Select
+                value={roleData.locationPolicy.mode}
+                onValueChange={(value: LocationPolicy['mode']) => handleLocationPolicyChange({ mode: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(LOCATION_MODE_LABELS).map(([mode, label]) => (
+                    <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {roleData.locationPolicy.mode === 'required' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="location-threshold" className="text-xs">Failed checks before logout</Label>
+                    <Input
+                      id="location-threshold"
+                      type="number"
+                      min={1}
+                      value={roleData.locationPolicy.failureThreshold}
+                      onChange={(e) => handleLocationPolicyChange({ failureThreshold: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="location-interval" className="text-xs">Check interval (seconds)</Label>
+                    <Input
+                      id="location-interval"
+                      type="number"
+                      min={5}
+                      value={roleData.locationPolicy.checkIntervalSeconds}
+                      onChange={(e) => handleLocationPolicyChange({ checkIntervalSeconds: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Two-Factor Requirement */}
+            <div className="col-span-4 flex items-start space-x-2 border rounded-md p-4">
+              <Checkbox
+                id="require-two-factor"
+                checked={roleData.requireTwoFactor}
+                onCheckedChange={(checked) => setRoleData({ ...roleData, requireTwoFactor: !!checked })}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="require-two-factor" className="text-sm font-medium">
+                  Require two-factor authentication
+                </Label>
+                <p className="text-xs text-gray-500">
+                  Users with this role must set up an authenticator app before they can sign in.
+                </p>
+              </div>
+            </div>
             
             {/* Permissions Section */}
             <div className="col-span-4">
               <Label className="text-sm font-medium">Permissions</Label>
+              {formParentId && (
+                <div className="mt-2 rounded-md border bg-gray-50 p-3 text-sm space-y-2">
+                  <div className="flex items-center gap-2 text-gray-700">
+                    <GitBranch className="h-4 w-4" />
+                    Compared with {roles.find(role => role.id === formParentId)?.name}:
+                    <span className="text-green-700">{parentDiff.added.length} added</span>,
+                    <span className="text-red-700">{parentDiff.removed.length} removed</span>
+                  </div>
+                  {(parentDiff.added.length > 0 || parentDiff.removed.length > 0) && (
+                    <div className="flex flex-wrap gap-1">
+                      {parentDiff.added.map(p => (
+                        <Badge key={p} variant="outline" className="text-xs text-green-700 border-green-300">
+                          + {getPermission(p)?.name || p}
+                        </Badge>
+                      ))}
+                      {parentDiff.removed.map(p => (
+                        <Badge key={p} variant="outline" className="text-xs text-red-700 border-red-300">
+                          - {getPermission(p)?.name || p}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Later changes to the parent role apply here too, except for the permissions this role adds or removes.
+                  </p>
+                </div>
+              )}
               <div className="mt-2 space-y-4 max-h-60 overflow-y-auto border rounded-md p-4">
-                {Object.entries(permissionsByCategory).map(([category, permissions]) => (
+                {Object.entries(PERMISSIONS_BY_CATEGORY).map(([category, permissions]) => (
                   <div key={category} className="space-y-2">
                     <div className="flex items-center space-x-2">
                       <Checkbox
@@ -693,6 +706,16 @@ const RoleManagement: React.FC = () => {
                             }`}
                           >
                             {permission.name}
+                            {formParentId && parentDiff.added.includes(permission.id) && (
+                              <Badge variant="outline" className="ml-2 text-xs text-green-700 border-green-300">Added</Badge>
+                            )}
+                            {formParentId && parentDiff.removed.includes(permission.id) && (
+                              <Badge variant="outline" className="ml-2 text-xs text-red-700 border-red-300">Removed</Badge>
+                            )}
+                            {formParentId && inheritedPermissions.includes(permission.id) && roleData.permissions.includes(permission.id) && (
+                              <span className="ml-2 text-xs text-gray-400">inherited</span>
+                            )}
+                            <span className="block text-xs text-gray-500">{permission.description}</span>
                           </Label>
                         </div>
                       ))}
@@ -13,8 +13,10 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   Plus, 
   Edit, 
@@ -25,73 +27,79 @@ import {
   UserX,
   Eye,
   EyeOff,
-  UserPlus,
-  ArrowRight
+  RotateCcw,
+  Lock,
+  Unlock,
+  KeyRound,
+  Copy,
+  Smartphone,
+  ShieldX
 } from 'lucide-react';
 import { toast } from 'sonner';
+import {
+  accessDenialRepository,
+  accountLockoutRepository,
+  loginAttemptRepository,
+  regionRepository,
+  roleRepository,
+  teamRepository,
+  userRepository,
+} from '@/lib/repositories';
+import type { ReassignmentBatch, Role, User } from '@/lib/repositories';
+import { defaultUsers, resetDemoData } from '@/lib/demoData';
+import { hashPassword } from '@/lib/password';
+import { MAX_FAILED_ATTEMPTS, clearLockout } from '@/lib/loginThrottle';
+import { issueResetToken } from '@/lib/passwordReset';
+import type { IssuedResetToken } from '@/lib/passwordReset';
+import { disableTwoFactor, isTwoFactorEnabled } from '@/lib/twoFactor';
+import { getTeamMemberIds } from '@/lib/organisation';
+import { collectAssignedRecords, undoReassignment } from '@/lib/reassignment';
+import { moveToRecycleBin } from '@/lib/recycleBin';
+import type { AssignedRecord } from '@/lib/reassignment';
+import TeamsAndRegions from '@/components/admin/TeamsAndRegions';
+import TemporaryAccess from '@/components/admin/TemporaryAccess';
+import ReassignmentWizard from '@/components/admin/ReassignmentWizard';
+import RecentReassignments from '@/components/admin/RecentReassignments';
+import { useRepository } from '@/hooks/useRepository';
+
+// Select items can't have an empty value
+const NO_SUPERVISOR = 'none';
+const NO_TEAM = 'none';
 
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  password: string;
-  roleId: string;
-  status: 'active' | 'inactive';
-  createdAt: string;
-  updatedAt: string;
-  lastLogin?: string;
-}
-
-interface Role {
-  id: string;
-  name: string;
-  description: string;
-  permissions: string[];
-  isActive: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface Client {
-  id: string;
-  assignedUserId?: string;
-  createdBy?: string;
-  name: string;
-  // Add other client properties as needed
-}
-
-interface Farmer {
-  id: string;
-  assignedUserId?: string;
-  createdBy?: string;
-  name: string;
-  // Add other farmer properties as needed
-}
 
 const UserManagement: React.FC = () => {
-  const { users, hasPermission, currentUser } = useAuth();
+  const { users, hasPermission, currentUser, logout } = useAuth();
   
   const [localUsers, setLocalUsers] = useState<User[]>([]);
   const [roles, setRoles] = useState<Role[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [lastRoleTimestamp, setLastRoleTimestamp] = useState<string>('');
   
   // Modal states
   const [isUserModalOpen, setIsUserModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
-  const [isReassignModalOpen, setIsReassignModalOpen] = useState(false);
+  const [isResetModalOpen, setIsResetModalOpen] = useState(false);
+  const [twoFactorResetUser, setTwoFactorResetUser] = useState<User | null>(null);
+
+  // Login security
+  const lockouts = useRepository(accountLockoutRepository);
+  const loginAttempts = useRepository(loginAttemptRepository);
+  const recentAttempts = useMemo(() => [...loginAttempts].reverse().slice(0, 25), [loginAttempts]);
+  const accessDenials = useRepository(accessDenialRepository);
+  const recentDenials = useMemo(() => [...accessDenials].reverse().slice(0, 25), [accessDenials]);
+
+  // Organisation
+  const teams = useRepository(teamRepository);
+  const regions = useRepository(regionRepository);
   
   // Editing states
   const [editingUser, setEditingUser] = useState<string | null>(null);
   const [userToDelete, setUserToDelete] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
+  const [issuedReset, setIssuedReset] = useState<(IssuedResetToken & { userName: string }) | null>(null);
   
-  // Reassignment states
-  const [userAssignments, setUserAssignments] = useState<{
-    clients: Client[];
-    farmers: Farmer[];
-  }>({ clients: [], farmers: [] });
-  const [reassignToUserId, setReassignToUserId] = useState<string>('');
+  // Reassignment wizard - opened when the user being deleted still has work assigned
+  const [reassigningUser, setReassigningUser] = useState<User | null>(null);
+  const [assignedRecords, setAssignedRecords] = useState<AssignedRecord[]>([]);
   
   // Form data
   const [userData, setUserData] = useState({
@@ -100,163 +108,88 @@ const UserManagement: React.FC = () => {
     password: '',
     roleId: '',
     status: 'active' as 'active' | 'inactive',
+    mustChangePassword: false,
+    supervisorId: NO_SUPERVISOR,
+    teamId: NO_TEAM,
   });
 
-  // Load data from localStorage
+  // Load data from the repositories
   useEffect(() => {
     loadUsers();
     loadRoles();
   }, []);
 
-  // Enhanced role synchronization with multiple event listeners
+  // Keep users and roles in sync with changes from RoleManagement and other tabs
   useEffect(() => {
-    const handleRoleUpdates = () => {
-      console.log('Role update event received in UserManagement');
-      loadRoles();
-    };
+    const unsubscribeUsers = userRepository.subscribe(setLocalUsers);
+    const unsubscribeRoles = roleRepository.subscribe(setRoles);
 
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'hdf_roles') {
-        console.log('Storage change detected for roles');
-        loadRoles();
-      }
-      if (e.key === 'hdf_users') {
-        loadUsers();
-      }
+    return () => {
+      unsubscribeUsers();
+      unsubscribeRoles();
     };
+  }, []);
 
-    const handleRoleChanged = () => {
-      console.log('Role changed event received');
-      loadRoles();
-    };
+  const loadUsers = () => {
+    setLocalUsers(userRepository.list());
+  };
 
-    // Multiple event listeners for maximum compatibility
-    window.addEventListener('rolesUpdated', handleRoleUpdates);
-    window.addEventListener('storage', handleStorageChange);
-    window.addEventListener('rolesChanged', handleRoleChanged);
-    
-    // Aggressive polling with timestamp checking
-    const roleCheckInterval = setInterval(() => {
-      const currentTimestamp = localStorage.getItem('hdf_roles_timestamp');
-      if (currentTimestamp && currentTimestamp !== lastRoleTimestamp) {
-        console.log('Timestamp change detected, reloading roles');
-        setLastRoleTimestamp(currentTimestamp);
-        loadRoles();
-      }
-    }, 200); // Check every 200ms
+  const loadRoles = () => {
+    setRoles(roleRepository.list());
+  };
 
-    return () => {
-      window.removeEventListener('rolesUpdated', handleRoleUpdates);
-      window.removeEventListener('storage', handleStorageChange);
-      window.removeEventListener('rolesChanged', handleRoleChanged);
-      clearInterval(roleCheckInterval);
-    };
-  }, [lastRoleTimestamp]);
+  // Save users function
+  const saveUsers = (updatedUsers: User[]) => {
+    userRepository.saveAll(updatedUsers);
+    setLocalUsers(updatedUsers);
+  };
 
-  const loadUsers = () => {
-    try {
-      const savedUsers = localStorage.getItem('hdf_users');
-      if (savedUsers) {
-        const parsedUsers = JSON.parse(savedUsers);
-        setLocalUsers(Array.isArray(parsedUsers) ? parsedUsers : []);
-      }
-    } catch (error) {
-      console.error('Error loading users:', error);
-      setLocalUsers([]);
+  // Restore the shipped demo users, roles and teams; admin-created accounts are discarded
+  const handleResetDemoData = async () => {
+    await resetDemoData();
+    setIsResetModalOpen(false);
+    toast.success('Demo users, roles and teams have been restored');
+
+    // The signed-in account may not exist in the demo set
+    if (!defaultUsers.some(u => u.id === currentUser?.id)) {
+      logout();
     }
   };
 
-  const loadRoles = () => {
+  const handleGenerateResetLink = async (user: User) => {
     try {
-      const savedRoles = localStorage.getItem('hdf_roles');
-      if (savedRoles) {
-        const parsedRoles = JSON.parse(savedRoles);
-        const rolesArray = Array.isArray(parsedRoles) ? parsedRoles : [];
-        console.log('Roles loaded in UserManagement:', rolesArray.length);
-        setRoles(rolesArray);
-        
-        // Update timestamp tracker
-        const timestamp = localStorage.getItem('hdf_roles_timestamp');
-        if (timestamp) {
-          setLastRoleTimestamp(timestamp);
-        }
+      const issued = await issueResetToken(user, currentUser?.id || '');
+      setIssuedReset({ ...issued, userName: user.name });
+      if (issued.delivered) {
+        toast.success(`Password reset link sent to ${user.name}`);
       }
     } catch (error) {
-      console.error('Error loading roles:', error);
-      setRoles([]);
+      console.error('Error generating reset link:', error);
+      toast.error('Failed to generate reset link');
     }
   };
 
-  // Save users function
-  const saveUsers = (updatedUsers: User[]) => {
+  const handleCopyResetLink = async () => {
+    if (!issuedReset) return;
     try {
-      localStorage.setItem('hdf_users', JSON.stringify(updatedUsers));
-      setLocalUsers(updatedUsers);
-      
-      // Trigger a custom event to notify AuthContext
-      window.dispatchEvent(new CustomEvent('usersUpdated', { 
-        detail: updatedUsers 
-      }));
+      await navigator.clipboard.writeText(issuedReset.resetLink);
+      toast.success('Reset link copied to clipboard');
     } catch (error) {
-      console.error('Error saving users:', error);
+      toast.error('Could not copy the link - select and copy it manually');
     }
   };
 
-  // Reassign clients and farmers to another user
-  const reassignUserData = (fromUserId: string, toUserId: string) => {
-    try {
-      let clientsReassigned = 0;
-      let farmersReassigned = 0;
-
-      // Reassign clients - check both assignedUserId and createdBy fields
-      const savedClients = localStorage.getItem('hdf_clients');
-      if (savedClients) {
-        const clients: Client[] = JSON.parse(savedClients);
-        const updatedClients = clients.map(client => {
-          if (client.assignedUserId === fromUserId || client.createdBy === fromUserId) {
-            clientsReassigned++;
-            return { 
-              ...client, 
-              assignedUserId: toUserId,
-              createdBy: toUserId,
-              updatedAt: new Date().toISOString() 
-            };
-          }
-          return client;
-        });
-        localStorage.setItem('hdf_clients', JSON.stringify(updatedClients));
-      }
-
-      // Reassign farmers - check both assignedUserId and createdBy fields
-      const savedFarmers = localStorage.getItem('hdf_farmers');
-      if (savedFarmers) {
-        const farmers: Farmer[] = JSON.parse(savedFarmers);
-        const updatedFarmers = farmers.map(farmer => {
-          if (farmer.assignedUserId === fromUserId || farmer.createdBy === fromUserId) {
-            farmersReassigned++;
-            return { 
-              ...farmer, 
-              assignedUserId: toUserId,
-              createdBy: toUserId,
-              updatedAt: new Date().toISOString() 
-            };
-          }
-          return farmer;
-        });
-        localStorage.setItem('hdf_farmers', JSON.stringify(updatedFarmers));
-      }
-
-      console.log(`Reassigned ${clientsReassigned} clients and ${farmersReassigned} farmers`);
-
-      // Trigger events to notify other components
-      window.dispatchEvent(new CustomEvent('clientsUpdated'));
-      window.dispatchEvent(new CustomEvent('farmersUpdated'));
+  // For users who lost their authenticator and their recovery codes
+  const handleConfirmTwoFactorReset = () => {
+    if (!twoFactorResetUser) return;
+    disableTwoFactor(twoFactorResetUser.id);
+    toast.success(`Two-factor authentication reset for ${twoFactorResetUser.name}`);
+    setTwoFactorResetUser(null);
+  };
 
-      return { clientsReassigned, farmersReassigned };
-    } catch (error) {
-      console.error('Error reassigning user data:', error);
-      return { clientsReassigned: 0, farmersReassigned: 0 };
-    }
+  const handleClearLockout = (email: string) => {
+    clearLockout(email);
+    toast.success(`Login restrictions cleared for ${email}`);
   };
 
   // Filter users
@@ -286,20 +219,12 @@ const UserManagement: React.FC = () => {
     return filtered;
   }, [roles]);
 
-  // Get active users for reassignment (excluding the user being deleted and current user)
-  const availableUsersForReassignment = useMemo(() => {
-    return localUsers.filter(user => 
-      user.id !== userToDelete && 
-      user.id !== currentUser?.id && 
-      user.status === 'active'
-    );
-  }, [localUsers, userToDelete, currentUser]);
+  const getTeamName = (teamId?: string) => teams.find(t => t.id === teamId)?.name;
 
   // User handlers
   const handleAddUser = () => {
-    // Force refresh roles before opening modal
+    // Refresh roles before opening modal
     loadRoles();
-    setTimeout(() => loadRoles(), 100); // Double check
     
     setEditingUser(null);
     setUserData({
@@ -308,14 +233,16 @@ const UserManagement: React.FC = () => {
       password: '',
       roleId: '',
       status: 'active',
+      mustChangePassword: false,
+      supervisorId: NO_SUPERVISOR,
+      teamId: NO_TEAM,
     });
     setIsUserModalOpen(true);
   };
 
   const handleEditUser = (userId: string) => {
-    // Force refresh roles before opening modal
+    // Refresh roles before opening modal
     loadRoles();
-    setTimeout(() => loadRoles(), 100); // Double check
     
     const user = localUsers.find(u => u.id === userId);
     if (user) {
@@ -323,9 +250,13 @@ const UserManagement: React.FC = () => {
       setUserData({
         name: user.name,
         email: user.email,
-        password: user.password,
+        // Stored passwords are hashed; leaving this blank keeps the current one
+        password: '',
         roleId: user.roleId,
         status: user.status,
+        mustChangePassword: !!user.mustChangePassword,
+        supervisorId: user.supervisorId || NO_SUPERVISOR,
+        teamId: user.teamId || NO_TEAM,
       });
       setIsUserModalOpen(true);
     }
@@ -341,8 +272,8 @@ const UserManagement: React.FC = () => {
     toast.success('Password generated successfully');
   };
 
-  const handleSubmitUser = () => {
-    if (!userData.name || !userData.email || !userData.password || !userData.roleId) {
+  const handleSubmitUser = async () => {
+    if (!userData.name || !userData.email || (!editingUser && !userData.password) || !userData.roleId) {
       toast.error('Please fill in all required fields');
       return;
     }
@@ -365,8 +296,8 @@ const UserManagement: React.FC = () => {
       return;
     }
 
-    // Password validation
-    if (userData.password.length < 6) {
+    // Password validation (blank on edit means unchanged)
+    if (userData.password && userData.password.length < 6) {
       toast.error('Password must be at least 6 characters long');
       return;
     }
@@ -379,14 +310,29 @@ const UserManagement: React.FC = () => {
       return;
     }
 
+    // A user can't report to themselves or to anyone below them
+    if (editingUser && userData.supervisorId !== NO_SUPERVISOR &&
+        getTeamMemberIds(editingUser, localUsers, teams).has(userData.supervisorId)) {
+      toast.error('A user cannot report to themselves or to someone in their own team');
+      return;
+    }
+
     const now = new Date().toISOString();
+    const { password, supervisorId, teamId, ...fields } = userData;
+    const profile = {
+      ...fields,
+      supervisorId: supervisorId === NO_SUPERVISOR ? undefined : supervisorId,
+      teamId: teamId === NO_TEAM ? undefined : teamId,
+    };
+    const passwordHash = password ? await hashPassword(password) : undefined;
     
     if (editingUser) {
       const updatedUsers = localUsers.map(user =>
         user.id === editingUser
           ? {
               ...user,
-              ...userData,
+              ...profile,
+              ...(passwordHash ? { password: passwordHash } : {}),
               updatedAt: now
             }
           : user
@@ -396,7 +342,8 @@ const UserManagement: React.FC = () => {
     } else {
       const newUser: User = {
         id: `user_${Date.now()}`,
-        ...userData,
+        ...profile,
+        password: passwordHash,
         createdAt: now,
         updatedAt: now,
       };
@@ -406,129 +353,60 @@ const UserManagement: React.FC = () => {
     setIsUserModalOpen(false);
   };
 
-  // COMPLETELY REWRITTEN DELETE HANDLER - Now checks both assignedUserId AND createdBy
+  // Users with assigned work go through the reassignment wizard; the rest get a plain confirmation
   const handleDeleteUser = (userId: string) => {
     // Prevent deleting current user
     if (userId === currentUser?.id) {
       toast.error('You cannot delete your own account');
       return;
     }
-    
-    console.log('=== DELETE USER PROCESS STARTED ===');
-    console.log('User ID to delete:', userId);
-    
-    // Check for client assignments - check BOTH assignedUserId AND createdBy
-    let userClients: Client[] = [];
-    try {
-      const savedClients = localStorage.getItem('hdf_clients');
-      console.log('Raw clients data:', savedClients);
-      
-      if (savedClients) {
-        const allClients: Client[] = JSON.parse(savedClients);
-        userClients = allClients.filter(client => 
-          client.assignedUserId === userId || client.createdBy === userId
-        );
-        console.log('Found clients for user:', userClients.length, userClients);
-      }
-    } catch (error) {
-      console.error('Error loading clients:', error);
-    }
-    
-    // Check for farmer assignments - check BOTH assignedUserId AND createdBy
-    let userFarmers: Farmer[] = [];
-    try {
-      const savedFarmers = localStorage.getItem('hdf_farmers');
-      console.log('Raw farmers data:', savedFarmers);
-      
-      if (savedFarmers) {
-        const allFarmers: Farmer[] = JSON.parse(savedFarmers);
-        userFarmers = allFarmers.filter(farmer => 
-          farmer.assignedUserId === userId || farmer.createdBy === userId
-        );
-        console.log('Found farmers for user:', userFarmers.length, userFarmers);
-      }
-    } catch (error) {
-      console.error('Error loading farmers:', error);
-    }
-    
-    const hasAssignments = userClients.length > 0 || userFarmers.length > 0;
-    
-    console.log('=== ASSIGNMENT CHECK RESULTS ===');
-    console.log('Clients assigned/created:', userClients.length);
-    console.log('Farmers assigned/created:', userFarmers.length);
-    console.log('Has assignments:', hasAssignments);
-    
-    // Set the user to delete and assignments
-    setUserToDelete(userId);
-    setUserAssignments({
-      clients: userClients,
-      farmers: userFarmers
-    });
-    
-    if (hasAssignments) {
-      console.log('Opening REASSIGNMENT modal');
-      setIsReassignModalOpen(true);
-      toast.info(`User has ${userClients.length} clients and ${userFarmers.length} farmers that need reassignment`);
+
+    const user = localUsers.find(u => u.id === userId);
+    if (!user) return;
+
+    const records = collectAssignedRecords(userId);
+    if (records.length > 0) {
+      setAssignedRecords(records);
+      setReassigningUser(user);
+      toast.info(`${user.name} has ${records.length} assigned records that need a new owner`);
     } else {
-      console.log('Opening DELETE CONFIRMATION modal');
+      setUserToDelete(userId);
       setIsDeleteModalOpen(true);
     }
-    
-    console.log('=== DELETE USER PROCESS COMPLETED ===');
   };
 
   const handleConfirmDelete = () => {
     if (userToDelete) {
       const userToDeleteData = localUsers.find(u => u.id === userToDelete);
-      const updatedUsers = localUsers.filter(user => user.id !== userToDelete);
-      saveUsers(updatedUsers);
-      toast.success(`User "${userToDeleteData?.name}" deleted successfully`);
+      moveToRecycleBin('user', userToDelete, currentUser?.id || '');
+      loadUsers();
+      toast.success(`User "${userToDeleteData?.name}" moved to the recycle bin`);
       setIsDeleteModalOpen(false);
       setUserToDelete(null);
     }
   };
 
-  const handleConfirmReassignAndDelete = () => {
-    if (!userToDelete) {
-      toast.error('No user selected for deletion');
-      return;
-    }
+  const handleCloseReassignment = () => {
+    setReassigningUser(null);
+    setAssignedRecords([]);
+  };
 
-    const hasAssignments = userAssignments.clients.length > 0 || userAssignments.farmers.length > 0;
-    
-    if (hasAssignments) {
-      if (!reassignToUserId) {
-        toast.error('Please select a user to reassign the clients and farmers to');
-        return;
-      }
-      
-      console.log('Starting reassignment process...');
-      console.log('From user:', userToDelete);
-      console.log('To user:', reassignToUserId);
-      console.log('Clients to reassign:', userAssignments.clients.length);
-      console.log('Farmers to reassign:', userAssignments.farmers.length);
-      
-      // Reassign all clients and farmers
-      const result = reassignUserData(userToDelete, reassignToUserId);
-      
-      const reassignedUser = localUsers.find(u => u.id === reassignToUserId);
-      const userToDeleteData = localUsers.find(u => u.id === userToDelete);
-      
-      toast.success(`Successfully reassigned ${result.clientsReassigned} clients and ${result.farmersReassigned} farmers to ${reassignedUser?.name}`);
+  const handleUndoReassignment = (batchId: string) => {
+    const result = undoReassignment(batchId, currentUser?.id || '');
+    if (!result) {
+      toast.error('This reassignment can no longer be undone');
+      return;
     }
+    toast.success(result.skipped > 0
+      ? `Restored ${result.restored} records; ${result.skipped} had changed since and were left as they are`
+      : `Restored ${result.restored} records`);
+  };
 
-    // Delete the user
-    const userToDeleteData = localUsers.find(u => u.id === userToDelete);
-    const updatedUsers = localUsers.filter(user => user.id !== userToDelete);
-    saveUsers(updatedUsers);
-    
-    toast.success(`User "${userToDeleteData?.name}" deleted successfully`);
-    
-    // Reset all states
-    setIsReassignModalOpen(false);
-    setUserToDelete(null);
-    setReassignToUserId('');
-    setUserAssignments({ clients: [], farmers: [] });
+  const handleReassignmentComplete = (batch: ReassignmentBatch) => {
+    toast.success(`Reassigned ${batch.changes.length} records and deleted "${batch.fromUserName}"`, {
+      action: { label: 'Undo', onClick: () => handleUndoReassignment(batch.id) },
+    });
+    handleCloseReassignment();
   };
 
   const handleToggleStatus = (userId: string) => {
@@ -561,7 +439,7 @@ const UserManagement: React.FC = () => {
     {
       key: 'email',
       title: 'Email',
-      width: '25%',
+      width: '20%',
     },
     {
       key: 'roleId',
@@ -573,6 +451,16 @@ const UserManagement: React.FC = () => {
         </Badge>
       ),
     },
+    {
+      key: 'teamId',
+      title: 'Team',
+      width: '10%',
+      render: (teamId: unknown) => (
+        getTeamName(teamId as string | undefined)
+          ? <Badge variant="outline">{getTeamName(teamId as string | undefined)}</Badge>
+          : <span className="text-sm text-gray-400">-</span>
+      ),
+    },
     {
       key: 'status',
       title: 'Status',
@@ -597,7 +485,7 @@ const UserManagement: React.FC = () => {
     {
       key: 'createdAt',
       title: 'Created',
-      width: '15%',
+      width: '10%',
       render: (createdAt: unknown) => (
         <span className="text-sm text-gray-500">
           {new Date(String(createdAt)).toLocaleDateString()}
@@ -618,6 +506,26 @@ const UserManagement: React.FC = () => {
           >
             <Edit className="h-4 w-4" />
           </Button>
+          {hasPermission('user_update') && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleGenerateResetLink(record)}
+              title="Generate Password Reset Link"
+            >
+              <KeyRound className="h-4 w-4" />
+            </Button>
+          )}
+          {hasPermission('user_update') && isTwoFactorEnabled(record) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setTwoFactorResetUser(record)}
+              title="Reset Two-Factor Authentication"
+            >
+              <Smartphone className="h-4 w-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -655,6 +563,12 @@ const UserManagement: React.FC = () => {
           <h1 className="text-2xl font-bold text-gray-900">User Management</h1>
           <p className="text-gray-600">Manage system users and their access</p>
         </div>
+        {hasPermission('user_delete') && hasPermission('role_delete') && (
+          <Button variant="outline" onClick={() => setIsResetModalOpen(true)}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset Demo Data
+          </Button>
+        )}
       </div>
 
       {/* Statistics */}
@@ -699,6 +613,159 @@ const UserManagement: React.FC = () => {
         emptyMessage="No users found"
       />
 
+      {/* Teams & Regions */}
+      <TeamsAndRegions users={localUsers} canEdit={hasPermission('user_update')} />
+
+      {/* Undo window for recent reassignments */}
+      {hasPermission('user_delete') && (
+        <RecentReassignments onUndo={handleUndoReassignment} />
+      )}
+
+      {/* Temporary Access */}
+      {hasPermission('user_update') && (
+        <TemporaryAccess users={localUsers} currentUserId={currentUser?.id || ''} />
+      )}
+
+      {/* Login Security */}
+      {hasPermission('user_update') && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Failed Logins & Lockouts
+              </CardTitle>
+              <CardDescription>
+                Accounts are locked after {MAX_FAILED_ATTEMPTS} failed attempts in a row
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {lockouts.length === 0 ? (
+                <p className="text-sm text-gray-500">No failed logins recorded.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Failures</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lockouts.map(lockout => {
+                      const isLocked = lockout.lockedUntil && new Date(lockout.lockedUntil) > new Date();
+                      return (
+                        <TableRow key={lockout.id}>
+                          <TableCell className="text-sm">{lockout.id}</TableCell>
+                          <TableCell>{lockout.failedCount}</TableCell>
+                          <TableCell>
+                            {isLocked ? (
+                              <Badge variant="destructive">
+                                Locked until {new Date(lockout.lockedUntil).toLocaleTimeString()}
+                              </Badge>
+                            ) : (
+                              <Badge variant="outline">Throttled</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => handleClearLockout(lockout.id)}>
+                              <Unlock className="h-4 w-4 mr-1" />
+                              Clear
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Recent Login Attempts</CardTitle>
+              <CardDescription>Last {recentAttempts.length} attempts with the device they came from</CardDescription>
+            </CardHeader>
+            <CardContent className="max-h-96 overflow-y-auto">
+              {recentAttempts.length === 0 ? (
+                <p className="text-sm text-gray-500">No login attempts recorded.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead>Device</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recentAttempts.map(attempt => (
+                      <TableRow key={attempt.id}>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {new Date(attempt.timestamp).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-xs">{attempt.email}</TableCell>
+                        <TableCell>
+                          <Badge variant={attempt.success ? 'default' : 'destructive'} className="text-xs">
+                            {attempt.success ? 'Success' : attempt.reason?.replace(/_/g, ' ') || 'Failed'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-gray-500 max-w-[180px] truncate" title={attempt.userAgent}>
+                          {attempt.userAgent}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <ShieldX className="h-4 w-4" />
+                Blocked Page Access
+              </CardTitle>
+              <CardDescription>Pages users tried to open without the required permissions</CardDescription>
+            </CardHeader>
+            <CardContent className="max-h-96 overflow-y-auto">
+              {recentDenials.length === 0 ? (
+                <p className="text-sm text-gray-500">No blocked access recorded.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Page</TableHead>
+                      <TableHead>Required</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {recentDenials.map(denial => (
+                      <TableRow key={denial.id}>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {new Date(denial.timestamp).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {localUsers.find(u => u.id === denial.userId)?.name || denial.userId}
+                        </TableCell>
+                        <TableCell className="text-xs font-mono">{denial.path}</TableCell>
+                        <TableCell className="text-xs font-mono">{denial.requiredPermissions.join(', ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* User Modal */}
       <Dialog open={isUserModalOpen} onOpenChange={setIsUserModalOpen}>
         <DialogContent className="sm:max-w-[500px]">
@@ -734,7 +801,7 @@ const UserManagement: React.FC = () => {
               />
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="user-password" className="text-right">Password *</Label>
+              <Label htmlFor="user-password" className="text-right">Password {!editingUser && '*'}</Label>
               <div className="col-span-3 flex gap-2">
                 <div className="relative flex-1">
                   <Input
@@ -742,7 +809,7 @@ const UserManagement: React.FC = () => {
                     type={showPassword ? "text" : "password"}
                     value={userData.password}
                     onChange={(e) => setUserData({ ...userData, password: e.target.value })}
-                    placeholder="Enter password (min 6 characters)"
+                    placeholder={editingUser ? "Leave blank to keep current" : "Enter password (min 6 characters)"}
                   />
                   <Button
                     type="button"
@@ -771,10 +838,8 @@ const UserManagement: React.FC = () => {
                 onValueChange={(value) => setUserData({ ...userData, roleId: value })}
                 onOpenChange={(open) => {
                   if (open) {
-                    // Force refresh roles when dropdown opens
-                    console.log('Role dropdown opened, refreshing roles...');
+                    // Refresh roles when dropdown opens
                     loadRoles();
-                    setTimeout(() => loadRoles(), 50);
                   }
                 }}
               >
@@ -796,6 +861,44 @@ const UserManagement: React.FC = () => {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="user-supervisor" className="text-right">Reports To</Label>
+              <Select
+                value={userData.supervisorId}
+                onValueChange={(value) => setUserData({ ...userData, supervisorId: value })}
+              >
+                <SelectTrigger id="user-supervisor" className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SUPERVISOR}>No supervisor</SelectItem>
+                  {localUsers
+                    .filter(u => u.id !== editingUser && u.status === 'active')
+                    .map(u => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.name} ({getRoleName(u.roleId)})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="user-team" className="text-right">Team</Label>
+              <Select
+                value={userData.teamId}
+                onValueChange={(value) => setUserData({ ...userData, teamId: value })}
+              >
+                <SelectTrigger id="user-team" className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEAM}>No team</SelectItem>
+                  {teams.map(team => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="user-status" className="text-right">Status</Label>
               <Select
@@ -811,6 +914,19 @@ const UserManagement: React.FC = () => {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <div />
+              <div className="col-span-3 flex items-center space-x-2">
+                <Checkbox
+                  id="user-must-change-password"
+                  checked={userData.mustChangePassword}
+                  onCheckedChange={(checked) => setUserData({ ...userData, mustChangePassword: !!checked })}
+                />
+                <Label htmlFor="user-must-change-password" className="text-sm font-normal">
+                  Require password change at next login
+                </Label>
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsUserModalOpen(false)}>
@@ -823,162 +939,126 @@ const UserManagement: React.FC = () => {
         </DialogContent>
       </Dialog>
 
-      {/* Reassignment Modal */}
-      <Dialog open={isReassignModalOpen} onOpenChange={setIsReassignModalOpen}>
-        <DialogContent className="sm:max-w-[600px]">
+      {/* Reassignment Wizard */}
+      <ReassignmentWizard
+        user={reassigningUser}
+        records={assignedRecords}
+        users={localUsers}
+        teams={teams}
+        regions={regions}
+        currentUserId={currentUser?.id || ''}
+        onClose={handleCloseReassignment}
+        onComplete={handleReassignmentComplete}
+      />
+
+      {/* Delete Confirmation Modal */}
+      <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
+        <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
-              <UserPlus className="h-5 w-5 text-orange-600" />
-              ⚠️ User Has Assignments - Reassignment Required
+              <AlertTriangle className="h-5 w-5 text-red-600" />
+              Delete User (No Assignments)
             </DialogTitle>
             <DialogDescription>
-              This user has assigned clients and farmers. You must reassign them to another user before deletion to prevent data loss.
+              Are you sure you want to delete this user? This user has no assigned clients or farmers. The account can be restored from the recycle bin until it is purged.
             </DialogDescription>
           </DialogHeader>
-          
-          <div className="space-y-6 py-4">
-            {/* User being deleted info */}
-            <div className="bg-red-50 p-4 rounded-lg border border-red-200">
-              <h4 className="font-medium text-red-900 mb-2">User to Delete:</h4>
-              <p className="text-red-800 font-medium">
-                {localUsers.find(u => u.id === userToDelete)?.name} 
-                <span className="text-red-600 ml-2">({localUsers.find(u => u.id === userToDelete)?.email})</span>
+          <div className="py-4">
+            <div className="bg-green-50 p-3 rounded-lg border border-green-200">
+              <p className="text-green-800 text-sm">
+                ✅ Safe to delete - No client or farmer assignments found for this user.
               </p>
             </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => {
+              setIsDeleteModalOpen(false);
+              setUserToDelete(null);
+            }}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmDelete}>
+              🗑️ Delete User
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
-            {/* Current assignments summary */}
-            <div className="bg-gray-50 p-4 rounded-lg border">
-              <h4 className="font-medium text-gray-900 mb-3">📊 Current Assignments to Transfer:</h4>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="flex items-center gap-3 p-3 bg-blue-50 rounded-lg">
-                  <div className="w-4 h-4 bg-blue-500 rounded-full"></div>
-                  <div>
-                    <span className="font-medium text-blue-700">Clients:</span>
-                    <span className="font-bold text-blue-900 ml-2 text-lg">{userAssignments.clients.length}</span>
-                  </div>
-                </div>
-                <div className="flex items-center gap-3 p-3 bg-green-50 rounded-lg">
-                  <div className="w-4 h-4 bg-green-500 rounded-full"></div>
-                  <div>
-                    <span className="font-medium text-green-700">Farmers:</span>
-                    <span className="font-bold text-green-900 ml-2 text-lg">{userAssignments.farmers.length}</span>
-                  </div>
-                </div>
-              </div>
-              <div className="mt-3 p-2 bg-yellow-50 border border-yellow-200 rounded">
-                <p className="text-yellow-800 text-sm font-medium">
-                  ⚠️ Total: {userAssignments.clients.length + userAssignments.farmers.length} assignments must be transferred before deletion
-                </p>
-              </div>
-            </div>
-
-            {/* Reassignment selection */}
-            <div className="space-y-3">
-              <Label htmlFor="reassign-user" className="text-base font-medium text-gray-900">
-                🎯 Select User to Receive ALL Assignments *
-              </Label>
-              <Select
-                value={reassignToUserId}
-                onValueChange={setReassignToUserId}
-              >
-                <SelectTrigger className="w-full">
-                  <SelectValue placeholder="Choose a user to transfer all assignments to..." />
-                </SelectTrigger>
-                <SelectContent>
-                  {availableUsersForReassignment.length > 0 ? (
-                    availableUsersForReassignment.map(user => (
-                      <SelectItem key={user.id} value={user.id}>
-                        <div className="flex items-center gap-3 py-1">
-                          <div className="flex flex-col">
-                            <span className="font-medium">{user.name}</span>
-                            <span className="text-xs text-gray-500">{user.email}</span>
-                          </div>
-                          <Badge variant="outline" className="text-xs">
-                            {getRoleName(user.roleId)}
-                          </Badge>
-                        </div>
-                      </SelectItem>
-                    ))
-                  ) : (
-                    <SelectItem value="" disabled>
-                      ❌ No active users available for reassignment
-                    </SelectItem>
-                  )}
-                </SelectContent>
-              </Select>
+      {/* Password Reset Link Modal */}
+      <Dialog open={issuedReset !== null} onOpenChange={(open) => !open && setIssuedReset(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Password Reset Link
+            </DialogTitle>
+            <DialogDescription>
+              {issuedReset?.delivered
+                ? `The link was sent to ${issuedReset.userName} via ${issuedReset.notifier}.`
+                : `Share this one-time link with ${issuedReset?.userName} through a trusted channel.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input readOnly value={issuedReset?.resetLink || ''} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="sm" onClick={handleCopyResetLink} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
             </div>
-
-            {/* Transfer preview */}
-            {reassignToUserId && (
-              <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
-                <h5 className="font-medium text-blue-900 mb-3">📋 Transfer Preview:</h5>
-                <div className="flex items-center gap-2 text-sm flex-wrap">
-                  <span className="font-medium">Will transfer:</span>
-                  <span className="bg-blue-100 px-3 py-1 rounded-full text-blue-800 font-medium">
-                    {userAssignments.clients.length} clients
-                  </span>
-                  <span className="text-gray-500">+</span>
-                  <span className="bg-green-100 px-3 py-1 rounded-full text-green-800 font-medium">
-                    {userAssignments.farmers.length} farmers
-                  </span>
-                  <ArrowRight className="h-4 w-4 mx-2 text-blue-600" />
-                  <span className="font-bold text-blue-700">
-                    {availableUsersForReassignment.find(u => u.id === reassignToUserId)?.name}
-                  </span>
-                </div>
-              </div>
+            {issuedReset && (
+              <p className="text-xs text-gray-500">
+                Expires {new Date(issuedReset.expiresAt).toLocaleString()}. Generating a new link cancels this one.
+              </p>
             )}
           </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedReset(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
+      {/* Two-Factor Reset Confirmation Modal */}
+      <Dialog open={twoFactorResetUser !== null} onOpenChange={(open) => !open && setTwoFactorResetUser(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Smartphone className="h-5 w-5" />
+              Reset Two-Factor Authentication
+            </DialogTitle>
+            <DialogDescription>
+              {twoFactorResetUser?.name} will be able to sign in with just their password. If their role requires
+              two-factor authentication they will be asked to set it up again at the next sign-in.
+            </DialogDescription>
+          </DialogHeader>
           <DialogFooter>
-            <Button variant="outline" onClick={() => {
-              setIsReassignModalOpen(false);
-              setReassignToUserId('');
-              setUserToDelete(null);
-              setUserAssignments({ clients: [], farmers: [] });
-            }}>
+            <Button variant="outline" onClick={() => setTwoFactorResetUser(null)}>
               Cancel
             </Button>
-            <Button 
-              variant="destructive" 
-              onClick={handleConfirmReassignAndDelete}
-              disabled={!reassignToUserId}
-              className="bg-red-600 hover:bg-red-700"
-            >
-              🔄 Reassign & Delete User
+            <Button variant="destructive" onClick={handleConfirmTwoFactorReset}>
+              Reset Two-Factor
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
-      {/* Delete Confirmation Modal */}
-      <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
+      {/* Reset Demo Data Confirmation Modal */}
+      <Dialog open={isResetModalOpen} onOpenChange={setIsResetModalOpen}>
         <DialogContent className="sm:max-w-[425px]">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <AlertTriangle className="h-5 w-5 text-red-600" />
-              Delete User (No Assignments)
+              Reset Demo Data
             </DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this user? This user has no assigned clients or farmers. This action cannot be undone.
+              This replaces all users, roles and teams with the default demo accounts. Users, custom roles and teams created here will be removed. Clients, farmers and other records are not affected.
             </DialogDescription>
           </DialogHeader>
-          <div className="py-4">
-            <div className="bg-green-50 p-3 rounded-lg border border-green-200">
-              <p className="text-green-800 text-sm">
-                ✅ Safe to delete - No client or farmer assignments found for this user.
-              </p>
-            </div>
-          </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => {
-              setIsDeleteModalOpen(false);
-              setUserToDelete(null);
-            }}>
+            <Button variant="outline" onClick={() => setIsResetModalOpen(false)}>
               Cancel
             </Button>
-            <Button variant="destructive" onClick={handleConfirmDelete}>
-              🗑️ Delete User
+            <Button variant="destructive" onClick={handleResetDemoData}>
+              Reset Users & Roles
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useDataScope } from '@/hooks/useDataScope';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -7,6 +9,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import DataTable from '@/components/common/DataTable';
 import {
   Dialog,
   DialogContent,
@@ -16,57 +19,89 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Users, UserPlus, Edit, Trash2, Phone, Mail, MapPin, Calendar, AlertTriangle, Sprout, Search, ArrowRight, UserCheck } from 'lucide-react';
+import { Users, UserPlus, Edit, Trash2, Phone, Mail, MapPin, Calendar, AlertTriangle, Sprout, Search, ArrowRight, UserCheck, Upload, Copy, Download, LayoutGrid, Table } from 'lucide-react';
 import { toast } from 'sonner';
-
-interface Client {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  address: string;
-  area: string;
-  type: 'individual' | 'corporate';
-  status: 'active' | 'inactive';
-  registrationDate: string;
-  lastContact: string;
-  notes: string;
-  createdBy?: string; // User ID who created this client
-  assignedUserId?: string; // User ID assigned to this client
+import {
+  animalRepository,
+  clientRepository,
+  customFieldRepository,
+  farmerRepository,
+  fodderPurchaseRepository,
+  middlemanRepository,
+  regionRepository,
+  teamRepository,
+  userRepository,
+  veterinarianRepository,
+} from '@/lib/repositories';
+import type { AnimalHealthStatus, AnimalSpecies, Client, CustomFieldDefinition, Farmer, User } from '@/lib/repositories';
+import { findRegionForArea, rankReassignmentCandidates } from '@/lib/organisation';
+import { moveToRecycleBin } from '@/lib/recycleBin';
+import { exportRecordsCsv } from '@/lib/bulkImport';
+import type { ImportReportRow, ImportTarget } from '@/lib/bulkImport';
+import ImportWizard from '@/components/clients/ImportWizard';
+import { describeMatch, findDuplicateMatches } from '@/lib/duplicates';
+import type { DuplicateMatch } from '@/lib/duplicates';
+import type { MergeResult, MergeableType } from '@/lib/merge';
+import DuplicateMerge from '@/components/clients/DuplicateMerge';
+import CustomFieldInputs from '@/components/clients/CustomFieldInputs';
+import { useRepository } from '@/hooks/useRepository';
+import {
+  HEALTH_STATUS_LABELS,
+  HEALTH_STATUS_STYLES,
+  SPECIES_LABELS,
+  getAnimalLabel,
+  getLatestPurchase,
+  summariseAnimals,
+} from '@/lib/farmerProfile';
+import {
+  cleanCustomFieldValues,
+  formatCustomFieldValue,
+  getFieldsFor,
+  matchesCustomFields,
+  validateCustomFields,
+} from '@/lib/customFields';
+
+// Select items can't have an empty value
+const NO_VETERINARIAN = 'none';
+const NO_MIDDLEMAN = 'none';
+
+interface AnimalDraft {
+  species: AnimalSpecies;
+  tag: string;
+  healthStatus: AnimalHealthStatus;
 }
 
-interface Farmer {
-  id: string;
-  name: string;
-  phone: string;
-  address: string;
-  animalName: string;
-  consultDr: string;
-  drPhone: string;
-  middleMan: string;
-  middleManPhone: string;
-  fodder: string;
-  price: number;
-  registrationDate: string;
-  status: 'active' | 'inactive';
-  notes: string;
-  createdBy?: string; // User ID who created this farmer
-  assignedUserId?: string; // User ID assigned to this farmer
-}
+const emptyAnimalDraft: AnimalDraft = { species: 'cow', tag: '', healthStatus: 'healthy' };
 
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  status: 'active' | 'inactive';
-}
+type ViewMode = 'cards' | 'table';
+
+const downloadCsv = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 const ClientManagement: React.FC = () => {
-  const { hasPermission, user, roles } = useAuth();
+  const { hasPermission, user } = useAuth();
+  const scope = useDataScope();
   const [clients, setClients] = useState<Client[]>([]);
   const [farmers, setFarmers] = useState<Farmer[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const teams = useRepository(teamRepository);
+  const regions = useRepository(regionRepository);
+  const animals = useRepository(animalRepository);
+  const veterinarians = useRepository(veterinarianRepository);
+  const middlemen = useRepository(middlemanRepository);
+  const fodderPurchases = useRepository(fodderPurchaseRepository);
+  const customFieldDefinitions = useRepository(customFieldRepository);
+  const clientFields = getFieldsFor(customFieldDefinitions, 'client');
+  const farmerFields = getFieldsFor(customFieldDefinitions, 'farmer');
+  const [viewMode, setViewMode] = useState<ViewMode>('cards');
 
   // Modal states
   const [isClientModalOpen, setIsClientModalOpen] = useState(false);
@@ -82,6 +117,15 @@ const ClientManagement: React.FC = () => {
   // Reassignment states
   const [reassignToUserId, setReassignToUserId] = useState<string>('');
   const [hasRelatedData, setHasRelatedData] = useState(false);
+  const [importTarget, setImportTarget] = useState<ImportTarget | null>(null);
+  // Matches found when adding a record; the user can still save it anyway
+  const [duplicateWarning, setDuplicateWarning] = useState<{ type: MergeableType; matches: DuplicateMatch<Client | Farmer>[] } | null>(null);
+  const [mergeType, setMergeType] = useState<MergeableType | null>(null);
+  // Animals added in the farmer dialog, created when the farmer is saved
+  const [animalDrafts, setAnimalDrafts] = useState<AnimalDraft[]>([]);
+  const [animalDraft, setAnimalDraft] = useState<AnimalDraft>(emptyAnimalDraft);
+  // Custom field ID -> message, for the dialog that is open
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
 
   const [clientForm, setClientForm] = useState<Omit<Client, 'id' | 'registrationDate' | 'lastContact' | 'createdBy' | 'assignedUserId'>>({
     name: '',
@@ -92,24 +136,21 @@ const ClientManagement: React.FC = () => {
     type: 'individual',
     status: 'active',
     notes: '',
+    customFields: {},
   });
 
   const [farmerForm, setFarmerForm] = useState<Omit<Farmer, 'id' | 'registrationDate' | 'createdBy' | 'assignedUserId'>>({
     name: '',
     phone: '',
     address: '',
-    animalName: '',
-    consultDr: '',
-    drPhone: '',
-    middleMan: '',
-    middleManPhone: '',
-    fodder: '',
-    price: 0,
+    veterinarianId: undefined,
+    middlemanId: undefined,
     status: 'active',
     notes: '',
+    customFields: {},
   });
 
-  // Load data from localStorage on component mount
+  // Load data from the repositories on component mount
   useEffect(() => {
     loadClients();
     loadFarmers();
@@ -117,153 +158,32 @@ const ClientManagement: React.FC = () => {
   }, []);
 
   const loadClients = () => {
-    const savedClients = localStorage.getItem('hdf_clients');
-    if (savedClients) {
-      try {
-        const allClients = JSON.parse(savedClients);
-        setClients(Array.isArray(allClients) ? allClients : []);
-      } catch (error) {
-        console.error('Error loading clients:', error);
-        setClients([]);
-      }
-    } else {
-      setClients([]);
-    }
+    setClients(clientRepository.list());
   };
 
   const loadFarmers = () => {
-    const savedFarmers = localStorage.getItem('hdf_farmers');
-    if (savedFarmers) {
-      try {
-        const allFarmers = JSON.parse(savedFarmers);
-        setFarmers(Array.isArray(allFarmers) ? allFarmers : []);
-      } catch (error) {
-        console.error('Error loading farmers:', error);
-        setFarmers([]);
-      }
-    } else {
-      setFarmers([]);
-    }
+    setFarmers(farmerRepository.list());
   };
 
   const loadUsers = () => {
-    const savedUsers = localStorage.getItem('hdf_users');
-    if (savedUsers) {
-      try {
-        const allUsers = JSON.parse(savedUsers);
-        setUsers(Array.isArray(allUsers) ? allUsers : []);
-      } catch (error) {
-        console.error('Error loading users:', error);
-        setUsers([]);
-      }
-    } else {
-      setUsers([]);
-    }
+    setUsers(userRepository.list());
   };
 
   const saveClients = (updatedClients: Client[]) => {
-    localStorage.setItem('hdf_clients', JSON.stringify(updatedClients));
+    clientRepository.saveAll(updatedClients);
     setClients(updatedClients);
   };
 
   const saveFarmers = (updatedFarmers: Farmer[]) => {
-    localStorage.setItem('hdf_farmers', JSON.stringify(updatedFarmers));
+    farmerRepository.saveAll(updatedFarmers);
     setFarmers(updatedFarmers);
   };
 
-  // Get user role for permission checks
-  const getUserRole = () => {
-    if (!user || !roles) return null;
-    return roles.find(role => role.id === user.roleId);
-  };
-
-  // Check if user is admin
-  const isAdmin = () => {
-    const userRole = getUserRole();
-    return userRole?.name === 'Administrator' || user?.roleId === 'admin-role';
-  };
-
-  // Filter clients and farmers based on user permissions
-  const getAccessibleClients = () => {
-    if (!user) return [];
-
-    // Admin or users with view_all permission can see all
-    if (isAdmin() || hasPermission('client_view_all')) {
-      return clients;
-    }
-
-    // Otherwise, return clients created by user OR assigned to user
-    return clients.filter(client =>
-      client.createdBy === user.id || client.assignedUserId === user.id
-    );
-  };
-
-  const getAccessibleFarmers = () => {
-    if (!user) return [];
-
-    // Admin or users with view_all permission can see all
-    if (isAdmin() || hasPermission('farmer_view_all')) {
-      return farmers;
-    }
-
-    // Otherwise, return farmers created by user OR assigned to user
-    return farmers.filter(farmer =>
-      farmer.createdBy === user.id || farmer.assignedUserId === user.id
-    );
-  };
-
-  // Simplified permission checks - allow admin users to edit/delete everything
-  const canEditClient = (client: Client) => {
-    if (!user) return false;
-
-    // Admin users can edit everything
-    if (isAdmin()) return true;
-
-    // Regular users can edit their own or assigned items
-    return hasPermission('client_update') && (
-      client.createdBy === user.id ||
-      client.assignedUserId === user.id
-    );
-  };
-
-  const canDeleteClient = (client: Client) => {
-    if (!user) return false;
-
-    // Admin users can delete everything
-    if (isAdmin()) return true;
-
-    // Regular users can delete their own or assigned items
-    return hasPermission('client_delete') && (
-      client.createdBy === user.id ||
-      client.assignedUserId === user.id
-    );
-  };
-
-  const canEditFarmer = (farmer: Farmer) => {
-    if (!user) return false;
-
-    // Admin users can edit everything
-    if (isAdmin()) return true;
-
-    // Regular users can edit their own or assigned items
-    return hasPermission('client_update') && ( // Using client_update as fallback for farmers
-      farmer.createdBy === user.id ||
-      farmer.assignedUserId === user.id
-    );
-  };
-
-  const canDeleteFarmer = (farmer: Farmer) => {
-    if (!user) return false;
-
-    // Admin users can delete everything
-    if (isAdmin()) return true;
-
-    // Regular users can delete their own or assigned items
-    return hasPermission('client_delete') && ( // Using client_delete as fallback for farmers
-      farmer.createdBy === user.id ||
-      farmer.assignedUserId === user.id
-    );
-  };
+  // Record visibility and edit rights come from the shared scope policy (own / team / all)
+  const canEditClient = (client: Client) => scope.canUpdate('client', client);
+  const canDeleteClient = (client: Client) => scope.canDelete('client', client);
+  const canEditFarmer = (farmer: Farmer) => scope.canUpdate('farmer', farmer);
+  const canDeleteFarmer = (farmer: Farmer) => scope.canDelete('farmer', farmer);
 
   // Enhanced function to check if client/farmer has related data that needs reassignment
   const checkForRelatedData = (id: string, type: 'client' | 'farmer') => {
@@ -289,7 +209,7 @@ const ClientManagement: React.FC = () => {
 
   // Client management functions
   const handleAddClient = () => {
-    if (!isAdmin() && !hasPermission('client_create')) {
+    if (!hasPermission('client_create')) {
       toast.error('You do not have permission to create clients');
       return;
     }
@@ -303,7 +223,9 @@ const ClientManagement: React.FC = () => {
       type: 'individual',
       status: 'active',
       notes: '',
+      customFields: {},
     });
+    setCustomFieldErrors({});
     setIsClientModalOpen(true);
   };
 
@@ -324,7 +246,9 @@ const ClientManagement: React.FC = () => {
       type: client.type,
       status: client.status,
       notes: client.notes,
+      customFields: client.customFields || {},
     });
+    setCustomFieldErrors({});
     setIsClientModalOpen(true);
   };
 
@@ -356,7 +280,7 @@ const ClientManagement: React.FC = () => {
     }
   };
 
-  const submitClient = () => {
+  const submitClient = (allowDuplicate = false) => {
     if (!clientForm.name || !clientForm.email || !clientForm.phone) {
       toast.error('Please fill in all required fields');
       return;
@@ -369,12 +293,28 @@ const ClientManagement: React.FC = () => {
       return;
     }
 
+    const fieldErrors = validateCustomFields(clientFields, clientForm.customFields);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      toast.error(Object.values(fieldErrors)[0]);
+      return;
+    }
+    const customFields = cleanCustomFieldValues(clientFields, clientForm.customFields);
+
+    if (!editingClient && !allowDuplicate) {
+      const matches = findDuplicateMatches({ id: '', ...clientForm }, clients);
+      if (matches.length > 0) {
+        setDuplicateWarning({ type: 'client', matches });
+        return;
+      }
+    }
+
     const now = new Date().toISOString();
 
     if (editingClient) {
       const updatedClients = clients.map(client =>
         client.id === editingClient
-          ? { ...client, ...clientForm, lastContact: now }
+          ? { ...client, ...clientForm, customFields, lastContact: now }
           : client
       );
       saveClients(updatedClients);
@@ -382,6 +322,7 @@ const ClientManagement: React.FC = () => {
     } else {
       const newClient: Client = {
         ...clientForm,
+        customFields,
         id: `client-${Date.now()}`,
         registrationDate: now,
         lastContact: now,
@@ -398,7 +339,7 @@ const ClientManagement: React.FC = () => {
 
   // Farmer management functions
   const handleAddFarmer = () => {
-    if (!isAdmin() && !hasPermission('client_create')) {
+    if (!hasPermission('farmer_create')) {
       toast.error('You do not have permission to create farmers');
       return;
     }
@@ -407,16 +348,15 @@ const ClientManagement: React.FC = () => {
       name: '',
       phone: '',
       address: '',
-      animalName: '',
-      consultDr: '',
-      drPhone: '',
-      middleMan: '',
-      middleManPhone: '',
-      fodder: '',
-      price: 0,
+      veterinarianId: undefined,
+      middlemanId: undefined,
       status: 'active',
       notes: '',
+      customFields: {},
     });
+    setAnimalDrafts([]);
+    setAnimalDraft(emptyAnimalDraft);
+    setCustomFieldErrors({});
     setIsFarmerModalOpen(true);
   };
 
@@ -432,16 +372,15 @@ const ClientManagement: React.FC = () => {
       name: farmer.name,
       phone: farmer.phone,
       address: farmer.address,
-      animalName: farmer.animalName,
-      consultDr: farmer.consultDr,
-      drPhone: farmer.drPhone,
-      middleMan: farmer.middleMan,
-      middleManPhone: farmer.middleManPhone,
-      fodder: farmer.fodder,
-      price: farmer.price,
+      veterinarianId: farmer.veterinarianId,
+      middlemanId: farmer.middlemanId,
       status: farmer.status,
       notes: farmer.notes,
+      customFields: farmer.customFields || {},
     });
+    setAnimalDrafts([]);
+    setAnimalDraft(emptyAnimalDraft);
+    setCustomFieldErrors({});
     setIsFarmerModalOpen(true);
   };
 
@@ -473,18 +412,35 @@ const ClientManagement: React.FC = () => {
     }
   };
 
-  const submitFarmer = () => {
+  const submitFarmer = (allowDuplicate = false) => {
     if (!farmerForm.name || !farmerForm.phone) {
       toast.error('Please fill in required fields (Name and Phone)');
       return;
     }
 
+    const fieldErrors = validateCustomFields(farmerFields, farmerForm.customFields);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      toast.error(Object.values(fieldErrors)[0]);
+      return;
+    }
+    const customFields = cleanCustomFieldValues(farmerFields, farmerForm.customFields);
+
+    if (!editingFarmer && !allowDuplicate) {
+      const matches = findDuplicateMatches({ id: '', ...farmerForm }, farmers);
+      if (matches.length > 0) {
+        setDuplicateWarning({ type: 'farmer', matches });
+        return;
+      }
+    }
+
     const now = new Date().toISOString();
+    const farmerId = editingFarmer || `farmer-${Date.now()}`;
 
     if (editingFarmer) {
       const updatedFarmers = farmers.map(farmer =>
         farmer.id === editingFarmer
-          ? { ...farmer, ...farmerForm }
+          ? { ...farmer, ...farmerForm, customFields }
           : farmer
       );
       saveFarmers(updatedFarmers);
@@ -492,7 +448,8 @@ const ClientManagement: React.FC = () => {
     } else {
       const newFarmer: Farmer = {
         ...farmerForm,
-        id: `farmer-${Date.now()}`,
+        customFields,
+        id: farmerId,
         registrationDate: now,
         createdBy: user?.id || '',
         assignedUserId: user?.id || '',
@@ -502,24 +459,78 @@ const ClientManagement: React.FC = () => {
       toast.success('Farmer created successfully');
     }
 
+    if (animalDrafts.length > 0) {
+      animalRepository.saveAll([
+        ...animals,
+        ...animalDrafts.map((draft, index) => ({
+          ...draft,
+          id: `animal-${Date.now()}-${index}`,
+          farmerId,
+          notes: '',
+          createdAt: now,
+        })),
+      ]);
+    }
+
     setIsFarmerModalOpen(false);
   };
 
+  // Deleted clients and farmers go to the recycle bin, where they can be restored or purged
+  const moveTargetToRecycleBin = () => {
+    if (!deleteTarget) return;
+    moveToRecycleBin(deleteTarget.type, deleteTarget.id, user?.id || '');
+    if (deleteTarget.type === 'client') {
+      loadClients();
+    } else {
+      loadFarmers();
+    }
+  };
+
+  const handleImportComplete = (report: ImportReportRow[]) => {
+    if (importTarget === 'client') {
+      loadClients();
+    } else {
+      loadFarmers();
+    }
+    const imported = report.filter(row => row.outcome === 'imported').length;
+    const notImported = report.length - imported;
+    toast.success(`Imported ${imported} ${importTarget === 'client' ? 'client' : 'farmer'}(s)${notImported > 0 ? `; ${notImported} row(s) were not imported` : ''}`);
+  };
+
+  const handleSaveDespiteDuplicate = () => {
+    if (!duplicateWarning) return;
+    const type = duplicateWarning.type;
+    setDuplicateWarning(null);
+    if (type === 'client') {
+      submitClient(true);
+    } else {
+      submitFarmer(true);
+    }
+  };
+
+  // Merging edits the kept record and deletes the other one
+  const canMergeRecord = (record: Client | Farmer) => mergeType === 'client'
+    ? canEditClient(record as Client) && canDeleteClient(record as Client)
+    : canEditFarmer(record as Farmer) && canDeleteFarmer(record as Farmer);
+
+  const handleMerged = (result: MergeResult) => {
+    if (mergeType === 'client') {
+      loadClients();
+    } else {
+      loadFarmers();
+    }
+    const farmerRecords = mergeType === 'farmer' ? `, ${result.animals} animal(s), ${result.fodderPurchases} fodder purchase(s)` : '';
+    toast.success(`Records merged - ${result.visits} visit(s), ${result.complaints} complaint(s), ${result.tasks} task(s)${farmerRecords} and ${result.submissions} form submission(s) moved to the kept record`);
+  };
+
   const handleConfirmDelete = () => {
     if (!deleteTarget) return;
 
     console.log('=== DIRECT DELETE CONFIRMED ===');
     console.log('Deleting:', deleteTarget.type, deleteTarget.name);
 
-    if (deleteTarget.type === 'client') {
-      const updatedClients = clients.filter(c => c.id !== deleteTarget.id);
-      saveClients(updatedClients);
-      toast.success(`Client "${deleteTarget.name}" deleted successfully`);
-    } else {
-      const updatedFarmers = farmers.filter(f => f.id !== deleteTarget.id);
-      saveFarmers(updatedFarmers);
-      toast.success(`Farmer "${deleteTarget.name}" deleted successfully`);
-    }
+    moveTargetToRecycleBin();
+    toast.success(`${deleteTarget.type === 'client' ? 'Client' : 'Farmer'} "${deleteTarget.name}" moved to the recycle bin`);
 
     setIsDeleteModalOpen(false);
     setDeleteTarget(null);
@@ -542,20 +553,15 @@ const ClientManagement: React.FC = () => {
 
     // Simulate reassignment process
     if (hasRelatedData && reassignToUserId) {
+      // Nothing is moved yet, so the audit trail only records the deletion below
       const assignedUser = users.find(u => u.id === reassignToUserId);
       toast.success(`Related data successfully reassigned to ${assignedUser?.name}`);
     }
 
     // Delete the item
-    if (deleteTarget.type === 'client') {
-      const updatedClients = clients.filter(c => c.id !== deleteTarget.id);
-      saveClients(updatedClients);
-    } else {
-      const updatedFarmers = farmers.filter(f => f.id !== deleteTarget.id);
-      saveFarmers(updatedFarmers);
-    }
+    moveTargetToRecycleBin();
 
-    toast.success(`${deleteTarget.type === 'client' ? 'Client' : 'Farmer'} "${deleteTarget.name}" deleted successfully after data reassignment`);
+    toast.success(`${deleteTarget.type === 'client' ? 'Client' : 'Farmer'} "${deleteTarget.name}" moved to the recycle bin after data reassignment`);
 
     // Reset all states
     setIsReassignModalOpen(false);
@@ -573,15 +579,9 @@ const ClientManagement: React.FC = () => {
     console.log('User chose to permanently lose all related data');
 
     // Delete the item without reassignment
-    if (deleteTarget.type === 'client') {
-      const updatedClients = clients.filter(c => c.id !== deleteTarget.id);
-      saveClients(updatedClients);
-    } else {
-      const updatedFarmers = farmers.filter(f => f.id !== deleteTarget.id);
-      saveFarmers(updatedFarmers);
-    }
+    moveTargetToRecycleBin();
 
-    toast.warning(`${deleteTarget.type === 'client' ? 'Client' : 'Farmer'} "${deleteTarget.name}" deleted - Related data permanently lost as requested`);
+    toast.warning(`${deleteTarget.type === 'client' ? 'Client' : 'Farmer'} "${deleteTarget.name}" moved to the recycle bin - Related data was not reassigned`);
 
     // Reset all states
     setIsReassignModalOpen(false);
@@ -605,12 +605,19 @@ const ClientManagement: React.FC = () => {
 
 
   // Get accessible clients and farmers
-  const accessibleClients = getAccessibleClients();
-  const accessibleFarmers = getAccessibleFarmers();
-
-  // Get available users for reassignment (excluding current user)
-  const availableUsersForReassignment = users.filter(u =>
-    u.id !== user?.id && u.status === 'active'
+  const accessibleClients = scope.filterVisible('client', clients);
+  const accessibleFarmers = scope.filterVisible('farmer', farmers);
+
+  // Get available users for reassignment (excluding current user), own team and
+  // the team covering the client's area first
+  const deletedClientArea = deleteTarget?.type === 'client'
+    ? clients.find(c => c.id === deleteTarget.id)?.area
+    : undefined;
+  const availableUsersForReassignment = rankReassignmentCandidates(
+    users.filter(u => u.id !== user?.id && u.status === 'active'),
+    { teamId: user?.teamId, area: deletedClientArea },
+    teams,
+    regions
   );
 
   // Filter functions
@@ -619,18 +626,109 @@ const ClientManagement: React.FC = () => {
     client.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
     client.phone.includes(searchTerm) ||
     (client.area && client.area.toLowerCase().includes(searchTerm.toLowerCase())) ||
-    client.address.toLowerCase().includes(searchTerm.toLowerCase())
+    client.address.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    matchesCustomFields(clientFields, client.customFields, searchTerm)
   );
 
+  const getFarmerAnimals = (farmerId: string) => animals.filter(animal => animal.farmerId === farmerId);
+  const getVeterinarian = (id?: string) => veterinarians.find(vet => vet.id === id);
+  const getMiddleman = (id?: string) => middlemen.find(middleman => middleman.id === id);
+
   const filteredFarmers = accessibleFarmers.filter(farmer =>
     farmer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     farmer.phone.includes(searchTerm) ||
-    farmer.animalName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    farmer.consultDr.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    farmer.middleMan.toLowerCase().includes(searchTerm.toLowerCase())
+    getFarmerAnimals(farmer.id).some(animal => getAnimalLabel(animal).toLowerCase().includes(searchTerm.toLowerCase())) ||
+    (getVeterinarian(farmer.veterinarianId)?.name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (getMiddleman(farmer.middlemanId)?.name || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+    matchesCustomFields(farmerFields, farmer.customFields, searchTerm)
+  );
+
+  const renderCustomFieldValues = (definitions: CustomFieldDefinition[], record: Client | Farmer) => {
+    const filled = definitions.filter(definition => formatCustomFieldValue(definition, record.customFields?.[definition.id]));
+    if (filled.length === 0) return null;
+    return (
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-2">
+        {filled.map(definition => (
+          <div key={definition.id} className="text-sm">
+            <span className="font-medium">{definition.label}:</span>{' '}
+            {formatCustomFieldValue(definition, record.customFields?.[definition.id])}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // The table view shows the main details plus the custom fields admins chose as columns
+  const getTableColumns = (type: 'client' | 'farmer') => [
+    {
+      key: 'name',
+      title: 'Name',
+      render: (value: string, record: Client | Farmer) => (
+        <Link to={`/${type === 'client' ? 'clients' : 'farmers'}/${record.id}`} className="font-medium text-blue-600 hover:underline">
+          {value}
+        </Link>
+      ),
+    },
+    { key: 'phone', title: 'Phone' },
+    ...(type === 'client' ? [{ key: 'email', title: 'Email' }, { key: 'area', title: 'Area' }] : [{ key: 'address', title: 'Address' }]),
+    {
+      key: 'status',
+      title: 'Status',
+      render: (value: string) => <Badge variant={value === 'active' ? 'default' : 'secondary'}>{value}</Badge>,
+    },
+    ...(type === 'client' ? clientFields : farmerFields)
+      .filter(definition => definition.showInTable)
+      .map(definition => ({
+        key: `custom:${definition.id}`,
+        title: definition.label,
+        render: (_: unknown, record: Client | Farmer) => formatCustomFieldValue(definition, record.customFields?.[definition.id]) || '-',
+      })),
+  ];
+
+  // DataTable sorts on plain fields, so the custom values are copied onto each row
+  const toTableRows = (definitions: CustomFieldDefinition[], records: (Client | Farmer)[]) =>
+    records.map(record => ({
+      ...record,
+      ...Object.fromEntries(definitions.map(definition => [
+        `custom:${definition.id}`,
+        formatCustomFieldValue(definition, record.customFields?.[definition.id]),
+      ])),
+    }));
+
+  const handleExport = (type: 'client' | 'farmer') => {
+    const records = type === 'client' ? filteredClients : filteredFarmers;
+    downloadCsv(exportRecordsCsv(type, records), `${type}s-${new Date().toISOString().split('T')[0]}.csv`);
+    toast.success(`Exported ${records.length} ${type}(s)`);
+  };
+
+  // The table has its own search box, so the shared one is hidden and cleared in table view
+  const switchView = (mode: ViewMode) => {
+    setViewMode(mode);
+    setSearchTerm('');
+  };
+
+  const viewToggle = (
+    <div className="flex rounded-md border">
+      <Button
+        variant={viewMode === 'cards' ? 'secondary' : 'ghost'}
+        size="sm"
+        onClick={() => switchView('cards')}
+        title="Card View"
+      >
+        <LayoutGrid className="h-4 w-4" />
+      </Button>
+      <Button
+        variant={viewMode === 'table' ? 'secondary' : 'ghost'}
+        size="sm"
+        onClick={() => switchView('table')}
+        title="Table View"
+      >
+        <Table className="h-4 w-4" />
+      </Button>
+    </div>
   );
 
-  if (!isAdmin() && !hasPermission('client_read')) {
+  if (!hasPermission('client_read')) {
     return (
       <div className="flex items-center justify-center h-64">
         <p className="text-gray-500">You don't have permission to access client and farmer management.</p>
@@ -648,17 +746,19 @@ const ClientManagement: React.FC = () => {
       </div>
 
       {/* Search */}
-      <div className="relative max-w-md">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-        <Input
-          placeholder="Search clients (name, email, phone, area, address) and farmers..."
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-          className="pl-10"
-        />
-      </div>
+      {viewMode === 'cards' && (
+        <div className="relative max-w-md">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            placeholder="Search clients (name, email, phone, area, address) and farmers..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      )}
 
-      <Tabs defaultValue="clients" className="space-y-4">
+      <Tabs defaultValue="clients" onValueChange={() => viewMode === 'table' && setSearchTerm('')} className="space-y-4">
         <TabsList>
           <TabsTrigger value="clients">Clients ({filteredClients.length})</TabsTrigger>
           <TabsTrigger value="farmers">Farmers ({filteredFarmers.length})</TabsTrigger>
@@ -668,22 +768,49 @@ const ClientManagement: React.FC = () => {
         <TabsContent value="clients" className="space-y-4">
           <div className="flex justify-between items-center">
             <h2 className="text-lg font-semibold">Client Management</h2>
-            {(isAdmin() || hasPermission('client_create')) && (
-              <Button onClick={handleAddClient}>
-                <UserPlus className="h-4 w-4 mr-2" />
-                Add Client
+            <div className="flex gap-2">
+              {viewToggle}
+              <Button variant="outline" onClick={() => handleExport('client')}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
               </Button>
-            )}
+              {hasPermission('client_update') && hasPermission('client_delete') && (
+                <Button variant="outline" onClick={() => setMergeType('client')}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Find Duplicates
+                </Button>
+              )}
+              {hasPermission('client_create') && (
+                <>
+                  <Button variant="outline" onClick={() => setImportTarget('client')}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                  <Button onClick={handleAddClient}>
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Add Client
+                  </Button>
+                </>
+              )}
+            </div>
           </div>
 
-          {filteredClients.length === 0 ? (
+          {viewMode === 'table' ? (
+            <DataTable
+              data={toTableRows(clientFields, filteredClients)}
+              columns={getTableColumns('client')}
+              searchPlaceholder="Search clients..."
+              onSearch={setSearchTerm}
+              emptyMessage="No clients found"
+            />
+          ) : filteredClients.length === 0 ? (
             <Card>
               <CardContent className="pt-6">
                 <div className="text-center py-8">
                   <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No clients found</h3>
                   <p className="text-gray-500 mb-4">Get started by adding your first client.</p>
-                  {(isAdmin() || hasPermission('client_create')) && (
+                  {hasPermission('client_create') && (
                     <Button onClick={handleAddClient}>
                       <UserPlus className="h-4 w-4 mr-2" />
                       Add First Client
@@ -699,7 +826,9 @@ const ClientManagement: React.FC = () => {
                   <CardHeader>
                     <div className="flex items-center justify-between">
                       <div>
-                        <CardTitle className="text-lg">{client.name}</CardTitle>
+                        <CardTitle className="text-lg">
+                          <Link to={`/clients/${client.id}`} className="hover:underline">{client.name}</Link>
+                        </CardTitle>
                         <div className="flex flex-wrap gap-2 mt-2">
                           <Badge variant="outline">
                             {client.type}
@@ -712,6 +841,11 @@ const ClientManagement: React.FC = () => {
                               Area: {client.area}
                             </Badge>
                           )}
+                          {findRegionForArea(client.area, regions) && (
+                            <Badge variant="outline">
+                              Region: {findRegionForArea(client.area, regions)?.name}
+                            </Badge>
+                          )}
                           {client.assignedUserId && client.assignedUserId !== client.createdBy && (
                             <Badge variant="secondary">
                               Assigned to: {users.find(u => u.id === client.assignedUserId)?.name || 'Unknown'}
@@ -771,6 +905,7 @@ const ClientManagement: React.FC = () => {
                         <p className="text-sm text-gray-600">{client.notes}</p>
                       </div>
                     )}
+                    {renderCustomFieldValues(clientFields, client)}
                   </CardContent>
                 </Card>
               ))}
@@ -782,22 +917,49 @@ const ClientManagement: React.FC = () => {
         <TabsContent value="farmers" className="space-y-4">
           <div className="flex justify-between items-center">
             <h2 className="text-lg font-semibold">Farmer Management</h2>
-            {(isAdmin() || hasPermission('client_create')) && (
-              <Button onClick={handleAddFarmer}>
-                <Sprout className="h-4 w-4 mr-2" />
-                Add Farmer
+            <div className="flex gap-2">
+              {viewToggle}
+              <Button variant="outline" onClick={() => handleExport('farmer')}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
               </Button>
-            )}
+              {hasPermission('farmer_update') && hasPermission('farmer_delete') && (
+                <Button variant="outline" onClick={() => setMergeType('farmer')}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Find Duplicates
+                </Button>
+              )}
+              {hasPermission('farmer_create') && (
+                <>
+                  <Button variant="outline" onClick={() => setImportTarget('farmer')}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                  <Button onClick={handleAddFarmer}>
+                    <Sprout className="h-4 w-4 mr-2" />
+                    Add Farmer
+                  </Button>
+                </>
+              )}
+            </div>
           </div>
 
-          {filteredFarmers.length === 0 ? (
+          {viewMode === 'table' ? (
+            <DataTable
+              data={toTableRows(farmerFields, filteredFarmers)}
+              columns={getTableColumns('farmer')}
+              searchPlaceholder="Search farmers..."
+              onSearch={setSearchTerm}
+              emptyMessage="No farmers found"
+            />
+          ) : filteredFarmers.length === 0 ? (
             <Card>
               <CardContent className="pt-6">
                 <div className="text-center py-8">
                   <Sprout className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No farmers found</h3>
                   <p className="text-gray-500 mb-4">Get started by adding your first farmer.</p>
-                  {(isAdmin() || hasPermission('client_create')) && (
+                  {hasPermission('farmer_create') && (
                     <Button onClick={handleAddFarmer}>
                       <Sprout className="h-4 w-4 mr-2" />
                       Add First Farmer
@@ -815,7 +977,7 @@ const ClientManagement: React.FC = () => {
                       <div>
                         <CardTitle className="text-lg flex items-center gap-2">
                           <Sprout className="h-5 w-5 text-green-600" />
-                          {farmer.name}
+                          <Link to={`/farmers/${farmer.id}`} className="hover:underline">{farmer.name}</Link>
                         </CardTitle>
                         <div className="flex flex-wrap gap-2 mt-2">
                           <Badge variant={farmer.status === 'active' ? 'default' : 'secondary'}>
@@ -854,27 +1016,36 @@ const ClientManagement: React.FC = () => {
                           <span className="text-sm">{farmer.address}</span>
                         </div>
                         <div className="text-sm">
-                          <span className="font-medium text-blue-600">Animal:</span> {farmer.animalName}
+                          <span className="font-medium text-blue-600">Animals:</span>{' '}
+                          {summariseAnimals(getFarmerAnimals(farmer.id)) || 'None recorded'}
                         </div>
                       </div>
                       <div className="space-y-2">
                         <div className="text-sm">
-                          <span className="font-medium">Consult Dr:</span> {farmer.consultDr}
-                        </div>
-                        <div className="text-sm">
-                          <span className="font-medium">Dr Phone:</span> {farmer.drPhone}
+                          <span className="font-medium">Vet:</span>{' '}
+                          {getVeterinarian(farmer.veterinarianId)
+                            ? `${getVeterinarian(farmer.veterinarianId)?.name} (${getVeterinarian(farmer.veterinarianId)?.phone})`
+                            : '-'}
                         </div>
                         <div className="text-sm">
-                          <span className="font-medium">Middle man:</span> {farmer.middleMan}
+                          <span className="font-medium">Middleman:</span>{' '}
+                          {getMiddleman(farmer.middlemanId)
+                            ? `${getMiddleman(farmer.middlemanId)?.name} (${getMiddleman(farmer.middlemanId)?.phone})`
+                            : '-'}
                         </div>
                       </div>
                       <div className="space-y-2">
-                        <div className="text-sm">
-                          <span className="font-medium text-green-600">Fodder:</span> {farmer.fodder}
-                        </div>
-                        <div className="text-sm text-green-700 font-bold">
-                          Price: ${farmer.price}
-                        </div>
+                        {(() => {
+                          const purchase = getLatestPurchase(fodderPurchases, farmer.id);
+                          return purchase ? (
+                            <div className="text-sm">
+                              <span className="font-medium text-green-600">Last fodder:</span>{' '}
+                              {purchase.fodderType}, {purchase.quantity} {purchase.unit} on {new Date(purchase.purchasedAt).toLocaleDateString()}
+                            </div>
+                          ) : (
+                            <div className="text-sm text-gray-500">No fodder purchases</div>
+                          );
+                        })()}
                         <div className="text-sm text-gray-400 italic">
                           Registered: {new Date(farmer.registrationDate).toLocaleDateString()}
                         </div>
@@ -885,6 +1056,7 @@ const ClientManagement: React.FC = () => {
                         <p className="text-sm text-gray-600">{farmer.notes}</p>
                       </div>
                     )}
+                    {renderCustomFieldValues(farmerFields, farmer)}
                   </CardContent>
                 </Card>
               ))}
@@ -895,7 +1067,7 @@ const ClientManagement: React.FC = () => {
 
       {/* Client Modal */}
       <Dialog open={isClientModalOpen} onOpenChange={setIsClientModalOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="sm:max-w-[500px] max-h-[80vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingClient ? 'Edit Client' : 'Add New Client'}</DialogTitle>
             <DialogDescription>
@@ -984,6 +1156,12 @@ const ClientManagement: React.FC = () => {
                 </SelectContent>
               </Select>
             </div>
+            <CustomFieldInputs
+              definitions={clientFields}
+              values={clientForm.customFields || {}}
+              errors={customFieldErrors}
+              onChange={(customFields) => setClientForm({ ...clientForm, customFields })}
+            />
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="clientNotes" className="text-right">Notes</Label>
               <Textarea
@@ -999,7 +1177,7 @@ const ClientManagement: React.FC = () => {
             <Button variant="outline" onClick={() => setIsClientModalOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={submitClient}>
+            <Button onClick={() => submitClient()}>
               {editingClient ? 'Update Client' : 'Create Client'}
             </Button>
           </DialogFooter>
@@ -1046,71 +1224,108 @@ const ClientManagement: React.FC = () => {
             </div>
 
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="animalName" className="text-right">Name of Animal</Label>
-              <Input
-                id="animalName"
-                value={farmerForm.animalName}
-                onChange={(e) => setFarmerForm({ ...farmerForm, animalName: e.target.value })}
-                className="col-span-3"
-              />
-            </div>
-
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="consultDr" className="text-right">Consult Dr</Label>
-              <Input
-                id="consultDr"
-                value={farmerForm.consultDr}
-                onChange={(e) => setFarmerForm({ ...farmerForm, consultDr: e.target.value })}
-                className="col-span-3"
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="drPhone" className="text-right">Dr Phone no</Label>
-              <Input
-                id="drPhone"
-                value={farmerForm.drPhone}
-                onChange={(e) => setFarmerForm({ ...farmerForm, drPhone: e.target.value })}
-                className="col-span-3"
-              />
-            </div>
-
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="middleMan" className="text-right">Middle man</Label>
-              <Input
-                id="middleMan"
-                value={farmerForm.middleMan}
-                onChange={(e) => setFarmerForm({ ...farmerForm, middleMan: e.target.value })}
-                className="col-span-3"
-              />
+              <Label className="text-right">Vet</Label>
+              <Select
+                value={farmerForm.veterinarianId || NO_VETERINARIAN}
+                onValueChange={(value) =>
+                  setFarmerForm({ ...farmerForm, veterinarianId: value === NO_VETERINARIAN ? undefined : value })
+                }
+              >
+                <SelectTrigger className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_VETERINARIAN}>No vet</SelectItem>
+                  {veterinarians.map(vet => (
+                    <SelectItem key={vet.id} value={vet.id}>{vet.name} - {vet.phone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="middleManPhone" className="text-right">Middle man Phone</Label>
-              <Input
-                id="middleManPhone"
-                value={farmerForm.middleManPhone}
-                onChange={(e) => setFarmerForm({ ...farmerForm, middleManPhone: e.target.value })}
-                className="col-span-3"
-              />
+              <Label className="text-right">Middleman</Label>
+              <Select
+                value={farmerForm.middlemanId || NO_MIDDLEMAN}
+                onValueChange={(value) =>
+                  setFarmerForm({ ...farmerForm, middlemanId: value === NO_MIDDLEMAN ? undefined : value })
+                }
+              >
+                <SelectTrigger className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MIDDLEMAN}>No middleman</SelectItem>
+                  {middlemen.map(middleman => (
+                    <SelectItem key={middleman.id} value={middleman.id}>{middleman.name} - {middleman.phone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
 
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="fodder" className="text-right">Fodder</Label>
-              <Input
-                id="fodder"
-                value={farmerForm.fodder}
-                onChange={(e) => setFarmerForm({ ...farmerForm, fodder: e.target.value })}
-                className="col-span-3"
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="price" className="text-right">Price</Label>
-              <Input
-                id="price"
-                type="number"
-                value={farmerForm.price}
-                onChange={(e) => setFarmerForm({ ...farmerForm, price: parseFloat(e.target.value) || 0 })}
-                className="col-span-3"
-              />
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right pt-2">Animals</Label>
+              <div className="col-span-3 space-y-2">
+                {editingFarmer && getFarmerAnimals(editingFarmer).map(animal => (
+                  <div key={animal.id} className="flex items-center justify-between text-sm border rounded-md px-3 py-1">
+                    <span>{getAnimalLabel(animal)}</span>
+                    <Badge className={HEALTH_STATUS_STYLES[animal.healthStatus]}>{HEALTH_STATUS_LABELS[animal.healthStatus]}</Badge>
+                  </div>
+                ))}
+                {animalDrafts.map((draft, index) => (
+                  <div key={index} className="flex items-center justify-between text-sm border border-dashed rounded-md px-3 py-1">
+                    <span>{SPECIES_LABELS[draft.species]}{draft.tag ? ` #${draft.tag}` : ''} (new)</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setAnimalDrafts(animalDrafts.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Select
+                    value={animalDraft.species}
+                    onValueChange={(value: AnimalSpecies) => setAnimalDraft({ ...animalDraft, species: value })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SPECIES_LABELS) as AnimalSpecies[]).map(species => (
+                        <SelectItem key={species} value={species}>{SPECIES_LABELS[species]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Tag"
+                    value={animalDraft.tag}
+                    onChange={(e) => setAnimalDraft({ ...animalDraft, tag: e.target.value })}
+                  />
+                  <Select
+                    value={animalDraft.healthStatus}
+                    onValueChange={(value: AnimalHealthStatus) => setAnimalDraft({ ...animalDraft, healthStatus: value })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(HEALTH_STATUS_LABELS) as AnimalHealthStatus[]).map(status => (
+                        <SelectItem key={status} value={status}>{HEALTH_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setAnimalDrafts([...animalDrafts, { ...animalDraft, tag: animalDraft.tag.trim() }]);
+                      setAnimalDraft({ ...emptyAnimalDraft, species: animalDraft.species });
+                    }}
+                  >
+                    Add
+                  </Button>
+                </div>
+              </div>
             </div>
 
             <div className="grid grid-cols-4 items-center gap-4">
@@ -1130,6 +1345,12 @@ const ClientManagement: React.FC = () => {
                 </SelectContent>
               </Select>
             </div>
+            <CustomFieldInputs
+              definitions={farmerFields}
+              values={farmerForm.customFields || {}}
+              errors={customFieldErrors}
+              onChange={(customFields) => setFarmerForm({ ...farmerForm, customFields })}
+            />
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="farmerNotes" className="text-right">Notes</Label>
               <Textarea
@@ -1145,7 +1366,7 @@ const ClientManagement: React.FC = () => {
             <Button variant="outline" onClick={() => setIsFarmerModalOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={submitFarmer}>
+            <Button onClick={() => submitFarmer()}>
               {editingFarmer ? 'Update Farmer' : 'Create Farmer'}
             </Button>
           </DialogFooter>
@@ -1206,13 +1427,19 @@ const ClientManagement: React.FC = () => {
                   </SelectTrigger>
                   <SelectContent>
                     {availableUsersForReassignment.length > 0 ? (
-                      availableUsersForReassignment.map(u => (
+                      availableUsersForReassignment.map(({ user: u, sameTeam, coversArea }) => (
                         <SelectItem key={u.id} value={u.id}>
                           <div className="flex items-center gap-3 py-1">
                             <div className="flex flex-col">
                               <span className="font-medium">{u.name}</span>
                               <span className="text-xs text-gray-500">{u.email}</span>
                             </div>
+                            {sameTeam && (
+                              <Badge variant="secondary" className="text-xs">Same team</Badge>
+                            )}
+                            {coversArea && (
+                              <Badge variant="outline" className="text-xs">Covers area</Badge>
+                            )}
                           </div>
                         </SelectItem>
                       ))
@@ -1230,7 +1457,7 @@ const ClientManagement: React.FC = () => {
                       <span className="font-medium">Will transfer all data</span>
                       <ArrowRight className="h-4 w-4 text-green-600" />
                       <span className="font-bold text-green-700">
-                        {availableUsersForReassignment.find(u => u.id === reassignToUserId)?.name}
+                        {availableUsersForReassignment.find(({ user: u }) => u.id === reassignToUserId)?.user.name}
                       </span>
                     </div>
                   </div>
@@ -1242,7 +1469,7 @@ const ClientManagement: React.FC = () => {
             <div className="bg-red-50 p-4 rounded-lg border border-red-200">
               <h4 className="font-medium text-red-900 mb-3">⚠️ Option 2: Delete Without Reassignment</h4>
               <p className="text-red-800 text-sm mb-3">
-                Proceed with deletion and permanently lose all related data. This action cannot be undone.
+                Proceed with deletion without reassigning the related data. The {deleteTarget?.type} stays in the recycle bin until it is restored or purged.
               </p>
               <Button
                 variant="destructive"
@@ -1270,6 +1497,55 @@ const ClientManagement: React.FC = () => {
         </DialogContent>
       </Dialog>
 
+      <DuplicateMerge
+        type={mergeType}
+        records={mergeType === 'client' ? accessibleClients : accessibleFarmers}
+        users={users}
+        currentUserId={user?.id || ''}
+        canMerge={canMergeRecord}
+        onClose={() => setMergeType(null)}
+        onMerged={handleMerged}
+      />
+
+      {/* Possible duplicate warning when adding a client or farmer */}
+      <Dialog open={!!duplicateWarning} onOpenChange={(open) => !open && setDuplicateWarning(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-orange-600" />
+              Possible duplicate {duplicateWarning?.type}
+            </DialogTitle>
+            <DialogDescription>
+              This {duplicateWarning?.type} looks like one that already exists. Check the matches before saving a second record.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            {duplicateWarning?.matches.slice(0, 5).map(match => (
+              <div key={match.record.id} className="rounded-lg border p-3 text-sm">
+                <div className="font-medium">{match.record.name}</div>
+                <div className="text-gray-600">{match.record.phone}{match.record.address ? ` · ${match.record.address}` : ''}</div>
+                <div className="text-xs text-orange-700 mt-1">{describeMatch(match.reasons)}</div>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDuplicateWarning(null)}>
+              Go Back
+            </Button>
+            <Button variant="destructive" onClick={handleSaveDespiteDuplicate}>
+              Save Anyway
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ImportWizard
+        target={importTarget}
+        currentUserId={user?.id || ''}
+        onClose={() => setImportTarget(null)}
+        onComplete={handleImportComplete}
+      />
+
       {/* Simple Delete Confirmation Modal (for items with no related data) */}
       <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -1279,7 +1555,7 @@ const ClientManagement: React.FC = () => {
               Delete {deleteTarget?.type} (No Related Data)
             </DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete "{deleteTarget?.name}"? This {deleteTarget?.type} has no related data.
+              Are you sure you want to delete "{deleteTarget?.name}"? This {deleteTarget?.type} has no related data and will be moved to the recycle bin.
             </DialogDescription>
           </DialogHeader>
           <div className="py-4">
@@ -0,0 +1,383 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDataScope } from '@/hooks/useDataScope';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ArrowLeft,
+  Calendar,
+  CheckSquare,
+  ClipboardList,
+  Edit,
+  HeadphonesIcon,
+  Mail,
+  MapPin,
+  MessageCircle,
+  Phone,
+  PhoneCall,
+  UserCheck,
+  Wheat,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  animalRepository,
+  auditLogRepository,
+  clientRepository,
+  complaintRepository,
+  customFieldRepository,
+  farmerRepository,
+  fieldVisitRepository,
+  fodderPurchaseRepository,
+  formSubmissionRepository,
+  middlemanRepository,
+  sipCallRepository,
+  taskRepository,
+  veterinarianRepository,
+  whatsAppMessageRepository,
+} from '@/lib/repositories';
+import type { Client, Farmer } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
+import { TIMELINE_KIND_LABELS, buildCustomerTimeline, getAssignmentHistory } from '@/lib/customerTimeline';
+import type { CustomerType, TimelineKind } from '@/lib/customerTimeline';
+import { formatCustomFieldValue, getFieldsFor } from '@/lib/customFields';
+import {
+  HEALTH_STATUS_LABELS,
+  HEALTH_STATUS_STYLES,
+  getAnimalLabel,
+  getLatestPurchase,
+  getOutstanding,
+} from '@/lib/farmerProfile';
+
+// Select items can't have an empty value
+const ALL = 'all';
+
+const KIND_ICONS: Record<TimelineKind, React.ComponentType<{ className?: string }>> = {
+  visit: MapPin,
+  complaint: HeadphonesIcon,
+  task: CheckSquare,
+  form_submission: ClipboardList,
+  fodder: Wheat,
+  whatsapp: MessageCircle,
+  call: PhoneCall,
+};
+
+const KIND_STYLES: Record<TimelineKind, string> = {
+  visit: 'bg-blue-100 text-blue-700',
+  complaint: 'bg-red-100 text-red-700',
+  task: 'bg-yellow-100 text-yellow-700',
+  form_submission: 'bg-purple-100 text-purple-700',
+  fodder: 'bg-amber-100 text-amber-700',
+  whatsapp: 'bg-green-100 text-green-700',
+  call: 'bg-gray-100 text-gray-700',
+};
+
+// One client or farmer with everything that happened with them, newest first
+const CustomerProfile: React.FC<{ type: CustomerType }> = ({ type }) => {
+  const { id } = useParams();
+  const { hasPermission, users } = useAuth();
+  const scope = useDataScope();
+  const clients = useRepository(clientRepository);
+  const farmers = useRepository(farmerRepository);
+  const visits = useRepository(fieldVisitRepository);
+  const complaints = useRepository(complaintRepository);
+  const tasks = useRepository(taskRepository);
+  const submissions = useRepository(formSubmissionRepository);
+  const messages = useRepository(whatsAppMessageRepository);
+  const calls = useRepository(sipCallRepository);
+  const auditEntries = useRepository(auditLogRepository);
+  const animals = useRepository(animalRepository);
+  const veterinarians = useRepository(veterinarianRepository);
+  const middlemen = useRepository(middlemanRepository);
+  const fodderPurchases = useRepository(fodderPurchaseRepository);
+  const customFieldDefinitions = useRepository(customFieldRepository);
+  const [kindFilter, setKindFilter] = useState<string>(ALL);
+  const [isEditingNotes, setIsEditingNotes] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [photo, setPhoto] = useState<string | null>(null);
+
+  const label = type === 'client' ? 'client' : 'farmer';
+  const listPath = '/clients';
+  const record: Client | Farmer | undefined = type === 'client'
+    ? scope.filterVisible('client', clients.filter(client => client.id === id))[0]
+    : scope.filterVisible('farmer', farmers.filter(farmer => farmer.id === id))[0];
+
+  // Each source only shows what the viewer could see on its own page
+  const timeline = useMemo(() => record ? buildCustomerTimeline(type, record, {
+    visits: scope.filterVisible('visit', visits),
+    complaints: scope.filterVisible('complaint', complaints),
+    tasks: scope.filterVisible('task', tasks),
+    submissions: hasPermission('form_view') ? submissions : [],
+    purchases: fodderPurchases,
+    messages: hasPermission('communication_access') ? messages : [],
+    calls: hasPermission('communication_access') ? calls : [],
+  }) : [], [type, record, scope, hasPermission, visits, complaints, tasks, submissions, fodderPurchases, messages, calls]);
+
+  const assignmentHistory = useMemo(
+    () => (record ? getAssignmentHistory(type, record.id, auditEntries) : []),
+    [type, record, auditEntries]
+  );
+
+  const getUserName = (userId?: string) => users.find(u => u.id === userId)?.name || (userId ? 'Unknown user' : 'Unassigned');
+
+  if (!hasPermission(type === 'client' ? 'client_read' : 'farmer_read')) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-gray-500">You don't have permission to view {label}s.</p>
+      </div>
+    );
+  }
+
+  if (!record) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500 mb-4">This {label} doesn't exist or you don't have access to it.</p>
+        <Link to={listPath} className="text-blue-600 hover:underline">Back to clients and farmers</Link>
+      </div>
+    );
+  }
+
+  const canEdit = type === 'client' ? scope.canUpdate('client', record as Client) : scope.canUpdate('farmer', record as Farmer);
+
+  const handleSaveNotes = () => {
+    try {
+      if (type === 'client') {
+        clientRepository.update(record.id, { notes });
+      } else {
+        farmerRepository.update(record.id, { notes });
+      }
+      setIsEditingNotes(false);
+      toast.success('Notes saved');
+    } catch (error) {
+      console.error('Error saving notes:', error);
+      toast.error('Failed to save notes');
+    }
+  };
+
+  const visibleEvents = timeline.filter(event => kindFilter === ALL || event.kind === kindFilter);
+  const client = type === 'client' ? record as Client : null;
+  const farmer = type === 'farmer' ? record as Farmer : null;
+  const farmerAnimals = farmer ? animals.filter(animal => animal.farmerId === farmer.id) : [];
+  const vet = farmer && veterinarians.find(v => v.id === farmer.veterinarianId);
+  const middleman = farmer && middlemen.find(m => m.id === farmer.middlemanId);
+  const lastPurchase = farmer && getLatestPurchase(fodderPurchases, farmer.id);
+  const customFields = getFieldsFor(customFieldDefinitions, type)
+    .map(definition => ({ definition, value: formatCustomFieldValue(definition, record.customFields?.[definition.id]) }))
+    .filter(field => field.value);
+  const outstanding = farmer ? fodderPurchases
+    .filter(purchase => purchase.farmerId === farmer.id)
+    .reduce((sum, purchase) => sum + getOutstanding(purchase), 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      <Link to={listPath} className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        All clients and farmers
+      </Link>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <h1 className="text-2xl font-bold text-gray-900">{record.name}</h1>
+        <Badge variant="outline" className="capitalize">{client ? client.type : 'farmer'}</Badge>
+        <Badge variant={record.status === 'active' ? 'default' : 'secondary'}>{record.status}</Badge>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-gray-500" />
+                {record.phone}
+              </div>
+              {client && (
+                <div className="flex items-center gap-2">
+                  <Mail className="h-4 w-4 text-gray-500" />
+                  {client.email}
+                </div>
+              )}
+              {record.address && (
+                <div className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4 text-gray-500" />
+                  {record.address}{client?.area ? ` (${client.area})` : ''}
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <UserCheck className="h-4 w-4 text-gray-500" />
+                Assigned to {getUserName(record.assignedUserId)}
+              </div>
+              <div className="flex items-center gap-2">
+                <Calendar className="h-4 w-4 text-gray-500" />
+                Registered {new Date(record.registrationDate).toLocaleDateString()} by {getUserName(record.createdBy)}
+              </div>
+              {customFields.map(({ definition, value }) => (
+                <div key={definition.id}>
+                  <span className="font-medium">{definition.label}: </span>
+                  {value}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {farmer && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Farm</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div>
+                  <span className="font-medium">Vet: </span>
+                  {vet ? <Link to={`/farmers/veterinarians/${vet.id}`} className="text-blue-600 hover:underline">{vet.name}</Link> : '-'}
+                </div>
+                <div>
+                  <span className="font-medium">Middleman: </span>
+                  {middleman ? <Link to={`/farmers/middlemen/${middleman.id}`} className="text-blue-600 hover:underline">{middleman.name}</Link> : '-'}
+                </div>
+                <div>
+                  <span className="font-medium">Last fodder: </span>
+                  {lastPurchase ? `${lastPurchase.fodderType} on ${new Date(lastPurchase.purchasedAt).toLocaleDateString()}` : '-'}
+                </div>
+                <div>
+                  <span className="font-medium">Owes: </span>
+                  <span className={outstanding > 0 ? 'text-red-600' : ''}>${outstanding.toLocaleString()}</span>
+                </div>
+                <div className="space-y-1">
+                  <span className="font-medium">Animals ({farmerAnimals.length})</span>
+                  {farmerAnimals.map(animal => (
+                    <div key={animal.id} className="flex items-center justify-between">
+                      <Link to={`/farmers/animals/${animal.id}`} className="text-blue-600 hover:underline">{getAnimalLabel(animal)}</Link>
+                      <Badge className={HEALTH_STATUS_STYLES[animal.healthStatus]}>{HEALTH_STATUS_LABELS[animal.healthStatus]}</Badge>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-lg">Notes</CardTitle>
+              {canEdit && !isEditingNotes && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setNotes(record.notes);
+                    setIsEditingNotes(true);
+                  }}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {isEditingNotes ? (
+                <div className="space-y-2">
+                  <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={4} />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setIsEditingNotes(false)}>Cancel</Button>
+                    <Button size="sm" onClick={handleSaveNotes}>Save</Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600 whitespace-pre-wrap">{record.notes || 'No notes'}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Assignment History</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {assignmentHistory.length === 0 && (
+                <p className="text-sm text-gray-500">Assigned to {getUserName(record.assignedUserId)} since it was added</p>
+              )}
+              {assignmentHistory.map(change => (
+                <div key={change.id} className="text-sm border-l-2 border-gray-200 pl-3">
+                  <div>
+                    {change.summary || `${getUserName(change.fromUserId)} → ${getUserName(change.toUserId)}`}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(change.timestamp).toLocaleString()} by {getUserName(change.actorId)}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-lg">Timeline ({visibleEvents.length})</CardTitle>
+            <Select value={kindFilter} onValueChange={setKindFilter}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Everything</SelectItem>
+                {(Object.keys(TIMELINE_KIND_LABELS) as TimelineKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{TIMELINE_KIND_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            {visibleEvents.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">Nothing has happened with this {label} yet</p>
+            ) : (
+              <div className="space-y-4">
+                {visibleEvents.map(event => {
+                  const Icon = KIND_ICONS[event.kind];
+                  return (
+                    <div key={event.id} className="flex gap-3">
+                      <div className={`h-8 w-8 rounded-full flex items-center justify-center shrink-0 ${KIND_STYLES[event.kind]}`}>
+                        <Icon className="h-4 w-4" />
+                      </div>
+                      <div className="flex-1 min-w-0 border-b pb-4">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{event.title}</span>
+                          <Badge variant="outline" className="text-xs">{TIMELINE_KIND_LABELS[event.kind]}</Badge>
+                          {event.status && <Badge variant="secondary" className="text-xs capitalize">{event.status.replace('_', ' ')}</Badge>}
+                        </div>
+                        {event.detail && <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{event.detail}</p>}
+                        {event.photo && (
+                          <button type="button" onClick={() => setPhoto(event.photo || null)} className="mt-2">
+                            <img src={event.photo} alt="Visit" className="h-20 w-28 object-cover rounded border" />
+                          </button>
+                        )}
+                        <div className="text-xs text-gray-500 mt-1">
+                          {new Date(event.timestamp).toLocaleString()}
+                          {event.userId && ` · ${getUserName(event.userId)}`}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!photo} onOpenChange={(open) => !open && setPhoto(null)}>
+        <DialogContent className="sm:max-w-[700px]">
+          <DialogHeader>
+            <DialogTitle>Visit photo</DialogTitle>
+          </DialogHeader>
+          {photo && <img src={photo} alt="Visit" className="w-full rounded" />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export const ClientProfile: React.FC = () => <CustomerProfile type="client" />;
+
+export const FarmerProfile: React.FC = () => <CustomerProfile type="farmer" />;
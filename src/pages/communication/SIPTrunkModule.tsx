@@ -31,17 +31,9 @@ import {
   Volume2
 } from 'lucide-react';
 import { toast } from 'sonner';
-
-interface SIPCall {
-  id: string;
-  from: string;
-  to: string;
-  direction: 'inbound' | 'outbound';
-  status: 'ringing' | 'connected' | 'ended' | 'failed' | 'busy';
-  duration: number;
-  timestamp: string;
-  recording?: string;
-}
+import { sipCallRepository } from '@/lib/repositories';
+import type { SIPCall } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
 
 interface SIPTrunk {
   id: string;
@@ -66,8 +58,9 @@ interface SIPExtension {
 }
 
 const SIPTrunkModule: React.FC = () => {
-  const { hasPermission } = useAuth();
-  const [calls, setCalls] = useState<SIPCall[]>([]);
+  const { hasPermission, user } = useAuth();
+  // Calls are kept so they show on the customer's timeline
+  const calls = [...useRepository(sipCallRepository)].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
   const [trunks, setTrunks] = useState<SIPTrunk[]>([]);
   const [extensions, setExtensions] = useState<SIPExtension[]>([]);
   const [activeCall, setActiveCall] = useState<SIPCall | null>(null);
@@ -104,37 +97,10 @@ const SIPTrunkModule: React.FC = () => {
 
   // Load initial data
   useEffect(() => {
-    loadCalls();
     loadTrunks();
     loadExtensions();
   }, []);
 
-  const loadCalls = () => {
-    // Simulate loading call history
-    const mockCalls: SIPCall[] = [
-      {
-        id: '1',
-        from: '+1234567890',
-        to: '101',
-        direction: 'inbound',
-        status: 'ended',
-        duration: 180,
-        timestamp: new Date(Date.now() - 3600000).toISOString(),
-        recording: 'call_recording_1.wav',
-      },
-      {
-        id: '2',
-        from: '102',
-        to: '+0987654321',
-        direction: 'outbound',
-        status: 'ended',
-        duration: 240,
-        timestamp: new Date(Date.now() - 7200000).toISOString(),
-      },
-    ];
-    setCalls(mockCalls);
-  };
-
   const loadTrunks = () => {
     // Simulate loading SIP trunks
     const mockTrunks: SIPTrunk[] = [
@@ -203,17 +169,16 @@ const SIPTrunkModule: React.FC = () => {
       status: 'ringing',
       duration: 0,
       timestamp: new Date().toISOString(),
+      placedBy: user?.id,
     };
 
-    setCalls(prev => [newCall, ...prev]);
+    sipCallRepository.create(newCall);
     setActiveCall(newCall);
     
     // Simulate call progression
     setTimeout(() => {
       setActiveCall(prev => prev ? { ...prev, status: 'connected' } : null);
-      setCalls(prev => prev.map(call => 
-        call.id === newCall.id ? { ...call, status: 'connected' } : call
-      ));
+      sipCallRepository.update(newCall.id, { status: 'connected' });
     }, 2000);
 
     toast.success('Call initiated');
@@ -224,9 +189,7 @@ const SIPTrunkModule: React.FC = () => {
   const endCall = () => {
     if (activeCall) {
       const endedCall = { ...activeCall, status: 'ended' as const, duration: 120 };
-      setCalls(prev => prev.map(call => 
-        call.id === activeCall.id ? endedCall : call
-      ));
+      sipCallRepository.update(activeCall.id, endedCall);
       setActiveCall(null);
       toast.success('Call ended');
     }
@@ -435,6 +398,9 @@ const SIPTrunkModule: React.FC = () => {
 
         <TabsContent value="calls" className="space-y-4">
           <div className="grid gap-4">
+            {calls.length === 0 && (
+              <p className="text-center text-gray-500 py-8">No calls yet</p>
+            )}
             {calls.map((call) => (
               <Card key={call.id}>
                 <CardContent className="pt-4">
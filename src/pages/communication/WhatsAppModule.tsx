@@ -19,15 +19,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { MessageSquare, Send, Phone, Settings, Users, Clock, CheckCircle, XCircle } from 'lucide-react';
 import { toast } from 'sonner';
-
-interface WhatsAppMessage {
-  id: string;
-  to: string;
-  message: string;
-  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
-  timestamp: string;
-  type: 'text' | 'template' | 'media';
-}
+import { whatsAppMessageRepository } from '@/lib/repositories';
+import type { WhatsAppMessage } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
 
 interface WhatsAppTemplate {
   id: string;
@@ -48,8 +42,9 @@ interface WhatsAppConfig {
 }
 
 const WhatsAppModule: React.FC = () => {
-  const { hasPermission } = useAuth();
-  const [messages, setMessages] = useState<WhatsAppMessage[]>([]);
+  const { hasPermission, user } = useAuth();
+  // Sent messages are kept so they show on the customer's timeline
+  const messages = [...useRepository(whatsAppMessageRepository)].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
   const [templates, setTemplates] = useState<WhatsAppTemplate[]>([]);
   const [config, setConfig] = useState<WhatsAppConfig>({
     phoneNumberId: '',
@@ -82,34 +77,10 @@ const WhatsAppModule: React.FC = () => {
 
   // Load initial data
   useEffect(() => {
-    loadMessages();
     loadTemplates();
     loadConfiguration();
   }, []);
 
-  const loadMessages = () => {
-    // Simulate loading messages from API
-    const mockMessages: WhatsAppMessage[] = [
-      {
-        id: '1',
-        to: '+1234567890',
-        message: 'Welcome to HDF Management System!',
-        status: 'delivered',
-        timestamp: new Date(Date.now() - 3600000).toISOString(),
-        type: 'text',
-      },
-      {
-        id: '2',
-        to: '+0987654321',
-        message: 'Your appointment is confirmed for tomorrow at 2 PM.',
-        status: 'read',
-        timestamp: new Date(Date.now() - 7200000).toISOString(),
-        type: 'template',
-      },
-    ];
-    setMessages(mockMessages);
-  };
-
   const loadTemplates = () => {
     // Simulate loading templates from API
     const mockTemplates: WhatsAppTemplate[] = [
@@ -169,21 +140,18 @@ const WhatsAppModule: React.FC = () => {
         status: 'pending',
         timestamp: new Date().toISOString(),
         type: messageForm.templateId ? 'template' : 'text',
+        sentBy: user?.id,
       };
 
-      setMessages(prev => [newMessage, ...prev]);
+      whatsAppMessageRepository.create(newMessage);
       
       // Simulate message status updates
       setTimeout(() => {
-        setMessages(prev => prev.map(msg => 
-          msg.id === newMessage.id ? { ...msg, status: 'sent' as const } : msg
-        ));
+        whatsAppMessageRepository.update(newMessage.id, { status: 'sent' });
       }, 1000);
 
       setTimeout(() => {
-        setMessages(prev => prev.map(msg => 
-          msg.id === newMessage.id ? { ...msg, status: 'delivered' as const } : msg
-        ));
+        whatsAppMessageRepository.update(newMessage.id, { status: 'delivered' });
       }, 3000);
 
       toast.success('Message sent successfully');
@@ -294,6 +262,9 @@ const WhatsAppModule: React.FC = () => {
           </div>
 
           <div className="grid gap-4">
+            {messages.length === 0 && (
+              <p className="text-center text-gray-500 py-8">No messages sent yet</p>
+            )}
             {messages.map((message) => (
               <Card key={message.id}>
                 <CardContent className="pt-4">
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useDataScope } from '@/hooks/useDataScope';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -38,50 +39,15 @@ import {
   BarChart3
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { careReportRepository, complaintRepository, taskRepository } from '@/lib/repositories';
+import type { CareReport as Report, Complaint, Task } from '@/lib/repositories';
+import type { CustomerType } from '@/lib/customerTimeline';
+import CustomerSelect from '@/components/clients/CustomerSelect';
 
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  status: 'pending' | 'in_progress' | 'completed';
-  priority: 'low' | 'medium' | 'high';
-  assignedTo: string;
-  createdBy: string;
-  createdAt: string;
-  dueDate: string;
-  category?: string;
-  estimatedHours?: string;
-  notes?: string;
-}
-
-interface Complaint {
-  id: string;
-  title: string;
-  description: string;
-  status: 'open' | 'in_progress' | 'resolved' | 'closed';
-  priority: 'low' | 'medium' | 'high';
-  customer: string;
-  reportedBy: string;
-  assignedTo: string;
-  createdAt: string;
-  resolvedAt?: string;
-}
-
-interface Report {
-  id: string;
-  title: string;
-  description: string;
-  type: 'daily' | 'weekly' | 'monthly' | 'custom';
-  status: 'draft' | 'submitted' | 'approved' | 'rejected';
-  assignedTo: string;
-  createdBy: string;
-  createdAt: string;
-  dueDate: string;
-  content?: string;
-}
 
 const CustomerCareModule: React.FC = () => {
   const { hasPermission, user, users } = useAuth();
+  const scope = useDataScope();
   
   // State management
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -110,7 +76,9 @@ const CustomerCareModule: React.FC = () => {
     dueDate: '',
     category: '',
     estimatedHours: '',
-    notes: ''
+    notes: '',
+    customerType: undefined as CustomerType | undefined,
+    customerId: undefined as string | undefined
   });
   
   const [complaintData, setComplaintData] = useState({
@@ -118,6 +86,8 @@ const CustomerCareModule: React.FC = () => {
     description: '',
     priority: 'medium' as const,
     customer: '',
+    customerType: undefined as CustomerType | undefined,
+    customerId: undefined as string | undefined,
     reportedBy: '',
     assignedTo: ''
   });
@@ -133,17 +103,16 @@ const CustomerCareModule: React.FC = () => {
 
   // Check permissions
   const canAccessCustomerCare = hasPermission('customer_care_access');
-  const canViewAllTasks = hasPermission('task_view_all');
-  const canViewTasks = hasPermission('task_view');
+  // What is visible comes from the scope policy: own, team or all
+  const taskScope = scope.scopeOf('task');
+  const canViewAllTasks = taskScope === 'all';
+  const canViewTasks = taskScope !== 'none';
   const canCreateTasks = hasPermission('task_create');
-  const canUpdateTasks = hasPermission('task_update');
-  const canDeleteTasks = hasPermission('task_delete');
   
-  const canViewAllComplaints = hasPermission('complaint_view_all');
-  const canViewComplaints = hasPermission('complaint_view');
+  const complaintScope = scope.scopeOf('complaint');
+  const canViewAllComplaints = complaintScope === 'all';
+  const canViewComplaints = complaintScope !== 'none';
   const canCreateComplaints = hasPermission('complaint_create');
-  const canUpdateComplaints = hasPermission('complaint_update');
-  const canDeleteComplaints = hasPermission('complaint_delete');
   const canResolveComplaints = hasPermission('complaint_resolve');
 
   // Load data
@@ -157,10 +126,8 @@ const CustomerCareModule: React.FC = () => {
 
   const loadTasks = () => {
     try {
-      const savedTasks = localStorage.getItem('hdf_tasks');
-      if (savedTasks) {
-        const parsedTasks = JSON.parse(savedTasks);
-        setTasks(Array.isArray(parsedTasks) ? parsedTasks : []);
+      if (taskRepository.isInitialized()) {
+        setTasks(taskRepository.list());
       } else {
         const sampleTasks: Task[] = [
           {
@@ -178,7 +145,7 @@ const CustomerCareModule: React.FC = () => {
             notes: 'High priority client - needs immediate attention'
           }
         ];
-        localStorage.setItem('hdf_tasks', JSON.stringify(sampleTasks));
+        taskRepository.saveAll(sampleTasks);
         setTasks(sampleTasks);
       }
     } catch (error) {
@@ -189,10 +156,8 @@ const CustomerCareModule: React.FC = () => {
 
   const loadComplaints = () => {
     try {
-      const savedComplaints = localStorage.getItem('hdf_complaints');
-      if (savedComplaints) {
-        const parsedComplaints = JSON.parse(savedComplaints);
-        setComplaints(Array.isArray(parsedComplaints) ? parsedComplaints : []);
+      if (complaintRepository.isInitialized()) {
+        setComplaints(complaintRepository.list());
       } else {
         const sampleComplaints: Complaint[] = [
           {
@@ -207,7 +172,7 @@ const CustomerCareModule: React.FC = () => {
             createdAt: new Date().toISOString()
           }
         ];
-        localStorage.setItem('hdf_complaints', JSON.stringify(sampleComplaints));
+        complaintRepository.saveAll(sampleComplaints);
         setComplaints(sampleComplaints);
       }
     } catch (error) {
@@ -218,13 +183,7 @@ const CustomerCareModule: React.FC = () => {
 
   const loadReports = () => {
     try {
-      const savedReports = localStorage.getItem('hdf_reports');
-      if (savedReports) {
-        const parsedReports = JSON.parse(savedReports);
-        setReports(Array.isArray(parsedReports) ? parsedReports : []);
-      } else {
-        setReports([]);
-      }
+      setReports(careReportRepository.list());
     } catch (error) {
       console.error('Error loading reports:', error);
       setReports([]);
@@ -270,31 +229,33 @@ const CustomerCareModule: React.FC = () => {
       dueDate: '',
       category: '',
       estimatedHours: '',
-      notes: ''
+      notes: '',
+      customerType: undefined,
+      customerId: undefined
     });
     setIsTaskModalOpen(true);
   };
 
   const handleEditTask = (taskId: string) => {
-    if (!canUpdateTasks) {
-      toast.error('You do not have permission to update tasks');
-      return;
-    }
     const task = tasks.find(t => t.id === taskId);
-    if (task) {
-      setEditingTask(taskId);
-      setTaskData({
-        title: task.title,
-        description: task.description,
-        priority: task.priority,
-        assignedTo: task.assignedTo,
-        dueDate: task.dueDate ? task.dueDate.split('T')[0] : '',
-        category: task.category || '',
-        estimatedHours: task.estimatedHours || '',
-        notes: task.notes || ''
-      });
-      setIsTaskModalOpen(true);
+    if (!task || !scope.canUpdate('task', task)) {
+      toast.error('You do not have permission to update this task');
+      return;
     }
+    setEditingTask(taskId);
+    setTaskData({
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      assignedTo: task.assignedTo,
+      dueDate: task.dueDate ? task.dueDate.split('T')[0] : '',
+      category: task.category || '',
+      estimatedHours: task.estimatedHours || '',
+      notes: task.notes || '',
+      customerType: task.customerType,
+      customerId: task.customerId
+    });
+    setIsTaskModalOpen(true);
   };
 
   const handleSubmitTask = () => {
@@ -326,7 +287,7 @@ const CustomerCareModule: React.FC = () => {
             }
           : task
       );
-      localStorage.setItem('hdf_tasks', JSON.stringify(updatedTasks));
+      taskRepository.saveAll(updatedTasks);
       setTasks(updatedTasks);
       toast.success('Task updated successfully');
     } else {
@@ -339,7 +300,7 @@ const CustomerCareModule: React.FC = () => {
         dueDate: dueDateISO
       };
       const updatedTasks = [...tasks, newTask];
-      localStorage.setItem('hdf_tasks', JSON.stringify(updatedTasks));
+      taskRepository.saveAll(updatedTasks);
       setTasks(updatedTasks);
       toast.success('Task created and assigned successfully');
     }
@@ -358,6 +319,8 @@ const CustomerCareModule: React.FC = () => {
       description: '',
       priority: 'medium',
       customer: '',
+      customerType: undefined,
+      customerId: undefined,
       reportedBy: '',
       assignedTo: ''
     });
@@ -378,7 +341,7 @@ const CustomerCareModule: React.FC = () => {
           ? { ...complaint, ...complaintData }
           : complaint
       );
-      localStorage.setItem('hdf_complaints', JSON.stringify(updatedComplaints));
+      complaintRepository.saveAll(updatedComplaints);
       setComplaints(updatedComplaints);
       toast.success('Complaint updated successfully');
     } else {
@@ -389,7 +352,7 @@ const CustomerCareModule: React.FC = () => {
         createdAt: now
       };
       const updatedComplaints = [...complaints, newComplaint];
-      localStorage.setItem('hdf_complaints', JSON.stringify(updatedComplaints));
+      complaintRepository.saveAll(updatedComplaints);
       setComplaints(updatedComplaints);
       toast.success('Complaint created successfully');
     }
@@ -397,23 +360,25 @@ const CustomerCareModule: React.FC = () => {
   };
 
   const handleDeleteTask = (taskId: string) => {
-    if (!canDeleteTasks) {
-      toast.error('You do not have permission to delete tasks');
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || !scope.canDelete('task', task)) {
+      toast.error('You do not have permission to delete this task');
       return;
     }
     const updatedTasks = tasks.filter(t => t.id !== taskId);
-    localStorage.setItem('hdf_tasks', JSON.stringify(updatedTasks));
+    taskRepository.saveAll(updatedTasks);
     setTasks(updatedTasks);
     toast.success('Task deleted successfully');
   };
 
   const handleDeleteComplaint = (complaintId: string) => {
-    if (!canDeleteComplaints) {
-      toast.error('You do not have permission to delete complaints');
+    const complaint = complaints.find(c => c.id === complaintId);
+    if (!complaint || !scope.canDelete('complaint', complaint)) {
+      toast.error('You do not have permission to delete this complaint');
       return;
     }
     const updatedComplaints = complaints.filter(c => c.id !== complaintId);
-    localStorage.setItem('hdf_complaints', JSON.stringify(updatedComplaints));
+    complaintRepository.saveAll(updatedComplaints);
     setComplaints(updatedComplaints);
     toast.success('Complaint deleted successfully');
   };
@@ -428,7 +393,7 @@ const CustomerCareModule: React.FC = () => {
           ? { ...task, status: newStatus as Task['status'] }
           : task
       );
-      localStorage.setItem('hdf_tasks', JSON.stringify(updatedTasks));
+      taskRepository.saveAll(updatedTasks);
       setTasks(updatedTasks);
       toast.success('Task status updated');
     } else {
@@ -441,7 +406,7 @@ const CustomerCareModule: React.FC = () => {
             }
           : complaint
       );
-      localStorage.setItem('hdf_complaints', JSON.stringify(updatedComplaints));
+      complaintRepository.saveAll(updatedComplaints);
       setComplaints(updatedComplaints);
       toast.success('Complaint status updated');
     }
@@ -449,19 +414,7 @@ const CustomerCareModule: React.FC = () => {
 
   // Filter data based on permissions and search
   const getVisibleTasks = () => {
-    let visibleTasks = tasks;
-    
-    // Apply permission-based filtering
-    if (canViewAllTasks) {
-      // User can see all tasks
-      visibleTasks = tasks;
-    } else if (canViewTasks) {
-      // User can only see tasks assigned to them
-      visibleTasks = tasks.filter(task => task.assignedTo === user?.id);
-    } else {
-      // User has no task viewing permissions
-      visibleTasks = [];
-    }
+    const visibleTasks = scope.filterVisible('task', tasks);
     
     // Apply search filter
     return visibleTasks.filter(task =>
@@ -471,19 +424,7 @@ const CustomerCareModule: React.FC = () => {
   };
 
   const getVisibleComplaints = () => {
-    let visibleComplaints = complaints;
-    
-    // Apply permission-based filtering
-    if (canViewAllComplaints) {
-      // User can see all complaints
-      visibleComplaints = complaints;
-    } else if (canViewComplaints) {
-      // User can only see complaints assigned to them
-      visibleComplaints = complaints.filter(complaint => complaint.assignedTo === user?.id);
-    } else {
-      // User has no complaint viewing permissions
-      visibleComplaints = [];
-    }
+    const visibleComplaints = scope.filterVisible('complaint', complaints);
     
     // Apply search filter
     return visibleComplaints.filter(complaint =>
@@ -662,7 +603,9 @@ const CustomerCareModule: React.FC = () => {
                 <p className="text-sm text-blue-800">
                   {canViewAllTasks 
                     ? "You can view all tasks in the system." 
-                    : "You can only view tasks assigned to you."
+                    : taskScope === 'team'
+                      ? "You can view your own tasks and those of your team."
+                      : "You can only view tasks assigned to you."
                   }
                 </p>
               </div>
@@ -719,12 +662,12 @@ const CustomerCareModule: React.FC = () => {
                                 >
                                   <Eye className="h-4 w-4" />
                                 </Button>
-                                {canUpdateTasks && (
+                                {scope.canUpdate('task', task) && (
                                   <Button variant="ghost" size="sm" onClick={() => handleEditTask(task.id)}>
                                     <Edit className="h-4 w-4" />
                                   </Button>
                                 )}
-                                {canDeleteTasks && (
+                                {scope.canDelete('task', task) && (
                                   <Button variant="ghost" size="sm" onClick={() => handleDeleteTask(task.id)} className="text-red-600">
                                     <Trash2 className="h-4 w-4" />
                                   </Button>
@@ -835,7 +778,9 @@ const CustomerCareModule: React.FC = () => {
                 <p className="text-sm text-blue-800">
                   {canViewAllComplaints 
                     ? "You can view all complaints in the system." 
-                    : "You can only view complaints assigned to you."
+                    : complaintScope === 'team'
+                      ? "You can view your own complaints and those of your team."
+                      : "You can only view complaints assigned to you."
                   }
                 </p>
               </div>
@@ -893,12 +838,12 @@ const CustomerCareModule: React.FC = () => {
                                 >
                                   <Eye className="h-4 w-4" />
                                 </Button>
-                                {canUpdateComplaints && (
+                                {scope.canUpdate('complaint', complaint) && (
                                   <Button variant="ghost" size="sm">
                                     <Edit className="h-4 w-4" />
                                   </Button>
                                 )}
-                                {canDeleteComplaints && (
+                                {scope.canDelete('complaint', complaint) && (
                                   <Button variant="ghost" size="sm" onClick={() => handleDeleteComplaint(complaint.id)} className="text-red-600">
                                     <Trash2 className="h-4 w-4" />
                                   </Button>
@@ -1145,6 +1090,14 @@ const CustomerCareModule: React.FC = () => {
                 />
               </div>
             </div>
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <CustomerSelect
+                customerType={taskData.customerType}
+                customerId={taskData.customerId}
+                onChange={(customer) => setTaskData({ ...taskData, customerType: customer?.type, customerId: customer?.id })}
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="task-category">Category</Label>
               <Input
@@ -1215,13 +1168,26 @@ const CustomerCareModule: React.FC = () => {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="complaint-customer">Customer</Label>
-              <Input
-                id="complaint-customer"
-                value={complaintData.customer}
-                onChange={(e) => setComplaintData({ ...complaintData, customer: e.target.value })}
-                placeholder="Enter customer name"
+              <Label>Customer</Label>
+              <CustomerSelect
+                customerType={complaintData.customerType}
+                customerId={complaintData.customerId}
+                onChange={(customer) => setComplaintData({
+                  ...complaintData,
+                  customerType: customer?.type,
+                  customerId: customer?.id,
+                  customer: customer ? customer.name : complaintData.customer,
+                })}
               />
+              {/* Customers who aren't on record yet are named by hand */}
+              {!complaintData.customerId && (
+                <Input
+                  id="complaint-customer"
+                  value={complaintData.customer}
+                  onChange={(e) => setComplaintData({ ...complaintData, customer: e.target.value })}
+                  placeholder="Or enter customer name"
+                />
+              )}
             </div>
             <div className="space-y-2">
               <Label htmlFor="complaint-assigned-to">Assign To *</Label>
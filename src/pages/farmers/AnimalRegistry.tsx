@@ -0,0 +1,416 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDataScope } from '@/hooks/useDataScope';
+import DataTable from '@/components/common/DataTable';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Edit, Eye, PawPrint, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { animalRepository, farmerRepository, veterinarianRepository } from '@/lib/repositories';
+import type { Animal, AnimalHealthStatus, AnimalSpecies, Farmer } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
+import {
+  HEALTH_STATUS_LABELS,
+  HEALTH_STATUS_STYLES,
+  SPECIES_LABELS,
+  formatAnimalAge,
+  getAnimalLabel,
+} from '@/lib/farmerProfile';
+
+// Select items can't have an empty value
+const ALL = 'all';
+const FARMERS_VET = 'farmer';
+
+type AnimalForm = Omit<Animal, 'id' | 'createdAt' | 'updatedAt'>;
+
+const emptyForm: AnimalForm = {
+  farmerId: '',
+  species: 'cow',
+  tag: '',
+  name: '',
+  birthDate: '',
+  healthStatus: 'healthy',
+  veterinarianId: undefined,
+  notes: '',
+};
+
+// Animals belong to a farmer, so they are visible and editable wherever the farmer is
+const AnimalRegistry: React.FC = () => {
+  const { id } = useParams();
+  const { hasPermission } = useAuth();
+  const scope = useDataScope();
+  const animals = useRepository(animalRepository);
+  const farmers = scope.filterVisible('farmer', useRepository(farmerRepository));
+  const veterinarians = useRepository(veterinarianRepository);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [speciesFilter, setSpeciesFilter] = useState<string>(ALL);
+  const [healthFilter, setHealthFilter] = useState<string>(ALL);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<AnimalForm>(emptyForm);
+
+  const getFarmer = (farmerId: string) => farmers.find(farmer => farmer.id === farmerId);
+  const canEditAnimal = (animal: Animal) => {
+    const farmer = getFarmer(animal.farmerId);
+    return !!farmer && scope.canUpdate('farmer', farmer);
+  };
+  const editableFarmers = farmers.filter(farmer => scope.canUpdate('farmer', farmer));
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setForm({ ...emptyForm, farmerId: editableFarmers[0]?.id || '' });
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (animal: Animal) => {
+    setEditingId(animal.id);
+    setForm({
+      farmerId: animal.farmerId,
+      species: animal.species,
+      tag: animal.tag,
+      name: animal.name || '',
+      birthDate: animal.birthDate || '',
+      healthStatus: animal.healthStatus,
+      veterinarianId: animal.veterinarianId,
+      notes: animal.notes,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (animal: Animal) => {
+    animalRepository.remove(animal.id);
+    toast.success(`${getAnimalLabel(animal)} removed`);
+  };
+
+  const handleSubmit = () => {
+    if (!form.farmerId) {
+      toast.error('Please choose the farmer who owns the animal');
+      return;
+    }
+    const tag = form.tag.trim();
+    if (tag && animals.some(animal => animal.id !== editingId && animal.farmerId === form.farmerId && animal.tag === tag)) {
+      toast.error(`This farmer already has an animal tagged ${tag}`);
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const values: AnimalForm = {
+      ...form,
+      tag,
+      name: form.name?.trim() || undefined,
+      birthDate: form.birthDate || undefined,
+    };
+    try {
+      if (editingId) {
+        animalRepository.update(editingId, { ...values, updatedAt: now });
+        toast.success('Animal updated successfully');
+      } else {
+        animalRepository.create({ ...values, id: `animal-${Date.now()}`, createdAt: now });
+        toast.success('Animal added successfully');
+      }
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error saving animal:', error);
+      toast.error('Failed to save animal');
+    }
+  };
+
+  if (!hasPermission('farmer_read')) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-gray-500">You don't have permission to view animals.</p>
+      </div>
+    );
+  }
+
+  // Animals of farmers outside the user's scope are left out entirely
+  const visibleAnimals = animals.filter(animal => !!getFarmer(animal.farmerId));
+  const selected = id ? visibleAnimals.find(animal => animal.id === id) : undefined;
+
+  const getVetName = (vetId?: string) => veterinarians.find(vet => vet.id === vetId)?.name;
+  // Without a vet of its own, an animal is seen by the farmer's usual vet
+  const getAnimalVet = (animal: Animal, farmer?: Farmer) =>
+    getVetName(animal.veterinarianId) || (farmer?.veterinarianId ? `${getVetName(farmer.veterinarianId)} (farmer's vet)` : '-');
+
+  const renderDetail = (animal: Animal) => {
+    const farmer = getFarmer(animal.farmerId);
+    const details = [
+      { label: 'Species', value: SPECIES_LABELS[animal.species] },
+      { label: 'Tag', value: animal.tag || '-' },
+      { label: 'Age', value: formatAnimalAge(animal.birthDate) || '-' },
+      { label: 'Born', value: animal.birthDate ? new Date(animal.birthDate).toLocaleDateString() : '-' },
+      { label: 'Owner', value: farmer ? `${farmer.name} (${farmer.phone})` : '-' },
+      { label: 'Vet', value: getAnimalVet(animal, farmer) },
+      { label: 'Registered', value: new Date(animal.createdAt).toLocaleDateString() },
+    ];
+    return (
+      <div className="space-y-6">
+        <Link to="/farmers/animals" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All animals
+        </Link>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900">{getAnimalLabel(animal)}</h1>
+            <Badge className={HEALTH_STATUS_STYLES[animal.healthStatus]}>{HEALTH_STATUS_LABELS[animal.healthStatus]}</Badge>
+          </div>
+          {canEditAnimal(animal) && (
+            <Button variant="outline" onClick={() => handleEdit(animal)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              {details.map(detail => (
+                <div key={detail.label}>
+                  <dt className="text-gray-500">{detail.label}</dt>
+                  <dd className="font-medium">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+            {animal.notes && <p className="mt-4 text-sm text-gray-600">{animal.notes}</p>}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  const search = searchTerm.toLowerCase();
+  const filteredAnimals = visibleAnimals
+    .filter(animal =>
+      (speciesFilter === ALL || animal.species === speciesFilter) &&
+      (healthFilter === ALL || animal.healthStatus === healthFilter) &&
+      (getAnimalLabel(animal).toLowerCase().includes(search) ||
+        (getFarmer(animal.farmerId)?.name || '').toLowerCase().includes(search))
+    )
+    // DataTable sorts on plain fields, so the owner's name is added as one
+    .map(animal => ({ ...animal, farmerName: getFarmer(animal.farmerId)?.name || '' }));
+
+  const columns = [
+    {
+      key: 'tag',
+      title: 'Animal',
+      width: '25%',
+      render: (_: unknown, record: Animal) => getAnimalLabel(record),
+    },
+    { key: 'farmerName', title: 'Farmer', width: '20%' },
+    {
+      key: 'birthDate',
+      title: 'Age',
+      width: '15%',
+      render: (value: string) => formatAnimalAge(value) || '-',
+    },
+    {
+      key: 'healthStatus',
+      title: 'Health',
+      width: '15%',
+      render: (value: AnimalHealthStatus) => (
+        <Badge className={HEALTH_STATUS_STYLES[value]}>{HEALTH_STATUS_LABELS[value]}</Badge>
+      ),
+    },
+    {
+      key: 'actions',
+      title: 'Actions',
+      width: '15%',
+      sortable: false,
+      render: (_: unknown, record: Animal) => (
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" asChild title="View Animal">
+            <Link to={`/farmers/animals/${record.id}`}>
+              <Eye className="h-4 w-4" />
+            </Link>
+          </Button>
+          {canEditAnimal(record) && (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => handleEdit(record)} title="Edit Animal">
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(record)}
+                className="text-red-600 hover:text-red-700"
+                title="Remove Animal"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {id ? (
+        selected ? renderDetail(selected) : (
+          <div className="text-center py-12">
+            <p className="text-gray-500 mb-4">This animal doesn't exist or you don't have access to it.</p>
+            <Link to="/farmers/animals" className="text-blue-600 hover:underline">Back to all animals</Link>
+          </div>
+        )
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                <PawPrint className="h-6 w-6" />
+                Animal Registry
+              </h1>
+              <p className="text-gray-600">Livestock kept by the farmers you can see</p>
+            </div>
+            <div className="flex gap-2">
+              <Select value={speciesFilter} onValueChange={setSpeciesFilter}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All species</SelectItem>
+                  {(Object.keys(SPECIES_LABELS) as AnimalSpecies[]).map(species => (
+                    <SelectItem key={species} value={species}>{SPECIES_LABELS[species]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={healthFilter} onValueChange={setHealthFilter}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All health states</SelectItem>
+                  {(Object.keys(HEALTH_STATUS_LABELS) as AnimalHealthStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{HEALTH_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DataTable
+            data={filteredAnimals}
+            columns={columns}
+            searchPlaceholder="Search by tag, name or farmer..."
+            onSearch={setSearchTerm}
+            onAdd={hasPermission('farmer_update') && editableFarmers.length > 0 ? handleAdd : undefined}
+            addButtonText="Add Animal"
+            showAddButton={hasPermission('farmer_update') && editableFarmers.length > 0}
+            emptyMessage="No animals found"
+          />
+        </>
+      )}
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="sm:max-w-[550px] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Animal' : 'Add Animal'}</DialogTitle>
+            <DialogDescription>
+              {editingId ? 'Update the animal\'s details and health.' : 'Register an animal to one of your farmers.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Farmer *</Label>
+              <Select value={form.farmerId} onValueChange={(value) => setForm({ ...form, farmerId: value })}>
+                <SelectTrigger className="col-span-3">
+                  <SelectValue placeholder="Select a farmer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {editableFarmers.map(farmer => (
+                    <SelectItem key={farmer.id} value={farmer.id}>{farmer.name} - {farmer.phone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Species</Label>
+              <Select value={form.species} onValueChange={(value: AnimalSpecies) => setForm({ ...form, species: value })}>
+                <SelectTrigger className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SPECIES_LABELS) as AnimalSpecies[]).map(species => (
+                    <SelectItem key={species} value={species}>{SPECIES_LABELS[species]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="animalTag" className="text-right">Tag</Label>
+              <Input id="animalTag" value={form.tag} onChange={(e) => setForm({ ...form, tag: e.target.value })} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="animalName" className="text-right">Name</Label>
+              <Input id="animalName" value={form.name || ''} onChange={(e) => setForm({ ...form, name: e.target.value })} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="animalBirthDate" className="text-right">Birth Date</Label>
+              <Input
+                id="animalBirthDate"
+                type="date"
+                value={form.birthDate || ''}
+                onChange={(e) => setForm({ ...form, birthDate: e.target.value })}
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Health</Label>
+              <Select value={form.healthStatus} onValueChange={(value: AnimalHealthStatus) => setForm({ ...form, healthStatus: value })}>
+                <SelectTrigger className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(HEALTH_STATUS_LABELS) as AnimalHealthStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>{HEALTH_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Vet</Label>
+              <Select
+                value={form.veterinarianId || FARMERS_VET}
+                onValueChange={(value) => setForm({ ...form, veterinarianId: value === FARMERS_VET ? undefined : value })}
+              >
+                <SelectTrigger className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FARMERS_VET}>Farmer's usual vet</SelectItem>
+                  {veterinarians.map(vet => (
+                    <SelectItem key={vet.id} value={vet.id}>{vet.name} - {vet.phone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="animalNotes" className="text-right">Notes</Label>
+              <Textarea id="animalNotes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} className="col-span-3" rows={3} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit}>{editingId ? 'Update Animal' : 'Add Animal'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AnimalRegistry;
@@ -0,0 +1,585 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDataScope } from '@/hooks/useDataScope';
+import DataTable from '@/components/common/DataTable';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, CheckCircle, Edit, Eye, Trash2, Wheat } from 'lucide-react';
+import { toast } from 'sonner';
+import { farmerRepository, fodderPurchaseRepository, middlemanRepository } from '@/lib/repositories';
+import type { FodderPurchase } from '@/lib/repositories';
+import type { PaymentStatus } from '@/lib/farmerProfile';
+import { useRepository } from '@/hooks/useRepository';
+import {
+  FODDER_UNITS,
+  PAYMENT_STATUS_LABELS,
+  PAYMENT_STATUS_STYLES,
+  getOutstanding,
+  getPaymentStatus,
+  getPurchaseTotal,
+  summariseBalances,
+} from '@/lib/farmerProfile';
+
+// Select items can't have an empty value
+const NO_MIDDLEMAN = 'none';
+const NOT_DELIVERED = 'none';
+
+type PurchaseForm = Omit<FodderPurchase, 'id' | 'createdAt' | 'updatedAt' | 'createdBy'>;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyForm = (): PurchaseForm => ({
+  farmerId: '',
+  fodderType: '',
+  quantity: 1,
+  unit: 'kg',
+  unitPrice: 0,
+  purchasedAt: today(),
+  middlemanId: undefined,
+  deliveredBy: undefined,
+  amountPaid: 0,
+  notes: '',
+});
+
+// Purchases belong to a farmer, so they are visible and editable wherever the farmer is
+const FodderPurchases: React.FC = () => {
+  const { id } = useParams();
+  const { hasPermission, user, users } = useAuth();
+  const scope = useDataScope();
+  const purchases = useRepository(fodderPurchaseRepository);
+  const farmers = scope.filterVisible('farmer', useRepository(farmerRepository));
+  const middlemen = useRepository(middlemanRepository);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [balanceSearch, setBalanceSearch] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PurchaseForm>(emptyForm);
+
+  const getFarmer = (farmerId: string) => farmers.find(farmer => farmer.id === farmerId);
+  const getMiddlemanName = (middlemanId?: string) => middlemen.find(middleman => middleman.id === middlemanId)?.name;
+  const getUserName = (userId?: string) => users.find(u => u.id === userId)?.name;
+  const canEditPurchase = (purchase: FodderPurchase) => {
+    const farmer = getFarmer(purchase.farmerId);
+    return !!farmer && scope.canUpdate('farmer', farmer);
+  };
+  const editableFarmers = farmers.filter(farmer => scope.canUpdate('farmer', farmer));
+
+  const handleAdd = () => {
+    const farmer = editableFarmers[0];
+    setEditingId(null);
+    setForm({ ...emptyForm(), farmerId: farmer?.id || '', middlemanId: farmer?.middlemanId });
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (purchase: FodderPurchase) => {
+    setEditingId(purchase.id);
+    setForm({
+      farmerId: purchase.farmerId,
+      fodderType: purchase.fodderType,
+      quantity: purchase.quantity,
+      unit: purchase.unit,
+      unitPrice: purchase.unitPrice,
+      purchasedAt: purchase.purchasedAt.slice(0, 10),
+      middlemanId: purchase.middlemanId,
+      deliveredBy: purchase.deliveredBy,
+      amountPaid: purchase.amountPaid,
+      notes: purchase.notes,
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (purchase: FodderPurchase) => {
+    fodderPurchaseRepository.remove(purchase.id);
+    toast.success('Fodder purchase deleted');
+  };
+
+  const handleMarkPaid = (purchase: FodderPurchase) => {
+    fodderPurchaseRepository.update(purchase.id, { amountPaid: getPurchaseTotal(purchase), updatedAt: new Date().toISOString() });
+    toast.success(`Marked $${getPurchaseTotal(purchase).toLocaleString()} as paid`);
+  };
+
+  // The farmer's usual middleman is suggested when the farmer changes
+  const handleFarmerChange = (farmerId: string) => {
+    setForm({ ...form, farmerId, middlemanId: getFarmer(farmerId)?.middlemanId });
+  };
+
+  const handleSubmit = () => {
+    if (!form.farmerId || !form.fodderType.trim()) {
+      toast.error('Please fill in required fields (Farmer and Fodder)');
+      return;
+    }
+    if (!(form.quantity > 0) || form.unitPrice < 0 || form.amountPaid < 0) {
+      toast.error('Quantity must be more than zero and the price and amount paid can\'t be negative');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const values: PurchaseForm = {
+      ...form,
+      fodderType: form.fodderType.trim(),
+      purchasedAt: new Date(form.purchasedAt).toISOString(),
+    };
+    try {
+      if (editingId) {
+        fodderPurchaseRepository.update(editingId, { ...values, updatedAt: now });
+        toast.success('Fodder purchase updated successfully');
+      } else {
+        fodderPurchaseRepository.create({ ...values, id: `fodder-${Date.now()}`, createdBy: user?.id, createdAt: now });
+        toast.success('Fodder purchase recorded');
+      }
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error saving fodder purchase:', error);
+      toast.error('Failed to save fodder purchase');
+    }
+  };
+
+  if (!hasPermission('farmer_read')) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-gray-500">You don't have permission to view fodder purchases.</p>
+      </div>
+    );
+  }
+
+  // Purchases of farmers outside the user's scope are left out entirely
+  const visiblePurchases = purchases.filter(purchase => !!getFarmer(purchase.farmerId));
+  const selected = id ? visiblePurchases.find(purchase => purchase.id === id) : undefined;
+
+  const renderDetail = (purchase: FodderPurchase) => {
+    const farmer = getFarmer(purchase.farmerId);
+    const details = [
+      { label: 'Farmer', value: farmer ? `${farmer.name} (${farmer.phone})` : '-' },
+      { label: 'Date', value: new Date(purchase.purchasedAt).toLocaleDateString() },
+      { label: 'Quantity', value: `${purchase.quantity} ${purchase.unit}` },
+      { label: 'Unit Price', value: `$${purchase.unitPrice.toLocaleString()}` },
+      { label: 'Total', value: `$${getPurchaseTotal(purchase).toLocaleString()}` },
+      { label: 'Middleman', value: getMiddlemanName(purchase.middlemanId) || '-' },
+      { label: 'Delivered By', value: getUserName(purchase.deliveredBy) || 'Not delivered yet' },
+      { label: 'Paid', value: `$${purchase.amountPaid.toLocaleString()}` },
+      { label: 'Outstanding', value: `$${getOutstanding(purchase).toLocaleString()}` },
+    ];
+    return (
+      <div className="space-y-6">
+        <Link to="/farmers/fodder" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All fodder purchases
+        </Link>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900">{purchase.fodderType}</h1>
+            <Badge className={PAYMENT_STATUS_STYLES[getPaymentStatus(purchase)]}>
+              {PAYMENT_STATUS_LABELS[getPaymentStatus(purchase)]}
+            </Badge>
+          </div>
+          {canEditPurchase(purchase) && (
+            <div className="flex gap-2">
+              {getOutstanding(purchase) > 0 && (
+                <Button variant="outline" onClick={() => handleMarkPaid(purchase)}>
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Mark as Paid
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => handleEdit(purchase)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+            </div>
+          )}
+        </div>
+        <Card>
+          <CardContent className="pt-6">
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              {details.map(detail => (
+                <div key={detail.label}>
+                  <dt className="text-gray-500">{detail.label}</dt>
+                  <dd className="font-medium">{detail.value}</dd>
+                </div>
+              ))}
+            </dl>
+            {purchase.notes && <p className="mt-4 text-sm text-gray-600">{purchase.notes}</p>}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  };
+
+  const search = searchTerm.toLowerCase();
+  const filteredPurchases = visiblePurchases
+    .filter(purchase =>
+      purchase.fodderType.toLowerCase().includes(search) ||
+      (getFarmer(purchase.farmerId)?.name || '').toLowerCase().includes(search) ||
+      (getMiddlemanName(purchase.middlemanId) || '').toLowerCase().includes(search) ||
+      (getUserName(purchase.deliveredBy) || '').toLowerCase().includes(search)
+    )
+    // DataTable sorts on plain fields, so names and the total are added as ones
+    .map(purchase => ({
+      ...purchase,
+      farmerName: getFarmer(purchase.farmerId)?.name || '',
+      middlemanName: getMiddlemanName(purchase.middlemanId) || '',
+      total: getPurchaseTotal(purchase),
+      outstanding: getOutstanding(purchase),
+      paymentStatus: getPaymentStatus(purchase),
+    }));
+  const totalSpent = filteredPurchases.reduce((sum, purchase) => sum + purchase.total, 0);
+  const totalOutstanding = filteredPurchases.reduce((sum, purchase) => sum + purchase.outstanding, 0);
+
+  // Balances cover every visible purchase, whatever the search on the orders tab
+  const toBalanceRows = (balances: ReturnType<typeof summariseBalances>, getName: (key: string) => string | undefined) =>
+    [...balances.entries()]
+      .map(([key, balance]) => ({ id: key, name: getName(key) || 'Unknown', ...balance }))
+      .filter(row => row.name.toLowerCase().includes(balanceSearch.toLowerCase()))
+      .sort((a, b) => b.outstanding - a.outstanding);
+  const farmerBalances = toBalanceRows(
+    summariseBalances(visiblePurchases, purchase => purchase.farmerId),
+    farmerId => getFarmer(farmerId)?.name
+  );
+  const middlemanBalances = toBalanceRows(
+    summariseBalances(visiblePurchases, purchase => purchase.middlemanId),
+    getMiddlemanName
+  );
+  const money = (value: number) => `$${value.toLocaleString()}`;
+  const balanceColumns = (nameTitle: string, linkTo: (id: string) => string) => [
+    {
+      key: 'name',
+      title: nameTitle,
+      width: '30%',
+      render: (value: string, record: { id: string }) => (
+        <Link to={linkTo(record.id)} className="text-blue-600 hover:underline">{value}</Link>
+      ),
+    },
+    { key: 'orders', title: 'Orders', width: '13%' },
+    { key: 'total', title: 'Total', width: '19%', render: money },
+    { key: 'paid', title: 'Paid', width: '19%', render: money },
+    {
+      key: 'outstanding',
+      title: 'Outstanding',
+      width: '19%',
+      render: (value: number) => <span className={value > 0 ? 'font-medium text-red-600' : ''}>{money(value)}</span>,
+    },
+  ];
+
+  const columns = [
+    {
+      key: 'purchasedAt',
+      title: 'Date',
+      width: '12%',
+      render: (value: string) => new Date(value).toLocaleDateString(),
+    },
+    { key: 'farmerName', title: 'Farmer', width: '15%' },
+    { key: 'fodderType', title: 'Fodder', width: '12%' },
+    {
+      key: 'quantity',
+      title: 'Quantity',
+      width: '10%',
+      render: (_: unknown, record: FodderPurchase) => `${record.quantity} ${record.unit}`,
+    },
+    {
+      key: 'total',
+      title: 'Total',
+      width: '10%',
+      render: money,
+    },
+    {
+      key: 'paymentStatus',
+      title: 'Payment',
+      width: '10%',
+      render: (value: PaymentStatus) => <Badge className={PAYMENT_STATUS_STYLES[value]}>{PAYMENT_STATUS_LABELS[value]}</Badge>,
+    },
+    {
+      key: 'middlemanName',
+      title: 'Middleman',
+      width: '13%',
+      render: (value: string) => value || '-',
+    },
+    {
+      key: 'actions',
+      title: 'Actions',
+      width: '18%',
+      sortable: false,
+      render: (_: unknown, record: FodderPurchase) => (
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" asChild title="View Purchase">
+            <Link to={`/farmers/fodder/${record.id}`}>
+              <Eye className="h-4 w-4" />
+            </Link>
+          </Button>
+          {canEditPurchase(record) && (
+            <>
+              {getOutstanding(record) > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => handleMarkPaid(record)} title="Mark as Paid">
+                  <CheckCircle className="h-4 w-4" />
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => handleEdit(record)} title="Edit Purchase">
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(record)}
+                className="text-red-600 hover:text-red-700"
+                title="Delete Purchase"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {id ? (
+        selected ? renderDetail(selected) : (
+          <div className="text-center py-12">
+            <p className="text-gray-500 mb-4">This purchase doesn't exist or you don't have access to it.</p>
+            <Link to="/farmers/fodder" className="text-blue-600 hover:underline">Back to all fodder purchases</Link>
+          </div>
+        )
+      ) : (
+        <>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Wheat className="h-6 w-6" />
+              Fodder Purchases
+            </h1>
+            <p className="text-gray-600">Fodder orders and payments of the farmers you can see</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Purchases</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{filteredPurchases.length}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Total Spent</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">${totalSpent.toLocaleString()}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-red-600">${totalOutstanding.toLocaleString()}</div>
+              </CardContent>
+            </Card>
+          </div>
+          {/* Each tab's search box starts empty again, so the filters are cleared with it */}
+          <Tabs
+            defaultValue="orders"
+            onValueChange={() => {
+              setSearchTerm('');
+              setBalanceSearch('');
+            }}
+            className="space-y-4"
+          >
+            <TabsList>
+              <TabsTrigger value="orders">Orders</TabsTrigger>
+              <TabsTrigger value="farmers">Balances by Farmer</TabsTrigger>
+              <TabsTrigger value="middlemen">Balances by Middleman</TabsTrigger>
+            </TabsList>
+            <TabsContent value="orders">
+              <DataTable
+                data={filteredPurchases}
+                columns={columns}
+                searchPlaceholder="Search by fodder, farmer, middleman or delivery..."
+                onSearch={setSearchTerm}
+                onAdd={hasPermission('farmer_update') && editableFarmers.length > 0 ? handleAdd : undefined}
+                addButtonText="Record Purchase"
+                showAddButton={hasPermission('farmer_update') && editableFarmers.length > 0}
+                emptyMessage="No fodder purchases found"
+              />
+            </TabsContent>
+            <TabsContent value="farmers">
+              <DataTable
+                data={farmerBalances}
+                columns={balanceColumns('Farmer', farmerId => `/farmers/${farmerId}`)}
+                searchPlaceholder="Search by farmer..."
+                onSearch={setBalanceSearch}
+                emptyMessage="No fodder purchases yet"
+              />
+            </TabsContent>
+            <TabsContent value="middlemen">
+              <DataTable
+                data={middlemanBalances}
+                columns={balanceColumns('Middleman', middlemanId => `/farmers/middlemen/${middlemanId}`)}
+                searchPlaceholder="Search by middleman..."
+                onSearch={setBalanceSearch}
+                emptyMessage="No purchases made through a middleman yet"
+              />
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="sm:max-w-[550px] max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Fodder Purchase' : 'Record Fodder Purchase'}</DialogTitle>
+            <DialogDescription>
+              {editingId ? 'Update the purchase details.' : 'Record fodder bought by one of your farmers.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Farmer *</Label>
+              <Select value={form.farmerId} onValueChange={handleFarmerChange}>
+                <SelectTrigger className="col-span-3">
+                  <SelectValue placeholder="Select a farmer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {editableFarmers.map(farmer => (
+                    <SelectItem key={farmer.id} value={farmer.id}>{farmer.name} - {farmer.phone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="fodderType" className="text-right">Fodder *</Label>
+              <Input
+                id="fodderType"
+                placeholder="e.g. Rice straw, Wheat bran"
+                value={form.fodderType}
+                onChange={(e) => setForm({ ...form, fodderType: e.target.value })}
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="fodderQuantity" className="text-right">Quantity</Label>
+              <Input
+                id="fodderQuantity"
+                type="number"
+                min={0}
+                value={form.quantity}
+                onChange={(e) => setForm({ ...form, quantity: parseFloat(e.target.value) || 0 })}
+                className="col-span-2"
+              />
+              <Select value={form.unit} onValueChange={(value) => setForm({ ...form, unit: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FODDER_UNITS.map(unit => (
+                    <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="fodderUnitPrice" className="text-right">Unit Price</Label>
+              <Input
+                id="fodderUnitPrice"
+                type="number"
+                min={0}
+                value={form.unitPrice}
+                onChange={(e) => setForm({ ...form, unitPrice: parseFloat(e.target.value) || 0 })}
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="fodderDate" className="text-right">Date</Label>
+              <Input
+                id="fodderDate"
+                type="date"
+                value={form.purchasedAt}
+                onChange={(e) => setForm({ ...form, purchasedAt: e.target.value })}
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Middleman</Label>
+              <Select
+                value={form.middlemanId || NO_MIDDLEMAN}
+                onValueChange={(value) => setForm({ ...form, middlemanId: value === NO_MIDDLEMAN ? undefined : value })}
+              >
+                <SelectTrigger className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MIDDLEMAN}>Bought directly</SelectItem>
+                  {middlemen.map(middleman => (
+                    <SelectItem key={middleman.id} value={middleman.id}>{middleman.name} - {middleman.phone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Delivered By</Label>
+              <Select
+                value={form.deliveredBy || NOT_DELIVERED}
+                onValueChange={(value) => setForm({ ...form, deliveredBy: value === NOT_DELIVERED ? undefined : value })}
+              >
+                <SelectTrigger className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_DELIVERED}>Not delivered yet</SelectItem>
+                  {users.filter(u => u.status === 'active' || u.id === form.deliveredBy).map(u => (
+                    <SelectItem key={u.id} value={u.id}>{u.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="fodderAmountPaid" className="text-right">Amount Paid</Label>
+              <Input
+                id="fodderAmountPaid"
+                type="number"
+                min={0}
+                value={form.amountPaid}
+                onChange={(e) => setForm({ ...form, amountPaid: parseFloat(e.target.value) || 0 })}
+                className="col-span-2"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setForm({ ...form, amountPaid: form.quantity * form.unitPrice })}
+              >
+                Paid in Full
+              </Button>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="fodderNotes" className="text-right">Notes</Label>
+              <Textarea id="fodderNotes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} className="col-span-3" rows={2} />
+            </div>
+            <p className="text-sm text-right text-gray-600">
+              Total: <span className="font-bold">${(form.quantity * form.unitPrice).toLocaleString()}</span>
+              {' '}· Outstanding: <span className="font-bold">${Math.max(form.quantity * form.unitPrice - form.amountPaid, 0).toLocaleString()}</span>
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit}>{editingId ? 'Update Purchase' : 'Record Purchase'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default FodderPurchases;
@@ -0,0 +1,310 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDataScope } from '@/hooks/useDataScope';
+import DataTable from '@/components/common/DataTable';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, Edit, Eye, Handshake, Phone, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { farmerRepository, fodderPurchaseRepository, middlemanRepository } from '@/lib/repositories';
+import type { Middleman } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
+import { isValidPhone, normalisePhone } from '@/lib/phone';
+import { getMiddlemanUsage, getOutstanding, getPurchaseTotal } from '@/lib/farmerProfile';
+
+type MiddlemanForm = Omit<Middleman, 'id' | 'createdAt' | 'updatedAt'>;
+
+const emptyForm: MiddlemanForm = { name: '', phone: '', area: '', notes: '' };
+
+// Middlemen are shared between farmers, so anyone who can update farmers can maintain the list
+const Middlemen: React.FC = () => {
+  const { id } = useParams();
+  const { hasPermission } = useAuth();
+  const scope = useDataScope();
+  const middlemen = useRepository(middlemanRepository);
+  const farmers = scope.filterVisible('farmer', useRepository(farmerRepository));
+  const purchases = useRepository(fodderPurchaseRepository);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<MiddlemanForm>(emptyForm);
+
+  const canManage = hasPermission('farmer_update');
+  const canDelete = hasPermission('farmer_delete');
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (middleman: Middleman) => {
+    setEditingId(middleman.id);
+    setForm({ name: middleman.name, phone: middleman.phone, area: middleman.area, notes: middleman.notes });
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (middleman: Middleman) => {
+    const usage = getMiddlemanUsage(middleman.id);
+    if (usage.farmers > 0 || usage.purchases > 0) {
+      toast.error(`${middleman.name} is linked to ${usage.farmers} farmer(s) and ${usage.purchases} fodder purchase(s) - unlink them first`);
+      return;
+    }
+    middlemanRepository.remove(middleman.id);
+    toast.success(`Middleman "${middleman.name}" deleted`);
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim() || !form.phone.trim()) {
+      toast.error('Please fill in required fields (Name and Phone)');
+      return;
+    }
+    if (!isValidPhone(form.phone)) {
+      toast.error('Please enter a valid phone number');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const values = { ...form, name: form.name.trim(), phone: normalisePhone(form.phone) };
+    try {
+      if (editingId) {
+        middlemanRepository.update(editingId, { ...values, updatedAt: now });
+        toast.success('Middleman updated successfully');
+      } else {
+        middlemanRepository.create({ ...values, id: `middleman-${Date.now()}`, createdAt: now });
+        toast.success('Middleman added successfully');
+      }
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error saving middleman:', error);
+      toast.error('Failed to save middleman');
+    }
+  };
+
+  if (!hasPermission('farmer_read')) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-gray-500">You don't have permission to view middlemen.</p>
+      </div>
+    );
+  }
+
+  const selected = id ? middlemen.find(middleman => middleman.id === id) : undefined;
+  const getFarmerName = (farmerId: string) => farmers.find(farmer => farmer.id === farmerId)?.name || 'Unknown farmer';
+
+  const renderDetail = (middleman: Middleman) => {
+    const linkedFarmers = farmers.filter(farmer => farmer.middlemanId === middleman.id);
+    const visibleFarmerIds = new Set(farmers.map(farmer => farmer.id));
+    const middlemanPurchases = purchases
+      .filter(purchase => purchase.middlemanId === middleman.id && visibleFarmerIds.has(purchase.farmerId))
+      .sort((a, b) => b.purchasedAt.localeCompare(a.purchasedAt));
+    const total = middlemanPurchases.reduce((sum, purchase) => sum + getPurchaseTotal(purchase), 0);
+    const outstanding = middlemanPurchases.reduce((sum, purchase) => sum + getOutstanding(purchase), 0);
+    return (
+      <div className="space-y-6">
+        <Link to="/farmers/middlemen" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All middlemen
+        </Link>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{middleman.name}</h1>
+            <p className="text-gray-600">{middleman.area || 'Middleman'}</p>
+          </div>
+          {canManage && (
+            <Button variant="outline" onClick={() => handleEdit(middleman)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+        <Card>
+          <CardContent className="pt-6 space-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              <Phone className="h-4 w-4 text-gray-500" />
+              {middleman.phone}
+            </div>
+            {middleman.notes && <p className="text-gray-600">{middleman.notes}</p>}
+          </CardContent>
+        </Card>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Farmers ({linkedFarmers.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {linkedFarmers.length === 0 && <p className="text-sm text-gray-500">No farmers trade through this middleman</p>}
+              {linkedFarmers.map(farmer => (
+                <div key={farmer.id} className="flex justify-between text-sm">
+                  <span className="font-medium">{farmer.name}</span>
+                  <span className="text-gray-500">{farmer.phone}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Fodder purchases ({middlemanPurchases.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {middlemanPurchases.length === 0 && <p className="text-sm text-gray-500">No fodder bought through this middleman</p>}
+              {middlemanPurchases.map(purchase => (
+                <div key={purchase.id} className="flex justify-between text-sm">
+                  <Link to={`/farmers/fodder/${purchase.id}`} className="text-blue-600 hover:underline">
+                    {purchase.fodderType} for {getFarmerName(purchase.farmerId)}
+                  </Link>
+                  <span>${getPurchaseTotal(purchase).toLocaleString()}</span>
+                </div>
+              ))}
+              {middlemanPurchases.length > 0 && (
+                <div className="flex justify-between text-sm font-bold border-t pt-2">
+                  <span>Total</span>
+                  <span>${total.toLocaleString()}</span>
+                </div>
+              )}
+              {outstanding > 0 && (
+                <div className="flex justify-between text-sm font-bold text-red-600">
+                  <span>Outstanding</span>
+                  <span>${outstanding.toLocaleString()}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  const filteredMiddlemen = middlemen.filter(middleman =>
+    middleman.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    middleman.phone.includes(searchTerm) ||
+    middleman.area.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const columns = [
+    { key: 'name', title: 'Name', width: '25%' },
+    { key: 'phone', title: 'Phone', width: '20%' },
+    { key: 'area', title: 'Area', width: '20%' },
+    {
+      key: 'farmers',
+      title: 'Farmers',
+      width: '15%',
+      sortable: false,
+      render: (_: unknown, record: Middleman) => (
+        <Badge variant="outline">{farmers.filter(farmer => farmer.middlemanId === record.id).length}</Badge>
+      ),
+    },
+    {
+      key: 'actions',
+      title: 'Actions',
+      width: '20%',
+      sortable: false,
+      render: (_: unknown, record: Middleman) => (
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" asChild title="View Middleman">
+            <Link to={`/farmers/middlemen/${record.id}`}>
+              <Eye className="h-4 w-4" />
+            </Link>
+          </Button>
+          {canManage && (
+            <Button variant="ghost" size="sm" onClick={() => handleEdit(record)} title="Edit Middleman">
+              <Edit className="h-4 w-4" />
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(record)}
+              className="text-red-600 hover:text-red-700"
+              title="Delete Middleman"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {id ? (
+        selected ? renderDetail(selected) : (
+          <div className="text-center py-12">
+            <p className="text-gray-500 mb-4">This middleman doesn't exist or has been deleted.</p>
+            <Link to="/farmers/middlemen" className="text-blue-600 hover:underline">Back to all middlemen</Link>
+          </div>
+        )
+      ) : (
+        <>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Handshake className="h-6 w-6" />
+              Middlemen
+            </h1>
+            <p className="text-gray-600">Agents that farmers sell through and buy fodder from</p>
+          </div>
+          <DataTable
+            data={filteredMiddlemen}
+            columns={columns}
+            searchPlaceholder="Search middlemen..."
+            onSearch={setSearchTerm}
+            onAdd={canManage ? handleAdd : undefined}
+            addButtonText="Add Middleman"
+            showAddButton={canManage}
+            emptyMessage="No middlemen found"
+          />
+        </>
+      )}
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Middleman' : 'Add Middleman'}</DialogTitle>
+            <DialogDescription>
+              {editingId ? 'Update the middleman\'s details.' : 'Add a middleman that farmers and fodder purchases can be linked to.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="middlemanName" className="text-right">Name *</Label>
+              <Input id="middlemanName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="middlemanPhone" className="text-right">Phone *</Label>
+              <Input id="middlemanPhone" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="middlemanArea" className="text-right">Area</Label>
+              <Input id="middlemanArea" value={form.area} onChange={(e) => setForm({ ...form, area: e.target.value })} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="middlemanNotes" className="text-right">Notes</Label>
+              <Textarea id="middlemanNotes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} className="col-span-3" rows={3} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit}>{editingId ? 'Update Middleman' : 'Add Middleman'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Middlemen;
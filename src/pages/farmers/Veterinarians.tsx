@@ -0,0 +1,299 @@
+import React, { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDataScope } from '@/hooks/useDataScope';
+import DataTable from '@/components/common/DataTable';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, Edit, Eye, Phone, Stethoscope, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { animalRepository, farmerRepository, veterinarianRepository } from '@/lib/repositories';
+import type { Veterinarian } from '@/lib/repositories';
+import { useRepository } from '@/hooks/useRepository';
+import { isValidPhone, normalisePhone } from '@/lib/phone';
+import { HEALTH_STATUS_LABELS, HEALTH_STATUS_STYLES, getAnimalLabel, getVeterinarianUsage } from '@/lib/farmerProfile';
+
+type VeterinarianForm = Omit<Veterinarian, 'id' | 'createdAt' | 'updatedAt'>;
+
+const emptyForm: VeterinarianForm = { name: '', phone: '', clinic: '', area: '', notes: '' };
+
+// Vets are shared between farmers, so anyone who can update farmers can maintain the list
+const Veterinarians: React.FC = () => {
+  const { id } = useParams();
+  const { hasPermission } = useAuth();
+  const scope = useDataScope();
+  const veterinarians = useRepository(veterinarianRepository);
+  const farmers = scope.filterVisible('farmer', useRepository(farmerRepository));
+  const animals = useRepository(animalRepository);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<VeterinarianForm>(emptyForm);
+
+  const canManage = hasPermission('farmer_update');
+  const canDelete = hasPermission('farmer_delete');
+
+  const handleAdd = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (vet: Veterinarian) => {
+    setEditingId(vet.id);
+    setForm({ name: vet.name, phone: vet.phone, clinic: vet.clinic, area: vet.area, notes: vet.notes });
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (vet: Veterinarian) => {
+    const usage = getVeterinarianUsage(vet.id);
+    if (usage.farmers > 0 || usage.animals > 0) {
+      toast.error(`${vet.name} is linked to ${usage.farmers} farmer(s) and ${usage.animals} animal(s) - unlink them first`);
+      return;
+    }
+    veterinarianRepository.remove(vet.id);
+    toast.success(`Vet "${vet.name}" deleted`);
+  };
+
+  const handleSubmit = () => {
+    if (!form.name.trim() || !form.phone.trim()) {
+      toast.error('Please fill in required fields (Name and Phone)');
+      return;
+    }
+    if (!isValidPhone(form.phone)) {
+      toast.error('Please enter a valid phone number');
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const values = { ...form, name: form.name.trim(), phone: normalisePhone(form.phone) };
+    try {
+      if (editingId) {
+        veterinarianRepository.update(editingId, { ...values, updatedAt: now });
+        toast.success('Vet updated successfully');
+      } else {
+        veterinarianRepository.create({ ...values, id: `vet-${Date.now()}`, createdAt: now });
+        toast.success('Vet added successfully');
+      }
+      setIsModalOpen(false);
+    } catch (error) {
+      console.error('Error saving vet:', error);
+      toast.error('Failed to save vet');
+    }
+  };
+
+  if (!hasPermission('farmer_read')) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <p className="text-gray-500">You don't have permission to view veterinarians.</p>
+      </div>
+    );
+  }
+
+  const selected = id ? veterinarians.find(vet => vet.id === id) : undefined;
+
+  const renderDetail = (vet: Veterinarian) => {
+    const vetFarmers = farmers.filter(farmer => farmer.veterinarianId === vet.id);
+    const visibleFarmerIds = new Set(farmers.map(farmer => farmer.id));
+    const treatedAnimals = animals.filter(animal => animal.veterinarianId === vet.id && visibleFarmerIds.has(animal.farmerId));
+    return (
+      <div className="space-y-6">
+        <Link to="/farmers/veterinarians" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All vets
+        </Link>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{vet.name}</h1>
+            <p className="text-gray-600">{[vet.clinic, vet.area].filter(Boolean).join(' · ') || 'Veterinarian'}</p>
+          </div>
+          {canManage && (
+            <Button variant="outline" onClick={() => handleEdit(vet)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+        <Card>
+          <CardContent className="pt-6 space-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              <Phone className="h-4 w-4 text-gray-500" />
+              {vet.phone}
+            </div>
+            {vet.notes && <p className="text-gray-600">{vet.notes}</p>}
+          </CardContent>
+        </Card>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Farmers ({vetFarmers.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {vetFarmers.length === 0 && <p className="text-sm text-gray-500">No farmers consult this vet</p>}
+              {vetFarmers.map(farmer => (
+                <div key={farmer.id} className="flex justify-between text-sm">
+                  <span className="font-medium">{farmer.name}</span>
+                  <span className="text-gray-500">{farmer.phone}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Animals treated ({treatedAnimals.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {treatedAnimals.length === 0 && <p className="text-sm text-gray-500">No animals are assigned to this vet</p>}
+              {treatedAnimals.map(animal => (
+                <div key={animal.id} className="flex justify-between items-center text-sm">
+                  <Link to={`/farmers/animals/${animal.id}`} className="text-blue-600 hover:underline">
+                    {getAnimalLabel(animal)}
+                  </Link>
+                  <Badge className={HEALTH_STATUS_STYLES[animal.healthStatus]}>{HEALTH_STATUS_LABELS[animal.healthStatus]}</Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  const filteredVeterinarians = veterinarians.filter(vet =>
+    vet.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    vet.phone.includes(searchTerm) ||
+    vet.clinic.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    vet.area.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const columns = [
+    { key: 'name', title: 'Name', width: '20%' },
+    { key: 'phone', title: 'Phone', width: '15%' },
+    { key: 'clinic', title: 'Clinic', width: '20%' },
+    { key: 'area', title: 'Area', width: '15%' },
+    {
+      key: 'farmers',
+      title: 'Farmers',
+      width: '10%',
+      sortable: false,
+      render: (_: unknown, record: Veterinarian) => (
+        <Badge variant="outline">{farmers.filter(farmer => farmer.veterinarianId === record.id).length}</Badge>
+      ),
+    },
+    {
+      key: 'actions',
+      title: 'Actions',
+      width: '20%',
+      sortable: false,
+      render: (_: unknown, record: Veterinarian) => (
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" asChild title="View Vet">
+            <Link to={`/farmers/veterinarians/${record.id}`}>
+              <Eye className="h-4 w-4" />
+            </Link>
+          </Button>
+          {canManage && (
+            <Button variant="ghost" size="sm" onClick={() => handleEdit(record)} title="Edit Vet">
+              <Edit className="h-4 w-4" />
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDelete(record)}
+              className="text-red-600 hover:text-red-700"
+              title="Delete Vet"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {id ? (
+        selected ? renderDetail(selected) : (
+          <div className="text-center py-12">
+            <p className="text-gray-500 mb-4">This vet doesn't exist or has been deleted.</p>
+            <Link to="/farmers/veterinarians" className="text-blue-600 hover:underline">Back to all vets</Link>
+          </div>
+        )
+      ) : (
+        <>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Stethoscope className="h-6 w-6" />
+              Veterinarians
+            </h1>
+            <p className="text-gray-600">Vets consulted by farmers and assigned to animals</p>
+          </div>
+          <DataTable
+            data={filteredVeterinarians}
+            columns={columns}
+            searchPlaceholder="Search vets..."
+            onSearch={setSearchTerm}
+            onAdd={canManage ? handleAdd : undefined}
+            addButtonText="Add Vet"
+            showAddButton={canManage}
+            emptyMessage="No vets found"
+          />
+        </>
+      )}
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Vet' : 'Add Vet'}</DialogTitle>
+            <DialogDescription>
+              {editingId ? 'Update the vet\'s details.' : 'Add a vet that farmers and animals can be linked to.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="vetName" className="text-right">Name *</Label>
+              <Input id="vetName" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="vetPhone" className="text-right">Phone *</Label>
+              <Input id="vetPhone" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="vetClinic" className="text-right">Clinic</Label>
+              <Input id="vetClinic" value={form.clinic} onChange={(e) => setForm({ ...form, clinic: e.target.value })} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="vetArea" className="text-right">Area</Label>
+              <Input id="vetArea" value={form.area} onChange={(e) => setForm({ ...form, area: e.target.value })} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="vetNotes" className="text-right">Notes</Label>
+              <Textarea id="vetNotes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} className="col-span-3" rows={3} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsModalOpen(false)}>Cancel</Button>
+            <Button onClick={handleSubmit}>{editingId ? 'Update Vet' : 'Add Vet'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Veterinarians;
@@ -9,81 +9,30 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { MapPin, Clock, User, Calendar, Navigation, CheckCircle, AlertCircle, Users, Building2, Eye, Plus, Search, Filter, Phone, Mail, Camera, X } from 'lucide-react';
 import { toast } from 'sonner';
+import {
+  animalRepository,
+  clientRepository,
+  farmerRepository,
+  fieldVisitRepository,
+  fodderPurchaseRepository,
+  roleRepository,
+  userRepository,
+} from '@/lib/repositories';
+import type { Client, Farmer, FieldVisit, Role, User as SystemUser } from '@/lib/repositories';
+import { useDataScope } from '@/hooks/useDataScope';
+import { useRepository } from '@/hooks/useRepository';
+import { getLatestPurchase, summariseAnimals } from '@/lib/farmerProfile';
 
-interface Client {
-  id: string;
-  name: string;
-  type: 'individual' | 'corporate';
-  phone?: string;
-  email?: string;
-  address?: string;
-  area?: string;
-  registrationDate?: string;
-  status?: string;
-}
-
-interface Farmer {
-  id: string;
-  name: string;
-  phone: string;
-  address: string;
-  animalName: string;
-  consultDr: string;
-  drPhone: string;
-  middleMan: string;
-  middleManPhone: string;
-  fodder: string;
-  price: number;
-  registrationDate: string;
-  status: 'active' | 'inactive';
-  notes: string;
-}
-
-interface FieldVisit {
-  id: string;
-  visitType: 'client' | 'farmer';
-  targetId: string;
-  targetName: string;
-  targetPhone?: string;
-  targetAddress?: string;
-  assignedUserId: string;
-  assignedUserName: string;
-  scheduledDate: string;
-  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
-  location?: {
-    latitude: number;
-    longitude: number;
-    address: string;
-    timestamp: string;
-  };
-  liveLocation?: {
-    latitude: number;
-    longitude: number;
-    timestamp: string;
-    isTracking: boolean;
-  };
-  startPhoto?: string;
-  notes: string;
-  purpose: string;
-  duration?: number;
-  createdAt: string;
-  completedAt?: string;
-}
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  role?: string;
-  roleId?: string;
-  status?: string;
-}
 
 export default function FieldVisitModule() {
+  const scope = useDataScope();
+  const animals = useRepository(animalRepository);
+  const fodderPurchases = useRepository(fodderPurchaseRepository);
   const [visits, setVisits] = useState<FieldVisit[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [farmers, setFarmers] = useState<Farmer[]>([]);
-  const [users, setUsers] = useState<User[]>([]);
+  const [users, setUsers] = useState<SystemUser[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
   const [currentLocation, setCurrentLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [isTracking, setIsTracking] = useState(false);
   const [selectedVisit, setSelectedVisit] = useState<string | null>(null);
@@ -116,39 +65,29 @@ export default function FieldVisitModule() {
 
   const loadData = () => {
     try {
-      // Load clients from localStorage
-      const savedClients = localStorage.getItem('hdf_clients');
-      if (savedClients) {
-        const clientData = JSON.parse(savedClients);
-        setClients(clientData);
-      }
-
-      // Load farmers from localStorage
-      const savedFarmers = localStorage.getItem('hdf_farmers');
-      if (savedFarmers) {
-        const farmerData = JSON.parse(savedFarmers);
-        setFarmers(farmerData);
-      }
-
-      // Load users from localStorage
-      const savedUsers = localStorage.getItem('hdf_users');
-      if (savedUsers) {
-        const userData = JSON.parse(savedUsers);
-        setUsers(userData);
-      }
-
-      // Load visits from localStorage
-      const savedVisits = localStorage.getItem('hdf_field_visits');
-      if (savedVisits) {
-        const visitData = JSON.parse(savedVisits);
-        setVisits(visitData);
-      }
+      setClients(clientRepository.list());
+      setFarmers(farmerRepository.list());
+      setUsers(userRepository.list());
+      setRoles(roleRepository.list());
+      setVisits(fieldVisitRepository.list());
     } catch (error) {
       console.error('Error loading data:', error);
       toast.error('Failed to load data');
     }
   };
 
+  const getAnimalSummary = (farmerId: string) =>
+    summariseAnimals(animals.filter(animal => animal.farmerId === farmerId));
+
+  const describeLastPurchase = (farmerId: string) => {
+    const purchase = getLatestPurchase(fodderPurchases, farmerId);
+    return purchase ? `${purchase.fodderType} (${purchase.quantity} ${purchase.unit})` : '';
+  };
+
+  const getRoleName = (roleId: string) => {
+    return roles.find(role => role.id === roleId)?.name || 'Field Agent';
+  };
+
   const startLocationTracking = () => {
     if (navigator.geolocation) {
       const watchId = navigator.geolocation.watchPosition(
@@ -188,9 +127,9 @@ export default function FieldVisitModule() {
 
   const getTargetOptions = () => {
     if (formData.visitType === 'client') {
-      return clients.filter(client => !client.status || client.status === 'active');
+      return clients.filter(client => client.status === 'active');
     } else {
-      return farmers.filter(farmer => !farmer.status || farmer.status === 'active');
+      return farmers.filter(farmer => farmer.status === 'active');
     }
   };
 
@@ -229,7 +168,7 @@ export default function FieldVisitModule() {
 
     const updatedVisits = [newVisit, ...visits];
     setVisits(updatedVisits);
-    localStorage.setItem('hdf_field_visits', JSON.stringify(updatedVisits));
+    fieldVisitRepository.saveAll(updatedVisits);
 
     setShowCreateForm(false);
     setFormData({
@@ -334,7 +273,7 @@ export default function FieldVisitModule() {
     );
 
     setVisits(updatedVisits);
-    localStorage.setItem('hdf_field_visits', JSON.stringify(updatedVisits));
+    fieldVisitRepository.saveAll(updatedVisits);
     toast.success('Visit started! Photo captured & location tracking enabled.');
   };
 
@@ -367,13 +306,18 @@ export default function FieldVisitModule() {
     );
 
     setVisits(updatedVisits);
-    localStorage.setItem('hdf_field_visits', JSON.stringify(updatedVisits));
+    fieldVisitRepository.saveAll(updatedVisits);
     setSelectedVisit(null);
     setIsTracking(false);
     toast.success('Visit completed successfully!');
   };
 
-  const filteredVisits = visits.filter(visit => {
+  // Visits and agents are limited to the user's scope (own, team or all)
+  const visibleVisits = scope.filterVisible('visit', visits);
+  const usersInScope = scope.userIdsInScope('visit');
+  const visibleUsers = usersInScope ? users.filter(u => usersInScope.has(u.id)) : users;
+
+  const filteredVisits = visibleVisits.filter(visit => {
     const matchesSearch = visit.targetName.toLowerCase().includes(searchTerm.toLowerCase()) ||
       visit.assignedUserName.toLowerCase().includes(searchTerm.toLowerCase()) ||
       visit.purpose.toLowerCase().includes(searchTerm.toLowerCase());
@@ -469,10 +413,10 @@ export default function FieldVisitModule() {
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="visits">Field Visits ({visits.length})</TabsTrigger>
+          <TabsTrigger value="visits">Field Visits ({visibleVisits.length})</TabsTrigger>
           <TabsTrigger value="clients">Clients ({clients.length})</TabsTrigger>
           <TabsTrigger value="farmers">Farmers ({farmers.length})</TabsTrigger>
-          <TabsTrigger value="users">Field Agents ({users.length})</TabsTrigger>
+          <TabsTrigger value="users">Field Agents ({visibleUsers.length})</TabsTrigger>
         </TabsList>
 
         <TabsContent value="visits" className="space-y-4">
@@ -573,8 +517,8 @@ export default function FieldVisitModule() {
                                 {target.address && (
                                   <span className="text-xs text-gray-400 truncate">{target.address}</span>
                                 )}
-                                {formData.visitType === 'farmer' && (target as Farmer).animalName && (
-                                  <span className="text-xs text-blue-600">🐄 {(target as Farmer).animalName}</span>
+                                {formData.visitType === 'farmer' && getAnimalSummary(target.id) && (
+                                  <span className="text-xs text-blue-600">🐄 {getAnimalSummary(target.id)}</span>
                                 )}
                               </div>
                             </SelectItem>
@@ -596,16 +540,16 @@ export default function FieldVisitModule() {
                         <SelectValue placeholder="Choose agent..." />
                       </SelectTrigger>
                       <SelectContent>
-                        {users.filter(user => !user.status || user.status === 'active').length === 0 ? (
+                        {visibleUsers.filter(user => user.status === 'active').length === 0 ? (
                           <SelectItem value="no-users" disabled>
                             No field agents available. Please add users first.
                           </SelectItem>
                         ) : (
-                          users.filter(user => !user.status || user.status === 'active').map((user) => (
+                          visibleUsers.filter(user => user.status === 'active').map((user) => (
                             <SelectItem key={user.id} value={user.id}>
                               <div className="flex flex-col">
                                 <span className="font-medium">{user.name}</span>
-                                <span className="text-xs text-gray-500">{user.role || 'Field Agent'} • {user.email}</span>
+                                <span className="text-xs text-gray-500">{getRoleName(user.roleId)} • {user.email}</span>
                               </div>
                             </SelectItem>
                           ))
@@ -892,16 +836,15 @@ export default function FieldVisitModule() {
                     <div className="flex justify-between items-start">
                       <div>
                         <h3 className="font-semibold text-lg">{farmer.name}</h3>
-                        {farmer.animalName && (
+                        {getAnimalSummary(farmer.id) && (
                           <Badge variant="outline" className="mb-2 bg-blue-50 text-blue-700 border-blue-200">
-                            🐄 {farmer.animalName}
+                            🐄 {getAnimalSummary(farmer.id)}
                           </Badge>
                         )}
                         <div className="space-y-1 text-sm text-gray-600">
                           {farmer.phone && <p>📞 {farmer.phone}</p>}
                           {farmer.address && <p>📍 {farmer.address}</p>}
-                          {farmer.fodder && <p>🌾 Fodder: {farmer.fodder}</p>}
-                          {farmer.price > 0 && <p className="font-medium text-green-700">💰 Price: ${farmer.price}</p>}
+                          {describeLastPurchase(farmer.id) && <p>🌾 Last fodder: {describeLastPurchase(farmer.id)}</p>}
                         </div>
                       </div>
                       <Button
@@ -924,7 +867,7 @@ export default function FieldVisitModule() {
 
         <TabsContent value="users" className="space-y-4">
           <div className="grid gap-4">
-            {users.length === 0 ? (
+            {visibleUsers.length === 0 ? (
               <Card>
                 <CardContent className="p-8 text-center">
                   <User className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -936,19 +879,19 @@ export default function FieldVisitModule() {
                 </CardContent>
               </Card>
             ) : (
-              users.map((user) => (
+              visibleUsers.map((user) => (
                 <Card key={user.id}>
                   <CardContent className="p-4">
                     <div className="flex justify-between items-start">
                       <div>
                         <h3 className="font-semibold text-lg">{user.name}</h3>
                         <Badge variant="outline" className="mb-2">
-                          {user.role || 'Field Agent'}
+                          {getRoleName(user.roleId)}
                         </Badge>
                         <div className="space-y-1 text-sm text-gray-600">
                           <p>✉️ {user.email}</p>
-                          <p>📊 Active Visits: {visits.filter(v => v.assignedUserId === user.id && v.status !== 'completed').length}</p>
-                          <p>✅ Completed Visits: {visits.filter(v => v.assignedUserId === user.id && v.status === 'completed').length}</p>
+                          <p>📊 Active Visits: {visibleVisits.filter(v => v.assignedUserId === user.id && v.status !== 'completed').length}</p>
+                          <p>✅ Completed Visits: {visibleVisits.filter(v => v.assignedUserId === user.id && v.status === 'completed').length}</p>
                         </div>
                       </div>
                     </div>
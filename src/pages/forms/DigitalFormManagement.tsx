@@ -18,41 +18,10 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Edit, Trash2, AlertTriangle, Plus, FileText, Users, CheckCircle, Clock, Eye, FilePenLine } from 'lucide-react';
 import { toast } from 'sonner';
+import { formRepository, formSubmissionRepository } from '@/lib/repositories';
+import type { DigitalForm, FormField, FormSubmission } from '@/lib/repositories';
+import { moveToRecycleBin } from '@/lib/recycleBin';
 
-interface FormField {
-  id: string;
-  label: string;
-  type: 'text' | 'email' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date';
-  required: boolean;
-  options?: string[]; // for select, radio
-  placeholder?: string;
-}
-
-interface DigitalForm {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  status: 'draft' | 'active' | 'inactive';
-  fields: FormField[];
-  assignedUserIds: string[];
-  createdBy: string;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface FormSubmission {
-  id: string;
-  formId: string;
-  formTitle: string;
-  submittedBy: string;
-  submittedAt: string;
-  responses: Record<string, any>;
-  status: 'submitted' | 'reviewed' | 'approved' | 'rejected';
-  reviewedBy?: string;
-  reviewedAt?: string;
-  reviewNotes?: string;
-}
 
 const DigitalFormManagement: React.FC = () => {
   const { users, hasPermission, currentUser } = useAuth();
@@ -81,54 +50,20 @@ const DigitalFormManagement: React.FC = () => {
 
   const [fillFormData, setFillFormData] = useState<Record<string, any>>({});
 
-  // Load forms and submissions from localStorage
+  // Load forms and submissions from the repositories
   useEffect(() => {
-    try {
-      const savedForms = localStorage.getItem('hdf_forms');
-      if (savedForms) {
-        const parsedForms = JSON.parse(savedForms);
-        // Ensure all forms have proper structure
-        const validForms = parsedForms.map((form: any) => ({
-          ...form,
-          assignedUserIds: Array.isArray(form.assignedUserIds) ? form.assignedUserIds : [],
-          fields: Array.isArray(form.fields) ? form.fields : [],
-        }));
-        setForms(validForms);
-      }
-    } catch (error) {
-      console.error('Error loading forms:', error);
-      setForms([]);
-    }
-    
-    try {
-      const savedSubmissions = localStorage.getItem('hdf_form_submissions');
-      if (savedSubmissions) {
-        setSubmissions(JSON.parse(savedSubmissions));
-      }
-    } catch (error) {
-      console.error('Error loading submissions:', error);
-      setSubmissions([]);
-    }
+    setForms(formRepository.list());
+    setSubmissions(formSubmissionRepository.list());
   }, []);
 
-  // Save forms to localStorage
   const saveForms = (updatedForms: DigitalForm[]) => {
-    try {
-      localStorage.setItem('hdf_forms', JSON.stringify(updatedForms));
-      setForms(updatedForms);
-    } catch (error) {
-      console.error('Error saving forms:', error);
-    }
+    formRepository.saveAll(updatedForms);
+    setForms(updatedForms);
   };
 
-  // Save submissions to localStorage
   const saveSubmissions = (updatedSubmissions: FormSubmission[]) => {
-    try {
-      localStorage.setItem('hdf_form_submissions', JSON.stringify(updatedSubmissions));
-      setSubmissions(updatedSubmissions);
-    } catch (error) {
-      console.error('Error saving submissions:', error);
-    }
+    formSubmissionRepository.saveAll(updatedSubmissions);
+    setSubmissions(updatedSubmissions);
   };
 
   // Filter forms based on permissions and search
@@ -139,9 +74,8 @@ const DigitalFormManagement: React.FC = () => {
     if (!hasPermission('form_view_all')) {
       // Users can only see forms assigned to them or created by them
       filtered = forms.filter(form => {
-        const assignedUserIds = Array.isArray(form.assignedUserIds) ? form.assignedUserIds : [];
         const currentUserId = currentUser?.id || '';
-        return assignedUserIds.includes(currentUserId) || form.createdBy === currentUserId;
+        return form.assignedUserIds.includes(currentUserId) || form.createdBy === currentUserId;
       });
     }
 
@@ -166,9 +100,8 @@ const DigitalFormManagement: React.FC = () => {
       // Users can only see submissions they made or forms they're assigned to
       const userFormIds = forms
         .filter(form => {
-          const assignedUserIds = Array.isArray(form.assignedUserIds) ? form.assignedUserIds : [];
           const currentUserId = currentUser?.id || '';
-          return assignedUserIds.includes(currentUserId) || form.createdBy === currentUserId;
+          return form.assignedUserIds.includes(currentUserId) || form.createdBy === currentUserId;
         })
         .map(form => form.id);
       
@@ -219,9 +152,9 @@ const DigitalFormManagement: React.FC = () => {
         title: form.title,
         description: form.description,
         category: form.category,
-        status: form.status,
-        assignedUserIds: Array.isArray(form.assignedUserIds) ? form.assignedUserIds : [],
-        fields: Array.isArray(form.fields) ? form.fields : [],
+        status: form.status as 'draft' | 'active' | 'inactive',
+        assignedUserIds: form.assignedUserIds,
+        fields: form.fields,
       });
       setIsFormModalOpen(true);
     }
@@ -231,10 +164,9 @@ const DigitalFormManagement: React.FC = () => {
     const form = forms.find(f => f.id === formId);
     if (form) {
       // Check if user is assigned to this form
-      const assignedUserIds = Array.isArray(form.assignedUserIds) ? form.assignedUserIds : [];
       const currentUserId = currentUser?.id || '';
       
-      if (!assignedUserIds.includes(currentUserId) && form.createdBy !== currentUserId && !hasPermission('form_fill_all')) {
+      if (!form.assignedUserIds.includes(currentUserId) && form.createdBy !== currentUserId && !hasPermission('form_fill_all')) {
         toast.error('You are not assigned to fill this form');
         return;
       }
@@ -308,8 +240,7 @@ const DigitalFormManagement: React.FC = () => {
     if (!fillingForm) return;
 
     // Validate required fields
-    const formFields = Array.isArray(fillingForm.fields) ? fillingForm.fields : [];
-    const missingFields = formFields
+    const missingFields = fillingForm.fields
       .filter(field => field.required && !fillFormData[field.id])
       .map(field => field.label);
 
@@ -336,9 +267,9 @@ const DigitalFormManagement: React.FC = () => {
 
   const handleConfirmDelete = () => {
     if (formToDelete) {
-      const updatedForms = forms.filter(form => form.id !== formToDelete);
-      saveForms(updatedForms);
-      toast.success('Form deleted successfully');
+      moveToRecycleBin('form', formToDelete, currentUser?.id || '');
+      setForms(formRepository.list());
+      toast.success('Form moved to the recycle bin');
       setIsDeleteModalOpen(false);
       setFormToDelete(null);
     }
@@ -808,7 +739,7 @@ const DigitalFormManagement: React.FC = () => {
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
-            {fillingForm && Array.isArray(fillingForm.fields) && fillingForm.fields.map((field) => (
+            {fillingForm?.fields.map((field) => (
               <div key={field.id} className="grid gap-2">
                 <Label htmlFor={field.id}>
                   {field.label} {field.required && <span className="text-red-500">*</span>}
@@ -906,8 +837,7 @@ const DigitalFormManagement: React.FC = () => {
           <div className="grid gap-4 py-4">
             {viewingSubmission && Object.entries(viewingSubmission.responses).map(([fieldId, value]) => {
               const form = forms.find(f => f.id === viewingSubmission.formId);
-              const formFields = form && Array.isArray(form.fields) ? form.fields : [];
-              const field = formFields.find(f => f.id === fieldId);
+              const field = form?.fields.find(f => f.id === fieldId);
               
               return (
                 <div key={fieldId} className="grid gap-2">
@@ -939,7 +869,7 @@ const DigitalFormManagement: React.FC = () => {
               Delete Form
             </DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this form? This action cannot be undone and will also delete all associated submissions.
+              Are you sure you want to delete this form? It will be moved to the recycle bin, and its submissions are kept until the form is purged.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -32,29 +32,10 @@ import {
   ExternalLink
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { formRepository } from '@/lib/repositories';
+import type { DigitalForm, FormField } from '@/lib/repositories';
+import { moveToRecycleBin } from '@/lib/recycleBin';
 
-interface FormField {
-  id: string;
-  type: 'text' | 'email' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date' | 'file';
-  label: string;
-  placeholder?: string;
-  required: boolean;
-  options?: string[];
-}
-
-interface DigitalForm {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  status: 'draft' | 'published' | 'archived';
-  fields: FormField[];
-  isPublic: boolean;
-  createdBy: string;
-  createdAt: string;
-  updatedAt: string;
-  submissionCount?: number;
-}
 
 const FormBuilder: React.FC = () => {
   const { user, hasPermission } = useAuth();
@@ -95,18 +76,14 @@ const FormBuilder: React.FC = () => {
   const [isFieldModalOpen, setIsFieldModalOpen] = useState(false);
   const [editingFieldIndex, setEditingFieldIndex] = useState<number | null>(null);
 
-  // Load forms from localStorage
+  // Load forms from the repository
   useEffect(() => {
-    const savedForms = localStorage.getItem('hdf_forms');
-    if (savedForms) {
-      setForms(JSON.parse(savedForms));
-    }
+    setForms(formRepository.list());
   }, []);
 
-  // Save forms to localStorage
   const saveForms = (updatedForms: DigitalForm[]) => {
     setForms(updatedForms);
-    localStorage.setItem('hdf_forms', JSON.stringify(updatedForms));
+    formRepository.saveAll(updatedForms);
   };
 
   const categories = ['general', 'registration', 'feedback', 'application', 'survey', 'contact'];
@@ -160,7 +137,7 @@ const FormBuilder: React.FC = () => {
         title: form.title,
         description: form.description,
         category: form.category,
-        status: form.status,
+        status: form.status as 'draft' | 'published' | 'archived',
         isPublic: form.isPublic,
         fields: form.fields
       });
@@ -179,9 +156,9 @@ const FormBuilder: React.FC = () => {
 
   const handleConfirmDelete = () => {
     if (formToDelete) {
-      const updatedForms = forms.filter(f => f.id !== formToDelete);
-      saveForms(updatedForms);
-      toast.success('Form deleted successfully');
+      moveToRecycleBin('form', formToDelete, user?.id || '');
+      setForms(formRepository.list());
+      toast.success('Form moved to the recycle bin');
       setIsDeleteModalOpen(false);
       setFormToDelete(null);
     }
@@ -238,6 +215,7 @@ const FormBuilder: React.FC = () => {
       const newForm: DigitalForm = {
         id: `form-${Date.now()}`,
         ...formData,
+        assignedUserIds: [],
         createdBy: user?.id || 'unknown',
         createdAt: now,
         updatedAt: now,
@@ -338,7 +316,7 @@ const FormBuilder: React.FC = () => {
     }
   };
 
-  if (!hasPermission('form_view') && !hasPermission('form_read')) {
+  if (!hasPermission('form_view')) {
     return (
       <div className="flex items-center justify-center h-64">
         <p className="text-gray-500">You don't have permission to view forms.</p>
@@ -818,7 +796,7 @@ const FormBuilder: React.FC = () => {
               Delete Form
             </DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this form? This action cannot be undone and will also delete all associated submissions.
+              Are you sure you want to delete this form? It will be moved to the recycle bin, and its submissions are kept until the form is purged.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
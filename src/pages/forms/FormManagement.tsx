@@ -19,30 +19,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Switch } from '@/components/ui/switch';
 import { Edit, Trash2, AlertTriangle, Plus, FileText, Eye, Copy, Calendar } from 'lucide-react';
 import { toast } from 'sonner';
+import { formRepository } from '@/lib/repositories';
+import type { DigitalForm, FormField } from '@/lib/repositories';
+import { moveToRecycleBin } from '@/lib/recycleBin';
 
-interface FormField {
-  id: string;
-  type: 'text' | 'email' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date' | 'file';
-  label: string;
-  placeholder?: string;
-  required: boolean;
-  options?: string[]; // For select, radio, checkbox
-  validation?: string;
-}
-
-interface DigitalForm {
-  id: string;
-  title: string;
-  description: string;
-  category: 'registration' | 'feedback' | 'application' | 'survey' | 'other';
-  status: 'draft' | 'published' | 'archived';
-  fields: FormField[];
-  createdBy: string;
-  createdAt: string;
-  updatedAt: string;
-  isPublic: boolean;
-  submissionCount: number;
-}
 
 const FormManagement: React.FC = () => {
   const { users, hasPermission, user } = useAuth();
@@ -72,18 +52,14 @@ const FormManagement: React.FC = () => {
     options: [''],
   });
 
-  // Load forms from localStorage
+  // Load forms from the repository
   useEffect(() => {
-    const savedForms = localStorage.getItem('hdf_forms');
-    if (savedForms) {
-      setForms(JSON.parse(savedForms));
-    }
+    setForms(formRepository.list());
   }, []);
 
-  // Save forms to localStorage
   const saveForms = (updatedForms: DigitalForm[]) => {
     setForms(updatedForms);
-    localStorage.setItem('hdf_forms', JSON.stringify(updatedForms));
+    formRepository.saveAll(updatedForms);
   };
 
   const filteredForms = useMemo(() => {
@@ -135,8 +111,8 @@ const FormManagement: React.FC = () => {
       setFormData({
         title: form.title,
         description: form.description,
-        category: form.category,
-        status: form.status,
+        category: form.category as 'registration' | 'feedback' | 'application' | 'survey' | 'other',
+        status: form.status as 'draft' | 'published' | 'archived',
         isPublic: form.isPublic,
         fields: form.fields,
       });
@@ -190,6 +166,7 @@ const FormManagement: React.FC = () => {
       const newForm: DigitalForm = {
         id: `form-${Date.now()}`,
         ...formData,
+        assignedUserIds: [],
         createdBy: user?.id || '',
         createdAt: now,
         updatedAt: now,
@@ -203,9 +180,9 @@ const FormManagement: React.FC = () => {
 
   const handleConfirmDelete = () => {
     if (formToDelete) {
-      const updatedForms = forms.filter(form => form.id !== formToDelete);
-      saveForms(updatedForms);
-      toast.success('Form deleted successfully');
+      moveToRecycleBin('form', formToDelete, user?.id || '');
+      setForms(formRepository.list());
+      toast.success('Form moved to the recycle bin');
       setIsDeleteModalOpen(false);
       setFormToDelete(null);
     }
@@ -412,7 +389,7 @@ const FormManagement: React.FC = () => {
     },
   ];
 
-  if (!hasPermission('form_view') && !hasPermission('form_read')) {
+  if (!hasPermission('form_view')) {
     return (
       <div className="flex items-center justify-center h-64">
         <p className="text-gray-500">You don't have permission to view forms.</p>
@@ -831,7 +808,7 @@ const FormManagement: React.FC = () => {
               Delete Form
             </DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this form? This action cannot be undone and all form submissions will be lost.
+              Are you sure you want to delete this form? It will be moved to the recycle bin, and its submissions are kept until the form is purged.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -15,41 +15,9 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Eye, FileText, Users, Clock, CheckCircle } from 'lucide-react';
 import { toast } from 'sonner';
+import { formRepository, formSubmissionRepository } from '@/lib/repositories';
+import type { DigitalForm, FormSubmission } from '@/lib/repositories';
 
-interface FormSubmission {
-  id: string;
-  formId: string;
-  formTitle: string;
-  submittedBy: string;
-  submittedAt: string;
-  responses: Record<string, any>;
-  status: 'submitted' | 'reviewed' | 'approved' | 'rejected';
-  reviewedBy?: string;
-  reviewedAt?: string;
-  reviewNotes?: string;
-}
-
-interface FormField {
-  id: string;
-  label: string;
-  type: 'text' | 'email' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date';
-  required: boolean;
-  options?: string[];
-  placeholder?: string;
-}
-
-interface DigitalForm {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  status: 'draft' | 'active' | 'inactive';
-  fields: FormField[];
-  assignedUserIds: string[];
-  createdBy: string;
-  createdAt: string;
-  updatedAt: string;
-}
 
 const FormSubmissions: React.FC = () => {
   const { users, hasPermission, currentUser } = useAuth();
@@ -60,23 +28,10 @@ const FormSubmissions: React.FC = () => {
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [viewingSubmission, setViewingSubmission] = useState<FormSubmission | null>(null);
 
-  // Load submissions and forms from localStorage
+  // Load submissions and forms from the repositories
   useEffect(() => {
-    try {
-      const savedSubmissions = localStorage.getItem('hdf_form_submissions');
-      if (savedSubmissions) {
-        setSubmissions(JSON.parse(savedSubmissions));
-      }
-      
-      const savedForms = localStorage.getItem('hdf_forms');
-      if (savedForms) {
-        setForms(JSON.parse(savedForms));
-      }
-    } catch (error) {
-      console.error('Error loading data:', error);
-      setSubmissions([]);
-      setForms([]);
-    }
+    setSubmissions(formSubmissionRepository.list());
+    setForms(formRepository.list());
   }, []);
 
   // Filter submissions based on permissions and search
@@ -88,8 +43,7 @@ const FormSubmissions: React.FC = () => {
       // Users can only see submissions they made or forms they're assigned to
       const userFormIds = forms
         .filter(form => {
-          const assignedUserIds = Array.isArray(form.assignedUserIds) ? form.assignedUserIds : [];
-          return assignedUserIds.includes(currentUser.id) || form.createdBy === currentUser.id;
+          return form.assignedUserIds.includes(currentUser.id) || form.createdBy === currentUser.id;
         })
         .map(form => form.id);
       
@@ -276,8 +230,7 @@ const FormSubmissions: React.FC = () => {
           <div className="grid gap-4 py-4">
             {viewingSubmission && viewingSubmission.responses && Object.entries(viewingSubmission.responses).map(([fieldId, value]) => {
               const form = forms.find(f => f.id === viewingSubmission.formId);
-              const formFields = form && Array.isArray(form.fields) ? form.fields : [];
-              const field = formFields.find(f => f.id === fieldId);
+              const field = form?.fields.find(f => f.id === fieldId);
               
               return (
                 <div key={fieldId} className="grid gap-2">
@@ -9,38 +9,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { CheckCircle, AlertTriangle, FileText, ArrowLeft } from 'lucide-react';
 import { toast } from 'sonner';
+import { formRepository, formSubmissionRepository } from '@/lib/repositories';
+import type { DigitalForm, FormField, FormSubmission } from '@/lib/repositories';
 
-interface FormField {
-  id: string;
-  type: 'text' | 'email' | 'number' | 'textarea' | 'select' | 'checkbox' | 'radio' | 'date' | 'file';
-  label: string;
-  placeholder?: string;
-  required: boolean;
-  options?: string[];
-}
-
-interface DigitalForm {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  status: string;
-  fields: FormField[];
-  isPublic: boolean;
-  submissionCount?: number;
-}
-
-interface FormSubmission {
-  id: string;
-  formId: string;
-  formTitle: string;
-  submittedBy: string;
-  submitterEmail: string;
-  submissionData: Record<string, string | string[]>;
-  submittedAt: string;
-  ipAddress: string;
-  userAgent: string;
-}
 
 const PublicFormView: React.FC = () => {
   const { formId } = useParams<{ formId: string }>();
@@ -57,11 +28,9 @@ const PublicFormView: React.FC = () => {
       return;
     }
 
-    // Load form from localStorage
-    const savedForms = localStorage.getItem('hdf_forms');
-    if (savedForms) {
-      const forms = JSON.parse(savedForms);
-      const foundForm = forms.find((f: DigitalForm) => f.id === formId);
+    // Load form from the repository
+    if (formRepository.isInitialized()) {
+      const foundForm = formRepository.get(formId);
       
       if (!foundForm) {
         toast.error('Form not found');
@@ -182,22 +151,12 @@ const PublicFormView: React.FC = () => {
         userAgent: navigator.userAgent,
       };
 
-      // Save submission to localStorage
-      const savedSubmissions = localStorage.getItem('hdf_form_submissions');
-      const submissions = savedSubmissions ? JSON.parse(savedSubmissions) : [];
-      submissions.push(submission);
-      localStorage.setItem('hdf_form_submissions', JSON.stringify(submissions));
+      formSubmissionRepository.create(submission);
 
       // Update form submission count
-      const savedForms = localStorage.getItem('hdf_forms');
-      if (savedForms) {
-        const forms = JSON.parse(savedForms);
-        const updatedForms = forms.map((f: DigitalForm) => 
-          f.id === form!.id 
-            ? { ...f, submissionCount: (f.submissionCount || 0) + 1 }
-            : f
-        );
-        localStorage.setItem('hdf_forms', JSON.stringify(updatedForms));
+      const savedForm = formRepository.get(form!.id);
+      if (savedForm) {
+        formRepository.update(savedForm.id, { submissionCount: (savedForm.submissionCount || 0) + 1 });
       }
 
       setIsSubmitted(true);
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useDataScope } from '@/hooks/useDataScope';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -20,129 +21,40 @@ import {
   Briefcase
 } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { clientRepository, farmerRepository, fieldVisitRepository, fodderPurchaseRepository, userRepository } from '@/lib/repositories';
+import type { Client, Farmer, FieldVisit, FodderPurchase, User } from '@/lib/repositories';
+import { getOutstanding, getPurchaseTotal } from '@/lib/farmerProfile';
 
-interface Client {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  address: string;
-  type: 'individual' | 'corporate';
-  status: 'active' | 'inactive';
-  registrationDate: string;
-  lastContact: string;
-  notes: string;
-  createdBy?: string;
-}
-
-interface Farmer {
-  id: string;
-  name: string;
-  phone: string;
-  address: string;
-  animalName: string;
-  consultDr: string;
-  drPhone: string;
-  middleMan: string;
-  middleManPhone: string;
-  fodder: string;
-  price: number;
-  registrationDate: string;
-  status: 'active' | 'inactive';
-  notes: string;
-  createdBy?: string;
-}
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  roleId: string;
-}
-
-interface FieldVisit {
-  id: string;
-  visitType: 'client' | 'farmer';
-  assignedUserId: string;
-  assignedUserName: string;
-  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
-  scheduledDate: string;
-  completedAt?: string;
-}
 
 const ReportsModule: React.FC = () => {
   const { hasPermission } = useAuth();
+  const scope = useDataScope();
   const [clients, setClients] = useState<Client[]>([]);
   const [farmers, setFarmers] = useState<Farmer[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [visits, setVisits] = useState<FieldVisit[]>([]);
+  const [fodderPurchases, setFodderPurchases] = useState<FodderPurchase[]>([]);
   const [selectedPeriod, setSelectedPeriod] = useState('30');
 
   // User Report State
   const [selectedUser, setSelectedUser] = useState<string>('all');
   const [reportMonth, setReportMonth] = useState<string>(new Date().toISOString().slice(0, 7)); // YYYY-MM
 
-  // Load data from localStorage
+  // Load data from the repositories
   useEffect(() => {
     loadData();
-  }, []);
+  }, [scope]);
 
+  // Reports only cover records and people inside the user's scope
   const loadData = () => {
-    // Load clients
-    const savedClients = localStorage.getItem('hdf_clients');
-    if (savedClients) {
-      try {
-        const parsed = JSON.parse(savedClients);
-        setClients(Array.isArray(parsed) ? parsed : []);
-      } catch (error) {
-        console.error('Error loading clients:', error);
-        setClients([]);
-      }
-    } else {
-      setClients([]);
-    }
-
-    // Load farmers
-    const savedFarmers = localStorage.getItem('hdf_farmers');
-    if (savedFarmers) {
-      try {
-        const parsed = JSON.parse(savedFarmers);
-        setFarmers(Array.isArray(parsed) ? parsed : []);
-      } catch (error) {
-        console.error('Error loading farmers:', error);
-        setFarmers([]);
-      }
-    } else {
-      setFarmers([]);
-    }
-
-    // Load users
-    const savedUsers = localStorage.getItem('hdf_users');
-    if (savedUsers) {
-      try {
-        const parsed = JSON.parse(savedUsers);
-        setUsers(Array.isArray(parsed) ? parsed : []);
-      } catch (error) {
-        console.error('Error loading users:', error);
-        setUsers([]);
-      }
-    } else {
-      setUsers([]);
-    }
-
-    // Load visits
-    const savedVisits = localStorage.getItem('hdf_field_visits');
-    if (savedVisits) {
-      try {
-        const parsed = JSON.parse(savedVisits);
-        setVisits(Array.isArray(parsed) ? parsed : []);
-      } catch (error) {
-        console.error('Error loading visits:', error);
-        setVisits([]);
-      }
-    } else {
-      setVisits([]);
-    }
+    const usersInScope = scope.userIdsInScope('visit');
+    setClients(scope.filterVisible('client', clientRepository.list()));
+    const visibleFarmers = scope.filterVisible('farmer', farmerRepository.list());
+    const visibleFarmerIds = new Set(visibleFarmers.map(f => f.id));
+    setFarmers(visibleFarmers);
+    setFodderPurchases(fodderPurchaseRepository.list().filter(p => visibleFarmerIds.has(p.farmerId)));
+    setUsers(userRepository.list().filter(u => !usersInScope || usersInScope.has(u.id)));
+    setVisits(scope.filterVisible('visit', fieldVisitRepository.list()));
   };
 
   const getAvailableMonths = () => {
@@ -168,17 +80,12 @@ const ReportsModule: React.FC = () => {
     const startDate = new Date(year, month - 1, 1);
     const endDate = new Date(year, month, 0, 23, 59, 59);
 
-    const safeUsers = Array.isArray(users) ? users : [];
-    const safeVisits = Array.isArray(visits) ? visits : [];
-    const safeClients = Array.isArray(clients) ? clients : [];
-    const safeFarmers = Array.isArray(farmers) ? farmers : [];
-
     // Filter which users we are looking at (either all or a specific one)
-    const targetUsers = selectedUser === 'all' ? safeUsers : safeUsers.filter(u => u.id === selectedUser);
+    const targetUsers = selectedUser === 'all' ? users : users.filter(u => u.id === selectedUser);
 
     return targetUsers.map(user => {
       // Metrics for the selected month
-      const userVisits = safeVisits.filter(v => {
+      const userVisits = visits.filter(v => {
         if (!v.scheduledDate) return false;
         const vDate = new Date(v.scheduledDate);
         return v.assignedUserId === user.id && vDate >= startDate && vDate <= endDate;
@@ -188,14 +95,12 @@ const ReportsModule: React.FC = () => {
       const completedVisits = userVisits.filter(v => v.status === 'completed').length;
       const cancelledVisits = userVisits.filter(v => v.status === 'cancelled').length;
 
-      const clientsAdded = safeClients.filter(c => {
-        if (!c.registrationDate) return false;
+      const clientsAdded = clients.filter(c => {
         const cDate = new Date(c.registrationDate);
         return c.createdBy === user.id && cDate >= startDate && cDate <= endDate;
       }).length;
 
-      const farmersAdded = safeFarmers.filter(f => {
-        if (!f.registrationDate) return false;
+      const farmersAdded = farmers.filter(f => {
         const fDate = new Date(f.registrationDate);
         return f.createdBy === user.id && fDate >= startDate && fDate <= endDate;
       }).length;
@@ -217,18 +122,17 @@ const ReportsModule: React.FC = () => {
 
   // Calculate statistics
   const getClientStats = () => {
-    const safeClients = Array.isArray(clients) ? clients : [];
-    const totalClients = safeClients.length;
-    const activeClients = safeClients.filter(c => c && c.status === 'active').length;
-    const inactiveClients = safeClients.filter(c => c && c.status === 'inactive').length;
-    const individualClients = safeClients.filter(c => c && c.type === 'individual').length;
-    const corporateClients = safeClients.filter(c => c && c.type === 'corporate').length;
+    const totalClients = clients.length;
+    const activeClients = clients.filter(c => c.status === 'active').length;
+    const inactiveClients = clients.filter(c => c.status === 'inactive').length;
+    const individualClients = clients.filter(c => c.type === 'individual').length;
+    const corporateClients = clients.filter(c => c.type === 'corporate').length;
 
     // Recent registrations (last 30 days)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const recentClients = safeClients.filter(c =>
-      c && c.registrationDate && new Date(c.registrationDate) >= thirtyDaysAgo
+    const recentClients = clients.filter(c =>
+      new Date(c.registrationDate) >= thirtyDaysAgo
     ).length;
 
     return {
@@ -242,18 +146,19 @@ const ReportsModule: React.FC = () => {
   };
 
   const getFarmerStats = () => {
-    const safeFarmers = Array.isArray(farmers) ? farmers : [];
-    const totalFarmers = safeFarmers.length;
-    const activeFarmers = safeFarmers.filter(f => f && f.status === 'active').length;
-    const inactiveFarmers = safeFarmers.filter(f => f && f.status === 'inactive').length;
-    const totalValue = safeFarmers.reduce((sum, f) => sum + (f ? f.price || 0 : 0), 0);
+    const totalFarmers = farmers.length;
+    const activeFarmers = farmers.filter(f => f.status === 'active').length;
+    const inactiveFarmers = farmers.filter(f => f.status === 'inactive').length;
+    // Fodder sold to the farmers, now that prices live on the purchases
+    const totalValue = fodderPurchases.reduce((sum, p) => sum + getPurchaseTotal(p), 0);
+    const outstanding = fodderPurchases.reduce((sum, p) => sum + getOutstanding(p), 0);
     const avgPrice = totalFarmers > 0 ? totalValue / totalFarmers : 0;
 
     // Recent registrations (last 30 days)
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const recentFarmers = safeFarmers.filter(f =>
-      f && f.registrationDate && new Date(f.registrationDate) >= thirtyDaysAgo
+    const recentFarmers = farmers.filter(f =>
+      new Date(f.registrationDate) >= thirtyDaysAgo
     ).length;
 
     return {
@@ -261,6 +166,8 @@ const ReportsModule: React.FC = () => {
       active: activeFarmers,
       inactive: inactiveFarmers,
       totalValue: totalValue,
+      collected: totalValue - outstanding,
+      outstanding: outstanding,
       avgPrice: avgPrice,
       recent: recentFarmers,
     };
@@ -272,9 +179,6 @@ const ReportsModule: React.FC = () => {
     const clientData = [];
     const farmerData = [];
 
-    const safeClients = Array.isArray(clients) ? clients : [];
-    const safeFarmers = Array.isArray(farmers) ? farmers : [];
-
     for (let i = 5; i >= 0; i--) {
       const date = new Date();
       date.setMonth(date.getMonth() - i);
@@ -284,14 +188,12 @@ const ReportsModule: React.FC = () => {
       const monthStart = new Date(date.getFullYear(), date.getMonth(), 1);
       const monthEnd = new Date(date.getFullYear(), date.getMonth() + 1, 0);
 
-      const clientCount = safeClients.filter(c => {
-        if (!c || !c.registrationDate) return false;
+      const clientCount = clients.filter(c => {
         const regDate = new Date(c.registrationDate);
         return regDate >= monthStart && regDate <= monthEnd;
       }).length;
 
-      const farmerCount = safeFarmers.filter(f => {
-        if (!f || !f.registrationDate) return false;
+      const farmerCount = farmers.filter(f => {
         const regDate = new Date(f.registrationDate);
         return regDate >= monthStart && regDate <= monthEnd;
       }).length;
@@ -303,6 +205,29 @@ const ReportsModule: React.FC = () => {
     return { months, clientData, farmerData };
   };
 
+  // Fodder sales per month by order date, split into what has been paid and what is still owed
+  const getRevenueTrend = () => {
+    const months = [];
+    for (let i = 5; i >= 0; i--) {
+      const date = new Date();
+      date.setMonth(date.getMonth() - i, 1);
+      const monthPurchases = fodderPurchases.filter(p => {
+        const purchasedAt = new Date(p.purchasedAt);
+        return purchasedAt.getFullYear() === date.getFullYear() && purchasedAt.getMonth() === date.getMonth();
+      });
+      const sales = monthPurchases.reduce((sum, p) => sum + getPurchaseTotal(p), 0);
+      const outstanding = monthPurchases.reduce((sum, p) => sum + getOutstanding(p), 0);
+      months.push({
+        month: date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+        orders: monthPurchases.length,
+        sales,
+        collected: sales - outstanding,
+        outstanding,
+      });
+    }
+    return months;
+  };
+
   const exportReport = (type: string) => {
     const clientStats = getClientStats();
     const farmerStats = getFarmerStats();
@@ -339,6 +264,8 @@ const ReportsModule: React.FC = () => {
   const clientStats = getClientStats();
   const farmerStats = getFarmerStats();
   const registrationTrend = getRegistrationTrend();
+  const revenueTrend = getRevenueTrend();
+  const maxMonthlySales = Math.max(...revenueTrend.map(month => month.sales), 1);
 
   return (
     <div className="space-y-6">
@@ -396,13 +323,13 @@ const ReportsModule: React.FC = () => {
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Value</CardTitle>
+            <CardTitle className="text-sm font-medium">Fodder Sales</CardTitle>
             <Briefcase className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">${farmerStats.totalValue.toLocaleString()}</div>
             <p className="text-xs text-muted-foreground">
-              cumulative amount
+              ${farmerStats.outstanding.toLocaleString()} outstanding
             </p>
           </CardContent>
         </Card>
@@ -596,11 +523,19 @@ const ReportsModule: React.FC = () => {
               <CardContent>
                 <div className="space-y-2">
                   <div className="flex justify-between">
-                    <span>Total Value</span>
+                    <span>Fodder Sales</span>
                     <Badge variant="outline">${farmerStats.totalValue.toLocaleString()}</Badge>
                   </div>
                   <div className="flex justify-between">
-                    <span>Average Price</span>
+                    <span>Collected</span>
+                    <Badge variant="outline">${farmerStats.collected.toLocaleString()}</Badge>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Outstanding</span>
+                    <Badge variant="outline">${farmerStats.outstanding.toLocaleString()}</Badge>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>Sales per Farmer</span>
                     <Badge variant="outline">${farmerStats.avgPrice.toFixed(0)}</Badge>
                   </div>
                 </div>
@@ -829,6 +764,44 @@ const ReportsModule: React.FC = () => {
               )}
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="h-5 w-5" />
+                Fodder Revenue (Last 6 Months)
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {revenueTrend.map(month => (
+                  <div key={month.month} className="flex items-center justify-between">
+                    <span className="text-sm font-medium w-20">{month.month}</span>
+                    <div className="flex-1 mx-4">
+                      <div className="flex h-6 bg-gray-100 rounded overflow-hidden">
+                        <div className="bg-green-500" style={{ width: `${(month.collected / maxMonthlySales) * 100}%` }} />
+                        <div className="bg-red-400" style={{ width: `${(month.outstanding / maxMonthlySales) * 100}%` }} />
+                      </div>
+                    </div>
+                    <div className="text-right text-sm w-32">
+                      <div className="font-medium">${month.sales.toLocaleString()}</div>
+                      <div className="text-xs text-gray-500">{month.orders} orders</div>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex items-center gap-4 mt-4 text-sm">
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 bg-green-500 rounded"></div>
+                    <span>Collected</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 bg-red-400 rounded"></div>
+                    <span>Outstanding</span>
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,224 @@
+// The app's page routes and the sidebar share this table, so a page can't be
+// reachable by URL while hidden from the menu (or the other way round).
+
+import type React from 'react';
+import {
+  LayoutDashboard,
+  Users,
+  Shield,
+  Building,
+  MapPin,
+  ClipboardList,
+  PieChart,
+  HeadphonesIcon,
+  MessageCircle,
+  Phone,
+  History,
+  Trash2,
+  Sprout,
+  PawPrint,
+  Stethoscope,
+  Handshake,
+  Wheat,
+  SlidersHorizontal,
+} from 'lucide-react';
+import type { RouteAccess } from '@/lib/routeAccess';
+import Dashboard from '@/pages/Dashboard';
+import UserManagement from '@/pages/admin/UserManagement';
+import RoleManagement from '@/pages/admin/RoleManagement';
+import AuditLog from '@/pages/admin/AuditLog';
+import RecycleBin from '@/pages/admin/RecycleBin';
+import CustomFields from '@/pages/admin/CustomFields';
+import ClientManagement from '@/pages/clients/ClientManagement';
+import { ClientProfile, FarmerProfile } from '@/pages/clients/CustomerProfile';
+import AnimalRegistry from '@/pages/farmers/AnimalRegistry';
+import Veterinarians from '@/pages/farmers/Veterinarians';
+import Middlemen from '@/pages/farmers/Middlemen';
+import FodderPurchases from '@/pages/farmers/FodderPurchases';
+import FormBuilder from '@/pages/forms/FormBuilder';
+import FormSubmissions from '@/pages/forms/FormSubmissions';
+import DigitalFormManagement from '@/pages/forms/DigitalFormManagement';
+import CustomerCareModule from '@/pages/customer-care/CustomerCareModule';
+import ReportsModule from '@/pages/reports/ReportsModule';
+import WhatsAppModule from '@/pages/communication/WhatsAppModule';
+import SIPTrunkModule from '@/pages/communication/SIPTrunkModule';
+import FieldVisitModule from '@/pages/field-visits/FieldVisitModule';
+import ChangePassword from '@/pages/account/ChangePassword';
+import TwoFactorSettings from '@/pages/account/TwoFactorSettings';
+
+type Icon = React.ComponentType<{ className?: string }>;
+
+export interface NavigationGroup {
+  name: string;
+  href: string;
+  icon: Icon;
+}
+
+export interface AppRoute extends RouteAccess {
+  // Relative to the dashboard layout, e.g. 'admin/users'
+  path: string;
+  component: React.ComponentType;
+  // Routes without nav are reachable but not listed in the sidebar
+  nav?: {
+    name: string;
+    icon: Icon;
+    group?: NavigationGroup;
+  };
+}
+
+export interface NavigationItem extends RouteAccess {
+  name: string;
+  href: string;
+  icon: Icon;
+  children?: NavigationItem[];
+}
+
+const administration: NavigationGroup = { name: 'Administration', href: '/admin', icon: Shield };
+const forms: NavigationGroup = { name: 'Forms', href: '/forms', icon: ClipboardList };
+const communication: NavigationGroup = { name: 'Communication', href: '/communication', icon: MessageCircle };
+const farmerRecords: NavigationGroup = { name: 'Farmer Records', href: '/farmers', icon: Sprout };
+
+export const appRoutes: AppRoute[] = [
+  { path: 'dashboard', component: Dashboard, nav: { name: 'Dashboard', icon: LayoutDashboard } },
+
+  // Account
+  { path: 'account/password', component: ChangePassword },
+  { path: 'account/two-factor', component: TwoFactorSettings },
+
+  // Administration
+  {
+    path: 'admin/users',
+    component: UserManagement,
+    permissions: ['user_read'],
+    nav: { name: 'User Management', icon: Users, group: administration },
+  },
+  {
+    path: 'admin/roles',
+    component: RoleManagement,
+    permissions: ['role_read'],
+    nav: { name: 'Role Management', icon: Shield, group: administration },
+  },
+  {
+    path: 'admin/audit',
+    component: AuditLog,
+    permissions: ['audit_view'],
+    nav: { name: 'Audit Log', icon: History, group: administration },
+  },
+  {
+    path: 'admin/recycle-bin',
+    component: RecycleBin,
+    permissions: ['recycle_bin_restore', 'recycle_bin_purge'],
+    match: 'any',
+    nav: { name: 'Recycle Bin', icon: Trash2, group: administration },
+  },
+  {
+    path: 'admin/custom-fields',
+    component: CustomFields,
+    permissions: ['custom_field_manage'],
+    nav: { name: 'Custom Fields', icon: SlidersHorizontal, group: administration },
+  },
+
+  { path: 'clients', component: ClientManagement, permissions: ['client_read'], nav: { name: 'Clients', icon: Building } },
+  // One client or farmer with its full history
+  { path: 'clients/:id', component: ClientProfile, permissions: ['client_read'] },
+  { path: 'farmers/:id', component: FarmerProfile, permissions: ['farmer_read'] },
+
+  // Farmer records; each list page also shows one record at its :id route
+  {
+    path: 'farmers/animals',
+    component: AnimalRegistry,
+    permissions: ['farmer_read'],
+    nav: { name: 'Animals', icon: PawPrint, group: farmerRecords },
+  },
+  { path: 'farmers/animals/:id', component: AnimalRegistry, permissions: ['farmer_read'] },
+  {
+    path: 'farmers/veterinarians',
+    component: Veterinarians,
+    permissions: ['farmer_read'],
+    nav: { name: 'Veterinarians', icon: Stethoscope, group: farmerRecords },
+  },
+  { path: 'farmers/veterinarians/:id', component: Veterinarians, permissions: ['farmer_read'] },
+  {
+    path: 'farmers/middlemen',
+    component: Middlemen,
+    permissions: ['farmer_read'],
+    nav: { name: 'Middlemen', icon: Handshake, group: farmerRecords },
+  },
+  { path: 'farmers/middlemen/:id', component: Middlemen, permissions: ['farmer_read'] },
+  {
+    path: 'farmers/fodder',
+    component: FodderPurchases,
+    permissions: ['farmer_read'],
+    nav: { name: 'Fodder Purchases', icon: Wheat, group: farmerRecords },
+  },
+  { path: 'farmers/fodder/:id', component: FodderPurchases, permissions: ['farmer_read'] },
+
+  { path: 'field-visits', component: FieldVisitModule, permissions: ['visit_read'], nav: { name: 'Field Visits', icon: MapPin } },
+
+  // Forms
+  {
+    path: 'forms',
+    component: DigitalFormManagement,
+    permissions: ['form_view'],
+    nav: { name: 'Form Management', icon: ClipboardList, group: forms },
+  },
+  { path: 'forms/builder', component: FormBuilder, permissions: ['form_create', 'form_update'], match: 'any' },
+  { path: 'forms/submissions', component: FormSubmissions, permissions: ['form_view'] },
+
+  { path: 'reports', component: ReportsModule, permissions: ['reports_view'], nav: { name: 'Reports', icon: PieChart } },
+  {
+    path: 'customer-care',
+    component: CustomerCareModule,
+    permissions: ['customer_care_access'],
+    nav: { name: 'Customer Care', icon: HeadphonesIcon },
+  },
+
+  // Communication
+  {
+    path: 'communication/whatsapp',
+    component: WhatsAppModule,
+    permissions: ['communication_access'],
+    nav: { name: 'WhatsApp', icon: MessageCircle, group: communication },
+  },
+  {
+    path: 'communication/sip-trunk',
+    component: SIPTrunkModule,
+    permissions: ['communication_access'],
+    nav: { name: 'SIP Call', icon: Phone, group: communication },
+  },
+];
+
+// Builds the sidebar tree in route order; a group appears where its first route does
+export const buildNavigation = (routes: AppRoute[]): NavigationItem[] => {
+  const items: NavigationItem[] = [];
+  const groups = new Map<NavigationGroup, NavigationItem>();
+
+  routes.forEach(route => {
+    if (!route.nav) return;
+
+    const item: NavigationItem = {
+      name: route.nav.name,
+      href: `/${route.path}`,
+      icon: route.nav.icon,
+      permissions: route.permissions,
+      match: route.match,
+    };
+    const { group } = route.nav;
+    if (!group) {
+      items.push(item);
+      return;
+    }
+
+    let groupItem = groups.get(group);
+    if (!groupItem) {
+      groupItem = { ...group, children: [] };
+      groups.set(group, groupItem);
+      items.push(groupItem);
+    }
+    groupItem.children.push(item);
+  });
+
+  return items;
+};
+
+export const navigationItems = buildNavigation(appRoutes);
@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'localStorage' (default), 'indexedDB' or 'rest'
+  readonly VITE_STORAGE_BACKEND?: string;
+  // Base URL of the collections API, required for the 'rest' backend
+  readonly VITE_API_BASE_URL?: string;
+  // Poll interval in ms for picking up changes from other REST clients
+  readonly VITE_STORAGE_POLL_INTERVAL?: string;
+  // 'true' logs pending schema migrations at boot without writing them
+  readonly VITE_MIGRATIONS_DRY_RUN?: string;
+  // 'false' hides the Login demo accounts and stops restoring them at boot
+  readonly VITE_DEMO_FIXTURES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}